@@ -104,6 +104,7 @@ export default [
                     "require('node:https')": "null",
                     "require('node:fs/promises')": "null",
                     "require('node:fs')": "({ existsSync: () => false })",
+                    "require('node:path')": "null",
                 }
             }),
             ...createBaseConfig(false).plugins,
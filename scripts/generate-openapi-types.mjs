@@ -0,0 +1,381 @@
+#!/usr/bin/env node
+/**
+ * Generates snake_case API types and zod schemas from `OpenAPI Specification.json`.
+ *
+ * Usage:
+ *   node scripts/generate-openapi-types.mjs          # (re)write the generated modules
+ *   node scripts/generate-openapi-types.mjs --check  # exit 1 when they are out of date
+ *
+ * Component schemas are prefixed with the API they belong to (`Mf1` for the E-Receipt IT API,
+ * `Mf2` for the PEL platform). JSON-LD / XML variants and Hydra envelopes are skipped: the SDK
+ * only speaks plain JSON.
+ */
+import { readFileSync, writeFileSync } from 'node:fs';
+import { dirname, join, relative } from 'node:path';
+import { fileURLToPath } from 'node:url';
+
+import * as prettier from 'prettier';
+
+const ROOT = join(dirname(fileURLToPath(import.meta.url)), '..');
+const SPEC_PATH = join(ROOT, 'OpenAPI Specification.json');
+const OUTPUT_DIR = join(ROOT, 'src/shared/openapi');
+const TYPES_FILE = join(OUTPUT_DIR, 'api-types.generated.ts');
+const SCHEMAS_FILE = join(OUTPUT_DIR, 'api-schemas.generated.ts');
+
+const API_PREFIXES = [
+  { specPrefix: 'E-Receipt_IT_API_', prefix: 'Mf1' },
+  { specPrefix: 'A-Cube_GOV-IT_PEL_Platform_', prefix: 'Mf2' },
+];
+
+const HEADER = [
+  '/**',
+  ' * THIS FILE IS GENERATED by scripts/generate-openapi-types.mjs from OpenAPI Specification.json.',
+  ' * Do not edit it by hand: run `npm run generate:api` after updating the specification.',
+  ' */',
+].join('\n');
+
+// ---------------------------------------------------------------------------
+// Naming
+// ---------------------------------------------------------------------------
+
+function isSkipped(specName) {
+  return /\.(jsonld|xml)$/.test(specName) || specName.includes('Hydra');
+}
+
+/**
+ * `Merchant.MerchantOutput` -> `MerchantOutput`, `Pem.PointOfSaleOutput` -> `PemPointOfSaleOutput`,
+ * `Page__T_Customized_CashierSimpleOutput_` -> `PageCashierSimpleOutput`.
+ */
+function localName(name) {
+  const segments = name.split('.');
+  const last = segments.pop();
+  const group = segments.join('');
+  const base = group && !last.startsWith(group) ? `${group}${last}` : last;
+  return base
+    .replace(/__T_Customized_/g, '')
+    .split('_')
+    .filter(Boolean)
+    .join('');
+}
+
+function buildNameTable(schemas) {
+  const names = new Map();
+  for (const specName of Object.keys(schemas)) {
+    if (isSkipped(specName)) continue;
+    const api = API_PREFIXES.find(({ specPrefix }) => specName.startsWith(specPrefix));
+    if (!api) continue;
+    const name = `${api.prefix}${localName(specName.slice(api.specPrefix.length))}`;
+    if ([...names.values()].includes(name)) {
+      throw new Error(`Generated name ${name} is used by more than one schema (${specName})`);
+    }
+    names.set(specName, name);
+  }
+  return names;
+}
+
+function refName(ref) {
+  const prefix = '#/components/schemas/';
+  if (!ref.startsWith(prefix)) {
+    throw new Error(`Unsupported $ref ${ref}`);
+  }
+  return ref.slice(prefix.length);
+}
+
+function quoteKey(key) {
+  return /^[A-Za-z_$][\w$]*$/.test(key) ? key : `'${key}'`;
+}
+
+function literal(value) {
+  return typeof value === 'string'
+    ? `'${value.replace(/\\/g, '\\\\').replace(/'/g, "\\'")}'`
+    : JSON.stringify(value);
+}
+
+function docComment(schema, indent = '') {
+  const text = (schema.description ?? '').replace(/\s+/g, ' ').replace(/\*\//g, '* /').trim();
+  return text ? `${indent}/** ${text} */\n` : '';
+}
+
+// ---------------------------------------------------------------------------
+// Schema helpers
+// ---------------------------------------------------------------------------
+
+function schemaTypes(schema) {
+  if (Array.isArray(schema.type)) return schema.type;
+  return schema.type ? [schema.type] : [];
+}
+
+/** Splits `anyOf: [X, {type: 'null'}]` and `type: ['string', 'null']` into variants + nullability. */
+function splitNullable(schema) {
+  const variants = schema.anyOf ?? schema.oneOf;
+  if (variants) {
+    const nonNull = variants.filter((variant) => variant.type !== 'null');
+    return { variants: nonNull, nullable: nonNull.length !== variants.length || !!schema.nullable };
+  }
+  const types = schemaTypes(schema);
+  if (types.length > 1) {
+    const nonNull = types.filter((type) => type !== 'null');
+    return {
+      variants: nonNull.map((type) => ({ ...schema, type })),
+      nullable: nonNull.length !== types.length || !!schema.nullable,
+    };
+  }
+  return { variants: null, nullable: !!schema.nullable || types[0] === 'null' };
+}
+
+// ---------------------------------------------------------------------------
+// TypeScript emitter
+// ---------------------------------------------------------------------------
+
+function tsType(schema, names) {
+  if (schema.$ref) return names.get(refName(schema.$ref)) ?? 'unknown';
+
+  const { variants, nullable } = splitNullable(schema);
+  if (variants) {
+    const union = [...new Set(variants.map((variant) => tsType(variant, names)))];
+    if (nullable) union.push('null');
+    return union.join(' | ');
+  }
+
+  const base = tsBaseType(schema, names);
+  return nullable && base !== 'null' ? `${base} | null` : base;
+}
+
+function tsBaseType(schema, names) {
+  if (schema.allOf) {
+    return schema.allOf.map((part) => tsType(part, names)).join(' & ');
+  }
+  if (schema.const !== undefined) return literal(schema.const);
+  if (schema.enum) return schema.enum.map(literal).join(' | ');
+
+  switch (schemaTypes(schema)[0]) {
+    case 'string':
+      return 'string';
+    case 'integer':
+    case 'number':
+      return 'number';
+    case 'boolean':
+      return 'boolean';
+    case 'null':
+      return 'null';
+    case 'array': {
+      const items = tsType(schema.items ?? {}, names);
+      return /[|&\s]/.test(items) ? `Array<${items}>` : `${items}[]`;
+    }
+    case 'object':
+      return schema.properties ? tsObjectLiteral(schema, names, '') : 'Record<string, unknown>';
+    default:
+      return schema.properties ? tsObjectLiteral(schema, names, '') : 'unknown';
+  }
+}
+
+function tsProperties(schema, names, indent) {
+  const required = new Set(schema.required ?? []);
+  return Object.entries(schema.properties ?? {})
+    .map(([key, property]) => {
+      const optional = required.has(key) ? '' : '?';
+      return `${docComment(property, indent)}${indent}${quoteKey(key)}${optional}: ${tsType(property, names)};`;
+    })
+    .join('\n');
+}
+
+function tsObjectLiteral(schema, names, indent) {
+  return `{\n${tsProperties(schema, names, `${indent}  `)}\n${indent}}`;
+}
+
+function tsDeclaration(specName, schema, names) {
+  const name = names.get(specName);
+  const doc = docComment(schema);
+  const isPlainObject =
+    !schema.allOf && !schema.anyOf && !schema.oneOf && !schema.enum && schema.properties;
+  if (isPlainObject) {
+    return `${doc}export interface ${name} {\n${tsProperties(schema, names, '  ')}\n}`;
+  }
+  return `${doc}export type ${name} = ${tsType(schema, names)};`;
+}
+
+// ---------------------------------------------------------------------------
+// Zod emitter
+// ---------------------------------------------------------------------------
+
+function schemaName(name) {
+  return `${name}Schema`;
+}
+
+function zodType(schema, names) {
+  if (schema.$ref) {
+    const target = names.get(refName(schema.$ref));
+    return target ? schemaName(target) : 'z.unknown()';
+  }
+
+  const { variants, nullable } = splitNullable(schema);
+  let expression;
+  if (variants) {
+    const options = [...new Set(variants.map((variant) => zodType(variant, names)))];
+    expression = options.length === 1 ? options[0] : `z.union([${options.join(', ')}])`;
+  } else {
+    expression = zodBaseType(schema, names);
+  }
+  return nullable && expression !== 'z.null()' ? `${expression}.nullable()` : expression;
+}
+
+function zodBaseType(schema, names) {
+  if (schema.allOf) {
+    const [first, ...rest] = schema.allOf.map((part) => zodType(part, names));
+    return rest.reduce((acc, part) => `z.intersection(${acc}, ${part})`, first);
+  }
+  if (schema.const !== undefined) return `z.literal(${literal(schema.const)})`;
+  if (schema.enum) {
+    return schema.enum.every((value) => typeof value === 'string')
+      ? `z.enum([${schema.enum.map(literal).join(', ')}])`
+      : `z.union([${schema.enum.map((value) => `z.literal(${literal(value)})`).join(', ')}])`;
+  }
+
+  switch (schemaTypes(schema)[0]) {
+    case 'string':
+      return zodString(schema);
+    case 'integer':
+      return `z.number().int()${zodNumberChecks(schema)}`;
+    case 'number':
+      return `z.number()${zodNumberChecks(schema)}`;
+    case 'boolean':
+      return 'z.boolean()';
+    case 'null':
+      return 'z.null()';
+    case 'array': {
+      let expression = `z.array(${zodType(schema.items ?? {}, names)})`;
+      if (schema.minItems !== undefined) expression += `.min(${schema.minItems})`;
+      if (schema.maxItems !== undefined) expression += `.max(${schema.maxItems})`;
+      return expression;
+    }
+    case 'object':
+      return schema.properties ? zodObject(schema, names) : 'z.record(z.string(), z.unknown())';
+    default:
+      return schema.properties ? zodObject(schema, names) : 'z.unknown()';
+  }
+}
+
+function zodString(schema) {
+  let expression = schema.format === 'email' ? 'z.email()' : 'z.string()';
+  if (schema.minLength !== undefined) expression += `.min(${schema.minLength})`;
+  if (schema.maxLength !== undefined) expression += `.max(${schema.maxLength})`;
+  if (schema.pattern !== undefined) {
+    expression += `.regex(/${schema.pattern.replace(/\//g, '\\/')}/)`;
+  }
+  return expression;
+}
+
+function zodNumberChecks(schema) {
+  let checks = '';
+  if (typeof schema.minimum === 'number') checks += `.min(${schema.minimum})`;
+  if (typeof schema.exclusiveMinimum === 'number') checks += `.gt(${schema.exclusiveMinimum})`;
+  if (typeof schema.maximum === 'number') checks += `.max(${schema.maximum})`;
+  if (typeof schema.exclusiveMaximum === 'number') checks += `.lt(${schema.exclusiveMaximum})`;
+  return checks;
+}
+
+function zodObject(schema, names) {
+  const required = new Set(schema.required ?? []);
+  const entries = Object.entries(schema.properties).map(([key, property]) => {
+    const optional = required.has(key) ? '' : '.optional()';
+    return `${quoteKey(key)}: ${zodType(property, names)}${optional},`;
+  });
+  return `z.object({\n${entries.join('\n')}\n})`;
+}
+
+/** Orders schemas so that every `const` is declared after the schemas it references. */
+function dependencyOrder(schemas, names) {
+  const ordered = [];
+  const state = new Map();
+
+  const visit = (specName) => {
+    if (state.get(specName) === 'done') return;
+    if (state.get(specName) === 'visiting') {
+      throw new Error(`Circular schema reference through ${specName}`);
+    }
+    state.set(specName, 'visiting');
+    for (const ref of collectRefs(schemas[specName])) {
+      if (names.has(ref)) visit(ref);
+    }
+    state.set(specName, 'done');
+    ordered.push(specName);
+  };
+
+  for (const specName of names.keys()) visit(specName);
+  return ordered;
+}
+
+function collectRefs(value, refs = new Set()) {
+  if (Array.isArray(value)) {
+    value.forEach((item) => collectRefs(item, refs));
+  } else if (value && typeof value === 'object') {
+    if (typeof value.$ref === 'string') refs.add(refName(value.$ref));
+    Object.values(value).forEach((item) => collectRefs(item, refs));
+  }
+  return refs;
+}
+
+// ---------------------------------------------------------------------------
+// Output
+// ---------------------------------------------------------------------------
+
+function generateTypes(schemas, names) {
+  const declarations = [...names.keys()].map((specName) =>
+    tsDeclaration(specName, schemas[specName], names)
+  );
+  return `${HEADER}\n\n${declarations.join('\n\n')}\n`;
+}
+
+function generateSchemas(schemas, names) {
+  const declarations = dependencyOrder(schemas, names).map((specName) => {
+    const name = names.get(specName);
+    return `export const ${schemaName(name)} = ${zodType(schemas[specName], names)};`;
+  });
+  // Patterns are copied verbatim from the specification, escapes included.
+  const lint = '/* eslint-disable no-useless-escape */';
+  return `${HEADER}\n${lint}\nimport * as z from 'zod';\n\n${declarations.join('\n\n')}\n`;
+}
+
+async function format(source, filepath) {
+  const options = await prettier.resolveConfig(filepath);
+  return prettier.format(source, { ...options, filepath });
+}
+
+async function main() {
+  const check = process.argv.includes('--check');
+  const spec = JSON.parse(readFileSync(SPEC_PATH, 'utf8'));
+  const schemas = spec.components?.schemas ?? {};
+  const names = buildNameTable(schemas);
+
+  const outputs = [
+    [TYPES_FILE, generateTypes(schemas, names)],
+    [SCHEMAS_FILE, generateSchemas(schemas, names)],
+  ];
+
+  let stale = false;
+  for (const [file, source] of outputs) {
+    const formatted = await format(source, file);
+    let current = null;
+    try {
+      current = readFileSync(file, 'utf8');
+    } catch {
+      current = null;
+    }
+
+    if (current === formatted) continue;
+    if (check) {
+      stale = true;
+      console.error(`${relative(ROOT, file)} is out of date, run \`npm run generate:api\``);
+    } else {
+      writeFileSync(file, formatted);
+      console.log(`Wrote ${relative(ROOT, file)}`);
+    }
+  }
+
+  if (stale) process.exitCode = 1;
+}
+
+main().catch((error) => {
+  console.error(error);
+  process.exitCode = 1;
+});
@@ -1,4 +1,5 @@
 import { DailyReportsParams } from '@/domain/entities/daily-report.entity';
+import { Money } from '@/domain/value-objects/money.vo';
 
 import { DailyReportApiOutput, DailyReportMapper } from '../daily-report.dto';
 
@@ -21,7 +22,7 @@ describe('DailyReportMapper', () => {
         pemSerialNumber: 'PEM-SN-001',
         date: '2024-01-15',
         totalReceipts: 150,
-        totalAmount: '15000.00',
+        totalAmount: Money.of('15000.00'),
         status: 'sent',
       });
     });
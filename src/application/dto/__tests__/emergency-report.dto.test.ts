@@ -0,0 +1,108 @@
+import { EmergencyReportInput } from '@/domain/entities/emergency-report.entity';
+
+import { EmergencyReportApiOutput, EmergencyReportMapper } from '../emergency-report.dto';
+
+describe('EmergencyReportMapper', () => {
+  describe('toApiInput', () => {
+    it('should map camelCase to snake_case', () => {
+      const input: EmergencyReportInput = {
+        datetime: '2024-01-15T18:30:00Z',
+        documentsCount: 12,
+        cashPaymentAmount: '100',
+        electronicPaymentAmount: '50.5',
+        ticketRestaurantPaymentAmount: '8',
+        ticketRestaurantQuantity: 2,
+      };
+
+      const result = EmergencyReportMapper.toApiInput(input);
+
+      expect(result).toEqual({
+        datetime: '2024-01-15T18:30:00Z',
+        documents_count: 12,
+        cash_payment_amount: '100.00',
+        electronic_payment_amount: '50.50',
+        ticket_restaurant_payment_amount: '8.00',
+        ticket_restaurant_quantity: 2,
+        entries: undefined,
+      });
+    });
+
+    it('should map entries with formatted amounts', () => {
+      const input: EmergencyReportInput = {
+        datetime: '2024-01-15T18:30:00Z',
+        entries: [
+          {
+            vatRateCode: '22.00',
+            vatAmount: '22',
+            partialAmount: '100',
+            totalReturnedAmount: '5',
+            atecoCode: '47.11.10',
+          },
+          {
+            vatRateCode: 'N2',
+            partialAmount: '30',
+            simplifiedVatAllocation: true,
+          },
+        ],
+      };
+
+      const result = EmergencyReportMapper.toApiInput(input);
+
+      expect(result.entries).toHaveLength(2);
+      expect(result.entries?.[0]).toMatchObject({
+        vat_rate_code: '22.00',
+        vat_amount: '22.00',
+        partial_amount: '100.00',
+        total_returned_amount: '5.00',
+        ateco_code: '47.11.10',
+      });
+      expect(result.entries?.[1]).toMatchObject({
+        vat_rate_code: 'N2',
+        partial_amount: '30.00',
+        simplified_vat_allocation: true,
+      });
+      expect(result.entries?.[1]?.vat_amount).toBeUndefined();
+    });
+  });
+
+  describe('fromApiOutput', () => {
+    it('should map closed_at to closedAt', () => {
+      const output: EmergencyReportApiOutput = {
+        id: 42,
+        closed_at: '2024-01-15T18:30:00Z',
+      };
+
+      const result = EmergencyReportMapper.fromApiOutput(output);
+
+      expect(result).toEqual({
+        id: 42,
+        closedAt: '2024-01-15T18:30:00Z',
+      });
+    });
+  });
+
+  describe('toListParams', () => {
+    it('should return empty object for undefined params', () => {
+      expect(EmergencyReportMapper.toListParams(undefined)).toEqual({});
+    });
+
+    it('should keep itemsPerPage as the API expects it', () => {
+      const result = EmergencyReportMapper.toListParams({ page: 2, itemsPerPage: 10 });
+
+      expect(result).toEqual({ page: 2, itemsPerPage: 10 });
+    });
+  });
+
+  describe('listFromApi', () => {
+    it('should map each report', () => {
+      const result = EmergencyReportMapper.listFromApi([
+        { id: 1, closed_at: '2024-01-15T18:30:00Z' },
+        { id: 2 },
+      ]);
+
+      expect(result).toHaveLength(2);
+      expect(result[0]?.closedAt).toBe('2024-01-15T18:30:00Z');
+      expect(result[1]?.id).toBe(2);
+    });
+  });
+});
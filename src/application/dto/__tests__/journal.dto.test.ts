@@ -1,4 +1,5 @@
 import { JournalCloseInput, JournalsParams } from '@/domain/entities/journal.entity';
+import { Money } from '@/domain/value-objects/money.vo';
 
 import { JournalApiOutput, JournalMapper } from '../journal.dto';
 
@@ -23,7 +24,7 @@ describe('JournalMapper', () => {
         date: '2024-01-15',
         sequenceNumber: 42,
         totalReceipts: 75,
-        totalAmount: '7500.00',
+        totalAmount: Money.of('7500.00'),
         status: 'open',
       });
     });
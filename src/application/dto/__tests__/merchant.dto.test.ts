@@ -1,5 +1,6 @@
 import { MerchantCreateInput, MerchantUpdateInput } from '@/domain/entities/merchant.entity';
 import { Address } from '@/domain/value-objects/address.vo';
+import { LdJsonPage } from '@/domain/value-objects/page.vo';
 
 import { AddressMapper, MerchantApiOutput, MerchantMapper } from '../merchant.dto';
 
@@ -232,16 +233,17 @@ describe('MerchantMapper', () => {
   });
 
   describe('pageFromApi', () => {
-    it('should map empty array to empty array', () => {
-      const response: MerchantApiOutput[] = [];
+    it('should map an empty collection to an empty page', () => {
+      const response: LdJsonPage<MerchantApiOutput> = { member: [], totalItems: 0 };
 
       const result = MerchantMapper.pageFromApi(response);
 
-      expect(result).toEqual([]);
+      expect(result.members).toEqual([]);
+      expect(result.total).toBe(0);
     });
 
-    it('should map array of merchants correctly', () => {
-      const response: MerchantApiOutput[] = [
+    it('should map the collection members correctly', () => {
+      const members: MerchantApiOutput[] = [
         {
           uuid: 'merchant-1',
           vat_number: 'IT11111111111',
@@ -267,12 +269,13 @@ describe('MerchantMapper', () => {
         },
       ];
 
-      const result = MerchantMapper.pageFromApi(response);
+      const result = MerchantMapper.pageFromApi({ member: members, totalItems: 3 });
 
-      expect(result).toHaveLength(3);
-      expect(result[0].uuid).toBe('merchant-1');
-      expect(result[1].businessName).toBe('Business Two');
-      expect(result[2].address?.streetAddress).toBe('Via Test');
+      expect(result.members).toHaveLength(3);
+      expect(result.total).toBe(3);
+      expect(result.members[0].uuid).toBe('merchant-1');
+      expect(result.members[1].businessName).toBe('Business Two');
+      expect(result.members[2].address?.streetAddress).toBe('Via Test');
     });
   });
 });
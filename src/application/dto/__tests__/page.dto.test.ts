@@ -0,0 +1,47 @@
+import { LdJsonPage } from '@/domain/value-objects/page.vo';
+
+import { PageMapper } from '../page.dto';
+
+describe('PageMapper', () => {
+  describe('fromLdJson', () => {
+    it('should read page, size and page count from the view links', () => {
+      const response: LdJsonPage<{ id: number }> = {
+        member: [{ id: 1 }, { id: 2 }],
+        totalItems: 12,
+        view: {
+          '@id': '/mf2/merchants?itemsPerPage=2&page=3',
+          first: '/mf2/merchants?itemsPerPage=2&page=1',
+          last: '/mf2/merchants?itemsPerPage=2&page=6',
+          previous: '/mf2/merchants?itemsPerPage=2&page=2',
+          next: '/mf2/merchants?itemsPerPage=2&page=4',
+        },
+      };
+
+      const result = PageMapper.fromLdJson(response, (item) => `item-${item.id}`);
+
+      expect(result).toEqual({
+        members: ['item-1', 'item-2'],
+        total: 12,
+        page: 3,
+        size: 2,
+        pages: 6,
+        links: {
+          first: '/mf2/merchants?itemsPerPage=2&page=1',
+          last: '/mf2/merchants?itemsPerPage=2&page=6',
+          previous: '/mf2/merchants?itemsPerPage=2&page=2',
+          next: '/mf2/merchants?itemsPerPage=2&page=4',
+        },
+      });
+    });
+
+    it('should leave pagination fields unset for an unpaginated collection', () => {
+      const result = PageMapper.fromLdJson({ member: ['a'], totalItems: 1 }, (item) => item);
+
+      expect(result.members).toEqual(['a']);
+      expect(result.total).toBe(1);
+      expect(result.page).toBeUndefined();
+      expect(result.pages).toBeUndefined();
+      expect(result.links).toBeUndefined();
+    });
+  });
+});
@@ -180,8 +180,8 @@ describe('PemMapper', () => {
   });
 
   describe('pageFromApi', () => {
-    it('should map array of PointOfSaleMf2', () => {
-      const data: PointOfSaleMf2ApiOutput[] = [
+    it('should map the collection members to PointOfSaleMf2', () => {
+      const members: PointOfSaleMf2ApiOutput[] = [
         { serial_number: 'SN1', status: 'ONLINE', type: 'PV' },
         { serial_number: 'SN2', status: 'OFFLINE', type: 'AP' },
         {
@@ -198,18 +198,20 @@ describe('PemMapper', () => {
         },
       ];
 
-      const result = PemMapper.pageFromApi(data);
+      const result = PemMapper.pageFromApi({ member: members, totalItems: 3 });
 
-      expect(result).toHaveLength(3);
-      expect(result[0].serialNumber).toBe('SN1');
-      expect(result[1].status).toBe('OFFLINE');
-      expect(result[2].address?.streetAddress).toBe('Via Test');
+      expect(result.members).toHaveLength(3);
+      expect(result.total).toBe(3);
+      expect(result.members[0].serialNumber).toBe('SN1');
+      expect(result.members[1].status).toBe('OFFLINE');
+      expect(result.members[2].address?.streetAddress).toBe('Via Test');
     });
 
-    it('should handle empty array', () => {
-      const result = PemMapper.pageFromApi([]);
+    it('should handle an empty collection', () => {
+      const result = PemMapper.pageFromApi({ member: [] });
 
-      expect(result).toEqual([]);
+      expect(result.members).toEqual([]);
+      expect(result.links).toBeUndefined();
     });
   });
 });
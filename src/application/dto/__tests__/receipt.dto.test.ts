@@ -6,6 +6,7 @@ import {
   ReceiptReturnItem,
   VoidReceiptInput,
 } from '@/domain/entities/receipt.entity';
+import { Money } from '@/domain/value-objects/money.vo';
 
 import {
   ReceiptApiOutput,
@@ -39,7 +40,7 @@ describe('ReceiptMapper', () => {
         vat_rate_code: '22.00',
         simplified_vat_allocation: true,
         discount: '1.00',
-        is_down_payment_or_voucher_redemption: false,
+        prepaid_or_voucher: false,
         complimentary: false,
       });
     });
@@ -54,13 +55,24 @@ describe('ReceiptMapper', () => {
       const result = ReceiptMapper.itemToApiInput(item);
 
       expect(result.type).toBeUndefined();
-      expect(result.vat_rate_code).toBeUndefined();
+      expect(result).not.toHaveProperty('vat_rate_code');
       expect(result.simplified_vat_allocation).toBeUndefined();
       expect(result.discount).toBeUndefined();
-      expect(result.is_down_payment_or_voucher_redemption).toBeUndefined();
+      expect(result.prepaid_or_voucher).toBeUndefined();
       expect(result.complimentary).toBeUndefined();
     });
 
+    it("should send a null vat_rate_code only when given, for 'Ventilazione IVA'", () => {
+      const item: ReceiptItem = {
+        quantity: '1',
+        description: 'Ventilated Item',
+        unitPrice: '5',
+        vatRateCode: null,
+      };
+
+      expect(ReceiptMapper.itemToApiInput(item)).toHaveProperty('vat_rate_code', null);
+    });
+
     it('should format quantity and unit_price to 2 decimal places', () => {
       const item: ReceiptItem = {
         quantity: '3',
@@ -73,6 +85,20 @@ describe('ReceiptMapper', () => {
       expect(result.quantity).toBe('3.00');
       expect(result.unit_price).toBe('7.50');
     });
+
+    it('should accept Money amounts and keep unit prices with more than 2 decimals', () => {
+      const item: ReceiptItem = {
+        quantity: '1',
+        description: 'Gettone',
+        unitPrice: Money.of('0.12345678'),
+        discount: Money.of('0.1').plus('0.2'),
+      };
+
+      const result = ReceiptMapper.itemToApiInput(item);
+
+      expect(result.unit_price).toBe('0.12345678');
+      expect(result.discount).toBe('0.30');
+    });
   });
 
   describe('toApiInput', () => {
@@ -105,7 +131,7 @@ describe('ReceiptMapper', () => {
       expect(result.customer_lottery_code).toBeUndefined();
       expect(result.discount).toBe('5.00');
       expect(result.invoice_issuing).toBe(true);
-      expect(result.uncollected_dcr_to_ssn).toBe(false);
+      expect(result.uncollected_dcn_to_ssn).toBe(false);
       expect(result.services_uncollected_amount).toBe('10.00');
       expect(result.goods_uncollected_amount).toBe('20.00');
       expect(result.cash_payment_amount).toBe('100.00');
@@ -167,7 +193,7 @@ describe('ReceiptMapper', () => {
         uuid: 'receipt-uuid-123',
         type: 'sale',
         createdAt: '2024-01-15T10:30:00Z',
-        totalAmount: '150.00',
+        totalAmount: Money.of('150.00'),
         documentNumber: 'DOC-001',
         documentDatetime: '2024-01-15T10:30:00Z',
         isReturnable: true,
@@ -265,13 +291,13 @@ describe('ReceiptMapper', () => {
       expect(result.uuid).toBe('details-uuid');
       expect(result.customerLotteryCode).toBe('LOTTERY123');
       expect(result.vatNumber).toBe('IT12345678901');
-      expect(result.totalTaxableAmount).toBe('100.00');
-      expect(result.totalUncollectedAmount).toBe('0.00');
-      expect(result.deductibleAmount).toBe('22.00');
-      expect(result.totalVatAmount).toBe('22.00');
-      expect(result.totalDiscount).toBe('10.00');
-      expect(result.totalGrossDiscount).toBe('12.20');
-      expect(result.discount).toBe('10.00');
+      expect(result.totalTaxableAmount).toEqual(Money.of('100.00'));
+      expect(result.totalUncollectedAmount).toEqual(Money.of('0.00'));
+      expect(result.deductibleAmount).toEqual(Money.of('22.00'));
+      expect(result.totalVatAmount).toEqual(Money.of('22.00'));
+      expect(result.totalDiscount).toEqual(Money.of('10.00'));
+      expect(result.totalGrossDiscount).toEqual(Money.of('12.20'));
+      expect(result.discount).toEqual(Money.of('10.00'));
       expect(result.items).toHaveLength(1);
       expect(result.items?.[0].description).toBe('Product A');
     });
@@ -299,6 +325,30 @@ describe('ReceiptMapper', () => {
 
       expect(result.items).toBeUndefined();
     });
+
+    it('should leave out the discounts the API does not return', () => {
+      const output: ReceiptDetailsApiOutput = {
+        uuid: 'details-uuid',
+        type: 'sale',
+        created_at: '2024-01-15T10:00:00Z',
+        total_amount: '100.00',
+        document_number: 'DET-003',
+        is_returnable: true,
+        is_voidable: true,
+        vat_number: 'IT12345678901',
+        total_taxable_amount: '81.97',
+        total_uncollected_amount: '0.00',
+        deductible_amount: '18.03',
+        total_vat_amount: '18.03',
+        total_discount: '0.00',
+      };
+
+      const result = ReceiptMapper.fromApiDetailsOutput(output);
+
+      expect(result.totalGrossDiscount).toBeUndefined();
+      expect(result.discount).toBeUndefined();
+      expect(result.totalDiscount).toEqual(Money.of('0.00'));
+    });
   });
 
   describe('returnItemToApiInput', () => {
@@ -381,7 +431,7 @@ describe('ReceiptMapper', () => {
         quantity: '10',
         returnedQuantity: '3',
         description: 'Returnable Product',
-        unitPrice: '25.00',
+        unitPrice: Money.of('25.00'),
         vatRateCode: '22.00',
       });
     });
@@ -5,26 +5,20 @@ import {
   CashRegisterUpdateInput,
 } from '@/domain/entities/cash-register.entity';
 import { Page } from '@/domain/value-objects/page.vo';
+import {
+  Mf1CashRegisterBasicOutput,
+  Mf1CashRegisterCreate,
+  Mf1CashRegisterDetailedOutput,
+  Mf1CashRegisterUpdate,
+} from '@/shared/openapi';
 
-export interface CashRegisterApiOutput {
-  uuid: string;
-  pem_serial_number: string;
-  name: string;
-}
+export type CashRegisterApiOutput = Mf1CashRegisterBasicOutput;
 
-export interface CashRegisterDetailedApiOutput extends CashRegisterApiOutput {
-  mtls_certificate: string;
-  private_key: string;
-}
+export type CashRegisterDetailedApiOutput = Mf1CashRegisterDetailedOutput;
 
-export interface CashRegisterCreateApiInput {
-  pem_serial_number: string;
-  name: string;
-}
+export type CashRegisterCreateApiInput = Mf1CashRegisterCreate;
 
-export interface CashRegisterUpdateApiInput {
-  name: string;
-}
+export type CashRegisterUpdateApiInput = Mf1CashRegisterUpdate;
 
 export class CashRegisterMapper {
   static toCreateApiInput(input: CashRegisterCreateInput): CashRegisterCreateApiInput {
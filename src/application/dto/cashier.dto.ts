@@ -1,21 +1,10 @@
-import { Cashier, CashierCreateInput, CashierStatus } from '@/domain/entities/cashier.entity';
+import { Cashier, CashierCreateInput } from '@/domain/entities/cashier.entity';
 import { Page } from '@/domain/value-objects/page.vo';
+import { Mf1CashierCreateInput, Mf1CashierOutput } from '@/shared/openapi';
 
-export interface CashierApiOutput {
-  uuid: string;
-  merchant_uuid: string;
-  display_name: string | null;
-  email: string;
-  name: string;
-  status: CashierStatus;
-}
+export type CashierApiOutput = Mf1CashierOutput;
 
-export interface CashierCreateApiInput {
-  email: string;
-  password: string;
-  name: string;
-  display_name: string | null;
-}
+export type CashierCreateApiInput = Mf1CashierCreateInput;
 
 export class CashierMapper {
   static toCreateApiInput(input: CashierCreateInput): CashierCreateApiInput {
@@ -31,7 +20,7 @@ export class CashierMapper {
     return {
       uuid: output.uuid,
       merchantUuid: output.merchant_uuid,
-      displayName: output.display_name,
+      displayName: output.display_name ?? null,
       email: output.email,
       name: output.name,
       status: output.status,
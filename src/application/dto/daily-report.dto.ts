@@ -3,6 +3,7 @@ import {
   DailyReportStatus,
   DailyReportsParams,
 } from '@/domain/entities/daily-report.entity';
+import { Money } from '@/domain/value-objects/money.vo';
 import { Page } from '@/domain/value-objects/page.vo';
 
 export interface DailyReportApiOutput {
@@ -21,7 +22,7 @@ export class DailyReportMapper {
       pemSerialNumber: output.pem_serial_number,
       date: output.date,
       totalReceipts: output.total_receipts,
-      totalAmount: output.total_amount,
+      totalAmount: Money.of(output.total_amount),
       status: output.status as DailyReportStatus,
     };
   }
@@ -35,6 +36,7 @@ export class DailyReportMapper {
       date_to: params.dateTo,
       status: params.status,
       page: params.page,
+      itemsPerPage: params.itemsPerPage,
     };
   }
 
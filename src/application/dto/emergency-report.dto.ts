@@ -0,0 +1,71 @@
+import {
+  EmergencyReport,
+  EmergencyReportEntry,
+  EmergencyReportInput,
+  EmergencyReportsParams,
+} from '@/domain/entities/emergency-report.entity';
+import {
+  Mf2DailyReportEntry,
+  Mf2PemEmergencyReportInput,
+  Mf2PemEmergencyReportOutput,
+} from '@/shared/openapi';
+import { formatDecimal } from '@/shared/utils';
+
+export type EmergencyReportEntryApiInput = Mf2DailyReportEntry;
+
+export type EmergencyReportApiInput = Mf2PemEmergencyReportInput;
+
+// The specification leaves every output field optional, the report id is always returned.
+export type EmergencyReportApiOutput = Mf2PemEmergencyReportOutput &
+  Required<Pick<Mf2PemEmergencyReportOutput, 'id'>>;
+
+export class EmergencyReportMapper {
+  static toApiInput(input: EmergencyReportInput): EmergencyReportApiInput {
+    return {
+      datetime: input.datetime,
+      documents_count: input.documentsCount,
+      cash_payment_amount: formatDecimal(input.cashPaymentAmount),
+      electronic_payment_amount: formatDecimal(input.electronicPaymentAmount),
+      ticket_restaurant_payment_amount: formatDecimal(input.ticketRestaurantPaymentAmount),
+      ticket_restaurant_quantity: input.ticketRestaurantQuantity,
+      entries: input.entries?.map((entry) => this.entryToApiInput(entry)),
+    };
+  }
+
+  static entryToApiInput(entry: EmergencyReportEntry): EmergencyReportEntryApiInput {
+    return {
+      vat_rate_code: entry.vatRateCode,
+      vat_amount: formatDecimal(entry.vatAmount),
+      simplified_vat_allocation: entry.simplifiedVatAllocation,
+      partial_amount: formatDecimal(entry.partialAmount) as string,
+      total_returned_amount: formatDecimal(entry.totalReturnedAmount),
+      total_voided_amount: formatDecimal(entry.totalVoidedAmount),
+      total_prepaid_or_voucher_amount: formatDecimal(entry.totalPrepaidOrVoucherAmount),
+      total_uncollected_services: formatDecimal(entry.totalUncollectedServices),
+      total_uncollected_invoiced: formatDecimal(entry.totalUncollectedInvoiced),
+      total_uncollected_dcr_to_ssn: formatDecimal(entry.totalUncollectedDcrToSsn),
+      total_uncollected_complimentary: formatDecimal(entry.totalUncollectedComplimentary),
+      ateco_code: entry.atecoCode,
+    };
+  }
+
+  static fromApiOutput(output: EmergencyReportApiOutput): EmergencyReport {
+    return {
+      id: output.id,
+      closedAt: output.closed_at,
+    };
+  }
+
+  static toListParams(params?: EmergencyReportsParams): Record<string, number | undefined> {
+    if (!params) return {};
+
+    return {
+      page: params.page,
+      itemsPerPage: params.itemsPerPage,
+    };
+  }
+
+  static listFromApi(data: EmergencyReportApiOutput[]): EmergencyReport[] {
+    return data.map((item) => EmergencyReportMapper.fromApiOutput(item));
+  }
+}
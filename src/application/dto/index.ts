@@ -1,3 +1,4 @@
+export * from './page.dto';
 export * from './receipt.dto';
 export * from './merchant.dto';
 export * from './cashier.dto';
@@ -9,3 +10,4 @@ export * from './daily-report.dto';
 export * from './journal.dto';
 export * from './notification.dto';
 export * from './telemetry.dto';
+export * from './emergency-report.dto';
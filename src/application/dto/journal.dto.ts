@@ -4,6 +4,7 @@ import {
   JournalStatus,
   JournalsParams,
 } from '@/domain/entities/journal.entity';
+import { Money } from '@/domain/value-objects/money.vo';
 import { Page } from '@/domain/value-objects/page.vo';
 
 export interface JournalApiOutput {
@@ -24,7 +25,7 @@ export class JournalMapper {
       date: output.date,
       sequenceNumber: output.sequence_number,
       totalReceipts: output.total_receipts,
-      totalAmount: output.total_amount,
+      totalAmount: Money.of(output.total_amount),
       status: output.status as JournalStatus,
     };
   }
@@ -38,6 +39,7 @@ export class JournalMapper {
       date_from: params.dateFrom,
       date_to: params.dateTo,
       page: params.page,
+      itemsPerPage: params.itemsPerPage,
     };
   }
 
@@ -4,43 +4,28 @@ import {
   MerchantUpdateInput,
 } from '@/domain/entities/merchant.entity';
 import { Address } from '@/domain/value-objects/address.vo';
+import { LdJsonPage, Page } from '@/domain/value-objects/page.vo';
+import {
+  Mf2Address,
+  Mf2MerchantCreateInput,
+  Mf2MerchantOutput,
+  Mf2MerchantUpdateInput,
+} from '@/shared/openapi';
 
-export interface AddressApiOutput {
-  street_address: string;
-  street_number: string;
-  zip_code: string;
-  city: string;
-  province: string;
-}
+import { PageMapper } from './page.dto';
 
-export interface MerchantApiOutput {
-  uuid: string;
-  vat_number: string;
-  fiscal_code?: string | null;
-  email: string;
-  business_name?: string | null;
-  first_name?: string | null;
-  last_name?: string | null;
-  address?: AddressApiOutput;
-}
+// mf1 addresses (`Mf1Address`) only differ by a required street_number, so they fit here too.
+export type AddressApiOutput = Mf2Address;
 
-export interface MerchantCreateApiInput {
-  vat_number: string;
-  fiscal_code?: string;
-  business_name?: string | null;
-  first_name?: string | null;
-  last_name?: string | null;
-  email: string;
-  password: string;
-  address?: AddressApiOutput;
-}
+// The specification leaves every output field optional, these are always returned.
+export type MerchantApiOutput = Mf2MerchantOutput &
+  Required<Pick<Mf2MerchantOutput, 'uuid' | 'vat_number' | 'email'>>;
 
-export interface MerchantUpdateApiInput {
-  business_name?: string | null;
-  first_name?: string | null;
-  last_name?: string | null;
-  address?: AddressApiOutput | null;
-}
+// The specification requires an address on creation, the SDK still lets callers omit it.
+export type MerchantCreateApiInput = Omit<Mf2MerchantCreateInput, 'address'> &
+  Partial<Pick<Mf2MerchantCreateInput, 'address'>>;
+
+export type MerchantUpdateApiInput = Mf2MerchantUpdateInput;
 
 export class AddressMapper {
   static toApi(address: Address): AddressApiOutput {
@@ -56,7 +41,7 @@ export class AddressMapper {
   static fromApi(address: AddressApiOutput): Address {
     return {
       streetAddress: address.street_address,
-      streetNumber: address.street_number,
+      streetNumber: address.street_number ?? '',
       zipCode: address.zip_code,
       city: address.city,
       province: address.province,
@@ -100,7 +85,7 @@ export class MerchantMapper {
     };
   }
 
-  static pageFromApi(response: MerchantApiOutput[]): Merchant[] {
-    return response.map((m) => this.fromApiOutput(m));
+  static pageFromApi(response: LdJsonPage<MerchantApiOutput>): Page<Merchant> {
+    return PageMapper.fromLdJson(response, (m) => this.fromApiOutput(m));
   }
 }
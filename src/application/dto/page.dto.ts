@@ -0,0 +1,33 @@
+import { LdJsonPage, Page } from '@/domain/value-objects/page.vo';
+
+// mf2 collections only carry the Hydra `totalItems` and `view` links in their JSON-LD form.
+export const LD_JSON_MEDIA_TYPE = 'application/ld+json';
+
+function queryNumber(link: string | undefined, name: string): number | undefined {
+  if (!link) return undefined;
+  const match = new RegExp(`[?&]${name}=(\\d+)`).exec(link);
+  return match ? Number(match[1]) : undefined;
+}
+
+export class PageMapper {
+  /**
+   * Maps a Hydra collection into a `Page`, reading the current page, page size and
+   * page count from the `view` links.
+   */
+  static fromLdJson<A, T>(response: LdJsonPage<A>, mapItem: (item: A) => T): Page<T> {
+    const view = response.view;
+    return {
+      members: response.member.map((item) => mapItem(item)),
+      total: response.totalItems,
+      page: queryNumber(view?.['@id'], 'page'),
+      size: queryNumber(view?.['@id'], 'itemsPerPage'),
+      pages: queryNumber(view?.last, 'page'),
+      links: view && {
+        first: view.first,
+        last: view.last,
+        previous: view.previous,
+        next: view.next,
+      },
+    };
+  }
+}
@@ -1,7 +1,9 @@
 import { PemCertificates, PemCreateInput, PemCreateOutput } from '@/domain/entities/pem.entity';
 import { PointOfSaleMf2 } from '@/domain/entities/point-of-sale.entity';
+import { LdJsonPage, Page } from '@/domain/value-objects/page.vo';
 
 import { AddressApiOutput } from './merchant.dto';
+import { PageMapper } from './page.dto';
 
 export interface PemCreateApiInput {
   merchant_uuid: string;
@@ -81,7 +83,7 @@ export class PemMapper {
     };
   }
 
-  static pageFromApi(data: PointOfSaleMf2ApiOutput[]): PointOfSaleMf2[] {
-    return data.map((item) => PemMapper.fromPointOfSaleMf2ApiOutput(item));
+  static pageFromApi(data: LdJsonPage<PointOfSaleMf2ApiOutput>): Page<PointOfSaleMf2> {
+    return PageMapper.fromLdJson(data, (item) => PemMapper.fromPointOfSaleMf2ApiOutput(item));
   }
 }
@@ -1,33 +1,26 @@
 import {
   ActivationRequest,
-  PEMStatus,
   PEMStatusOfflineRequest,
   PointOfSale,
   PointOfSaleDetailed,
 } from '@/domain/entities/point-of-sale.entity';
 import { Page } from '@/domain/value-objects/page.vo';
+import {
+  Mf1PEMStatusOfflineRequest,
+  Mf1PointOfSaleActivationInput,
+  Mf1PointOfSaleDetailedOutput,
+  Mf1PointOfSaleOutput,
+} from '@/shared/openapi';
 
-import { AddressApiOutput, AddressMapper } from './merchant.dto';
+import { AddressMapper } from './merchant.dto';
 
-export interface PointOfSaleApiOutput {
-  serial_number: string;
-  status: PEMStatus;
-  address: AddressApiOutput;
-  operational_status: string;
-}
+export type PointOfSaleApiOutput = Mf1PointOfSaleOutput;
 
-export interface PointOfSaleDetailedApiOutput extends PointOfSaleApiOutput {
-  registration_key?: string;
-}
+export type PointOfSaleDetailedApiOutput = Mf1PointOfSaleDetailedOutput;
 
-export interface ActivationRequestApiInput {
-  registration_key: string;
-}
+export type ActivationRequestApiInput = Mf1PointOfSaleActivationInput;
 
-export interface PEMStatusOfflineRequestApiInput {
-  timestamp: string;
-  reason: string;
-}
+export type PEMStatusOfflineRequestApiInput = Mf1PEMStatusOfflineRequest;
 
 export class PointOfSaleMapper {
   static toActivationApiInput(input: ActivationRequest): ActivationRequestApiInput {
@@ -55,7 +48,7 @@ export class PointOfSaleMapper {
   static fromDetailedApiOutput(output: PointOfSaleDetailedApiOutput): PointOfSaleDetailed {
     return {
       ...this.fromApiOutput(output),
-      registrationKey: output.registration_key,
+      registrationKey: output.registration_key ?? undefined,
     };
   }
 
@@ -4,7 +4,6 @@ import {
   ReceiptInput,
   ReceiptItem,
   ReceiptListParams,
-  ReceiptProofType,
   ReceiptReturnInput,
   ReceiptReturnItem,
   ReturnViaDifferentDeviceInput,
@@ -14,109 +13,62 @@ import {
   VoidViaDifferentDeviceInput,
   VoidWithProofInput,
 } from '@/domain/entities/receipt.entity';
+import { Money } from '@/domain/value-objects/money.vo';
 import { Page } from '@/domain/value-objects/page.vo';
-import { GoodOrService, VatRateCode } from '@/domain/value-objects/vat-code.vo';
+import {
+  Mf1ReceiptDetailsOutput,
+  Mf1ReceiptInput,
+  Mf1ReceiptItem,
+  Mf1ReceiptOutput,
+  Mf1ReturnItem,
+  Mf1ReturnViaDifferentDeviceInput,
+  Mf1ReturnViaProofInput,
+  Mf1ReturnViaSamePosInput,
+  Mf1ReturnableReceiptItem,
+  Mf1VoidViaDifferentDeviceInput,
+  Mf1VoidViaSamePosInput,
+  Mf1VoidWithProofInput,
+} from '@/shared/openapi';
 import { formatDecimal } from '@/shared/utils';
 
-export interface ReceiptItemApiInput {
-  type?: GoodOrService;
-  quantity: string;
-  description: string;
-  unit_price: string;
-  vat_rate_code?: VatRateCode;
-  simplified_vat_allocation?: boolean;
-  discount?: string;
-  is_down_payment_or_voucher_redemption?: boolean;
-  complimentary?: boolean;
-}
+// vat_rate_code is required by the specification, where null means 'Ventilazione IVA': it is
+// omitted when the item has no code, as the API accepted before the field was typed.
+export type ReceiptItemApiInput = Omit<Mf1ReceiptItem, 'vat_rate_code'> & {
+  vat_rate_code?: Mf1ReceiptItem['vat_rate_code'];
+};
 
-export interface ReceiptApiInput {
+type WithItemInputs<T extends { items: Mf1ReceiptItem[] }> = Omit<T, 'items'> & {
   items: ReceiptItemApiInput[];
-  customer_tax_code?: string;
-  customer_lottery_code?: string;
-  discount?: string;
-  invoice_issuing?: boolean;
-  uncollected_dcr_to_ssn?: boolean;
-  services_uncollected_amount?: string;
-  goods_uncollected_amount?: string;
-  cash_payment_amount?: string;
-  electronic_payment_amount?: string;
-  ticket_restaurant_payment_amount?: string;
-  ticket_restaurant_quantity?: number;
-}
+};
+
+export type ReceiptApiInput = WithItemInputs<Mf1ReceiptInput>;
 
-export interface ReceiptApiOutput {
-  uuid: string;
-  type: 'sale' | 'return' | 'void';
+// created_at is returned by the API but not documented in the specification.
+export interface ReceiptApiOutput extends Mf1ReceiptOutput {
   created_at: string;
-  total_amount: string;
-  document_number: string;
-  document_datetime?: string;
-  is_returnable: boolean;
-  is_voidable: boolean;
-  pdf_url?: string;
-  parent_receipt_uuid?: string;
 }
 
-export interface ReceiptDetailsApiOutput extends ReceiptApiOutput {
-  customer_lottery_code?: string;
+// Fields returned by the API but not documented in the specification.
+export interface ReceiptDetailsApiOutput extends Mf1ReceiptDetailsOutput {
+  created_at: string;
   vat_number: string;
-  total_taxable_amount: string;
-  total_uncollected_amount: string;
-  deductible_amount: string;
-  total_vat_amount: string;
-  total_discount: string;
-  total_gross_discount: string;
-  discount: string;
-  items?: ReceiptItemApiInput[];
+  total_gross_discount?: string;
+  discount?: string;
 }
 
-export interface ReceiptReturnApiInput {
-  items: Array<{ id: number; quantity: string }>;
-  document_number: string;
-}
+export type ReceiptReturnApiInput = Mf1ReturnViaSamePosInput;
 
-export interface VoidReceiptApiInput {
-  document_number: string;
-}
+export type VoidReceiptApiInput = Mf1VoidViaSamePosInput;
 
-export interface VoidViaDifferentDeviceApiInput {
-  device_id: string;
-  items: ReceiptItemApiInput[];
-  document_number: string;
-  document_datetime: string;
-  lottery_code?: string;
-}
+export type VoidViaDifferentDeviceApiInput = WithItemInputs<Mf1VoidViaDifferentDeviceInput>;
 
-export interface VoidWithProofApiInput {
-  items: ReceiptItemApiInput[];
-  proof: ReceiptProofType;
-  document_datetime: string;
-}
+export type VoidWithProofApiInput = WithItemInputs<Mf1VoidWithProofInput>;
 
-export interface ReturnViaDifferentDeviceApiInput {
-  device_id: string;
-  items: ReceiptItemApiInput[];
-  document_number: string;
-  document_datetime: string;
-  lottery_code?: string;
-}
+export type ReturnViaDifferentDeviceApiInput = WithItemInputs<Mf1ReturnViaDifferentDeviceInput>;
 
-export interface ReturnWithProofApiInput {
-  items: ReceiptItemApiInput[];
-  proof: ReceiptProofType;
-  document_datetime: string;
-}
+export type ReturnWithProofApiInput = WithItemInputs<Mf1ReturnViaProofInput>;
 
-export interface ReturnableReceiptItemApiOutput {
-  id: number;
-  type?: GoodOrService;
-  quantity: string;
-  returned_quantity: string;
-  description: string;
-  unit_price: string;
-  vat_rate_code?: VatRateCode;
-}
+export type ReturnableReceiptItemApiOutput = Mf1ReturnableReceiptItem;
 
 export class ReceiptMapper {
   static toApiInput(input: ReceiptInput): ReceiptApiInput {
@@ -124,14 +76,14 @@ export class ReceiptMapper {
       items: input.items.map((item) => this.itemToApiInput(item)),
       customer_tax_code: input.customerTaxCode,
       customer_lottery_code: input.customerLotteryCode,
-      discount: formatDecimal(input.discount),
+      discount: Money.format(input.discount),
       invoice_issuing: input.invoiceIssuing,
-      uncollected_dcr_to_ssn: input.uncollectedDcrToSsn,
-      services_uncollected_amount: formatDecimal(input.servicesUncollectedAmount),
-      goods_uncollected_amount: formatDecimal(input.goodsUncollectedAmount),
-      cash_payment_amount: formatDecimal(input.cashPaymentAmount),
-      electronic_payment_amount: formatDecimal(input.electronicPaymentAmount),
-      ticket_restaurant_payment_amount: formatDecimal(input.ticketRestaurantPaymentAmount),
+      uncollected_dcn_to_ssn: input.uncollectedDcrToSsn,
+      services_uncollected_amount: Money.format(input.servicesUncollectedAmount),
+      goods_uncollected_amount: Money.format(input.goodsUncollectedAmount),
+      cash_payment_amount: Money.format(input.cashPaymentAmount),
+      electronic_payment_amount: Money.format(input.electronicPaymentAmount),
+      ticket_restaurant_payment_amount: Money.format(input.ticketRestaurantPaymentAmount),
       ticket_restaurant_quantity: input.ticketRestaurantQuantity,
     };
   }
@@ -141,11 +93,11 @@ export class ReceiptMapper {
       type: item.type,
       quantity: formatDecimal(item.quantity) as string,
       description: item.description,
-      unit_price: formatDecimal(item.unitPrice) as string,
-      vat_rate_code: item.vatRateCode,
+      unit_price: Money.of(item.unitPrice).toDecimalString(),
+      ...(item.vatRateCode !== undefined ? { vat_rate_code: item.vatRateCode } : {}),
       simplified_vat_allocation: item.simplifiedVatAllocation,
-      discount: formatDecimal(item.discount),
-      is_down_payment_or_voucher_redemption: item.isDownPaymentOrVoucherRedemption,
+      discount: Money.format(item.discount),
+      prepaid_or_voucher: item.isDownPaymentOrVoucherRedemption,
       complimentary: item.complimentary,
     };
   }
@@ -155,28 +107,47 @@ export class ReceiptMapper {
       uuid: output.uuid,
       type: output.type,
       createdAt: output.created_at,
-      totalAmount: output.total_amount,
+      totalAmount: output.total_amount != null ? Money.of(output.total_amount) : null,
       documentNumber: output.document_number,
       documentDatetime: output.document_datetime,
       isReturnable: output.is_returnable,
       isVoidable: output.is_voidable,
-      pdfUrl: output.pdf_url,
-      parentReceiptUuid: output.parent_receipt_uuid,
+      pdfUrl: output.pdf_url ?? undefined,
+      parentReceiptUuid: output.parent_receipt_uuid ?? undefined,
+    };
+  }
+
+  /** Inverse of `fromApiOutput`, for code that handles raw API responses */
+  static toApiOutput(receipt: Receipt): ReceiptApiOutput {
+    return {
+      uuid: receipt.uuid,
+      type: receipt.type,
+      created_at: receipt.createdAt,
+      total_amount: receipt.totalAmount?.toDecimalString() ?? null,
+      document_number: receipt.documentNumber,
+      // Always returned by the API, only optional in the domain model
+      document_datetime: receipt.documentDatetime ?? receipt.createdAt,
+      is_returnable: receipt.isReturnable,
+      is_voidable: receipt.isVoidable,
+      pdf_url: receipt.pdfUrl,
+      parent_receipt_uuid: receipt.parentReceiptUuid,
     };
   }
 
   static fromApiDetailsOutput(output: ReceiptDetailsApiOutput): ReceiptDetails {
     return {
       ...this.fromApiOutput(output),
-      customerLotteryCode: output.customer_lottery_code,
+      customerLotteryCode: output.customer_lottery_code ?? undefined,
+      cashierName: output.cashier_name,
       vatNumber: output.vat_number,
-      totalTaxableAmount: output.total_taxable_amount,
-      totalUncollectedAmount: output.total_uncollected_amount,
-      deductibleAmount: output.deductible_amount,
-      totalVatAmount: output.total_vat_amount,
-      totalDiscount: output.total_discount,
-      totalGrossDiscount: output.total_gross_discount,
-      discount: output.discount,
+      totalTaxableAmount: Money.of(output.total_taxable_amount),
+      totalUncollectedAmount: Money.of(output.total_uncollected_amount),
+      deductibleAmount: Money.of(output.deductible_amount),
+      totalVatAmount: Money.of(output.total_vat_amount),
+      totalDiscount: Money.of(output.total_discount),
+      totalGrossDiscount:
+        output.total_gross_discount != null ? Money.of(output.total_gross_discount) : undefined,
+      discount: output.discount != null ? Money.of(output.discount) : undefined,
       items: output.items?.map((item) => this.itemFromApiOutput(item)),
     };
   }
@@ -186,16 +157,16 @@ export class ReceiptMapper {
       type: item.type,
       quantity: item.quantity,
       description: item.description,
-      unitPrice: item.unit_price,
-      vatRateCode: item.vat_rate_code,
+      unitPrice: Money.of(item.unit_price),
+      vatRateCode: item.vat_rate_code ?? undefined,
       simplifiedVatAllocation: item.simplified_vat_allocation,
-      discount: item.discount,
-      isDownPaymentOrVoucherRedemption: item.is_down_payment_or_voucher_redemption,
+      discount: item.discount != null ? Money.of(item.discount) : undefined,
+      isDownPaymentOrVoucherRedemption: item.prepaid_or_voucher,
       complimentary: item.complimentary,
     };
   }
 
-  static returnItemToApiInput(item: ReceiptReturnItem): { id: number; quantity: string } {
+  static returnItemToApiInput(item: ReceiptReturnItem): Mf1ReturnItem {
     return {
       id: item.id,
       quantity: formatDecimal(item.quantity) as string,
@@ -222,8 +193,8 @@ export class ReceiptMapper {
       quantity: item.quantity,
       returnedQuantity: item.returned_quantity,
       description: item.description,
-      unitPrice: item.unit_price,
-      vatRateCode: item.vat_rate_code,
+      unitPrice: Money.of(item.unit_price),
+      vatRateCode: item.vat_rate_code ?? undefined,
     };
   }
 
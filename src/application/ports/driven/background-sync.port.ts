@@ -0,0 +1,39 @@
+import { Observable } from 'rxjs';
+
+/** What a background context needs to send the queued operations without the app */
+export interface BackgroundSyncSession {
+  apiUrl: string;
+  accessToken: string;
+  /** Keys of the encrypted offline queue, as kept in the secure storage */
+  queueKeys?: string;
+}
+
+/** Outcome of an operation synced in the background */
+export interface BackgroundSyncResult {
+  operationId: string;
+  success: boolean;
+  error?: string;
+}
+
+/**
+ * Syncs the offline queue from a background context (e.g. a service worker), also while the app
+ * is closed
+ */
+export interface IBackgroundSyncPort {
+  /**
+   * Results of the operations synced in the background, including the ones synced while the app
+   * was closed, each delivered once
+   */
+  readonly results$: Observable<BackgroundSyncResult[]>;
+  /**
+   * Asks for the queue to be synced in the background as soon as the connection allows. The
+   * session holds credentials and keys: adapters must not store it in plaintext.
+   */
+  schedule(session: BackgroundSyncSession): Promise<void>;
+  /**
+   * Forgets the session, e.g. on logout or once the token has expired: nothing is synced in the
+   * background until rescheduled
+   */
+  clearSession(): Promise<void>;
+  destroy(): void;
+}
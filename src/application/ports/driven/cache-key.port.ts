@@ -7,6 +7,7 @@ export type CacheResource =
   | 'supplier'
   | 'daily-report'
   | 'journal'
+  | 'emergency-report'
   | 'pem'
   | 'notification'
   | 'telemetry';
@@ -15,12 +16,29 @@ export interface CacheResourceConfig {
   ttlMs: number;
   cacheList: boolean;
   cacheItem: boolean;
+  /** Returns expired entries right away and refreshes them in the background */
+  staleWhileRevalidate?: boolean;
+}
+
+/** Cache entry of an item of a list, see `ICacheKeyGenerator.getListItem` */
+export interface CacheListItem {
+  key: string;
+  tags: string[];
 }
 
 export interface ICacheKeyGenerator {
   generate(url: string, params?: Record<string, unknown>): string;
   parseResource(url: string): CacheResource | undefined;
-  getInvalidationPatterns(url: string, method: string): string[];
+  /** Tags of the entry cached for `url` */
+  getTags(url: string): string[];
+  /** Tags of the entries a mutation of `url` makes stale */
+  getInvalidationTags(url: string, method: string): string[];
   getTTL(url: string): number;
   shouldCache(url: string): boolean;
+  isStaleWhileRevalidate(url: string): boolean;
+  /**
+   * Cache entry of an item of the list returned by `url`, under which the item is cached on its
+   * own. Undefined when the lists of the resource are cached as they are.
+   */
+  getListItem(url: string, item: unknown): CacheListItem | undefined;
 }
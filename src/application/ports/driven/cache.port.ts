@@ -1,19 +1,47 @@
+import { Observable } from 'rxjs';
+
 export interface ICachePort {
   get<T>(key: string): Promise<CachedItem<T> | null>;
   set<T>(key: string, data: T): Promise<void>;
   setItem<T>(key: string, item: CachedItem<T>): Promise<void>;
   setBatch<T>(items: Array<[string, CachedItem<T>]>): Promise<void>;
   invalidate(pattern: string): Promise<void>;
+  /** Removes the entries tagged with any of the tags */
+  invalidateTags(tags: string[]): Promise<void>;
   clear(): Promise<void>;
   getSize(): Promise<CacheSize>;
   cleanup(): Promise<number>;
   getKeys(pattern?: string): Promise<string[]>;
+  /** Invalidations of a cache shared with other contexts, made here or there */
+  readonly invalidations$?: Observable<CacheInvalidation>;
+}
+
+export interface CacheInvalidation {
+  /** Invalidated key pattern, `*` when the cache was cleared; absent for tag invalidations */
+  pattern?: string;
+  /** Invalidated tags, see `ICachePort.invalidateTags` */
+  tags?: string[];
+  /** Whether the invalidation was made by another context (e.g. browser tab) */
+  remote: boolean;
+}
+
+/** Value fetched again in the background for an expired cache entry */
+export interface CacheRefresh<T = unknown> {
+  key: string;
+  url: string;
+  data: T;
 }
 
 export interface CachedItem<T> {
   data: T;
   timestamp: number;
   compressed?: boolean;
+  /** `ETag` of the cached response, sent back as `If-None-Match` */
+  etag?: string;
+  /** `Last-Modified` of the cached response, sent back as `If-Modified-Since` */
+  lastModified?: string;
+  /** Tags the entry is invalidated by, see `ICachePort.invalidateTags` */
+  tags?: string[];
 }
 
 export interface CacheSize {
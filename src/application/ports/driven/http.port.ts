@@ -1,3 +1,5 @@
+import type { CachePolicy } from '@/domain/value-objects/cache-policy.vo';
+
 export interface HttpRequestConfig {
   headers?: Record<string, string>;
   params?: Record<string, string | number | boolean | undefined | null>;
@@ -5,6 +7,8 @@ export interface HttpRequestConfig {
   authMode?: 'jwt' | 'mtls' | 'auto';
   responseType?: 'json' | 'blob' | 'text' | 'arraybuffer';
   data?: unknown;
+  /** Honoured by the caching decorator, ignored by the transport */
+  cache?: CachePolicy;
 }
 
 export interface HttpResponse<T> {
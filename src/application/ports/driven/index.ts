@@ -1,4 +1,7 @@
 export * from './storage.port';
+export * from './queue-storage.port';
+export * from './sync-coordinator.port';
+export * from './background-sync.port';
 export * from './network.port';
 export * from './cache.port';
 export * from './cache-key.port';
@@ -1,7 +1,10 @@
+import type { IBackgroundSyncPort } from './background-sync.port';
 import type { ICachePort } from './cache.port';
 import type { IMTLSPort } from './mtls.port';
 import type { INetworkPort } from './network.port';
+import type { IQueueStoragePort } from './queue-storage.port';
 import type { ISecureStoragePort, IStoragePort } from './storage.port';
+import type { ISyncCoordinatorPort } from './sync-coordinator.port';
 
 /**
  * Platform adapters collection
@@ -11,5 +14,8 @@ export interface PlatformAdapters {
   secureStorage: ISecureStoragePort;
   networkMonitor: INetworkPort;
   cache?: ICachePort;
+  queueStorage?: IQueueStoragePort;
+  syncCoordinator?: ISyncCoordinatorPort;
+  backgroundSync?: IBackgroundSyncPort;
   mtls?: IMTLSPort;
 }
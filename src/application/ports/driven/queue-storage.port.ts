@@ -0,0 +1,13 @@
+import type { QueuedOperation } from '@/domain/entities/offline.entity';
+
+/**
+ * Persistence of the offline operation queue, one record per operation so that a change only
+ * rewrites the operations it touches
+ */
+export interface IQueueStoragePort {
+  loadAll(): Promise<QueuedOperation[]>;
+  /** Inserts or replaces the given operations */
+  save(operations: QueuedOperation[]): Promise<void>;
+  remove(ids: string[]): Promise<void>;
+  clear(): Promise<void>;
+}
@@ -0,0 +1,26 @@
+import { Observable } from 'rxjs';
+
+import type { QueuedOperation } from '@/domain/entities/offline.entity';
+
+/** Queue change made by another context (e.g. browser tab) sharing the same stored queue */
+export type QueueSyncMessage =
+  | { type: 'operations-saved'; operations: QueuedOperation[] }
+  | { type: 'operations-removed'; ids: string[] }
+  | { type: 'queue-cleared' }
+  | { type: 'sync-requested' }
+  /** The queue was encrypted with new keys, the previous ones are gone */
+  | { type: 'keys-rotated' };
+
+/**
+ * Coordinates the contexts sharing the offline queue: a single leader syncs it, the others are
+ * told about every change
+ */
+export interface ISyncCoordinatorPort {
+  /** Whether this context is the leader, the only one allowed to sync */
+  readonly isLeader$: Observable<boolean>;
+  /** Messages broadcast by the other contexts, never the ones sent by this one */
+  readonly messages$: Observable<QueueSyncMessage>;
+  isLeader(): boolean;
+  broadcast(message: QueueSyncMessage): void;
+  destroy(): void;
+}
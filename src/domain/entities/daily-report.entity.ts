@@ -1,3 +1,5 @@
+import { Money } from '@/domain/value-objects/money.vo';
+
 export type DailyReportStatus = 'pending' | 'sent' | 'error';
 
 export interface DailyReport {
@@ -5,7 +7,7 @@ export interface DailyReport {
   pemSerialNumber: string;
   date: string;
   totalReceipts: number;
-  totalAmount: string;
+  totalAmount: Money;
   status: DailyReportStatus;
 }
 
@@ -15,4 +17,5 @@ export interface DailyReportsParams {
   dateTo?: string;
   status?: DailyReportStatus;
   page?: number;
+  itemsPerPage?: number;
 }
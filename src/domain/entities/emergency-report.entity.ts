@@ -0,0 +1,40 @@
+import { VatRateCode } from '@/domain/value-objects/vat-code.vo';
+
+export interface EmergencyReport {
+  id: number;
+  closedAt?: string;
+}
+
+export interface EmergencyReportEntry {
+  vatRateCode?: VatRateCode;
+  vatAmount?: string;
+  simplifiedVatAllocation?: boolean;
+  partialAmount: string;
+  totalReturnedAmount?: string;
+  totalVoidedAmount?: string;
+  totalPrepaidOrVoucherAmount?: string;
+  totalUncollectedServices?: string;
+  totalUncollectedInvoiced?: string;
+  totalUncollectedDcrToSsn?: string;
+  totalUncollectedComplimentary?: string;
+  atecoCode?: string;
+}
+
+/**
+ * Input for uploading an emergency report collected while the PEM was unreachable
+ * POST /mf2/point-of-sales/{serial_number}/upload-emergency-report
+ */
+export interface EmergencyReportInput {
+  datetime: string;
+  documentsCount?: number;
+  cashPaymentAmount?: string;
+  electronicPaymentAmount?: string;
+  ticketRestaurantPaymentAmount?: string;
+  ticketRestaurantQuantity?: number;
+  entries?: EmergencyReportEntry[];
+}
+
+export interface EmergencyReportsParams {
+  page?: number;
+  itemsPerPage?: number;
+}
@@ -10,3 +10,4 @@ export * from './journal.entity';
 export * from './offline.entity';
 export * from './notification.entity';
 export * from './telemetry.entity';
+export * from './emergency-report.entity';
@@ -1,3 +1,5 @@
+import { Money } from '@/domain/value-objects/money.vo';
+
 export type JournalStatus = 'open' | 'closed';
 
 export interface Journal {
@@ -6,7 +8,7 @@ export interface Journal {
   date: string;
   sequenceNumber: number;
   totalReceipts: number;
-  totalAmount: string;
+  totalAmount: Money;
   status: JournalStatus;
 }
 
@@ -16,6 +18,7 @@ export interface JournalsParams {
   dateFrom?: string;
   dateTo?: string;
   page?: number;
+  itemsPerPage?: number;
 }
 
 export interface JournalCloseInput {
@@ -31,4 +31,5 @@ export interface MerchantUpdateInput {
 
 export interface MerchantsParams {
   page?: number;
+  itemsPerPage?: number;
 }
@@ -12,6 +12,28 @@ export type OperationStatus = 'pending' | 'processing' | 'completed' | 'failed';
 
 export type HttpMethod = 'GET' | 'POST' | 'PUT' | 'PATCH' | 'DELETE';
 
+export type OfflineOperationKind =
+  | 'receipt.create'
+  | 'receipt.void'
+  | 'receipt.voidViaDifferentDevice'
+  | 'receipt.voidWithProof'
+  | 'receipt.return'
+  | 'receipt.returnViaDifferentDevice'
+  | 'receipt.returnWithProof'
+  | 'cashier.create';
+
+/** Serialisable details of the error that made an operation fail permanently */
+export interface OperationFailure {
+  /** Type of the `ACubeSDKError`, when the error was one */
+  type?: string;
+  message: string;
+  statusCode?: number;
+  violations?: { propertyPath: string; message: string }[];
+  /** Set when the operation failed because one of its dependencies did */
+  dependencyId?: string;
+  failedAt: number;
+}
+
 export interface QueuedOperation {
   id: string;
   type: OperationType;
@@ -19,6 +41,8 @@ export interface QueuedOperation {
   endpoint: string;
   method: HttpMethod;
   data?: unknown;
+  /** Set by typed operations: `data` is then the domain input, mapped to the API shape on sync */
+  kind?: OfflineOperationKind;
   headers?: Record<string, string>;
   status: OperationStatus;
   createdAt: number;
@@ -26,7 +50,33 @@ export interface QueuedOperation {
   retryCount: number;
   maxRetries: number;
   error?: string;
+  /** Details of the permanent failure, kept until the operation is resubmitted or discarded */
+  failure?: OperationFailure;
+  /** Why the operation was discarded, set on a dead letter and its dependents when removed */
+  discardReason?: string;
   priority: number;
+  /** Sent as `Idempotency-Key` on every attempt, generated for receipt operations */
+  idempotencyKey?: string;
+  /** Point of sale issuing a queued receipt, lets an ambiguous failure be reconciled */
+  serialNumber?: string;
+  /**
+   * Span of the last request that was sent and failed: a receipt issued by it anyway has a
+   * document datetime within it
+   */
+  lastAttempt?: { startedAt: number; endedAt: number };
+  /** Operations that have to complete before this one is sent */
+  dependsOn?: string[];
+  /** Response of the completed operation, read by the placeholders of its dependents */
+  response?: unknown;
+}
+
+export type QueuedOperationOptions = Pick<
+  QueuedOperation,
+  'idempotencyKey' | 'serialNumber' | 'lastAttempt' | 'dependsOn'
+>;
+
+export interface OfflineEnqueueOptions extends QueuedOperationOptions {
+  priority?: number;
 }
 
 export interface SyncResult {
@@ -58,6 +108,10 @@ export interface QueueEvents {
   onOperationCompleted?: (result: SyncResult) => void;
   onOperationFailed?: (result: SyncResult) => void;
   onBatchSyncCompleted?: (result: BatchSyncResult) => void;
+  /** An operation failed permanently and needs to be resubmitted or discarded */
+  onOperationDeadLettered?: (operation: QueuedOperation) => void;
+  onOperationResubmitted?: (operation: QueuedOperation) => void;
+  onOperationDiscarded?: (operation: QueuedOperation, reason: string) => void;
   onQueueEmpty?: () => void;
   onError?: (error: Error) => void;
 }
@@ -1,6 +1,9 @@
 import { Address } from '@/domain/value-objects/address.vo';
 
-export type PEMStatus = 'NEW' | 'REGISTERED' | 'ACTIVATED' | 'ONLINE' | 'OFFLINE' | 'DISCARDED';
+export type PEMStatus =
+  'NEW' | 'REGISTERED' | 'ACTIVATED' | 'ONLINE' | 'OFFLINE' | 'DISCARDED' | 'ERROR';
+
+export type PEMOperationalStatus = 'OPEN' | 'CLOSED' | 'CLOSING';
 
 export type PointOfSaleType = 'AP' | 'SP' | 'TM' | 'PV';
 
@@ -8,7 +11,7 @@ export interface PointOfSale {
   serialNumber: string;
   status: PEMStatus;
   address: Address;
-  operationalStatus: string;
+  operationalStatus: PEMOperationalStatus | null;
 }
 
 export interface PointOfSaleDetailed extends PointOfSale {
@@ -1,3 +1,4 @@
+import { Money, MoneyInput } from '@/domain/value-objects/money.vo';
 import { GoodOrService, VatRateCode } from '@/domain/value-objects/vat-code.vo';
 
 export type ReceiptType = 'sale' | 'return' | 'void';
@@ -6,10 +7,11 @@ export interface ReceiptItem {
   type?: GoodOrService;
   quantity: string;
   description: string;
-  unitPrice: string;
-  vatRateCode?: VatRateCode;
+  unitPrice: MoneyInput;
+  /** null marks the item as subject to 'Ventilazione IVA'; omitted, no code is sent */
+  vatRateCode?: VatRateCode | null;
   simplifiedVatAllocation?: boolean;
-  discount?: string;
+  discount?: MoneyInput;
   isDownPaymentOrVoucherRedemption?: boolean;
   complimentary?: boolean;
 }
@@ -25,7 +27,7 @@ export interface ReturnableReceiptItem {
   quantity: string;
   returnedQuantity: string;
   description: string;
-  unitPrice: string;
+  unitPrice: Money;
   vatRateCode?: VatRateCode;
 }
 
@@ -33,7 +35,7 @@ export interface Receipt {
   uuid: string;
   type: ReceiptType;
   createdAt: string;
-  totalAmount: string;
+  totalAmount: Money | null;
   documentNumber: string;
   documentDatetime?: string;
   isReturnable: boolean;
@@ -44,14 +46,15 @@ export interface Receipt {
 
 export interface ReceiptDetails extends Receipt {
   customerLotteryCode?: string;
+  cashierName: string | null;
   vatNumber: string;
-  totalTaxableAmount: string;
-  totalUncollectedAmount: string;
-  deductibleAmount: string;
-  totalVatAmount: string;
-  totalDiscount: string;
-  totalGrossDiscount: string;
-  discount: string;
+  totalTaxableAmount: Money;
+  totalUncollectedAmount: Money;
+  deductibleAmount: Money;
+  totalVatAmount: Money;
+  totalDiscount: Money;
+  totalGrossDiscount?: Money;
+  discount?: Money;
   items?: ReceiptItem[];
 }
 
@@ -59,17 +62,27 @@ export interface ReceiptInput {
   items: ReceiptItem[];
   customerTaxCode?: string;
   customerLotteryCode?: string;
-  discount?: string;
+  discount?: MoneyInput;
   invoiceIssuing?: boolean;
   uncollectedDcrToSsn?: boolean;
-  servicesUncollectedAmount?: string;
-  goodsUncollectedAmount?: string;
-  cashPaymentAmount?: string;
-  electronicPaymentAmount?: string;
-  ticketRestaurantPaymentAmount?: string;
+  servicesUncollectedAmount?: MoneyInput;
+  goodsUncollectedAmount?: MoneyInput;
+  cashPaymentAmount?: MoneyInput;
+  electronicPaymentAmount?: MoneyInput;
+  ticketRestaurantPaymentAmount?: MoneyInput;
   ticketRestaurantQuantity?: number;
 }
 
+export interface ReceiptCreateOptions {
+  /** Sent as `Idempotency-Key`, a new key is generated when omitted */
+  idempotencyKey?: string;
+  /**
+   * Point of sale issuing the receipt. When set, an ambiguous failure (timeout, lost
+   * connection, 5xx) is reconciled by looking the receipt up before retrying once.
+   */
+  serialNumber?: string;
+}
+
 export interface ReceiptReturnInput {
   items: ReceiptReturnItem[];
   documentNumber: string;
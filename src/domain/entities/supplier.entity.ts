@@ -20,4 +20,5 @@ export interface SupplierUpdateInput {
 
 export interface SuppliersParams {
   page?: number;
+  itemsPerPage?: number;
 }
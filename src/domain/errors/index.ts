@@ -1 +1,2 @@
 export * from './mtls.error';
+export * from './receipt-builder.error';
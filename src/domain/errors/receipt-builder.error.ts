@@ -0,0 +1,16 @@
+export enum ReceiptBuilderErrorType {
+  NO_ITEMS = 'RECEIPT_NO_ITEMS',
+  INVALID_AMOUNT = 'RECEIPT_INVALID_AMOUNT',
+  INVALID_ITEM = 'RECEIPT_INVALID_ITEM',
+  INSUFFICIENT_PAYMENT = 'RECEIPT_INSUFFICIENT_PAYMENT',
+}
+
+export class ReceiptBuilderError extends Error {
+  constructor(
+    public type: ReceiptBuilderErrorType,
+    message: string
+  ) {
+    super(message);
+    this.name = 'ReceiptBuilderError';
+  }
+}
@@ -5,11 +5,16 @@ import {
   CashRegisterListParams,
   CashRegisterUpdateInput,
 } from '@/domain/entities/cash-register.entity';
-import { Page } from '@/domain/value-objects/page.vo';
+import { ReadOptions } from '@/domain/value-objects/cache-policy.vo';
+import { Page, PageIterationOptions } from '@/domain/value-objects/page.vo';
 
 export interface ICashRegisterRepository {
   create(input: CashRegisterCreateInput): Promise<CashRegisterDetailed>;
-  findById(uuid: string): Promise<CashRegister>;
-  findAll(params?: CashRegisterListParams): Promise<Page<CashRegister>>;
+  findById(uuid: string, options?: ReadOptions): Promise<CashRegister>;
+  findAll(params?: CashRegisterListParams, options?: ReadOptions): Promise<Page<CashRegister>>;
+  iterateAll(
+    params?: Omit<CashRegisterListParams, 'page' | 'size'>,
+    options?: PageIterationOptions
+  ): AsyncIterable<CashRegister>;
   update(uuid: string, input: CashRegisterUpdateInput): Promise<CashRegister>;
 }
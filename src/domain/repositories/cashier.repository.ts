@@ -1,10 +1,15 @@
 import { Cashier, CashierCreateInput, CashierListParams } from '@/domain/entities/cashier.entity';
-import { Page } from '@/domain/value-objects/page.vo';
+import { ReadOptions } from '@/domain/value-objects/cache-policy.vo';
+import { Page, PageIterationOptions } from '@/domain/value-objects/page.vo';
 
 export interface ICashierRepository {
   create(input: CashierCreateInput): Promise<Cashier>;
   findMe(): Promise<Cashier>;
-  findById(uuid: string): Promise<Cashier>;
-  findAll(params?: CashierListParams): Promise<Page<Cashier>>;
+  findById(uuid: string, options?: ReadOptions): Promise<Cashier>;
+  findAll(params?: CashierListParams, options?: ReadOptions): Promise<Page<Cashier>>;
+  iterateAll(
+    params?: Omit<CashierListParams, 'page' | 'size'>,
+    options?: PageIterationOptions
+  ): AsyncIterable<Cashier>;
   delete(uuid: string): Promise<void>;
 }
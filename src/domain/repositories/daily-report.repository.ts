@@ -1,7 +1,17 @@
 import { DailyReport, DailyReportsParams } from '@/domain/entities/daily-report.entity';
-import { Page } from '@/domain/value-objects/page.vo';
+import { ReadOptions } from '@/domain/value-objects/cache-policy.vo';
+import { Page, PageIterationOptions } from '@/domain/value-objects/page.vo';
 
 export interface IDailyReportRepository {
-  findById(merchantUuid: string, reportUuid: string): Promise<DailyReport>;
-  findAll(merchantUuid: string, params?: DailyReportsParams): Promise<Page<DailyReport>>;
+  findById(merchantUuid: string, reportUuid: string, options?: ReadOptions): Promise<DailyReport>;
+  findAll(
+    merchantUuid: string,
+    params?: DailyReportsParams,
+    options?: ReadOptions
+  ): Promise<Page<DailyReport>>;
+  iterateAll(
+    merchantUuid: string,
+    params?: Omit<DailyReportsParams, 'page' | 'itemsPerPage'>,
+    options?: PageIterationOptions
+  ): AsyncIterable<DailyReport>;
 }
@@ -0,0 +1,20 @@
+import {
+  EmergencyReport,
+  EmergencyReportInput,
+  EmergencyReportsParams,
+} from '@/domain/entities/emergency-report.entity';
+import { ReadOptions } from '@/domain/value-objects/cache-policy.vo';
+
+export interface IEmergencyReportRepository {
+  findById(
+    serialNumber: string,
+    reportId: number | string,
+    options?: ReadOptions
+  ): Promise<EmergencyReport>;
+  findAll(
+    serialNumber: string,
+    params?: EmergencyReportsParams,
+    options?: ReadOptions
+  ): Promise<EmergencyReport[]>;
+  upload(serialNumber: string, input: EmergencyReportInput): Promise<EmergencyReport>;
+}
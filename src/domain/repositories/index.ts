@@ -9,3 +9,4 @@ export * from './daily-report.repository';
 export * from './journal.repository';
 export * from './notification.repository';
 export * from './telemetry.repository';
+export * from './emergency-report.repository';
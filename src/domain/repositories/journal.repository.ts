@@ -1,8 +1,18 @@
 import { Journal, JournalCloseInput, JournalsParams } from '@/domain/entities/journal.entity';
-import { Page } from '@/domain/value-objects/page.vo';
+import { ReadOptions } from '@/domain/value-objects/cache-policy.vo';
+import { Page, PageIterationOptions } from '@/domain/value-objects/page.vo';
 
 export interface IJournalRepository {
-  findById(merchantUuid: string, journalUuid: string): Promise<Journal>;
-  findAll(merchantUuid: string, params?: JournalsParams): Promise<Page<Journal>>;
+  findById(merchantUuid: string, journalUuid: string, options?: ReadOptions): Promise<Journal>;
+  findAll(
+    merchantUuid: string,
+    params?: JournalsParams,
+    options?: ReadOptions
+  ): Promise<Page<Journal>>;
+  iterateAll(
+    merchantUuid: string,
+    params?: Omit<JournalsParams, 'page' | 'itemsPerPage'>,
+    options?: PageIterationOptions
+  ): AsyncIterable<Journal>;
   close(merchantUuid: string, input: JournalCloseInput): Promise<Journal>;
 }
@@ -4,10 +4,12 @@ import {
   MerchantUpdateInput,
   MerchantsParams,
 } from '@/domain/entities/merchant.entity';
+import { ReadOptions } from '@/domain/value-objects/cache-policy.vo';
+import { Page } from '@/domain/value-objects/page.vo';
 
 export interface IMerchantRepository {
   create(input: MerchantCreateInput): Promise<Merchant>;
-  findById(uuid: string): Promise<Merchant>;
-  findAll(params?: MerchantsParams): Promise<Merchant[]>;
+  findById(uuid: string, options?: ReadOptions): Promise<Merchant>;
+  findAll(params?: MerchantsParams, options?: ReadOptions): Promise<Page<Merchant>>;
   update(uuid: string, input: MerchantUpdateInput): Promise<Merchant>;
 }
@@ -5,11 +5,16 @@ import {
   PointOfSaleDetailed,
   PointOfSaleListParams,
 } from '@/domain/entities/point-of-sale.entity';
-import { Page } from '@/domain/value-objects/page.vo';
+import { ReadOptions } from '@/domain/value-objects/cache-policy.vo';
+import { Page, PageIterationOptions } from '@/domain/value-objects/page.vo';
 
 export interface IPointOfSaleRepository {
-  findById(serialNumber: string): Promise<PointOfSaleDetailed>;
-  findAll(params?: PointOfSaleListParams): Promise<Page<PointOfSale>>;
+  findById(serialNumber: string, options?: ReadOptions): Promise<PointOfSaleDetailed>;
+  findAll(params?: PointOfSaleListParams, options?: ReadOptions): Promise<Page<PointOfSale>>;
+  iterateAll(
+    params?: Omit<PointOfSaleListParams, 'page' | 'size'>,
+    options?: PageIterationOptions
+  ): AsyncIterable<PointOfSale>;
   activate(serialNumber: string, input: ActivationRequest): Promise<void>;
   closeJournal(serialNumber: string): Promise<void>;
   createInactivity(serialNumber: string): Promise<void>;
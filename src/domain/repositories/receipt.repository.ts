@@ -1,5 +1,6 @@
 import {
   Receipt,
+  ReceiptCreateOptions,
   ReceiptDetails,
   ReceiptInput,
   ReceiptListParams,
@@ -11,15 +12,24 @@ import {
   VoidViaDifferentDeviceInput,
   VoidWithProofInput,
 } from '@/domain/entities/receipt.entity';
-import { Page } from '@/domain/value-objects/page.vo';
+import { ReadOptions } from '@/domain/value-objects/cache-policy.vo';
+import { Page, PageIterationOptions } from '@/domain/value-objects/page.vo';
 
 export interface IReceiptRepository {
-  create(input: ReceiptInput): Promise<Receipt>;
-  findById(receiptUuid: string): Promise<Receipt>;
-  findAll(params: ReceiptListParams): Promise<Page<Receipt>>;
-  getDetails(receiptUuid: string, format: 'json'): Promise<ReceiptDetails>;
-  getDetails(receiptUuid: string, format: 'pdf'): Promise<string>;
-  getDetails(receiptUuid: string, format: 'json' | 'pdf'): Promise<ReceiptDetails | string>;
+  create(input: ReceiptInput, options?: ReceiptCreateOptions): Promise<Receipt>;
+  findById(receiptUuid: string, options?: ReadOptions): Promise<Receipt>;
+  findAll(params: ReceiptListParams, options?: ReadOptions): Promise<Page<Receipt>>;
+  iterateAll(
+    params: Omit<ReceiptListParams, 'page' | 'size'>,
+    options?: PageIterationOptions
+  ): AsyncIterable<Receipt>;
+  getDetails(receiptUuid: string, format: 'json', options?: ReadOptions): Promise<ReceiptDetails>;
+  getDetails(receiptUuid: string, format: 'pdf', options?: ReadOptions): Promise<string>;
+  getDetails(
+    receiptUuid: string,
+    format: 'json' | 'pdf',
+    options?: ReadOptions
+  ): Promise<ReceiptDetails | string>;
   getReturnableItems(receiptUuid: string): Promise<ReturnableReceiptItem[]>;
   voidReceipt(input: VoidReceiptInput): Promise<void>;
   voidViaDifferentDevice(input: VoidViaDifferentDeviceInput): Promise<void>;
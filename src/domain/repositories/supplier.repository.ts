@@ -4,12 +4,22 @@ import {
   SupplierUpdateInput,
   SuppliersParams,
 } from '@/domain/entities/supplier.entity';
-import { Page } from '@/domain/value-objects/page.vo';
+import { ReadOptions } from '@/domain/value-objects/cache-policy.vo';
+import { Page, PageIterationOptions } from '@/domain/value-objects/page.vo';
 
 export interface ISupplierRepository {
   create(merchantUuid: string, input: SupplierCreateInput): Promise<Supplier>;
-  findById(merchantUuid: string, supplierUuid: string): Promise<Supplier>;
-  findAll(merchantUuid: string, params?: SuppliersParams): Promise<Page<Supplier>>;
+  findById(merchantUuid: string, supplierUuid: string, options?: ReadOptions): Promise<Supplier>;
+  findAll(
+    merchantUuid: string,
+    params?: SuppliersParams,
+    options?: ReadOptions
+  ): Promise<Page<Supplier>>;
+  iterateAll(
+    merchantUuid: string,
+    params?: Omit<SuppliersParams, 'page' | 'itemsPerPage'>,
+    options?: PageIterationOptions
+  ): AsyncIterable<Supplier>;
   update(merchantUuid: string, supplierUuid: string, input: SupplierUpdateInput): Promise<Supplier>;
   delete(merchantUuid: string, supplierUuid: string): Promise<void>;
 }
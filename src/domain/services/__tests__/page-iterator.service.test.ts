@@ -0,0 +1,95 @@
+import { LdJsonPage, Page } from '../../value-objects/page.vo';
+import { iteratePages } from '../page-iterator.service';
+
+async function collect<T>(iterable: AsyncIterable<T>): Promise<T[]> {
+  const items: T[] = [];
+  for await (const item of iterable) items.push(item);
+  return items;
+}
+
+describe('iteratePages', () => {
+  it('should follow Page.pages and pass the page size', async () => {
+    const fetchPage = jest.fn(async (page: number): Promise<Page<string>> => ({
+      members: [`item-${page}`],
+      page,
+      pages: 3,
+    }));
+
+    const items = await collect(iteratePages(fetchPage, { pageSize: 50 }));
+
+    expect(items).toEqual(['item-1', 'item-2', 'item-3']);
+    expect(fetchPage.mock.calls).toEqual([
+      [1, 50],
+      [2, 50],
+      [3, 50],
+    ]);
+  });
+
+  it('should stop at the first empty page when the total is unknown', async () => {
+    const fetchPage = jest.fn(async (page: number): Promise<Page<number>> => ({
+      members: page < 3 ? [page] : [],
+    }));
+
+    expect(await collect(iteratePages(fetchPage))).toEqual([1, 2]);
+    expect(fetchPage).toHaveBeenCalledTimes(3);
+  });
+
+  it('should follow Hydra view.next links', async () => {
+    const pages: Record<number, LdJsonPage<string>> = {
+      1: {
+        member: ['a', 'b'],
+        view: { '@id': '/mf2/merchants?page=1', next: '/mf2/merchants?page=2' },
+      },
+      2: { member: ['c'], view: { '@id': '/mf2/merchants?page=2' } },
+    };
+    const fetchPage = jest.fn(async (page: number) => pages[page]!);
+
+    expect(await collect(iteratePages(fetchPage))).toEqual(['a', 'b', 'c']);
+    expect(fetchPage).toHaveBeenCalledTimes(2);
+  });
+
+  it('should follow the next link of mapped mf2 pages', async () => {
+    const fetchPage = jest.fn(async (page: number): Promise<Page<string>> => ({
+      members: [`pem-${page}`],
+      page,
+      links: page < 2 ? { next: `/mf2/merchants/uuid/pems?page=${page + 1}` } : {},
+    }));
+
+    expect(await collect(iteratePages(fetchPage))).toEqual(['pem-1', 'pem-2']);
+    expect(fetchPage).toHaveBeenCalledTimes(2);
+  });
+
+  it('should not loop on a next link pointing backwards', async () => {
+    const fetchPage = jest.fn(async (): Promise<LdJsonPage<string>> => ({
+      member: ['a'],
+      view: { '@id': '/mf2/merchants?page=1', next: '/mf2/merchants?page=1' },
+    }));
+
+    expect(await collect(iteratePages(fetchPage))).toEqual(['a']);
+  });
+
+  it('should stop early when the signal is aborted', async () => {
+    const controller = new AbortController();
+    const fetchPage = jest.fn(async (page: number): Promise<Page<number>> => ({
+      members: [page * 10, page * 10 + 1],
+    }));
+    const items: number[] = [];
+
+    for await (const item of iteratePages(fetchPage, { signal: controller.signal })) {
+      items.push(item);
+      if (item === 20) controller.abort();
+    }
+
+    expect(items).toEqual([10, 11, 20]);
+    expect(fetchPage).toHaveBeenCalledTimes(2);
+  });
+
+  it('should not request any page with an already aborted signal', async () => {
+    const controller = new AbortController();
+    controller.abort();
+    const fetchPage = jest.fn(async (): Promise<Page<number>> => ({ members: [1] }));
+
+    expect(await collect(iteratePages(fetchPage, { signal: controller.signal }))).toEqual([]);
+    expect(fetchPage).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,245 @@
+import { ReceiptBuilderError, ReceiptBuilderErrorType } from '../../errors/receipt-builder.error';
+import { Money } from '../../value-objects/money.vo';
+import { ReceiptBuilder } from '../receipt-builder.service';
+
+function expectBuilderError(fn: () => unknown, type: ReceiptBuilderErrorType): void {
+  try {
+    fn();
+  } catch (error) {
+    expect(error).toBeInstanceOf(ReceiptBuilderError);
+    expect((error as ReceiptBuilderError).type).toBe(type);
+    return;
+  }
+  throw new Error(`Expected ReceiptBuilderError ${type}`);
+}
+
+describe('ReceiptBuilder', () => {
+  describe('build', () => {
+    it('should normalise quantities and amounts to the API decimal format', () => {
+      const input = new ReceiptBuilder()
+        .addItem({ description: 'Caffè', quantity: 2, unitPrice: '1.2', vatRateCode: '10.00' })
+        .addItem({
+          description: 'Gettone',
+          quantity: '1',
+          unitPrice: '0.123456',
+          vatRateCode: 'N2',
+        })
+        .payCash(5)
+        .build();
+
+      expect(input.items).toEqual([
+        {
+          type: undefined,
+          quantity: '2.00',
+          description: 'Caffè',
+          unitPrice: '1.20',
+          vatRateCode: '10.00',
+          simplifiedVatAllocation: undefined,
+          discount: undefined,
+          isDownPaymentOrVoucherRedemption: undefined,
+          complimentary: undefined,
+        },
+        expect.objectContaining({ quantity: '1.00', unitPrice: '0.123456', vatRateCode: 'N2' }),
+      ]);
+      expect(input.cashPaymentAmount).toBe('5.00');
+      expect(input.electronicPaymentAmount).toBeUndefined();
+    });
+
+    it('should carry discounts, payments and customer codes into the ReceiptInput', () => {
+      const input = new ReceiptBuilder()
+        .addItem({ description: 'Pizza', quantity: 1, unitPrice: '10', vatRateCode: '10.00' })
+        .applyLineDiscount(0, '1')
+        .setDiscount('0.5')
+        .payElectronic('4.5')
+        .payTicketRestaurant('4', 1)
+        .withCustomerLotteryCode('ABCD1234')
+        .build();
+
+      expect(input.items[0]?.discount).toBe('1.00');
+      expect(input.discount).toBe('0.50');
+      expect(input.electronicPaymentAmount).toBe('4.50');
+      expect(input.ticketRestaurantPaymentAmount).toBe('4.00');
+      expect(input.ticketRestaurantQuantity).toBe(1);
+      expect(input.customerLotteryCode).toBe('ABCD1234');
+    });
+
+    it('should refuse to build a receipt without items', () => {
+      expectBuilderError(() => new ReceiptBuilder().build(), ReceiptBuilderErrorType.NO_ITEMS);
+    });
+
+    it('should refuse to build when payments do not cover the amount due', () => {
+      const builder = new ReceiptBuilder()
+        .addItem({ description: 'Libro', quantity: 1, unitPrice: '15.90', vatRateCode: '4.00' })
+        .payCash('10')
+        .payElectronic('5.89');
+
+      expectBuilderError(() => builder.build(), ReceiptBuilderErrorType.INSUFFICIENT_PAYMENT);
+      expect(() => builder.payElectronic('5.90').build()).not.toThrow();
+    });
+
+    it('should refuse a receipt level discount larger than the total', () => {
+      const builder = new ReceiptBuilder()
+        .addItem({ description: 'Acqua', quantity: 1, unitPrice: '1', vatRateCode: '22.00' })
+        .setDiscount('2');
+
+      expectBuilderError(() => builder.build(), ReceiptBuilderErrorType.INVALID_AMOUNT);
+    });
+  });
+
+  describe('item validation', () => {
+    it('should reject malformed amounts', () => {
+      const builder = new ReceiptBuilder();
+
+      expectBuilderError(
+        () =>
+          builder.addItem({
+            description: 'X',
+            quantity: 1,
+            unitPrice: '1,50',
+            vatRateCode: '22.00',
+          }),
+        ReceiptBuilderErrorType.INVALID_AMOUNT
+      );
+      expectBuilderError(() => builder.payCash('-1'), ReceiptBuilderErrorType.INVALID_AMOUNT);
+    });
+
+    it('should reject quantities the API would round', () => {
+      const builder = new ReceiptBuilder();
+
+      expectBuilderError(
+        () =>
+          builder.addItem({
+            description: 'Prosciutto',
+            quantity: '0.333',
+            unitPrice: '30',
+            vatRateCode: '10.00',
+          }),
+        ReceiptBuilderErrorType.INVALID_ITEM
+      );
+      builder.addItem({
+        description: 'Prosciutto',
+        quantity: '0.330',
+        unitPrice: '30',
+        vatRateCode: '10.00',
+      });
+      expect(builder.payCash('9.90').build().items[0]?.quantity).toBe('0.33');
+    });
+
+    it('should require either a VAT rate or simplified VAT allocation', () => {
+      const builder = new ReceiptBuilder();
+
+      expectBuilderError(
+        () => builder.addItem({ description: 'X', quantity: 1, unitPrice: '1' }),
+        ReceiptBuilderErrorType.INVALID_ITEM
+      );
+      expectBuilderError(
+        () =>
+          builder.addItem({
+            description: 'X',
+            quantity: 1,
+            unitPrice: '1',
+            vatRateCode: '22.00',
+            simplifiedVatAllocation: true,
+          }),
+        ReceiptBuilderErrorType.INVALID_ITEM
+      );
+    });
+
+    it('should reject a line discount larger than the line amount', () => {
+      const builder = new ReceiptBuilder().addItem({
+        description: 'Penna',
+        quantity: 2,
+        unitPrice: '1',
+        vatRateCode: '22.00',
+      });
+
+      expectBuilderError(
+        () => builder.applyLineDiscount(0, '2.01'),
+        ReceiptBuilderErrorType.INVALID_AMOUNT
+      );
+      expectBuilderError(
+        () => builder.applyLineDiscount(1, '1'),
+        ReceiptBuilderErrorType.INVALID_ITEM
+      );
+      expect(builder.totals().grossAmount).toEqual(Money.of('2.00'));
+    });
+  });
+
+  describe('totals', () => {
+    it('should split gross amounts by VAT rate', () => {
+      const totals = new ReceiptBuilder()
+        .addItem({ description: 'A', quantity: 3, unitPrice: '0.10', vatRateCode: '22.00' })
+        .addItem({ description: 'B', quantity: 1, unitPrice: '12.20', vatRateCode: '22.00' })
+        .addItem({ description: 'C', quantity: 1, unitPrice: '11', vatRateCode: '10.00' })
+        .addItem({ description: 'D', quantity: 1, unitPrice: '5', vatRateCode: 'N4' })
+        .addItem({ description: 'E', quantity: 1, unitPrice: '2', simplifiedVatAllocation: true })
+        .totals();
+
+      expect(totals.grossAmount).toEqual(Money.of('30.50'));
+      expect(totals.vatBreakdown).toEqual([
+        {
+          vatRateCode: '22.00',
+          taxableAmount: Money.of('10.25'),
+          vatAmount: Money.of('2.25'),
+          grossAmount: Money.of('12.50'),
+        },
+        {
+          vatRateCode: '10.00',
+          taxableAmount: Money.of('10.00'),
+          vatAmount: Money.of('1.00'),
+          grossAmount: Money.of('11.00'),
+        },
+        {
+          vatRateCode: 'N4',
+          taxableAmount: Money.of('5.00'),
+          vatAmount: Money.of('0.00'),
+          grossAmount: Money.of('5.00'),
+        },
+        {
+          vatRateCode: null,
+          taxableAmount: Money.of('2.00'),
+          vatAmount: Money.of('0.00'),
+          grossAmount: Money.of('2.00'),
+        },
+      ]);
+    });
+
+    it('should compute lines exactly without floating point drift', () => {
+      const totals = new ReceiptBuilder()
+        .addItem({ description: 'A', quantity: '0.1', unitPrice: '0.2', vatRateCode: '22.00' })
+        .addItem({ description: 'B', quantity: 3, unitPrice: '0.1', vatRateCode: '22.00' })
+        .totals();
+
+      expect(totals.grossAmount).toEqual(Money.of('0.32'));
+    });
+
+    it('should subtract complimentary, prepaid items and discounts from the amount due', () => {
+      const totals = new ReceiptBuilder()
+        .addItem({ description: 'Menu', quantity: 1, unitPrice: '20', vatRateCode: '10.00' })
+        .addItem({
+          description: 'Dolce',
+          quantity: 1,
+          unitPrice: '4',
+          vatRateCode: '10.00',
+          complimentary: true,
+        })
+        .addItem({
+          description: 'Acconto',
+          quantity: 1,
+          unitPrice: '6',
+          vatRateCode: '10.00',
+          isDownPaymentOrVoucherRedemption: true,
+        })
+        .setDiscount('0.40')
+        .payCash('20')
+        .totals();
+
+      expect(totals.grossAmount).toEqual(Money.of('30.00'));
+      expect(totals.complimentaryAmount).toEqual(Money.of('4.00'));
+      expect(totals.prepaidAmount).toEqual(Money.of('6.00'));
+      expect(totals.amountDue).toEqual(Money.of('19.60'));
+      expect(totals.change).toEqual(Money.of('0.40'));
+      expect(totals.vatBreakdown[0]?.grossAmount).toEqual(Money.of('24.00'));
+    });
+  });
+});
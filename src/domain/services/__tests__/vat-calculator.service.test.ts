@@ -0,0 +1,109 @@
+import { ReceiptItem } from '../../entities/receipt.entity';
+import { Money } from '../../value-objects/money.vo';
+import { VatCalculator } from '../vat-calculator.service';
+
+function item(overrides: Partial<ReceiptItem>): ReceiptItem {
+  return { quantity: '1.00', description: 'Articolo', unitPrice: '1.00', ...overrides };
+}
+
+describe('VatCalculator', () => {
+  describe('lineAmount', () => {
+    it('should round each line to cents before subtracting the line discount', () => {
+      expect(VatCalculator.lineAmount(item({ quantity: '0.33', unitPrice: '1.99' }))).toEqual(
+        Money.of('0.66')
+      );
+      expect(
+        VatCalculator.lineAmount(item({ quantity: '2.00', unitPrice: '5.00', discount: '1.50' }))
+      ).toEqual(Money.of('8.50'));
+    });
+  });
+
+  describe('breakdown', () => {
+    it('should extract VAT once per rate from the gross total', () => {
+      const breakdown = VatCalculator.breakdown([
+        item({ unitPrice: '1.30', vatRateCode: '10.00' }),
+        item({ unitPrice: '1.30', vatRateCode: '10.00' }),
+        item({ unitPrice: '1.30', vatRateCode: '10.00' }),
+        item({ unitPrice: '12.20', vatRateCode: '22.00' }),
+      ]);
+
+      // Line by line the VAT at 10% would be 3 x 0.12 = 0.36.
+      expect(breakdown.rates).toEqual([
+        {
+          vatRateCode: '10.00',
+          taxableAmount: Money.of('3.55'),
+          vatAmount: Money.of('0.35'),
+          grossAmount: Money.of('3.90'),
+        },
+        {
+          vatRateCode: '22.00',
+          taxableAmount: Money.of('10.00'),
+          vatAmount: Money.of('2.20'),
+          grossAmount: Money.of('12.20'),
+        },
+      ]);
+      expect(breakdown.totalTaxableAmount).toEqual(Money.of('13.55'));
+      expect(breakdown.totalVatAmount).toEqual(Money.of('2.55'));
+      expect(breakdown.totalGrossAmount).toEqual(Money.of('16.10'));
+    });
+
+    it('should keep exempt natures and simplified allocation items without VAT', () => {
+      const breakdown = VatCalculator.breakdown([
+        item({ unitPrice: '5.00', vatRateCode: 'N4' }),
+        item({ unitPrice: '3.00', vatRateCode: 'N2' }),
+        item({ unitPrice: '2.00', simplifiedVatAllocation: true }),
+      ]);
+
+      expect(breakdown.rates.map((rate) => [rate.vatRateCode, rate.vatAmount.toFixed()])).toEqual([
+        ['N4', '0.00'],
+        ['N2', '0.00'],
+        [null, '0.00'],
+      ]);
+      expect(breakdown.totalTaxableAmount).toEqual(Money.of('10.00'));
+    });
+
+    it('should include complimentary items and exclude prepaid items', () => {
+      const breakdown = VatCalculator.breakdown([
+        item({ unitPrice: '20.00', vatRateCode: '10.00' }),
+        item({ unitPrice: '4.00', vatRateCode: '10.00', complimentary: true }),
+        item({ unitPrice: '6.00', vatRateCode: '10.00', isDownPaymentOrVoucherRedemption: true }),
+      ]);
+
+      expect(breakdown.totalGrossAmount).toEqual(Money.of('24.00'));
+      expect(breakdown.totalVatAmount).toEqual(Money.of('2.18'));
+      expect(breakdown.complimentaryAmount).toEqual(Money.of('4.00'));
+      expect(breakdown.prepaidAmount).toEqual(Money.of('6.00'));
+    });
+
+    it('should return empty totals without items', () => {
+      const breakdown = VatCalculator.breakdown([]);
+
+      expect(breakdown.rates).toEqual([]);
+      expect(breakdown.totalGrossAmount.isZero()).toBe(true);
+    });
+  });
+
+  describe('compare', () => {
+    const breakdown = VatCalculator.breakdown([item({ unitPrice: '12.20', vatRateCode: '22.00' })]);
+
+    it('should match the totals returned by the server', () => {
+      const comparison = VatCalculator.compare(breakdown, {
+        totalTaxableAmount: Money.of('10.00'),
+        totalVatAmount: Money.of('2.20'),
+      });
+
+      expect(comparison.matches).toBe(true);
+    });
+
+    it('should report the differences when totals diverge', () => {
+      const comparison = VatCalculator.compare(breakdown, {
+        totalTaxableAmount: Money.of('10.01'),
+        totalVatAmount: Money.of('2.19'),
+      });
+
+      expect(comparison.matches).toBe(false);
+      expect(comparison.taxableDifference).toEqual(Money.of('-0.01'));
+      expect(comparison.vatDifference).toEqual(Money.of('0.01'));
+    });
+  });
+});
@@ -1,2 +1,5 @@
 export * from './jwt-parser.service';
 export * from './certificate-validator.service';
+export * from './receipt-builder.service';
+export * from './vat-calculator.service';
+export * from './page-iterator.service';
@@ -0,0 +1,66 @@
+import { LdJsonPage, Page, PageIterationOptions } from '@/domain/value-objects/page.vo';
+
+export type PageFetcher<T> = (
+  page: number,
+  pageSize: number | undefined
+) => Promise<Page<T> | LdJsonPage<T>>;
+
+function isLdJsonPage<T>(result: Page<T> | LdJsonPage<T>): result is LdJsonPage<T> {
+  return 'member' in result;
+}
+
+function pageNumberFromLink(link: string): number | null {
+  const match = /[?&]page=(\d+)/.exec(link);
+  return match ? Number(match[1]) : null;
+}
+
+function nextPageFromLink(link: string | undefined, current: number): number | null {
+  const next = link ? pageNumberFromLink(link) : null;
+  // A link that does not move forward would loop forever
+  return next !== null && next > current ? next : null;
+}
+
+function nextPageNumber<T>(result: Page<T> | LdJsonPage<T>, current: number): number | null {
+  if (isLdJsonPage(result)) {
+    return nextPageFromLink(result.view?.next, current);
+  }
+  if (result.links) {
+    return nextPageFromLink(result.links.next, current);
+  }
+  if (result.pages !== undefined) {
+    return current < result.pages ? current + 1 : null;
+  }
+  return result.members.length > 0 ? current + 1 : null;
+}
+
+/**
+ * Walks a paginated endpoint item by item, requesting pages lazily.
+ *
+ * The next page is taken from the Hydra `next` link for mf2 collections, from `pages` when
+ * the API returns it, and otherwise pages are requested until one comes back empty.
+ *
+ * @example
+ * ```typescript
+ * for await (const cashier of iteratePages((page, size) => repo.findAll({ page, size }))) {
+ *   console.log(cashier.email);
+ * }
+ * ```
+ */
+export async function* iteratePages<T>(
+  fetchPage: PageFetcher<T>,
+  options: PageIterationOptions = {}
+): AsyncGenerator<T, void, undefined> {
+  const { pageSize, signal } = options;
+  let page: number | null = 1;
+
+  while (page !== null) {
+    if (signal?.aborted) return;
+    const result = await fetchPage(page, pageSize);
+
+    for (const member of isLdJsonPage(result) ? result.member : result.members) {
+      if (signal?.aborted) return;
+      yield member;
+    }
+    page = nextPageNumber(result, page);
+  }
+}
@@ -0,0 +1,278 @@
+import { ReceiptInput, ReceiptItem } from '@/domain/entities/receipt.entity';
+import {
+  ReceiptBuilderError,
+  ReceiptBuilderErrorType,
+} from '@/domain/errors/receipt-builder.error';
+import { ReceiptVatTotal, VatCalculator } from '@/domain/services/vat-calculator.service';
+import { Money, MoneyInput } from '@/domain/value-objects/money.vo';
+import { GoodOrService, VatRateCode } from '@/domain/value-objects/vat-code.vo';
+
+export interface ReceiptItemDraft {
+  description: string;
+  quantity: MoneyInput;
+  unitPrice: MoneyInput;
+  vatRateCode?: VatRateCode;
+  type?: GoodOrService;
+  discount?: MoneyInput;
+  simplifiedVatAllocation?: boolean;
+  isDownPaymentOrVoucherRedemption?: boolean;
+  complimentary?: boolean;
+}
+
+export interface ReceiptTotals {
+  /** Sum of all lines, net of line discounts */
+  grossAmount: Money;
+  complimentaryAmount: Money;
+  prepaidAmount: Money;
+  discount: Money;
+  /** Amount the customer has to settle: gross - complimentary - prepaid - discount */
+  amountDue: Money;
+  paidAmount: Money;
+  /** Cash to give back when payments exceed the amount due */
+  change: Money;
+  /** Split by VAT rate computed by `VatCalculator`, without prepaid lines */
+  vatBreakdown: ReceiptVatTotal[];
+}
+
+/** The API takes quantities with exactly 2 decimals */
+const QUANTITY_DECIMALS = 2;
+
+function parseAmount(value: MoneyInput, field: string): Money {
+  if (!Money.isValid(value) || Money.of(value).isNegative()) {
+    throw new ReceiptBuilderError(
+      ReceiptBuilderErrorType.INVALID_AMOUNT,
+      `${field} must be a non-negative amount with at most ${Money.SCALE_DIGITS} decimals, got "${String(value)}"`
+    );
+  }
+  return Money.of(value);
+}
+
+/**
+ * Fluent builder for `ReceiptInput` that normalises amounts and checks totals locally,
+ * so that an unbalanced receipt is rejected before reaching the API.
+ *
+ * @example
+ * ```typescript
+ * const input = new ReceiptBuilder()
+ *   .addItem({ description: 'Caffè', quantity: 2, unitPrice: '1.20', vatRateCode: '10.00' })
+ *   .payCash('5')
+ *   .build();
+ * ```
+ */
+export class ReceiptBuilder {
+  private readonly items: ReceiptItemDraft[] = [];
+  private discount?: MoneyInput;
+  private cashPayment?: MoneyInput;
+  private electronicPayment?: MoneyInput;
+  private ticketRestaurantPayment?: MoneyInput;
+  private ticketRestaurantQuantity?: number;
+  private customerTaxCode?: string;
+  private customerLotteryCode?: string;
+
+  addItem(item: ReceiptItemDraft): this {
+    if (!item.description.trim()) {
+      throw new ReceiptBuilderError(
+        ReceiptBuilderErrorType.INVALID_ITEM,
+        'Item description is required'
+      );
+    }
+    if (item.vatRateCode && item.simplifiedVatAllocation) {
+      throw new ReceiptBuilderError(
+        ReceiptBuilderErrorType.INVALID_ITEM,
+        'vatRateCode must not be set on items subject to simplified VAT allocation'
+      );
+    }
+    if (!item.vatRateCode && !item.simplifiedVatAllocation) {
+      throw new ReceiptBuilderError(
+        ReceiptBuilderErrorType.INVALID_ITEM,
+        `Item "${item.description}" needs a vatRateCode or simplifiedVatAllocation`
+      );
+    }
+    const quantity = parseAmount(item.quantity, 'quantity');
+    if (quantity.isZero()) {
+      throw new ReceiptBuilderError(
+        ReceiptBuilderErrorType.INVALID_ITEM,
+        `Item "${item.description}" must have a positive quantity`
+      );
+    }
+    // Rounding it would send a line different from the one totalled here
+    if (!quantity.round(QUANTITY_DECIMALS).equals(quantity)) {
+      throw new ReceiptBuilderError(
+        ReceiptBuilderErrorType.INVALID_ITEM,
+        `Item "${item.description}" quantity must have at most ${QUANTITY_DECIMALS} decimals, got "${String(item.quantity)}"`
+      );
+    }
+    parseAmount(item.unitPrice, 'unitPrice');
+    this.assertLineDiscount(item);
+
+    this.items.push({ ...item });
+    return this;
+  }
+
+  /** Applies a gross discount to the item at `index` (in insertion order) */
+  applyLineDiscount(index: number, amount: MoneyInput): this {
+    const item = this.items[index];
+    if (!item) {
+      throw new ReceiptBuilderError(
+        ReceiptBuilderErrorType.INVALID_ITEM,
+        `No item at index ${index}`
+      );
+    }
+    this.assertLineDiscount({ ...item, discount: amount });
+    item.discount = amount;
+    return this;
+  }
+
+  /** Sets the receipt level discount ("sconto a pagare"), which does not affect the VAT split */
+  setDiscount(amount: MoneyInput): this {
+    parseAmount(amount, 'discount');
+    this.discount = amount;
+    return this;
+  }
+
+  payCash(amount: MoneyInput): this {
+    parseAmount(amount, 'cashPaymentAmount');
+    this.cashPayment = amount;
+    return this;
+  }
+
+  payElectronic(amount: MoneyInput): this {
+    parseAmount(amount, 'electronicPaymentAmount');
+    this.electronicPayment = amount;
+    return this;
+  }
+
+  payTicketRestaurant(amount: MoneyInput, quantity: number): this {
+    parseAmount(amount, 'ticketRestaurantPaymentAmount');
+    if (!Number.isInteger(quantity) || quantity < 1) {
+      throw new ReceiptBuilderError(
+        ReceiptBuilderErrorType.INVALID_AMOUNT,
+        'ticketRestaurantQuantity must be a positive integer'
+      );
+    }
+    this.ticketRestaurantPayment = amount;
+    this.ticketRestaurantQuantity = quantity;
+    return this;
+  }
+
+  withCustomerTaxCode(code: string): this {
+    this.customerTaxCode = code;
+    return this;
+  }
+
+  withCustomerLotteryCode(code: string): this {
+    this.customerLotteryCode = code;
+    return this;
+  }
+
+  totals(): ReceiptTotals {
+    const totals = this.computeTotals();
+    const { rates } = VatCalculator.breakdown(this.items.map((item) => this.toReceiptItem(item)));
+
+    return {
+      grossAmount: totals.gross,
+      complimentaryAmount: totals.complimentary,
+      prepaidAmount: totals.prepaid,
+      discount: totals.discount,
+      amountDue: totals.amountDue,
+      paidAmount: totals.paid,
+      change: totals.paid.greaterThan(totals.amountDue)
+        ? totals.paid.minus(totals.amountDue)
+        : Money.zero(),
+      vatBreakdown: rates,
+    };
+  }
+
+  build(): ReceiptInput {
+    if (this.items.length === 0) {
+      throw new ReceiptBuilderError(
+        ReceiptBuilderErrorType.NO_ITEMS,
+        'A receipt needs at least one item'
+      );
+    }
+
+    const totals = this.computeTotals();
+    if (totals.amountDue.isNegative()) {
+      throw new ReceiptBuilderError(
+        ReceiptBuilderErrorType.INVALID_AMOUNT,
+        `Discounts (${totals.discount}) exceed the receipt total (${totals.gross})`
+      );
+    }
+    if (totals.paid.lessThan(totals.amountDue)) {
+      throw new ReceiptBuilderError(
+        ReceiptBuilderErrorType.INSUFFICIENT_PAYMENT,
+        `Payments (${totals.paid}) do not cover the amount due (${totals.amountDue})`
+      );
+    }
+
+    return {
+      items: this.items.map((item) => this.toReceiptItem(item)),
+      customerTaxCode: this.customerTaxCode,
+      customerLotteryCode: this.customerLotteryCode,
+      discount: Money.format(this.discount),
+      cashPaymentAmount: Money.format(this.cashPayment),
+      electronicPaymentAmount: Money.format(this.electronicPayment),
+      ticketRestaurantPaymentAmount: Money.format(this.ticketRestaurantPayment),
+      ticketRestaurantQuantity: this.ticketRestaurantQuantity,
+    };
+  }
+
+  private computeTotals() {
+    let gross = Money.zero();
+    let complimentary = Money.zero();
+    let prepaid = Money.zero();
+
+    for (const item of this.items) {
+      const line = this.lineAmount(item);
+      gross = gross.plus(line);
+      if (item.complimentary) complimentary = complimentary.plus(line);
+      else if (item.isDownPaymentOrVoucherRedemption) prepaid = prepaid.plus(line);
+    }
+
+    const discount = Money.of(this.discount ?? 0);
+    const paid = Money.sum(
+      [this.cashPayment, this.electronicPayment, this.ticketRestaurantPayment].map(
+        (amount) => amount ?? 0
+      )
+    );
+
+    return {
+      gross,
+      complimentary,
+      prepaid,
+      discount,
+      amountDue: gross.minus(complimentary).minus(prepaid).minus(discount),
+      paid,
+    };
+  }
+
+  private lineAmount(item: ReceiptItemDraft): Money {
+    parseAmount(item.quantity, 'quantity');
+    parseAmount(item.unitPrice, 'unitPrice');
+    if (item.discount !== undefined) parseAmount(item.discount, 'discount');
+    return VatCalculator.lineAmount(this.toReceiptItem(item));
+  }
+
+  private assertLineDiscount(item: ReceiptItemDraft): void {
+    if (this.lineAmount(item).isNegative()) {
+      throw new ReceiptBuilderError(
+        ReceiptBuilderErrorType.INVALID_AMOUNT,
+        `Discount on "${item.description}" exceeds the line amount`
+      );
+    }
+  }
+
+  private toReceiptItem(item: ReceiptItemDraft): ReceiptItem {
+    return {
+      type: item.type,
+      quantity: Money.of(item.quantity).toFixed(QUANTITY_DECIMALS),
+      description: item.description,
+      unitPrice: Money.of(item.unitPrice).toDecimalString(),
+      vatRateCode: item.vatRateCode,
+      simplifiedVatAllocation: item.simplifiedVatAllocation,
+      discount: Money.format(item.discount),
+      isDownPaymentOrVoucherRedemption: item.isDownPaymentOrVoucherRedemption,
+      complimentary: item.complimentary,
+    };
+  }
+}
@@ -0,0 +1,116 @@
+import { ReceiptDetails, ReceiptItem } from '@/domain/entities/receipt.entity';
+import { Money } from '@/domain/value-objects/money.vo';
+import { EXEMPT_VAT_CODES, VatRateCode } from '@/domain/value-objects/vat-code.vo';
+
+export interface ReceiptVatTotal {
+  /** VAT rate code, or `null` for items subject to simplified VAT allocation (ventilazione) */
+  vatRateCode: VatRateCode | null;
+  taxableAmount: Money;
+  vatAmount: Money;
+  grossAmount: Money;
+}
+
+export interface VatBreakdown {
+  /** One entry per VAT rate or nature code, in order of first appearance */
+  rates: ReceiptVatTotal[];
+  totalTaxableAmount: Money;
+  totalVatAmount: Money;
+  totalGrossAmount: Money;
+  /** Part of the gross amount given away as complimentary items (omaggi) */
+  complimentaryAmount: Money;
+  /** Down payments and voucher redemptions, excluded from the VAT split */
+  prepaidAmount: Money;
+}
+
+export interface VatBreakdownComparison {
+  matches: boolean;
+  /** Local figure minus the server figure */
+  taxableDifference: Money;
+  vatDifference: Money;
+}
+
+/**
+ * Computes the VAT split of a receipt with the rounding rules of the Agenzia delle Entrate:
+ * line amounts are rounded to cents, then the VAT is extracted once per rate from the gross
+ * total of that rate (scorporo) and rounded half-up, so taxable + VAT always equals the gross.
+ *
+ * - Complimentary items are included, as VAT is still due on goods given away.
+ * - Down payments and voucher redemptions are excluded: their VAT was charged when collected.
+ * - Exempt items (N1-N6) and simplified allocation items carry no VAT.
+ *
+ * @example
+ * ```typescript
+ * const breakdown = VatCalculator.breakdown(receiptInput.items);
+ * const details = await sdk.receipts.getDetails(uuid, 'json');
+ * const { matches } = VatCalculator.compare(breakdown, details);
+ * ```
+ */
+export class VatCalculator {
+  static lineAmount(item: Pick<ReceiptItem, 'quantity' | 'unitPrice' | 'discount'>): Money {
+    return Money.of(item.unitPrice)
+      .times(item.quantity)
+      .round(2)
+      .minus(item.discount ?? 0);
+  }
+
+  static vatAmount(vatRateCode: VatRateCode | null, grossAmount: Money): Money {
+    if (vatRateCode === null || EXEMPT_VAT_CODES.includes(vatRateCode)) {
+      return Money.zero();
+    }
+    return grossAmount.times(vatRateCode).dividedBy(Money.of(100).plus(vatRateCode), 'half-up', 2);
+  }
+
+  static breakdown(items: ReceiptItem[]): VatBreakdown {
+    const grossByRate = new Map<VatRateCode | null, Money>();
+    let complimentaryAmount = Money.zero();
+    let prepaidAmount = Money.zero();
+
+    for (const item of items) {
+      const line = this.lineAmount(item);
+      if (item.isDownPaymentOrVoucherRedemption && !item.complimentary) {
+        prepaidAmount = prepaidAmount.plus(line);
+        continue;
+      }
+      if (item.complimentary) {
+        complimentaryAmount = complimentaryAmount.plus(line);
+      }
+
+      const key = item.simplifiedVatAllocation ? null : (item.vatRateCode ?? null);
+      grossByRate.set(key, line.plus(grossByRate.get(key) ?? 0));
+    }
+
+    const rates = [...grossByRate.entries()].map(([vatRateCode, grossAmount]) => {
+      const vatAmount = this.vatAmount(vatRateCode, grossAmount);
+      return {
+        vatRateCode,
+        taxableAmount: grossAmount.minus(vatAmount),
+        vatAmount,
+        grossAmount,
+      };
+    });
+
+    return {
+      rates,
+      totalTaxableAmount: Money.sum(rates.map((rate) => rate.taxableAmount)),
+      totalVatAmount: Money.sum(rates.map((rate) => rate.vatAmount)),
+      totalGrossAmount: Money.sum(rates.map((rate) => rate.grossAmount)),
+      complimentaryAmount,
+      prepaidAmount,
+    };
+  }
+
+  /** Compares a local breakdown with the totals returned by the server for the same receipt */
+  static compare(
+    breakdown: VatBreakdown,
+    details: Pick<ReceiptDetails, 'totalTaxableAmount' | 'totalVatAmount'>
+  ): VatBreakdownComparison {
+    const taxableDifference = breakdown.totalTaxableAmount.minus(details.totalTaxableAmount);
+    const vatDifference = breakdown.totalVatAmount.minus(details.totalVatAmount);
+
+    return {
+      matches: taxableDifference.isZero() && vatDifference.isZero(),
+      taxableDifference,
+      vatDifference,
+    };
+  }
+}
@@ -0,0 +1,90 @@
+import { Money } from '../money.vo';
+
+describe('money.vo', () => {
+  describe('Money.of', () => {
+    it('should parse API decimal strings and numbers', () => {
+      expect(Money.of('12.5').toFixed()).toBe('12.50');
+      expect(Money.of(' -3 ').toFixed()).toBe('-3.00');
+      expect(Money.of(0.1).toFixed(8)).toBe('0.10000000');
+      expect(Money.of('0.12345678').toFixed(8)).toBe('0.12345678');
+    });
+
+    it('should return the same instance for Money values', () => {
+      const amount = Money.of('1.00');
+      expect(Money.of(amount)).toBe(amount);
+    });
+
+    it('should reject malformed amounts', () => {
+      expect(() => Money.of('1,50')).toThrow('Invalid monetary amount "1,50"');
+      expect(() => Money.of('0.123456789')).toThrow();
+      expect(() => Money.of(Number.NaN)).toThrow();
+      expect(Money.isValid('abc')).toBe(false);
+      expect(Money.isValid('10.00')).toBe(true);
+    });
+  });
+
+  describe('arithmetic', () => {
+    it('should add and subtract without floating point drift', () => {
+      expect(Money.of('0.1').plus('0.2').toFixed()).toBe('0.30');
+      expect(Money.of('0.1').plus('0.2').equals('0.3')).toBe(true);
+      expect(Money.of('1.00').minus('1.01').isNegative()).toBe(true);
+      expect(Money.sum(['19.99', '0.01', 5]).toFixed()).toBe('25.00');
+    });
+
+    it('should multiply by quantities keeping 8 decimals', () => {
+      expect(Money.of('0.2').times('0.1').toFixed(8)).toBe('0.02000000');
+      expect(Money.of('1.99').times(3).toFixed()).toBe('5.97');
+    });
+
+    it('should divide with a single rounding step', () => {
+      expect(Money.of('12.20').dividedBy('1.22', 'half-up', 2).toFixed()).toBe('10.00');
+      expect(Money.of(10).dividedBy(3).toFixed(8)).toBe('3.33333333');
+      expect(() => Money.of(1).dividedBy(0)).toThrow('Division by zero');
+    });
+
+    it('should compare amounts', () => {
+      expect(Money.of('2').compare('10')).toBe(-1);
+      expect(Money.of('10').greaterThan('2')).toBe(true);
+      expect(Money.of('2.00').lessThan('2')).toBe(false);
+      expect(Money.zero().isZero()).toBe(true);
+    });
+  });
+
+  describe('rounding', () => {
+    it('should round half-up by default', () => {
+      expect(Money.of('10.005').toFixed()).toBe('10.01');
+      expect(Money.of('-10.005').toFixed()).toBe('-10.01');
+      expect(Money.of('2.345').round(2).toFixed(8)).toBe('2.35000000');
+    });
+
+    it('should round half-even when requested', () => {
+      expect(Money.of('10.005').toFixed(2, 'half-even')).toBe('10.00');
+      expect(Money.of('10.015').toFixed(2, 'half-even')).toBe('10.02');
+      expect(Money.of('10.0051').toFixed(2, 'half-even')).toBe('10.01');
+    });
+
+    it('should reject invalid decimal places', () => {
+      expect(() => Money.of(1).toFixed(9)).toThrow();
+      expect(() => Money.of(1).round(-1)).toThrow();
+    });
+  });
+
+  describe('formatting', () => {
+    it('should format optional amounts for the API', () => {
+      expect(Money.format('7.5')).toBe('7.50');
+      expect(Money.format(undefined)).toBeUndefined();
+    });
+
+    it('should trim trailing zeros in decimal strings', () => {
+      expect(Money.of('0.12300000').toDecimalString()).toBe('0.123');
+      expect(Money.of('3').toDecimalString()).toBe('3.00');
+      expect(Money.of('3').toDecimalString(0)).toBe('3');
+    });
+
+    it('should serialise to 2 decimals', () => {
+      expect(JSON.stringify({ total: Money.of('1.5') })).toBe('{"total":"1.50"}');
+      expect(`${Money.of('4')}`).toBe('4.00');
+      expect(Money.of('1.25').toNumber()).toBe(1.25);
+    });
+  });
+});
@@ -0,0 +1,18 @@
+/**
+ * How a read uses the cache:
+ * - `cache-first`: the cached value while within its TTL, the network otherwise (default)
+ * - `network-only`: always the network, the response is still cached for later reads
+ * - `cache-only`: only the cached value, of any age unless `maxAge` is set; fails when nothing
+ *   is cached
+ */
+export type CacheMode = 'cache-first' | 'network-only' | 'cache-only';
+
+export interface CachePolicy {
+  mode?: CacheMode;
+  /** Oldest cached value accepted, in milliseconds; replaces the TTL of the resource */
+  maxAge?: number;
+}
+
+export interface ReadOptions {
+  cache?: CachePolicy;
+}
@@ -2,3 +2,5 @@ export * from './address.vo';
 export * from './vat-code.vo';
 export * from './page.vo';
 export * from './role.vo';
+export * from './money.vo';
+export * from './cache-policy.vo';
@@ -0,0 +1,197 @@
+export type RoundingMode = 'half-up' | 'half-even';
+
+export type MoneyInput = Money | string | number;
+
+const SCALE_DIGITS = 8;
+const SCALE = 10n ** BigInt(SCALE_DIGITS);
+const AMOUNT_REGEX = /^([+-])?(\d+)(?:\.(\d+))?$/;
+
+function pow10(exponent: number): bigint {
+  return 10n ** BigInt(exponent);
+}
+
+function divideAndRound(dividend: bigint, divisor: bigint, mode: RoundingMode): bigint {
+  const negative = dividend < 0n !== divisor < 0n;
+  const absDividend = dividend < 0n ? -dividend : dividend;
+  const absDivisor = divisor < 0n ? -divisor : divisor;
+
+  let quotient = absDividend / absDivisor;
+  const twiceRemainder = (absDividend % absDivisor) * 2n;
+  if (
+    twiceRemainder > absDivisor ||
+    (twiceRemainder === absDivisor && (mode === 'half-up' || quotient % 2n === 1n))
+  ) {
+    quotient += 1n;
+  }
+  return negative ? -quotient : quotient;
+}
+
+/**
+ * Exact decimal amount in EUR, stored as an integer number of 10^-8 units
+ * (the maximum precision accepted by the API).
+ *
+ * Amounts are parsed from the API decimal strings without going through `parseFloat`, so sums
+ * and products never drift. Rounding is explicit: `half-up` is the commercial rounding used for
+ * receipt amounts and VAT, `half-even` is available where banker's rounding is required.
+ *
+ * @example
+ * ```typescript
+ * Money.of('0.10').plus('0.20').toFixed(); // '0.30'
+ * Money.of('10.005').toFixed(2, 'half-even'); // '10.00'
+ * ```
+ */
+export class Money {
+  static readonly SCALE_DIGITS = SCALE_DIGITS;
+
+  private constructor(private readonly units: bigint) {}
+
+  static of(value: MoneyInput): Money {
+    if (value instanceof Money) return value;
+    const parsed = Money.parseUnits(value);
+    if (parsed === null) {
+      throw new Error(`Invalid monetary amount "${String(value)}"`);
+    }
+    return new Money(parsed);
+  }
+
+  static zero(): Money {
+    return new Money(0n);
+  }
+
+  static isValid(value: unknown): value is MoneyInput {
+    if (value instanceof Money) return true;
+    if (typeof value !== 'string' && typeof value !== 'number') return false;
+    return Money.parseUnits(value) !== null;
+  }
+
+  static sum(values: Iterable<MoneyInput>): Money {
+    let total = Money.zero();
+    for (const value of values) {
+      total = total.plus(value);
+    }
+    return total;
+  }
+
+  /** Formats an optional amount for the API, preserving `undefined` like `formatDecimal` */
+  static format(
+    value: MoneyInput | undefined,
+    decimals = 2,
+    mode: RoundingMode = 'half-up'
+  ): string | undefined {
+    return value === undefined ? undefined : Money.of(value).toFixed(decimals, mode);
+  }
+
+  plus(other: MoneyInput): Money {
+    return new Money(this.units + Money.of(other).units);
+  }
+
+  minus(other: MoneyInput): Money {
+    return new Money(this.units - Money.of(other).units);
+  }
+
+  /** Multiplies by a decimal factor (e.g. a quantity), keeping 8 decimals rounded half-up */
+  times(factor: MoneyInput, mode: RoundingMode = 'half-up'): Money {
+    return new Money(divideAndRound(this.units * Money.of(factor).units, SCALE, mode));
+  }
+
+  /** Divides by a decimal divisor, rounding once to `decimals` (8 by default) */
+  dividedBy(divisor: MoneyInput, mode: RoundingMode = 'half-up', decimals = SCALE_DIGITS): Money {
+    const divisorUnits = Money.of(divisor).units;
+    if (divisorUnits === 0n) {
+      throw new Error('Division by zero');
+    }
+    const step = pow10(SCALE_DIGITS - Money.checkDecimals(decimals));
+    return new Money(divideAndRound(this.units * SCALE, divisorUnits * step, mode) * step);
+  }
+
+  round(decimals = 2, mode: RoundingMode = 'half-up'): Money {
+    const step = pow10(SCALE_DIGITS - Money.checkDecimals(decimals));
+    return new Money(divideAndRound(this.units, step, mode) * step);
+  }
+
+  negate(): Money {
+    return new Money(-this.units);
+  }
+
+  compare(other: MoneyInput): -1 | 0 | 1 {
+    const otherUnits = Money.of(other).units;
+    if (this.units === otherUnits) return 0;
+    return this.units < otherUnits ? -1 : 1;
+  }
+
+  equals(other: MoneyInput): boolean {
+    return this.compare(other) === 0;
+  }
+
+  lessThan(other: MoneyInput): boolean {
+    return this.compare(other) < 0;
+  }
+
+  greaterThan(other: MoneyInput): boolean {
+    return this.compare(other) > 0;
+  }
+
+  isZero(): boolean {
+    return this.units === 0n;
+  }
+
+  isNegative(): boolean {
+    return this.units < 0n;
+  }
+
+  toFixed(decimals = 2, mode: RoundingMode = 'half-up'): string {
+    const places = Money.checkDecimals(decimals);
+    const rounded = divideAndRound(this.units, pow10(SCALE_DIGITS - places), mode);
+    const sign = rounded < 0n ? '-' : '';
+    const digits = (rounded < 0n ? -rounded : rounded).toString().padStart(places + 1, '0');
+    if (places === 0) return `${sign}${digits}`;
+    return `${sign}${digits.slice(0, -places)}.${digits.slice(-places)}`;
+  }
+
+  /** Full precision with trailing zeros trimmed, keeping at least `minDecimals` (e.g. unit prices) */
+  toDecimalString(minDecimals = 2): string {
+    const full = this.toFixed(SCALE_DIGITS);
+    const [integer, fraction = ''] = full.split('.');
+    const trimmed = fraction.replace(/0+$/, '').padEnd(Money.checkDecimals(minDecimals), '0');
+    return trimmed ? `${integer}.${trimmed}` : `${integer}`;
+  }
+
+  /** Lossy conversion for display or charts; never use the result for further arithmetic */
+  toNumber(): number {
+    return Number(this.toFixed(SCALE_DIGITS));
+  }
+
+  /** Two decimals, the format used by the API for amounts */
+  toString(): string {
+    return this.toFixed(2);
+  }
+
+  toJSON(): string {
+    return this.toString();
+  }
+
+  private static parseUnits(value: string | number): bigint | null {
+    let text: string;
+    if (typeof value === 'number') {
+      if (!Number.isFinite(value)) return null;
+      text = value.toFixed(SCALE_DIGITS);
+    } else {
+      text = value.trim();
+    }
+
+    const match = AMOUNT_REGEX.exec(text);
+    if (!match) return null;
+    const [, sign, integer = '0', fraction = ''] = match;
+    if (fraction.length > SCALE_DIGITS) return null;
+
+    const units = BigInt(integer) * SCALE + BigInt(fraction.padEnd(SCALE_DIGITS, '0'));
+    return sign === '-' ? -units : units;
+  }
+
+  private static checkDecimals(decimals: number): number {
+    if (!Number.isInteger(decimals) || decimals < 0 || decimals > SCALE_DIGITS) {
+      throw new Error(`Decimals must be an integer between 0 and ${SCALE_DIGITS}`);
+    }
+    return decimals;
+  }
+}
@@ -1,9 +1,20 @@
+import { ReadOptions } from './cache-policy.vo';
+
 export interface Page<T> {
   members: T[];
   total?: number;
   page?: number;
   size?: number;
   pages?: number;
+  /** Hydra navigation links, only returned by mf2 collections */
+  links?: PageLinks;
+}
+
+export interface PageLinks {
+  first?: string;
+  last?: string;
+  previous?: string;
+  next?: string;
 }
 
 export interface LdJsonPage<T> {
@@ -18,3 +29,11 @@ export interface LdJsonPage<T> {
     next?: string;
   };
 }
+
+/** The cache policy applies to every page requested */
+export interface PageIterationOptions extends ReadOptions {
+  /** Items requested per page, the API default is used when omitted */
+  pageSize?: number;
+  /** Ends the iteration before the next page is requested or the next item is yielded */
+  signal?: AbortSignal;
+}
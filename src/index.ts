@@ -42,14 +42,41 @@ export { ACubeSDKError, ConfigManager } from './shared';
 export { AuthenticationService } from './application/services/authentication.service';
 export { CertificateService } from './application/services/certificate.service';
 export { createACubeMTLSConfig, loadPlatformAdapters } from './infrastructure/loaders';
-export type { SDKConfig, Environment, User, AuthCredentials, JWTPayload } from './shared/types';
+export type {
+  SDKConfig,
+  SDKCacheConfig,
+  Environment,
+  User,
+  AuthCredentials,
+  JWTPayload,
+} from './shared/types';
 export type { Domain, UserRole, UserRoles } from './domain/value-objects';
 
 export * from './application/ports/driven';
-export { MTLSError, MTLSErrorType } from './domain/errors';
-export { CertificateValidator, parseJwt, isTokenExpired, extractRoles } from './domain/services';
+export {
+  MTLSError,
+  MTLSErrorType,
+  ReceiptBuilderError,
+  ReceiptBuilderErrorType,
+} from './domain/errors';
+export {
+  CertificateValidator,
+  parseJwt,
+  isTokenExpired,
+  extractRoles,
+  ReceiptBuilder,
+  type ReceiptItemDraft,
+  type ReceiptTotals,
+  type ReceiptVatTotal,
+  VatCalculator,
+  type VatBreakdown,
+  type VatBreakdownComparison,
+  iteratePages,
+  type PageFetcher,
+} from './domain/services';
 export * from './infrastructure/driven/offline';
 export * from './shared/validation';
+export * from './shared/openapi';
 export * from './shared/utils';
 
 export { createACubeSDK as default } from './infrastructure/driving/sdk/acube-sdk';
@@ -0,0 +1,324 @@
+import { readFileSync } from 'fs';
+import { resolve } from 'path';
+
+/**
+ * Minimal OpenAPI 3.1 reader used by the contract tests.
+ *
+ * Only the subset of JSON Schema that appears in `OpenAPI Specification.json` is
+ * supported; `format` is ignored on purpose since the SDK never validates formats.
+ */
+
+export type HttpMethod = 'GET' | 'POST' | 'PUT' | 'PATCH' | 'DELETE';
+
+export interface JsonSchema {
+  $ref?: string;
+  type?: string | string[];
+  enum?: unknown[];
+  const?: unknown;
+  nullable?: boolean;
+  properties?: Record<string, JsonSchema>;
+  required?: string[];
+  additionalProperties?: boolean | JsonSchema;
+  items?: JsonSchema;
+  allOf?: JsonSchema[];
+  anyOf?: JsonSchema[];
+  oneOf?: JsonSchema[];
+  minimum?: number;
+  maximum?: number;
+  exclusiveMinimum?: number;
+  exclusiveMaximum?: number;
+  minLength?: number;
+  maxLength?: number;
+  pattern?: string;
+  minItems?: number;
+  maxItems?: number;
+}
+
+interface MediaType {
+  schema?: JsonSchema;
+}
+
+export interface OpenApiParameter {
+  name: string;
+  in: 'path' | 'query' | 'header' | 'cookie';
+  required?: boolean;
+}
+
+export interface OpenApiOperation {
+  operationId?: string;
+  parameters?: OpenApiParameter[];
+  requestBody?: { required?: boolean; content?: Record<string, MediaType> };
+  responses?: Record<string, { content?: Record<string, MediaType> }>;
+}
+
+export interface OpenApiDocument {
+  openapi: string;
+  paths: Record<string, Partial<Record<Lowercase<HttpMethod>, OpenApiOperation>>>;
+  components: { schemas: Record<string, JsonSchema> };
+}
+
+export interface MatchedOperation {
+  method: HttpMethod;
+  template: string;
+  operation: OpenApiOperation;
+}
+
+export const OPENAPI_SPEC_PATH = resolve(
+  __dirname,
+  '../../../../../..',
+  'OpenAPI Specification.json'
+);
+
+const JSON_MEDIA_TYPE = 'application/json';
+
+export function loadOpenApiSpec(path: string = OPENAPI_SPEC_PATH): OpenApiDocument {
+  return JSON.parse(readFileSync(path, 'utf-8')) as OpenApiDocument;
+}
+
+export class OpenApiContract {
+  private readonly matchers: Array<{ regex: RegExp; template: string; literals: number }>;
+
+  constructor(private readonly spec: OpenApiDocument) {
+    this.matchers = Object.keys(spec.paths)
+      .map((template) => ({
+        template,
+        regex: new RegExp(
+          `^${template
+            .split('/')
+            .map((segment) => (/^\{.+\}$/.test(segment) ? '[^/]+' : escapeRegex(segment)))
+            .join('/')}$`
+        ),
+        literals: template.split('/').filter((segment) => !/^\{.+\}$/.test(segment)).length,
+      }))
+      // Prefer `/receipts/void-with-proof` over `/receipts/{receipt_uuid}`
+      .sort((a, b) => b.literals - a.literals);
+  }
+
+  findOperation(method: HttpMethod, url: string): MatchedOperation | undefined {
+    const path = url.split('?')[0] ?? url;
+    const key = method.toLowerCase() as Lowercase<HttpMethod>;
+
+    for (const matcher of this.matchers) {
+      const operation = this.spec.paths[matcher.template]?.[key];
+      if (operation && matcher.regex.test(path)) {
+        return { method, template: matcher.template, operation };
+      }
+    }
+
+    return undefined;
+  }
+
+  queryParameters(operation: OpenApiOperation): string[] {
+    return (operation.parameters ?? []).filter((p) => p.in === 'query').map((p) => p.name);
+  }
+
+  requestSchema(operation: OpenApiOperation): JsonSchema | undefined {
+    return operation.requestBody?.content?.[JSON_MEDIA_TYPE]?.schema;
+  }
+
+  isRequestBodyRequired(operation: OpenApiOperation): boolean {
+    return operation.requestBody?.required === true;
+  }
+
+  responseSchema(
+    operation: OpenApiOperation,
+    mediaType: string = JSON_MEDIA_TYPE
+  ): JsonSchema | undefined {
+    const successStatus = Object.keys(operation.responses ?? {})
+      .filter((status) => status.startsWith('2'))
+      .sort()[0];
+    if (!successStatus) return undefined;
+    return operation.responses?.[successStatus]?.content?.[mediaType]?.schema;
+  }
+
+  /**
+   * Validates a JSON value against a schema and returns one message per violation.
+   * Unknown object properties are reported unless the schema allows additional ones,
+   * so fields the SDK invents are caught as well as fields it forgets.
+   */
+  validate(schema: JsonSchema, value: unknown, path: string = '$'): string[] {
+    return this.check(schema, value, path, true);
+  }
+
+  private check(schema: JsonSchema, value: unknown, path: string, strict: boolean): string[] {
+    const resolved = this.resolve(schema);
+    const errors: string[] = [];
+
+    if (resolved.allOf) {
+      for (const part of resolved.allOf) {
+        errors.push(...this.check(part, value, path, false));
+      }
+    }
+
+    if (resolved.anyOf && !this.matchesSome(resolved.anyOf, value, path, strict)) {
+      errors.push(`${path}: does not match any allowed schema`);
+    }
+
+    if (resolved.oneOf && !this.matchesSome(resolved.oneOf, value, path, strict)) {
+      errors.push(`${path}: does not match any allowed schema`);
+    }
+
+    if (resolved.enum && !resolved.enum.some((option) => option === value)) {
+      errors.push(
+        `${path}: ${JSON.stringify(value)} is not one of ${JSON.stringify(resolved.enum)}`
+      );
+      return errors;
+    }
+
+    if (resolved.const !== undefined && resolved.const !== value) {
+      errors.push(`${path}: expected ${JSON.stringify(resolved.const)}`);
+      return errors;
+    }
+
+    const types = this.typesOf(resolved);
+    if (types.length > 0 && !types.some((type) => this.hasType(value, type))) {
+      errors.push(`${path}: expected ${types.join(' | ')}, got ${this.describe(value)}`);
+      return errors;
+    }
+
+    if (typeof value === 'string') {
+      if (resolved.minLength !== undefined && value.length < resolved.minLength) {
+        errors.push(`${path}: shorter than ${resolved.minLength} characters`);
+      }
+      if (resolved.maxLength !== undefined && value.length > resolved.maxLength) {
+        errors.push(`${path}: longer than ${resolved.maxLength} characters`);
+      }
+      if (resolved.pattern !== undefined && !new RegExp(resolved.pattern, 'u').test(value)) {
+        errors.push(`${path}: does not match ${resolved.pattern}`);
+      }
+    }
+
+    if (typeof value === 'number') {
+      if (resolved.minimum !== undefined && value < resolved.minimum) {
+        errors.push(`${path}: below minimum ${resolved.minimum}`);
+      }
+      if (resolved.maximum !== undefined && value > resolved.maximum) {
+        errors.push(`${path}: above maximum ${resolved.maximum}`);
+      }
+      if (resolved.exclusiveMinimum !== undefined && value <= resolved.exclusiveMinimum) {
+        errors.push(`${path}: must be greater than ${resolved.exclusiveMinimum}`);
+      }
+      if (resolved.exclusiveMaximum !== undefined && value >= resolved.exclusiveMaximum) {
+        errors.push(`${path}: must be lower than ${resolved.exclusiveMaximum}`);
+      }
+    }
+
+    if (Array.isArray(value)) {
+      if (resolved.minItems !== undefined && value.length < resolved.minItems) {
+        errors.push(`${path}: fewer than ${resolved.minItems} items`);
+      }
+      if (resolved.maxItems !== undefined && value.length > resolved.maxItems) {
+        errors.push(`${path}: more than ${resolved.maxItems} items`);
+      }
+      if (resolved.items) {
+        value.forEach((item, index) => {
+          errors.push(...this.check(resolved.items!, item, `${path}[${index}]`, strict));
+        });
+      }
+    }
+
+    if (isPlainObject(value)) {
+      errors.push(...this.checkObject(resolved, value, path, strict));
+    }
+
+    return errors;
+  }
+
+  private checkObject(
+    schema: JsonSchema,
+    value: Record<string, unknown>,
+    path: string,
+    strict: boolean
+  ): string[] {
+    const errors: string[] = [];
+
+    for (const name of schema.required ?? []) {
+      if (!(name in value)) {
+        errors.push(`${path}.${name}: is required`);
+      }
+    }
+
+    for (const [name, property] of Object.entries(schema.properties ?? {})) {
+      if (name in value) {
+        errors.push(...this.check(property, value[name], `${path}.${name}`, true));
+      }
+    }
+
+    if (strict && schema.additionalProperties !== true) {
+      const known = this.knownProperties(schema);
+      for (const name of Object.keys(value)) {
+        if (known.has(name)) continue;
+        if (typeof schema.additionalProperties === 'object') {
+          errors.push(
+            ...this.check(schema.additionalProperties, value[name], `${path}.${name}`, true)
+          );
+        } else if (known.size > 0 || schema.additionalProperties === false) {
+          errors.push(`${path}.${name}: is not documented`);
+        }
+      }
+    }
+
+    return errors;
+  }
+
+  private knownProperties(schema: JsonSchema): Set<string> {
+    const resolved = this.resolve(schema);
+    const names = new Set(Object.keys(resolved.properties ?? {}));
+    for (const part of resolved.allOf ?? []) {
+      this.knownProperties(part).forEach((name) => names.add(name));
+    }
+    return names;
+  }
+
+  private matchesSome(options: JsonSchema[], value: unknown, path: string, strict: boolean) {
+    return options.some((option) => this.check(option, value, path, strict).length === 0);
+  }
+
+  private resolve(schema: JsonSchema): JsonSchema {
+    if (!schema.$ref) return schema;
+
+    const name = schema.$ref.replace('#/components/schemas/', '');
+    const target = this.spec.components.schemas[name];
+    if (!target) {
+      throw new Error(`Unresolvable schema reference: ${schema.$ref}`);
+    }
+    return this.resolve(target);
+  }
+
+  private typesOf(schema: JsonSchema): string[] {
+    const types = schema.type === undefined ? [] : ([] as string[]).concat(schema.type);
+    if (schema.nullable && types.length > 0) types.push('null');
+    return types;
+  }
+
+  private hasType(value: unknown, type: string): boolean {
+    switch (type) {
+      case 'null':
+        return value === null;
+      case 'integer':
+        return Number.isInteger(value);
+      case 'number':
+        return typeof value === 'number';
+      case 'array':
+        return Array.isArray(value);
+      case 'object':
+        return isPlainObject(value);
+      default:
+        return typeof value === type;
+    }
+  }
+
+  private describe(value: unknown): string {
+    if (value === null) return 'null';
+    if (Array.isArray(value)) return 'array';
+    return typeof value;
+  }
+}
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function escapeRegex(value: string): string {
+  return value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
@@ -0,0 +1,72 @@
+import { HttpRequestConfig, HttpResponse, IHttpPort } from '@/application/ports/driven/http.port';
+
+import { HttpMethod } from './openapi-spec';
+
+export interface RecordedCall {
+  method: HttpMethod;
+  url: string;
+  body?: unknown;
+  params?: HttpRequestConfig['params'];
+  headers?: HttpRequestConfig['headers'];
+}
+
+/**
+ * IHttpPort double that records every request and answers with a canned body,
+ * letting the contract tests drive the real repositories and mappers.
+ */
+export class RecordingHttpPort implements IHttpPort {
+  readonly calls: RecordedCall[] = [];
+  private token: string | null = null;
+
+  constructor(private readonly responseBody: unknown = {}) {}
+
+  async get<T>(url: string, config?: HttpRequestConfig): Promise<HttpResponse<T>> {
+    return this.record('GET', url, undefined, config);
+  }
+
+  async post<T>(url: string, data?: unknown, config?: HttpRequestConfig): Promise<HttpResponse<T>> {
+    return this.record('POST', url, data, config);
+  }
+
+  async put<T>(url: string, data?: unknown, config?: HttpRequestConfig): Promise<HttpResponse<T>> {
+    return this.record('PUT', url, data, config);
+  }
+
+  async patch<T>(
+    url: string,
+    data?: unknown,
+    config?: HttpRequestConfig
+  ): Promise<HttpResponse<T>> {
+    return this.record('PATCH', url, data, config);
+  }
+
+  async delete<T>(url: string, config?: HttpRequestConfig): Promise<HttpResponse<T>> {
+    return this.record('DELETE', url, config?.data, config);
+  }
+
+  setAuthToken(token: string | null): void {
+    this.token = token;
+  }
+
+  getAuthToken(): string | null {
+    return this.token;
+  }
+
+  private record<T>(
+    method: HttpMethod,
+    url: string,
+    data: unknown,
+    config?: HttpRequestConfig
+  ): HttpResponse<T> {
+    this.calls.push({
+      method,
+      url,
+      // Serialise like the wire does: undefined fields disappear
+      body: data === undefined ? undefined : JSON.parse(JSON.stringify(data)),
+      params: config?.params,
+      headers: config?.headers,
+    });
+
+    return { data: this.responseBody as T, status: 200, headers: {} };
+  }
+}
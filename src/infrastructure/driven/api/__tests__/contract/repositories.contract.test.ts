@@ -0,0 +1,646 @@
+import { IHttpPort } from '@/application/ports/driven/http.port';
+import * as repositories from '@/infrastructure/driven/api';
+import {
+  CashRegisterRepositoryImpl,
+  CashierRepositoryImpl,
+  DailyReportRepositoryImpl,
+  EmergencyReportRepositoryImpl,
+  JournalRepositoryImpl,
+  MerchantRepositoryImpl,
+  NotificationRepositoryImpl,
+  PemRepositoryImpl,
+  PointOfSaleRepositoryImpl,
+  ReceiptRepositoryImpl,
+  SupplierRepositoryImpl,
+  TelemetryRepositoryImpl,
+} from '@/infrastructure/driven/api';
+
+import * as fixtures from './fixtures';
+import { OpenApiContract, loadOpenApiSpec } from './openapi-spec';
+import { RecordingHttpPort } from './recording-http';
+
+interface ContractCase {
+  repository: string;
+  method: string;
+  /** Canned response body, validated against the operation's 2xx schema */
+  response?: unknown;
+  invoke: (http: IHttpPort) => Promise<unknown>;
+}
+
+const { UUID, SERIAL_NUMBER, DOCUMENT_NUMBER, DOCUMENT_DATETIME, address, receiptItem } = fixtures;
+
+/** Reads only the first item, so that a single page is requested */
+async function firstItem<T>(iterable: AsyncIterable<T>): Promise<T | undefined> {
+  for await (const item of iterable) return item;
+  return undefined;
+}
+
+const CASES: ContractCase[] = [
+  // Receipts (mf1)
+  {
+    repository: 'ReceiptRepositoryImpl',
+    method: 'create',
+    response: fixtures.receiptOutput,
+    invoke: (http) =>
+      new ReceiptRepositoryImpl(http).create({
+        items: [receiptItem],
+        cashPaymentAmount: '1.2',
+      }),
+  },
+  {
+    repository: 'ReceiptRepositoryImpl',
+    method: 'findById',
+    response: fixtures.receiptOutput,
+    invoke: (http) => new ReceiptRepositoryImpl(http).findById(UUID),
+  },
+  {
+    repository: 'ReceiptRepositoryImpl',
+    method: 'findAll',
+    response: fixtures.receiptPageOutput,
+    invoke: (http) =>
+      new ReceiptRepositoryImpl(http).findAll({
+        serialNumber: SERIAL_NUMBER,
+        page: 1,
+        size: 30,
+        status: 'sent',
+        sort: 'descending',
+        documentNumber: DOCUMENT_NUMBER,
+        documentDatetimeBefore: DOCUMENT_DATETIME,
+        documentDatetimeAfter: DOCUMENT_DATETIME,
+      }),
+  },
+  {
+    repository: 'ReceiptRepositoryImpl',
+    method: 'iterateAll',
+    response: fixtures.receiptPageOutput,
+    invoke: (http) =>
+      firstItem(
+        new ReceiptRepositoryImpl(http).iterateAll(
+          { serialNumber: SERIAL_NUMBER, status: 'sent' },
+          { pageSize: 30 }
+        )
+      ),
+  },
+  {
+    repository: 'ReceiptRepositoryImpl',
+    method: 'getDetails',
+    response: fixtures.receiptDetailsOutput,
+    invoke: (http) => new ReceiptRepositoryImpl(http).getDetails(UUID, 'json'),
+  },
+  {
+    repository: 'ReceiptRepositoryImpl',
+    method: 'getReturnableItems',
+    response: fixtures.returnableItemsOutput,
+    invoke: (http) => new ReceiptRepositoryImpl(http).getReturnableItems(UUID),
+  },
+  {
+    repository: 'ReceiptRepositoryImpl',
+    method: 'voidReceipt',
+    invoke: (http) =>
+      new ReceiptRepositoryImpl(http).voidReceipt({ documentNumber: DOCUMENT_NUMBER }),
+  },
+  {
+    repository: 'ReceiptRepositoryImpl',
+    method: 'voidViaDifferentDevice',
+    invoke: (http) =>
+      new ReceiptRepositoryImpl(http).voidViaDifferentDevice({
+        deviceId: SERIAL_NUMBER,
+        items: [receiptItem],
+        documentNumber: DOCUMENT_NUMBER,
+        documentDatetime: DOCUMENT_DATETIME,
+      }),
+  },
+  {
+    repository: 'ReceiptRepositoryImpl',
+    method: 'voidWithProof',
+    invoke: (http) =>
+      new ReceiptRepositoryImpl(http).voidWithProof({
+        items: [receiptItem],
+        proof: 'POS',
+        documentDatetime: DOCUMENT_DATETIME,
+      }),
+  },
+  {
+    repository: 'ReceiptRepositoryImpl',
+    method: 'returnItems',
+    response: fixtures.receiptOutput,
+    invoke: (http) =>
+      new ReceiptRepositoryImpl(http).returnItems({
+        items: [{ id: 1, quantity: '1' }],
+        documentNumber: DOCUMENT_NUMBER,
+      }),
+  },
+  {
+    repository: 'ReceiptRepositoryImpl',
+    method: 'returnViaDifferentDevice',
+    response: fixtures.receiptOutput,
+    invoke: (http) =>
+      new ReceiptRepositoryImpl(http).returnViaDifferentDevice({
+        deviceId: SERIAL_NUMBER,
+        items: [receiptItem],
+        documentNumber: DOCUMENT_NUMBER,
+        documentDatetime: DOCUMENT_DATETIME,
+      }),
+  },
+  {
+    repository: 'ReceiptRepositoryImpl',
+    method: 'returnWithProof',
+    response: fixtures.receiptOutput,
+    invoke: (http) =>
+      new ReceiptRepositoryImpl(http).returnWithProof({
+        items: [receiptItem],
+        proof: 'POS',
+        documentDatetime: DOCUMENT_DATETIME,
+      }),
+  },
+
+  // Cashiers (mf1)
+  {
+    repository: 'CashierRepositoryImpl',
+    method: 'create',
+    response: fixtures.cashierOutput,
+    invoke: (http) =>
+      new CashierRepositoryImpl(http).create({
+        email: 'mario@example.com',
+        password: 'Password1!',
+        name: 'Mario Rossi',
+        displayName: 'Mario',
+      }),
+  },
+  {
+    repository: 'CashierRepositoryImpl',
+    method: 'findMe',
+    response: fixtures.cashierOutput,
+    invoke: (http) => new CashierRepositoryImpl(http).findMe(),
+  },
+  {
+    repository: 'CashierRepositoryImpl',
+    method: 'findById',
+    response: fixtures.cashierOutput,
+    invoke: (http) => new CashierRepositoryImpl(http).findById(UUID),
+  },
+  {
+    repository: 'CashierRepositoryImpl',
+    method: 'findAll',
+    response: fixtures.cashierPageOutput,
+    invoke: (http) => new CashierRepositoryImpl(http).findAll({ page: 1, size: 30 }),
+  },
+  {
+    repository: 'CashierRepositoryImpl',
+    method: 'iterateAll',
+    response: fixtures.cashierPageOutput,
+    invoke: (http) => firstItem(new CashierRepositoryImpl(http).iterateAll({}, { pageSize: 30 })),
+  },
+  {
+    repository: 'CashierRepositoryImpl',
+    method: 'delete',
+    invoke: (http) => new CashierRepositoryImpl(http).delete(UUID),
+  },
+
+  // Cash registers (mf1)
+  {
+    repository: 'CashRegisterRepositoryImpl',
+    method: 'create',
+    response: fixtures.cashRegisterDetailedOutput,
+    invoke: (http) =>
+      new CashRegisterRepositoryImpl(http).create({
+        pemSerialNumber: SERIAL_NUMBER,
+        name: 'Cassa 1',
+      }),
+  },
+  {
+    repository: 'CashRegisterRepositoryImpl',
+    method: 'findById',
+    response: fixtures.cashRegisterOutput,
+    invoke: (http) => new CashRegisterRepositoryImpl(http).findById(UUID),
+  },
+  {
+    repository: 'CashRegisterRepositoryImpl',
+    method: 'findAll',
+    response: fixtures.cashRegisterPageOutput,
+    invoke: (http) =>
+      new CashRegisterRepositoryImpl(http).findAll({ page: 1, size: 30, pemId: SERIAL_NUMBER }),
+  },
+  {
+    repository: 'CashRegisterRepositoryImpl',
+    method: 'iterateAll',
+    response: fixtures.cashRegisterPageOutput,
+    invoke: (http) =>
+      firstItem(
+        new CashRegisterRepositoryImpl(http).iterateAll({ pemId: SERIAL_NUMBER }, { pageSize: 30 })
+      ),
+  },
+  {
+    repository: 'CashRegisterRepositoryImpl',
+    method: 'update',
+    response: fixtures.cashRegisterOutput,
+    invoke: (http) => new CashRegisterRepositoryImpl(http).update(UUID, { name: 'Cassa 2' }),
+  },
+
+  // Point of sales (mf1)
+  {
+    repository: 'PointOfSaleRepositoryImpl',
+    method: 'findById',
+    response: fixtures.pointOfSaleDetailedOutput,
+    invoke: (http) => new PointOfSaleRepositoryImpl(http).findById(SERIAL_NUMBER),
+  },
+  {
+    repository: 'PointOfSaleRepositoryImpl',
+    method: 'findAll',
+    response: fixtures.pointOfSalePageOutput,
+    invoke: (http) =>
+      new PointOfSaleRepositoryImpl(http).findAll({ status: 'ONLINE', page: 1, size: 30 }),
+  },
+  {
+    repository: 'PointOfSaleRepositoryImpl',
+    method: 'iterateAll',
+    response: fixtures.pointOfSalePageOutput,
+    invoke: (http) =>
+      firstItem(
+        new PointOfSaleRepositoryImpl(http).iterateAll({ status: 'ONLINE' }, { pageSize: 30 })
+      ),
+  },
+  {
+    repository: 'PointOfSaleRepositoryImpl',
+    method: 'activate',
+    invoke: (http) =>
+      new PointOfSaleRepositoryImpl(http).activate(SERIAL_NUMBER, { registrationKey: 'REG-KEY' }),
+  },
+  {
+    repository: 'PointOfSaleRepositoryImpl',
+    method: 'closeJournal',
+    invoke: (http) => new PointOfSaleRepositoryImpl(http).closeJournal(SERIAL_NUMBER),
+  },
+  {
+    repository: 'PointOfSaleRepositoryImpl',
+    method: 'createInactivity',
+    invoke: (http) => new PointOfSaleRepositoryImpl(http).createInactivity(SERIAL_NUMBER),
+  },
+  {
+    repository: 'PointOfSaleRepositoryImpl',
+    method: 'communicateOffline',
+    invoke: (http) =>
+      new PointOfSaleRepositoryImpl(http).communicateOffline(SERIAL_NUMBER, {
+        timestamp: DOCUMENT_DATETIME,
+        reason: 'Connection lost',
+      }),
+  },
+
+  // Merchants (mf2)
+  {
+    repository: 'MerchantRepositoryImpl',
+    method: 'create',
+    response: fixtures.merchantOutput,
+    invoke: (http) =>
+      new MerchantRepositoryImpl(http).create({
+        vatNumber: '12345678901',
+        fiscalCode: '12345678901',
+        businessName: 'Bar Roma',
+        email: 'merchant@example.com',
+        password: 'Password1!',
+        address,
+      }),
+  },
+  {
+    repository: 'MerchantRepositoryImpl',
+    method: 'findById',
+    response: fixtures.merchantOutput,
+    invoke: (http) => new MerchantRepositoryImpl(http).findById(UUID),
+  },
+  {
+    repository: 'MerchantRepositoryImpl',
+    method: 'findAll',
+    response: fixtures.merchantPageOutput,
+    invoke: (http) => new MerchantRepositoryImpl(http).findAll({ page: 1, itemsPerPage: 30 }),
+  },
+  {
+    repository: 'MerchantRepositoryImpl',
+    method: 'update',
+    response: fixtures.merchantOutput,
+    invoke: (http) =>
+      new MerchantRepositoryImpl(http).update(UUID, { businessName: 'Bar Roma 2', address }),
+  },
+
+  // Suppliers (mf2)
+  {
+    repository: 'SupplierRepositoryImpl',
+    method: 'create',
+    response: fixtures.supplierOutput,
+    invoke: (http) =>
+      new SupplierRepositoryImpl(http).create(UUID, {
+        fiscalId: '12345678901',
+        name: 'Fornitore',
+        address,
+      }),
+  },
+  {
+    repository: 'SupplierRepositoryImpl',
+    method: 'findById',
+    response: fixtures.supplierOutput,
+    invoke: (http) => new SupplierRepositoryImpl(http).findById(UUID, UUID),
+  },
+  {
+    repository: 'SupplierRepositoryImpl',
+    method: 'findAll',
+    response: fixtures.supplierPageOutput,
+    invoke: (http) => new SupplierRepositoryImpl(http).findAll(UUID, { page: 1 }),
+  },
+  {
+    repository: 'SupplierRepositoryImpl',
+    method: 'iterateAll',
+    response: fixtures.supplierPageOutput,
+    invoke: (http) => firstItem(new SupplierRepositoryImpl(http).iterateAll(UUID)),
+  },
+  {
+    repository: 'SupplierRepositoryImpl',
+    method: 'update',
+    response: fixtures.supplierOutput,
+    invoke: (http) => new SupplierRepositoryImpl(http).update(UUID, UUID, { name: 'Fornitore 2' }),
+  },
+  {
+    repository: 'SupplierRepositoryImpl',
+    method: 'delete',
+    invoke: (http) => new SupplierRepositoryImpl(http).delete(UUID, UUID),
+  },
+
+  // PEMs (mf2)
+  {
+    repository: 'PemRepositoryImpl',
+    method: 'create',
+    response: fixtures.pemCreateOutput,
+    invoke: (http) => new PemRepositoryImpl(http).create({ merchantUuid: UUID, address }),
+  },
+  {
+    repository: 'PemRepositoryImpl',
+    method: 'findBySerialNumber',
+    response: fixtures.pointOfSaleMf2Output,
+    invoke: (http) => new PemRepositoryImpl(http).findBySerialNumber(SERIAL_NUMBER),
+  },
+  {
+    repository: 'PemRepositoryImpl',
+    method: 'findAllByMerchant',
+    response: fixtures.pointOfSaleMf2PageOutput,
+    invoke: (http) => new PemRepositoryImpl(http).findAllByMerchant(UUID, 1),
+  },
+  {
+    repository: 'PemRepositoryImpl',
+    method: 'getCertificates',
+    response: fixtures.pemCertificatesOutput,
+    invoke: (http) => new PemRepositoryImpl(http).getCertificates(SERIAL_NUMBER),
+  },
+
+  // Emergency reports (mf2)
+  {
+    repository: 'EmergencyReportRepositoryImpl',
+    method: 'findById',
+    response: fixtures.emergencyReportOutput,
+    invoke: (http) => new EmergencyReportRepositoryImpl(http).findById(SERIAL_NUMBER, 1),
+  },
+  {
+    repository: 'EmergencyReportRepositoryImpl',
+    method: 'findAll',
+    response: [fixtures.emergencyReportOutput],
+    invoke: (http) =>
+      new EmergencyReportRepositoryImpl(http).findAll(SERIAL_NUMBER, { page: 1, itemsPerPage: 30 }),
+  },
+  {
+    repository: 'EmergencyReportRepositoryImpl',
+    method: 'upload',
+    response: fixtures.emergencyReportOutput,
+    invoke: (http) =>
+      new EmergencyReportRepositoryImpl(http).upload(SERIAL_NUMBER, {
+        datetime: DOCUMENT_DATETIME,
+        documentsCount: 1,
+        cashPaymentAmount: '1.2',
+        entries: [{ vatRateCode: '22.00', vatAmount: '0.22', partialAmount: '0.98' }],
+      }),
+  },
+
+  // Daily reports and journals (mf2)
+  {
+    repository: 'DailyReportRepositoryImpl',
+    method: 'findById',
+    response: fixtures.dailyReportOutput,
+    invoke: (http) => new DailyReportRepositoryImpl(http).findById(UUID, UUID),
+  },
+  {
+    repository: 'DailyReportRepositoryImpl',
+    method: 'findAll',
+    response: fixtures.dailyReportPageOutput,
+    invoke: (http) => new DailyReportRepositoryImpl(http).findAll(UUID, { page: 1 }),
+  },
+  {
+    repository: 'DailyReportRepositoryImpl',
+    method: 'iterateAll',
+    response: fixtures.dailyReportPageOutput,
+    invoke: (http) => firstItem(new DailyReportRepositoryImpl(http).iterateAll(UUID)),
+  },
+  {
+    repository: 'JournalRepositoryImpl',
+    method: 'findById',
+    response: fixtures.journalOutput,
+    invoke: (http) => new JournalRepositoryImpl(http).findById(UUID, UUID),
+  },
+  {
+    repository: 'JournalRepositoryImpl',
+    method: 'findAll',
+    response: fixtures.journalPageOutput,
+    invoke: (http) => new JournalRepositoryImpl(http).findAll(UUID, { page: 1 }),
+  },
+  {
+    repository: 'JournalRepositoryImpl',
+    method: 'iterateAll',
+    response: fixtures.journalPageOutput,
+    invoke: (http) => firstItem(new JournalRepositoryImpl(http).iterateAll(UUID)),
+  },
+  {
+    repository: 'JournalRepositoryImpl',
+    method: 'close',
+    response: fixtures.journalOutput,
+    invoke: (http) => new JournalRepositoryImpl(http).close(UUID, { journalUuid: UUID }),
+  },
+
+  // Notifications and telemetry (mf1)
+  {
+    repository: 'NotificationRepositoryImpl',
+    method: 'fetchNotifications',
+    response: fixtures.notificationPageOutput,
+    invoke: (http) =>
+      new NotificationRepositoryImpl(http).fetchNotifications({ page: 1, size: 30 }),
+  },
+  {
+    repository: 'TelemetryRepositoryImpl',
+    method: 'getTelemetry',
+    response: fixtures.telemetryOutput,
+    invoke: (http) => new TelemetryRepositoryImpl(http).getTelemetry(SERIAL_NUMBER),
+  },
+];
+
+/**
+ * Calls where the SDK and `OpenAPI Specification.json` are known to disagree.
+ *
+ * Each entry must keep failing the contract: once the SDK or the spec is fixed the
+ * test asks for the entry to be removed, so this list only ever shrinks.
+ */
+const KNOWN_DRIFT: Record<string, string> = {
+  'ReceiptRepositoryImpl.create':
+    'ReceiptApiOutput carries created_at, which ReceiptOutput does not document',
+  'ReceiptRepositoryImpl.findById':
+    'ReceiptApiOutput carries created_at, which ReceiptOutput does not document',
+  'ReceiptRepositoryImpl.findAll':
+    'SDK calls /mf1/pems/{serial_number}/receipts; the spec documents /mf1/point-of-sales/{serial_number}/receipts',
+  'ReceiptRepositoryImpl.iterateAll':
+    'SDK calls /mf1/pems/{serial_number}/receipts; the spec documents /mf1/point-of-sales/{serial_number}/receipts',
+  'ReceiptRepositoryImpl.getDetails':
+    'spec does not document created_at, vat_number, total_gross_discount, discount',
+  'ReceiptRepositoryImpl.returnItems':
+    'ReceiptApiOutput carries created_at, which ReceiptOutput does not document',
+  'ReceiptRepositoryImpl.returnViaDifferentDevice':
+    'ReceiptApiOutput carries created_at, which ReceiptOutput does not document',
+  'ReceiptRepositoryImpl.returnWithProof':
+    'ReceiptApiOutput carries created_at, which ReceiptOutput does not document',
+  'CashierRepositoryImpl.findAll': 'CashierSimpleOutput does not document merchant_uuid',
+  'CashierRepositoryImpl.iterateAll': 'CashierSimpleOutput does not document merchant_uuid',
+  'PointOfSaleRepositoryImpl.findById':
+    'SDK calls /mf1/pems/{serial_number}/...; the spec documents /mf1/point-of-sales/{serial_number}/...',
+  'PointOfSaleRepositoryImpl.findAll':
+    'SDK calls /mf1/pems/{serial_number}/...; the spec documents /mf1/point-of-sales/{serial_number}/...',
+  'PointOfSaleRepositoryImpl.iterateAll':
+    'SDK calls /mf1/pems/{serial_number}/...; the spec documents /mf1/point-of-sales/{serial_number}/...',
+  'PointOfSaleRepositoryImpl.activate':
+    'SDK calls /mf1/pems/{serial_number}/...; the spec documents /mf1/point-of-sales/{serial_number}/...',
+  'PointOfSaleRepositoryImpl.closeJournal':
+    'SDK calls /mf1/pems/{serial_number}/...; the spec documents /mf1/point-of-sales/{serial_number}/...',
+  'PointOfSaleRepositoryImpl.createInactivity':
+    'SDK calls /mf1/pems/{serial_number}/...; the spec documents /mf1/point-of-sales/{serial_number}/...',
+  'PointOfSaleRepositoryImpl.communicateOffline':
+    'SDK calls /mf1/pems/{serial_number}/...; the spec documents /mf1/point-of-sales/{serial_number}/...',
+  'SupplierRepositoryImpl.create': 'supplier endpoints are not documented in the spec',
+  'SupplierRepositoryImpl.findById': 'supplier endpoints are not documented in the spec',
+  'SupplierRepositoryImpl.findAll': 'supplier endpoints are not documented in the spec',
+  'SupplierRepositoryImpl.iterateAll': 'supplier endpoints are not documented in the spec',
+  'SupplierRepositoryImpl.update': 'supplier endpoints are not documented in the spec',
+  'SupplierRepositoryImpl.delete': 'supplier endpoints are not documented in the spec',
+  'PemRepositoryImpl.create':
+    'SDK calls /mf2/pems and /mf2/merchants/{uuid}/pems; the spec documents /mf2/point-of-sales',
+  'PemRepositoryImpl.findBySerialNumber':
+    'SDK calls /mf2/pems and /mf2/merchants/{uuid}/pems; the spec documents /mf2/point-of-sales',
+  'PemRepositoryImpl.findAllByMerchant':
+    'SDK calls /mf2/pems and /mf2/merchants/{uuid}/pems; the spec documents /mf2/point-of-sales',
+  'PemRepositoryImpl.getCertificates':
+    'SDK calls /mf2/pems and /mf2/merchants/{uuid}/pems; the spec documents /mf2/point-of-sales',
+  'DailyReportRepositoryImpl.findById': 'daily report endpoints are not documented in the spec',
+  'DailyReportRepositoryImpl.findAll': 'daily report endpoints are not documented in the spec',
+  'DailyReportRepositoryImpl.iterateAll': 'daily report endpoints are not documented in the spec',
+  'JournalRepositoryImpl.findById': 'journal endpoints are not documented in the spec',
+  'JournalRepositoryImpl.findAll': 'journal endpoints are not documented in the spec',
+  'JournalRepositoryImpl.iterateAll': 'journal endpoints are not documented in the spec',
+  'JournalRepositoryImpl.close': 'journal endpoints are not documented in the spec',
+  'NotificationRepositoryImpl.fetchNotifications':
+    'notification endpoints are not documented in the spec',
+  'TelemetryRepositoryImpl.getTelemetry': 'telemetry endpoints are not documented in the spec',
+};
+
+const contract = new OpenApiContract(loadOpenApiSpec());
+
+async function collectViolations(testCase: ContractCase): Promise<string[]> {
+  const http = new RecordingHttpPort(testCase.response ?? {});
+  await testCase.invoke(http);
+
+  const violations: string[] = [];
+
+  for (const call of http.calls) {
+    const label = `${call.method} ${call.url.split('?')[0]}`;
+    const match = contract.findOperation(call.method, call.url);
+
+    if (!match) {
+      violations.push(`${label}: path is not documented`);
+      continue;
+    }
+
+    const allowedParams = contract.queryParameters(match.operation);
+    const sentParams = [
+      ...Object.entries(call.params ?? {})
+        .filter(([, value]) => value !== undefined && value !== null)
+        .map(([name]) => name),
+      ...new URLSearchParams(call.url.split('?')[1] ?? '').keys(),
+    ];
+    for (const name of sentParams) {
+      if (!allowedParams.includes(name)) {
+        violations.push(`${label}: query parameter "${name}" is not documented`);
+      }
+    }
+
+    const requestSchema = contract.requestSchema(match.operation);
+    if (call.body !== undefined) {
+      if (requestSchema) {
+        violations.push(
+          ...contract.validate(requestSchema, call.body, 'request').map((e) => `${label}: ${e}`)
+        );
+      } else {
+        violations.push(`${label}: sends a body the spec does not accept`);
+      }
+    } else if (contract.isRequestBodyRequired(match.operation)) {
+      violations.push(`${label}: required request body is missing`);
+    }
+
+    const responseSchema = contract.responseSchema(match.operation, call.headers?.Accept);
+    if (testCase.response !== undefined && responseSchema) {
+      violations.push(
+        ...contract
+          .validate(responseSchema, testCase.response, 'response')
+          .map((e) => `${label}: ${e}`)
+      );
+    }
+  }
+
+  return violations;
+}
+
+function caseKey(testCase: ContractCase): string {
+  return `${testCase.repository}.${testCase.method}`;
+}
+
+describe('Repository contract with OpenAPI Specification.json', () => {
+  it('covers every public method of every *RepositoryImpl', () => {
+    const covered = new Set(CASES.map(caseKey));
+    const missing: string[] = [];
+
+    for (const [name, exported] of Object.entries(repositories)) {
+      if (!name.endsWith('RepositoryImpl') || typeof exported !== 'function') continue;
+
+      const methods = Object.getOwnPropertyNames(exported.prototype).filter(
+        (method) => method !== 'constructor'
+      );
+      for (const method of methods) {
+        if (!covered.has(`${name}.${method}`)) missing.push(`${name}.${method}`);
+      }
+    }
+
+    expect(missing).toEqual([]);
+  });
+
+  it('lists only known drift entries that have a contract case', () => {
+    const covered = new Set(CASES.map(caseKey));
+    expect(Object.keys(KNOWN_DRIFT).filter((key) => !covered.has(key))).toEqual([]);
+  });
+
+  const conforming = CASES.filter((testCase) => !(caseKey(testCase) in KNOWN_DRIFT));
+  const drifting = CASES.filter((testCase) => caseKey(testCase) in KNOWN_DRIFT);
+
+  it.each(conforming.map((testCase) => [caseKey(testCase), testCase] as const))(
+    '%s matches the spec',
+    async (_key, testCase) => {
+      expect(await collectViolations(testCase)).toEqual([]);
+    }
+  );
+
+  if (drifting.length > 0) {
+    it.each(drifting.map((testCase) => [caseKey(testCase), testCase] as const))(
+      '%s still drifts from the spec (remove it from KNOWN_DRIFT once fixed)',
+      async (_key, testCase) => {
+        expect(await collectViolations(testCase)).not.toEqual([]);
+      }
+    );
+  }
+});
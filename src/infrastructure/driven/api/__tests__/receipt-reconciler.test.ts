@@ -0,0 +1,307 @@
+import {
+  ReceiptApiInput,
+  ReceiptApiOutput,
+  ReceiptDetailsApiOutput,
+} from '@/application/dto/receipt.dto';
+import { IHttpPort } from '@/application/ports/driven/http.port';
+import { Money } from '@/domain/value-objects/money.vo';
+
+import { ReceiptReconciler } from '../receipt-reconciler';
+import { ReceiptRepositoryImpl } from '../receipt.repository.impl';
+
+const SERIAL_NUMBER = 'POS-001';
+
+function receiptOutput(uuid: string, totalAmount: string): ReceiptApiOutput {
+  return {
+    uuid,
+    type: 'sale',
+    created_at: '2026-01-10T10:00:00Z',
+    total_amount: totalAmount,
+    document_number: '0001-0001',
+    document_datetime: '2026-01-10T10:00:00Z',
+    is_returnable: true,
+    is_voidable: true,
+  };
+}
+
+function createHttp(): jest.Mocked<IHttpPort> {
+  return {
+    get: jest.fn(),
+    post: jest.fn(),
+    put: jest.fn(),
+    patch: jest.fn(),
+    delete: jest.fn(),
+    setAuthToken: jest.fn(),
+    getAuthToken: jest.fn(),
+  };
+}
+
+function listResponse(members: ReceiptApiOutput[]) {
+  return { data: { members, page: 1, pages: 1 }, status: 200, headers: {} };
+}
+
+function detailsOutput(
+  receipt: ReceiptApiOutput,
+  changes: Partial<ReceiptDetailsApiOutput> = {}
+): ReceiptDetailsApiOutput {
+  return {
+    ...receipt,
+    total_taxable_amount: '0.00',
+    total_uncollected_amount: '0.00',
+    deductible_amount: '0.00',
+    total_vat_amount: '0.00',
+    total_discount: '0.00',
+    total_gross_discount: '0.00',
+    discount: '0.00',
+    vat_number: '12345678901',
+    cashier_name: null,
+    items: apiInput.items.map((item) => ({ ...item, vat_rate_code: '10.00' as const })),
+    ...changes,
+  };
+}
+
+/**
+ * Serves the receipts of each status and the details of each receipt, the details carrying
+ * the items of `apiInput` unless given
+ */
+function serveReceipts(
+  http: jest.Mocked<IHttpPort>,
+  receipts: { ready?: ReceiptApiOutput[]; sent?: ReceiptApiOutput[] },
+  details: Record<string, Partial<ReceiptDetailsApiOutput>> = {}
+): void {
+  const all = [...(receipts.ready ?? []), ...(receipts.sent ?? [])];
+  http.get.mockImplementation(async (url, config) => {
+    const uuid = /^\/mf1\/receipts\/([^/]+)\/details$/.exec(url)?.[1];
+    if (uuid) {
+      const receipt = all.find((r) => r.uuid === uuid)!;
+      return { data: detailsOutput(receipt, details[uuid]), status: 200, headers: {} };
+    }
+    const status = config?.params?.status as 'ready' | 'sent';
+    return listResponse(receipts[status] ?? []);
+  });
+}
+
+function attempt(startedAt = Date.now()) {
+  return { startedAt, endedAt: startedAt + 30_000 };
+}
+
+const apiInput: ReceiptApiInput = {
+  items: [
+    { quantity: '2.00', description: 'Caffè', unit_price: '1.20', vat_rate_code: '10' },
+    {
+      quantity: '1.00',
+      description: 'Cornetto',
+      unit_price: '1.50',
+      vat_rate_code: '10',
+      discount: '0.20',
+    },
+  ],
+  cash_payment_amount: '3.70',
+};
+
+describe('ReceiptReconciler', () => {
+  describe('expectedTotals', () => {
+    it('should sum the lines net of their discounts', () => {
+      expect(ReceiptReconciler.expectedTotals(apiInput)).toEqual([Money.of('3.70')]);
+    });
+
+    it('should also accept the total net of the receipt discount', () => {
+      expect(ReceiptReconciler.expectedTotals({ ...apiInput, discount: '0.70' })).toEqual([
+        Money.of('3.70'),
+        Money.of('3.00'),
+      ]);
+    });
+  });
+
+  describe('reconcile', () => {
+    it('should search the receipts issued during the attempt, plus the clock skew', async () => {
+      const http = createHttp();
+      serveReceipts(http, {});
+
+      await new ReceiptReconciler(new ReceiptRepositoryImpl(http)).reconcile(
+        SERIAL_NUMBER,
+        apiInput,
+        attempt(Date.parse('2026-01-10T10:00:00Z'))
+      );
+
+      for (const status of ['ready', 'sent']) {
+        expect(http.get).toHaveBeenCalledWith(
+          `/mf1/pems/${SERIAL_NUMBER}/receipts`,
+          expect.objectContaining({
+            params: expect.objectContaining({
+              status,
+              'document_datetime[after]': '2026-01-10T09:55:00.000Z',
+              'document_datetime[before]': '2026-01-10T10:05:30.000Z',
+              size: 100,
+            }),
+          })
+        );
+      }
+    });
+
+    it('should read the receipts and their details from the network only', async () => {
+      const http = createHttp();
+      serveReceipts(http, { sent: [receiptOutput('ours', '3.70')] });
+
+      await new ReceiptReconciler(new ReceiptRepositoryImpl(http)).reconcile(
+        SERIAL_NUMBER,
+        apiInput,
+        attempt()
+      );
+
+      const networkOnly = expect.objectContaining({ cache: { mode: 'network-only' } });
+      expect(http.get).toHaveBeenCalledWith(`/mf1/pems/${SERIAL_NUMBER}/receipts`, networkOnly);
+      expect(http.get).toHaveBeenCalledWith('/mf1/receipts/ours/details', networkOnly);
+      for (const [, config] of http.get.mock.calls) {
+        expect(config).toEqual(networkOnly);
+      }
+    });
+
+    it('should find a receipt still waiting to be sent', async () => {
+      const http = createHttp();
+      serveReceipts(http, { ready: [receiptOutput('ours', '3.70')] });
+
+      const result = await new ReceiptReconciler(new ReceiptRepositoryImpl(http)).reconcile(
+        SERIAL_NUMBER,
+        apiInput,
+        attempt()
+      );
+
+      expect(result.outcome === 'issued' && result.receipt.uuid).toBe('ours');
+    });
+
+    it('should report the only receipt with the expected total as issued', async () => {
+      const http = createHttp();
+      serveReceipts(http, {
+        sent: [receiptOutput('other', '9.99'), receiptOutput('ours', '3.70')],
+      });
+
+      const result = await new ReceiptReconciler(new ReceiptRepositoryImpl(http)).reconcile(
+        SERIAL_NUMBER,
+        apiInput,
+        attempt()
+      );
+
+      expect(result.outcome).toBe('issued');
+      expect(result.outcome === 'issued' && result.receipt.uuid).toBe('ours');
+    });
+
+    it('should report missing and ambiguous lookups', async () => {
+      const http = createHttp();
+      const reconciler = new ReceiptReconciler(new ReceiptRepositoryImpl(http));
+
+      serveReceipts(http, { sent: [receiptOutput('other', '9.99')] });
+      expect(await reconciler.reconcile(SERIAL_NUMBER, apiInput, attempt())).toEqual({
+        outcome: 'missing',
+      });
+
+      serveReceipts(http, {
+        ready: [receiptOutput('a', '3.70')],
+        sent: [receiptOutput('b', '3.70')],
+      });
+      const ambiguous = await reconciler.reconcile(SERIAL_NUMBER, apiInput, attempt());
+      expect(ambiguous.outcome).toBe('ambiguous');
+    });
+
+    it('should not take a different sale with the same total as issued', async () => {
+      const http = createHttp();
+      const reconciler = new ReceiptReconciler(new ReceiptRepositoryImpl(http));
+      const sameTotal = [receiptOutput('other', '3.70'), receiptOutput('lottery', '3.70')];
+      serveReceipts(
+        http,
+        { sent: sameTotal },
+        {
+          other: {
+            items: [
+              {
+                quantity: '1.00',
+                description: 'Spremuta',
+                unit_price: '3.70',
+                vat_rate_code: '10.00',
+              },
+            ],
+          },
+          lottery: { customer_lottery_code: 'ABCDEFGH' },
+        }
+      );
+
+      expect(await reconciler.reconcile(SERIAL_NUMBER, apiInput, attempt())).toEqual({
+        outcome: 'missing',
+      });
+    });
+  });
+});
+
+describe('ReceiptRepositoryImpl.create idempotency', () => {
+  const input = {
+    items: [{ quantity: '1', description: 'Caffè', unitPrice: '1.20', vatRateCode: '10' as const }],
+    cashPaymentAmount: '1.20',
+  };
+  const timeout = Object.assign(new Error('timeout of 30000ms exceeded'), {
+    code: 'ECONNABORTED',
+  });
+
+  it('should send the given idempotency key', async () => {
+    const http = createHttp();
+    http.post.mockResolvedValue({ data: receiptOutput('new', '1.20'), status: 201, headers: {} });
+
+    await new ReceiptRepositoryImpl(http).create(input, { idempotencyKey: 'key-1' });
+
+    expect(http.post).toHaveBeenCalledWith('/mf1/receipts', expect.anything(), {
+      headers: { 'Idempotency-Key': 'key-1' },
+    });
+  });
+
+  it('should return the issued receipt instead of posting it again', async () => {
+    const http = createHttp();
+    http.post.mockRejectedValue(timeout);
+    serveReceipts(
+      http,
+      { sent: [receiptOutput('issued', '1.20')] },
+      {
+        issued: {
+          items: [
+            { quantity: '1.00', description: 'Caffè', unit_price: '1.20', vat_rate_code: '10.00' },
+          ],
+        },
+      }
+    );
+
+    const receipt = await new ReceiptRepositoryImpl(http).create(input, {
+      serialNumber: SERIAL_NUMBER,
+    });
+
+    expect(receipt.uuid).toBe('issued');
+    expect(http.post).toHaveBeenCalledTimes(1);
+  });
+
+  it('should retry once with the same key when the receipt was not issued', async () => {
+    const http = createHttp();
+    http.post
+      .mockRejectedValueOnce(timeout)
+      .mockResolvedValueOnce({ data: receiptOutput('new', '1.20'), status: 201, headers: {} });
+    serveReceipts(http, {});
+
+    const receipt = await new ReceiptRepositoryImpl(http).create(input, {
+      serialNumber: SERIAL_NUMBER,
+    });
+
+    expect(receipt.uuid).toBe('new');
+    const [first, second] = http.post.mock.calls;
+    expect(second?.[2]?.headers).toEqual(first?.[2]?.headers);
+  });
+
+  it('should not reconcile without a serial number or after a rejection', async () => {
+    const http = createHttp();
+    http.post.mockRejectedValueOnce(timeout);
+    await expect(new ReceiptRepositoryImpl(http).create(input)).rejects.toBe(timeout);
+
+    const rejected = { response: { status: 422 }, message: 'Unprocessable Entity' };
+    http.post.mockRejectedValueOnce(rejected);
+    await expect(
+      new ReceiptRepositoryImpl(http).create(input, { serialNumber: SERIAL_NUMBER })
+    ).rejects.toBe(rejected);
+
+    expect(http.get).not.toHaveBeenCalled();
+  });
+});
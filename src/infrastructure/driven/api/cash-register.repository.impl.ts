@@ -12,7 +12,9 @@ import {
   CashRegisterUpdateInput,
 } from '@/domain/entities/cash-register.entity';
 import { ICashRegisterRepository } from '@/domain/repositories/cash-register.repository';
-import { Page } from '@/domain/value-objects/page.vo';
+import { iteratePages } from '@/domain/services/page-iterator.service';
+import { ReadOptions } from '@/domain/value-objects/cache-policy.vo';
+import { Page, PageIterationOptions } from '@/domain/value-objects/page.vo';
 
 export class CashRegisterRepositoryImpl implements ICashRegisterRepository {
   constructor(private readonly http: IHttpPort) {}
@@ -26,22 +28,35 @@ export class CashRegisterRepositoryImpl implements ICashRegisterRepository {
     return CashRegisterMapper.fromDetailedApiOutput(response.data);
   }
 
-  async findById(uuid: string): Promise<CashRegister> {
-    const response = await this.http.get<CashRegisterApiOutput>(`/mf1/cash-registers/${uuid}`);
+  async findById(uuid: string, options?: ReadOptions): Promise<CashRegister> {
+    const response = await this.http.get<CashRegisterApiOutput>(`/mf1/cash-registers/${uuid}`, {
+      cache: options?.cache,
+    });
     return CashRegisterMapper.fromApiOutput(response.data);
   }
 
-  async findAll(params?: CashRegisterListParams): Promise<Page<CashRegister>> {
+  async findAll(
+    params?: CashRegisterListParams,
+    options?: ReadOptions
+  ): Promise<Page<CashRegister>> {
     const response = await this.http.get<Page<CashRegisterApiOutput>>('/mf1/cash-registers', {
       params: {
         page: params?.page,
         size: params?.size,
         pem_id: params?.pemId,
       },
+      cache: options?.cache,
     });
     return CashRegisterMapper.pageFromApi(response.data);
   }
 
+  iterateAll(
+    params?: Omit<CashRegisterListParams, 'page' | 'size'>,
+    options?: PageIterationOptions
+  ): AsyncIterable<CashRegister> {
+    return iteratePages((page, size) => this.findAll({ ...params, page, size }, options), options);
+  }
+
   async update(uuid: string, input: CashRegisterUpdateInput): Promise<CashRegister> {
     const apiInput = CashRegisterMapper.toUpdateApiInput(input);
     const response = await this.http.patch<CashRegisterApiOutput>(
@@ -2,7 +2,9 @@ import { CashierApiOutput, CashierMapper } from '@/application/dto/cashier.dto';
 import { IHttpPort } from '@/application/ports/driven/http.port';
 import { Cashier, CashierCreateInput, CashierListParams } from '@/domain/entities/cashier.entity';
 import { ICashierRepository } from '@/domain/repositories/cashier.repository';
-import { Page } from '@/domain/value-objects/page.vo';
+import { iteratePages } from '@/domain/services/page-iterator.service';
+import { ReadOptions } from '@/domain/value-objects/cache-policy.vo';
+import { Page, PageIterationOptions } from '@/domain/value-objects/page.vo';
 
 export class CashierRepositoryImpl implements ICashierRepository {
   constructor(private readonly http: IHttpPort) {}
@@ -18,18 +20,28 @@ export class CashierRepositoryImpl implements ICashierRepository {
     return CashierMapper.fromApiOutput(response.data);
   }
 
-  async findById(uuid: string): Promise<Cashier> {
-    const response = await this.http.get<CashierApiOutput>(`/mf1/cashiers/${uuid}`);
+  async findById(uuid: string, options?: ReadOptions): Promise<Cashier> {
+    const response = await this.http.get<CashierApiOutput>(`/mf1/cashiers/${uuid}`, {
+      cache: options?.cache,
+    });
     return CashierMapper.fromApiOutput(response.data);
   }
 
-  async findAll(params?: CashierListParams): Promise<Page<Cashier>> {
+  async findAll(params?: CashierListParams, options?: ReadOptions): Promise<Page<Cashier>> {
     const response = await this.http.get<Page<CashierApiOutput>>('/mf1/cashiers', {
       params: { page: params?.page, size: params?.size, status: params?.status },
+      cache: options?.cache,
     });
     return CashierMapper.pageFromApi(response.data);
   }
 
+  iterateAll(
+    params?: Omit<CashierListParams, 'page' | 'size'>,
+    options?: PageIterationOptions
+  ): AsyncIterable<Cashier> {
+    return iteratePages((page, size) => this.findAll({ ...params, page, size }, options), options);
+  }
+
   async delete(uuid: string): Promise<void> {
     await this.http.delete(`/mf1/cashiers/${uuid}`);
   }
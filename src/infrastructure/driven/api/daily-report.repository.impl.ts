@@ -2,24 +2,47 @@ import { DailyReportApiOutput, DailyReportMapper } from '@/application/dto/daily
 import { IHttpPort } from '@/application/ports/driven/http.port';
 import { DailyReport, DailyReportsParams } from '@/domain/entities/daily-report.entity';
 import { IDailyReportRepository } from '@/domain/repositories/daily-report.repository';
-import { Page } from '@/domain/value-objects/page.vo';
+import { iteratePages } from '@/domain/services/page-iterator.service';
+import { ReadOptions } from '@/domain/value-objects/cache-policy.vo';
+import { Page, PageIterationOptions } from '@/domain/value-objects/page.vo';
 
 export class DailyReportRepositoryImpl implements IDailyReportRepository {
   constructor(private readonly http: IHttpPort) {}
 
-  async findById(merchantUuid: string, reportUuid: string): Promise<DailyReport> {
+  async findById(
+    merchantUuid: string,
+    reportUuid: string,
+    options?: ReadOptions
+  ): Promise<DailyReport> {
     const response = await this.http.get<DailyReportApiOutput>(
-      `/mf2/merchants/${merchantUuid}/daily-reports/${reportUuid}`
+      `/mf2/merchants/${merchantUuid}/daily-reports/${reportUuid}`,
+      { cache: options?.cache }
     );
     return DailyReportMapper.fromApiOutput(response.data);
   }
 
-  async findAll(merchantUuid: string, params?: DailyReportsParams): Promise<Page<DailyReport>> {
+  async findAll(
+    merchantUuid: string,
+    params?: DailyReportsParams,
+    options?: ReadOptions
+  ): Promise<Page<DailyReport>> {
     const queryParams = DailyReportMapper.toListParams(params);
     const response = await this.http.get<Page<DailyReportApiOutput>>(
       `/mf2/merchants/${merchantUuid}/daily-reports`,
-      { params: queryParams }
+      { params: queryParams, cache: options?.cache }
     );
     return DailyReportMapper.pageFromApi(response.data);
   }
+
+  iterateAll(
+    merchantUuid: string,
+    params?: Omit<DailyReportsParams, 'page' | 'itemsPerPage'>,
+    options?: PageIterationOptions
+  ): AsyncIterable<DailyReport> {
+    return iteratePages(
+      (page, itemsPerPage) =>
+        this.findAll(merchantUuid, { ...params, page, itemsPerPage }, options),
+      options
+    );
+  }
 }
@@ -0,0 +1,50 @@
+import {
+  EmergencyReportApiOutput,
+  EmergencyReportMapper,
+} from '@/application/dto/emergency-report.dto';
+import { IHttpPort } from '@/application/ports/driven/http.port';
+import {
+  EmergencyReport,
+  EmergencyReportInput,
+  EmergencyReportsParams,
+} from '@/domain/entities/emergency-report.entity';
+import { IEmergencyReportRepository } from '@/domain/repositories/emergency-report.repository';
+import { ReadOptions } from '@/domain/value-objects/cache-policy.vo';
+
+export class EmergencyReportRepositoryImpl implements IEmergencyReportRepository {
+  constructor(private readonly http: IHttpPort) {}
+
+  async findById(
+    serialNumber: string,
+    reportId: number | string,
+    options?: ReadOptions
+  ): Promise<EmergencyReport> {
+    const response = await this.http.get<EmergencyReportApiOutput>(
+      `/mf2/point-of-sales/${serialNumber}/emergency-reports/${reportId}`,
+      { cache: options?.cache }
+    );
+    return EmergencyReportMapper.fromApiOutput(response.data);
+  }
+
+  async findAll(
+    serialNumber: string,
+    params?: EmergencyReportsParams,
+    options?: ReadOptions
+  ): Promise<EmergencyReport[]> {
+    const queryParams = EmergencyReportMapper.toListParams(params);
+    const response = await this.http.get<EmergencyReportApiOutput[]>(
+      `/mf2/point-of-sales/${serialNumber}/emergency-reports`,
+      { params: queryParams, cache: options?.cache }
+    );
+    return EmergencyReportMapper.listFromApi(response.data);
+  }
+
+  async upload(serialNumber: string, input: EmergencyReportInput): Promise<EmergencyReport> {
+    const apiInput = EmergencyReportMapper.toApiInput(input);
+    const response = await this.http.post<EmergencyReportApiOutput>(
+      `/mf2/point-of-sales/${serialNumber}/upload-emergency-report`,
+      apiInput
+    );
+    return EmergencyReportMapper.fromApiOutput(response.data);
+  }
+}
@@ -1,4 +1,5 @@
 export * from './receipt.repository.impl';
+export * from './receipt-reconciler';
 export * from './merchant.repository.impl';
 export * from './cashier.repository.impl';
 export * from './cash-register.repository.impl';
@@ -9,3 +10,4 @@ export * from './daily-report.repository.impl';
 export * from './journal.repository.impl';
 export * from './notification.repository.impl';
 export * from './telemetry.repository.impl';
+export * from './emergency-report.repository.impl';
@@ -2,27 +2,50 @@ import { JournalApiOutput, JournalMapper } from '@/application/dto/journal.dto';
 import { IHttpPort } from '@/application/ports/driven/http.port';
 import { Journal, JournalCloseInput, JournalsParams } from '@/domain/entities/journal.entity';
 import { IJournalRepository } from '@/domain/repositories/journal.repository';
-import { Page } from '@/domain/value-objects/page.vo';
+import { iteratePages } from '@/domain/services/page-iterator.service';
+import { ReadOptions } from '@/domain/value-objects/cache-policy.vo';
+import { Page, PageIterationOptions } from '@/domain/value-objects/page.vo';
 
 export class JournalRepositoryImpl implements IJournalRepository {
   constructor(private readonly http: IHttpPort) {}
 
-  async findById(merchantUuid: string, journalUuid: string): Promise<Journal> {
+  async findById(
+    merchantUuid: string,
+    journalUuid: string,
+    options?: ReadOptions
+  ): Promise<Journal> {
     const response = await this.http.get<JournalApiOutput>(
-      `/mf2/merchants/${merchantUuid}/journals/${journalUuid}`
+      `/mf2/merchants/${merchantUuid}/journals/${journalUuid}`,
+      { cache: options?.cache }
     );
     return JournalMapper.fromApiOutput(response.data);
   }
 
-  async findAll(merchantUuid: string, params?: JournalsParams): Promise<Page<Journal>> {
+  async findAll(
+    merchantUuid: string,
+    params?: JournalsParams,
+    options?: ReadOptions
+  ): Promise<Page<Journal>> {
     const queryParams = JournalMapper.toListParams(params);
     const response = await this.http.get<Page<JournalApiOutput>>(
       `/mf2/merchants/${merchantUuid}/journals`,
-      { params: queryParams }
+      { params: queryParams, cache: options?.cache }
     );
     return JournalMapper.pageFromApi(response.data);
   }
 
+  iterateAll(
+    merchantUuid: string,
+    params?: Omit<JournalsParams, 'page' | 'itemsPerPage'>,
+    options?: PageIterationOptions
+  ): AsyncIterable<Journal> {
+    return iteratePages(
+      (page, itemsPerPage) =>
+        this.findAll(merchantUuid, { ...params, page, itemsPerPage }, options),
+      options
+    );
+  }
+
   async close(merchantUuid: string, input: JournalCloseInput): Promise<Journal> {
     const apiInput = JournalMapper.toCloseApiInput(input);
     const response = await this.http.post<JournalApiOutput>(
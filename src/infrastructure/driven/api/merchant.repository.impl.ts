@@ -1,4 +1,5 @@
 import { MerchantApiOutput, MerchantMapper } from '@/application/dto/merchant.dto';
+import { LD_JSON_MEDIA_TYPE } from '@/application/dto/page.dto';
 import { IHttpPort } from '@/application/ports/driven/http.port';
 import {
   Merchant,
@@ -7,6 +8,8 @@ import {
   MerchantsParams,
 } from '@/domain/entities/merchant.entity';
 import { IMerchantRepository } from '@/domain/repositories/merchant.repository';
+import { ReadOptions } from '@/domain/value-objects/cache-policy.vo';
+import { LdJsonPage, Page } from '@/domain/value-objects/page.vo';
 
 export class MerchantRepositoryImpl implements IMerchantRepository {
   constructor(private readonly http: IHttpPort) {}
@@ -17,14 +20,18 @@ export class MerchantRepositoryImpl implements IMerchantRepository {
     return MerchantMapper.fromApiOutput(response.data);
   }
 
-  async findById(uuid: string): Promise<Merchant> {
-    const response = await this.http.get<MerchantApiOutput>(`/mf2/merchants/${uuid}`);
+  async findById(uuid: string, options?: ReadOptions): Promise<Merchant> {
+    const response = await this.http.get<MerchantApiOutput>(`/mf2/merchants/${uuid}`, {
+      cache: options?.cache,
+    });
     return MerchantMapper.fromApiOutput(response.data);
   }
 
-  async findAll(params?: MerchantsParams): Promise<Merchant[]> {
-    const response = await this.http.get<MerchantApiOutput[]>('/mf2/merchants', {
-      params: { page: params?.page },
+  async findAll(params?: MerchantsParams, options?: ReadOptions): Promise<Page<Merchant>> {
+    const response = await this.http.get<LdJsonPage<MerchantApiOutput>>('/mf2/merchants', {
+      headers: { Accept: LD_JSON_MEDIA_TYPE },
+      params: { page: params?.page, itemsPerPage: params?.itemsPerPage },
+      cache: options?.cache,
     });
     return MerchantMapper.pageFromApi(response.data);
   }
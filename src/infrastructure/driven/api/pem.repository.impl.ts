@@ -1,3 +1,4 @@
+import { LD_JSON_MEDIA_TYPE } from '@/application/dto/page.dto';
 import {
   PemCertificatesApiOutput,
   PemCreateApiOutput,
@@ -8,6 +9,7 @@ import { IHttpPort } from '@/application/ports/driven/http.port';
 import { PemCertificates, PemCreateInput, PemCreateOutput } from '@/domain/entities/pem.entity';
 import { PointOfSaleMf2 } from '@/domain/entities/point-of-sale.entity';
 import { IPemRepository } from '@/domain/repositories/pem.repository';
+import { LdJsonPage, Page } from '@/domain/value-objects/page.vo';
 
 export class PemRepositoryImpl implements IPemRepository {
   constructor(private readonly http: IHttpPort) {}
@@ -23,10 +25,10 @@ export class PemRepositoryImpl implements IPemRepository {
     return PemMapper.fromPointOfSaleMf2ApiOutput(response.data);
   }
 
-  async findAllByMerchant(merchantUuid: string, page?: number): Promise<PointOfSaleMf2[]> {
-    const response = await this.http.get<PointOfSaleMf2ApiOutput[]>(
+  async findAllByMerchant(merchantUuid: string, page?: number): Promise<Page<PointOfSaleMf2>> {
+    const response = await this.http.get<LdJsonPage<PointOfSaleMf2ApiOutput>>(
       `/mf2/merchants/${merchantUuid}/pems`,
-      { params: { page } }
+      { headers: { Accept: LD_JSON_MEDIA_TYPE }, params: { page } }
     );
     return PemMapper.pageFromApi(response.data);
   }
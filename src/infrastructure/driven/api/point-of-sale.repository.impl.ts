@@ -12,27 +12,42 @@ import {
   PointOfSaleListParams,
 } from '@/domain/entities/point-of-sale.entity';
 import { IPointOfSaleRepository } from '@/domain/repositories/point-of-sale.repository';
-import { Page } from '@/domain/value-objects/page.vo';
+import { iteratePages } from '@/domain/services/page-iterator.service';
+import { ReadOptions } from '@/domain/value-objects/cache-policy.vo';
+import { Page, PageIterationOptions } from '@/domain/value-objects/page.vo';
 
 export class PointOfSaleRepositoryImpl implements IPointOfSaleRepository {
   constructor(private readonly http: IHttpPort) {}
 
-  async findById(serialNumber: string): Promise<PointOfSaleDetailed> {
-    const response = await this.http.get<PointOfSaleDetailedApiOutput>(`/mf1/pems/${serialNumber}`);
+  async findById(serialNumber: string, options?: ReadOptions): Promise<PointOfSaleDetailed> {
+    const response = await this.http.get<PointOfSaleDetailedApiOutput>(
+      `/mf1/pems/${serialNumber}`,
+      {
+        cache: options?.cache,
+      }
+    );
     return PointOfSaleMapper.fromDetailedApiOutput(response.data);
   }
 
-  async findAll(params?: PointOfSaleListParams): Promise<Page<PointOfSale>> {
+  async findAll(params?: PointOfSaleListParams, options?: ReadOptions): Promise<Page<PointOfSale>> {
     const response = await this.http.get<Page<PointOfSaleApiOutput>>('/mf1/pems', {
       params: {
         status: params?.status,
         page: params?.page,
         size: params?.size,
       },
+      cache: options?.cache,
     });
     return PointOfSaleMapper.pageFromApi(response.data);
   }
 
+  iterateAll(
+    params?: Omit<PointOfSaleListParams, 'page' | 'size'>,
+    options?: PageIterationOptions
+  ): AsyncIterable<PointOfSale> {
+    return iteratePages((page, size) => this.findAll({ ...params, page, size }, options), options);
+  }
+
   async activate(serialNumber: string, input: ActivationRequest): Promise<void> {
     const apiInput = PointOfSaleMapper.toActivationApiInput(input);
     await this.http.post(`/mf1/pems/${serialNumber}/activation`, apiInput);
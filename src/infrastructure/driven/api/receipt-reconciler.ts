@@ -0,0 +1,137 @@
+import { ReceiptApiInput, ReceiptItemApiInput } from '@/application/dto/receipt.dto';
+import {
+  RECEIPT_READY,
+  RECEIPT_SENT,
+  Receipt,
+  ReceiptDetails,
+  ReceiptItem,
+} from '@/domain/entities/receipt.entity';
+import { IReceiptRepository } from '@/domain/repositories/receipt.repository';
+import { VatCalculator } from '@/domain/services/vat-calculator.service';
+import { ReadOptions } from '@/domain/value-objects/cache-policy.vo';
+import { Money } from '@/domain/value-objects/money.vo';
+
+/** When a creation request that failed ambiguously was sent, and when it failed */
+export interface ReceiptAttempt {
+  startedAt: number;
+  endedAt: number;
+}
+
+export type ReceiptReconciliation =
+  | { outcome: 'issued'; receipt: Receipt }
+  | { outcome: 'missing' }
+  | { outcome: 'ambiguous'; candidates: Receipt[] };
+
+/**
+ * Finds out whether a receipt creation that failed ambiguously was issued anyway, so that
+ * it is only retried when the API has no trace of it.
+ *
+ * Sale receipts of the point of sale whose document datetime falls within the attempt are
+ * matched by total amount, then by the items and the customer lottery code of their details;
+ * more than one match is reported as ambiguous.
+ */
+export class ReceiptReconciler {
+  /** Device and server clocks may disagree, the search extends this much around the attempt */
+  static readonly CLOCK_SKEW_MS = 5 * 60 * 1000;
+
+  /** A cached answer could hide a receipt issued since, and have the sale issued twice */
+  private static readonly FROM_NETWORK: ReadOptions = { cache: { mode: 'network-only' } };
+
+  constructor(private readonly receipts: Pick<IReceiptRepository, 'iterateAll' | 'getDetails'>) {}
+
+  async reconcile(
+    serialNumber: string,
+    input: ReceiptApiInput,
+    attempt: ReceiptAttempt
+  ): Promise<ReceiptReconciliation> {
+    const totals = ReceiptReconciler.expectedTotals(input);
+    const issuedAfter = new Date(attempt.startedAt - ReceiptReconciler.CLOCK_SKEW_MS).toISOString();
+    const issuedBefore = new Date(attempt.endedAt + ReceiptReconciler.CLOCK_SKEW_MS).toISOString();
+    const sameTotal = new Map<string, Receipt>();
+
+    // The API lists sent receipts by default, a receipt just issued is still ready. Ready ones
+    // are listed first: a receipt sent in between is then found among the sent ones.
+    for (const status of [RECEIPT_READY, RECEIPT_SENT] as const) {
+      const receipts = this.receipts.iterateAll(
+        {
+          serialNumber,
+          status,
+          documentDatetimeAfter: issuedAfter,
+          documentDatetimeBefore: issuedBefore,
+        },
+        { ...ReceiptReconciler.FROM_NETWORK, pageSize: 100 }
+      );
+      for await (const receipt of receipts) {
+        const { totalAmount } = receipt;
+        if (receipt.type === 'sale' && totalAmount && totals.some((t) => totalAmount.equals(t))) {
+          sameTotal.set(receipt.uuid, receipt);
+        }
+      }
+    }
+
+    const candidates: Receipt[] = [];
+    for (const receipt of sameTotal.values()) {
+      const details = await this.receipts.getDetails(
+        receipt.uuid,
+        'json',
+        ReceiptReconciler.FROM_NETWORK
+      );
+      if (ReceiptReconciler.matches(details, input)) candidates.push(receipt);
+    }
+
+    if (candidates.length === 0) return { outcome: 'missing' };
+    if (candidates.length === 1) return { outcome: 'issued', receipt: candidates[0]! };
+    return { outcome: 'ambiguous', candidates };
+  }
+
+  /**
+   * Whether the details of an issued receipt are those of the input. Payments are not part of
+   * the details, the items and the lottery code tell apart sales with the same total.
+   */
+  static matches(details: ReceiptDetails, input: ReceiptApiInput): boolean {
+    if ((details.customerLotteryCode ?? null) !== (input.customer_lottery_code ?? null)) {
+      return false;
+    }
+    // Without items the details cannot contradict the total
+    if (!details.items) return true;
+    return (
+      details.items.length === input.items.length &&
+      input.items.every((item, index) => sameItem(details.items![index]!, item))
+    );
+  }
+
+  /**
+   * Totals the issued receipt may carry: the lines net of their discounts, with and without
+   * the receipt discount, which the API applies at payment time.
+   */
+  static expectedTotals(input: ReceiptApiInput): Money[] {
+    const lines = Money.sum(
+      input.items.map((item) =>
+        VatCalculator.lineAmount({
+          quantity: item.quantity,
+          unitPrice: item.unit_price,
+          discount: item.discount,
+        })
+      )
+    );
+    return input.discount ? [lines, lines.minus(input.discount)] : [lines];
+  }
+}
+
+/** Compares numbers as amounts, so that `'10'` and `'10.00'` are the same VAT rate or quantity */
+function sameValue(issued: unknown, sent: unknown): boolean {
+  if (Money.isValid(issued) && Money.isValid(sent)) return Money.of(issued).equals(sent);
+  return (issued ?? null) === (sent ?? null);
+}
+
+function sameItem(issued: ReceiptItem, sent: ReceiptItemApiInput): boolean {
+  return (
+    issued.description === sent.description &&
+    sameValue(issued.quantity, sent.quantity) &&
+    sameValue(issued.unitPrice, sent.unit_price) &&
+    sameValue(issued.discount ?? '0', sent.discount ?? '0') &&
+    sameValue(issued.vatRateCode, sent.vat_rate_code) &&
+    !!issued.complimentary === !!sent.complimentary &&
+    !!issued.isDownPaymentOrVoucherRedemption === !!sent.prepaid_or_voucher
+  );
+}
@@ -7,6 +7,7 @@ import {
 import { IHttpPort } from '@/application/ports/driven/http.port';
 import {
   Receipt,
+  ReceiptCreateOptions,
   ReceiptDetails,
   ReceiptInput,
   ReceiptListParams,
@@ -19,44 +20,92 @@ import {
   VoidWithProofInput,
 } from '@/domain/entities/receipt.entity';
 import { IReceiptRepository } from '@/domain/repositories/receipt.repository';
-import { Page } from '@/domain/value-objects/page.vo';
+import { iteratePages } from '@/domain/services/page-iterator.service';
+import { ReadOptions } from '@/domain/value-objects/cache-policy.vo';
+import { Page, PageIterationOptions } from '@/domain/value-objects/page.vo';
+import { isAmbiguousFailure } from '@/infrastructure/driven/http/error-classifier';
+import { IDEMPOTENCY_KEY_HEADER, generateIdempotencyKey } from '@/shared/utils';
+
+import { ReceiptReconciler } from './receipt-reconciler';
 
 export class ReceiptRepositoryImpl implements IReceiptRepository {
   constructor(private readonly http: IHttpPort) {}
 
-  async create(input: ReceiptInput): Promise<Receipt> {
+  async create(input: ReceiptInput, options: ReceiptCreateOptions = {}): Promise<Receipt> {
     const apiInput = ReceiptMapper.toApiInput(input);
-    const response = await this.http.post<ReceiptApiOutput>('/mf1/receipts', apiInput);
-    return ReceiptMapper.fromApiOutput(response.data);
+    const headers = {
+      [IDEMPOTENCY_KEY_HEADER]: options.idempotencyKey ?? generateIdempotencyKey(),
+    };
+    const post = async () => {
+      const response = await this.http.post<ReceiptApiOutput>('/mf1/receipts', apiInput, {
+        headers,
+      });
+      return ReceiptMapper.fromApiOutput(response.data);
+    };
+    const startedAt = Date.now();
+
+    try {
+      return await post();
+    } catch (error) {
+      if (!options.serialNumber || !isAmbiguousFailure(error)) throw error;
+
+      const reconciliation = await new ReceiptReconciler(this).reconcile(
+        options.serialNumber,
+        apiInput,
+        { startedAt, endedAt: Date.now() }
+      );
+      if (reconciliation.outcome === 'issued') return reconciliation.receipt;
+      // Several receipts match: retrying could issue a duplicate, let the caller decide
+      if (reconciliation.outcome === 'ambiguous') throw error;
+      return await post();
+    }
   }
 
-  async findById(receiptUuid: string): Promise<Receipt> {
-    const response = await this.http.get<ReceiptApiOutput>(`/mf1/receipts/${receiptUuid}`);
+  async findById(receiptUuid: string, options?: ReadOptions): Promise<Receipt> {
+    const response = await this.http.get<ReceiptApiOutput>(`/mf1/receipts/${receiptUuid}`, {
+      cache: options?.cache,
+    });
     return ReceiptMapper.fromApiOutput(response.data);
   }
 
-  async findAll(params: ReceiptListParams): Promise<Page<Receipt>> {
+  async findAll(params: ReceiptListParams, options?: ReadOptions): Promise<Page<Receipt>> {
     const queryParams = ReceiptMapper.toListParams(params);
     const response = await this.http.get<Page<ReceiptApiOutput>>(
       `/mf1/pems/${params.serialNumber}/receipts`,
-      { params: queryParams }
+      { params: queryParams, cache: options?.cache }
     );
     return ReceiptMapper.pageFromApi(response.data);
   }
 
-  async getDetails(receiptUuid: string, format: 'json'): Promise<ReceiptDetails>;
-  async getDetails(receiptUuid: string, format: 'pdf'): Promise<string>;
-  async getDetails(receiptUuid: string, format: 'json' | 'pdf'): Promise<ReceiptDetails | string> {
+  iterateAll(
+    params: Omit<ReceiptListParams, 'page' | 'size'>,
+    options?: PageIterationOptions
+  ): AsyncIterable<Receipt> {
+    return iteratePages((page, size) => this.findAll({ ...params, page, size }, options), options);
+  }
+
+  async getDetails(
+    receiptUuid: string,
+    format: 'json',
+    options?: ReadOptions
+  ): Promise<ReceiptDetails>;
+  async getDetails(receiptUuid: string, format: 'pdf', options?: ReadOptions): Promise<string>;
+  async getDetails(
+    receiptUuid: string,
+    format: 'json' | 'pdf',
+    options?: ReadOptions
+  ): Promise<ReceiptDetails | string> {
     if (format === 'pdf') {
       const response = await this.http.get<string>(`/mf1/receipts/${receiptUuid}/details`, {
         headers: { Accept: 'application/pdf' },
         responseType: 'arraybuffer',
+        cache: options?.cache,
       });
       return response.data;
     }
     const response = await this.http.get<ReceiptDetailsApiOutput>(
       `/mf1/receipts/${receiptUuid}/details`,
-      { headers: { Accept: 'application/json' } }
+      { headers: { Accept: 'application/json' }, cache: options?.cache }
     );
     return ReceiptMapper.fromApiDetailsOutput(response.data);
   }
@@ -7,7 +7,9 @@ import {
   SuppliersParams,
 } from '@/domain/entities/supplier.entity';
 import { ISupplierRepository } from '@/domain/repositories/supplier.repository';
-import { Page } from '@/domain/value-objects/page.vo';
+import { iteratePages } from '@/domain/services/page-iterator.service';
+import { ReadOptions } from '@/domain/value-objects/cache-policy.vo';
+import { Page, PageIterationOptions } from '@/domain/value-objects/page.vo';
 
 export class SupplierRepositoryImpl implements ISupplierRepository {
   constructor(private readonly http: IHttpPort) {}
@@ -21,21 +23,45 @@ export class SupplierRepositoryImpl implements ISupplierRepository {
     return SupplierMapper.fromApiOutput(response.data);
   }
 
-  async findById(merchantUuid: string, supplierUuid: string): Promise<Supplier> {
+  async findById(
+    merchantUuid: string,
+    supplierUuid: string,
+    options?: ReadOptions
+  ): Promise<Supplier> {
     const response = await this.http.get<SupplierApiOutput>(
-      `/mf2/merchants/${merchantUuid}/suppliers/${supplierUuid}`
+      `/mf2/merchants/${merchantUuid}/suppliers/${supplierUuid}`,
+      { cache: options?.cache }
     );
     return SupplierMapper.fromApiOutput(response.data);
   }
 
-  async findAll(merchantUuid: string, params?: SuppliersParams): Promise<Page<Supplier>> {
+  async findAll(
+    merchantUuid: string,
+    params?: SuppliersParams,
+    options?: ReadOptions
+  ): Promise<Page<Supplier>> {
     const response = await this.http.get<Page<SupplierApiOutput>>(
       `/mf2/merchants/${merchantUuid}/suppliers`,
-      { params: { page: params?.page } }
+      {
+        params: { page: params?.page, itemsPerPage: params?.itemsPerPage },
+        cache: options?.cache,
+      }
     );
     return SupplierMapper.pageFromApi(response.data);
   }
 
+  iterateAll(
+    merchantUuid: string,
+    params?: Omit<SuppliersParams, 'page' | 'itemsPerPage'>,
+    options?: PageIterationOptions
+  ): AsyncIterable<Supplier> {
+    return iteratePages(
+      (page, itemsPerPage) =>
+        this.findAll(merchantUuid, { ...params, page, itemsPerPage }, options),
+      options
+    );
+  }
+
   async update(
     merchantUuid: string,
     supplierUuid: string,
@@ -74,6 +74,16 @@ describe('CacheKeyGenerator', () => {
       expect(key).toBe('telemetry:pos-uuid');
     });
 
+    it('should generate key for emergency report nested under point of sale', () => {
+      const key = generator.generate('/mf2/point-of-sales/SN123/emergency-reports/42');
+      expect(key).toBe('emergency-report:SN123:42');
+    });
+
+    it('should generate list key for emergency reports', () => {
+      const key = generator.generate('/mf2/point-of-sales/SN123/emergency-reports', { page: 1 });
+      expect(key).toBe('emergency-report:list:point-of-sale=SN123&page=1');
+    });
+
     it('should sort params alphabetically', () => {
       const key = generator.generate('/mf1/receipts', { size: 10, page: 0 });
       expect(key).toBe('receipt:list:page=0&size=10');
@@ -132,10 +142,16 @@ describe('CacheKeyGenerator', () => {
       expect(generator.shouldCache('/mf1/cashiers/abc')).toBe(true);
     });
 
-    it('should NOT cache list endpoints', () => {
-      expect(generator.shouldCache('/mf1/receipts')).toBe(false);
+    it('should cache the receipt, cashier and point-of-sale lists', () => {
+      expect(generator.shouldCache('/mf1/receipts')).toBe(true);
+      expect(generator.shouldCache('/mf1/pems/SN123/receipts')).toBe(true);
+      expect(generator.shouldCache('/mf1/cashiers')).toBe(true);
+      expect(generator.shouldCache('/mf1/pems')).toBe(true);
+    });
+
+    it('should NOT cache the other list endpoints', () => {
       expect(generator.shouldCache('/mf2/merchants')).toBe(false);
-      expect(generator.shouldCache('/mf1/cashiers')).toBe(false);
+      expect(generator.shouldCache('/mf1/cash-registers')).toBe(false);
     });
 
     it('should NOT cache notifications', () => {
@@ -147,37 +163,97 @@ describe('CacheKeyGenerator', () => {
     });
   });
 
-  describe('getInvalidationPatterns', () => {
-    it('should invalidate list on POST', () => {
-      const patterns = generator.getInvalidationPatterns('/mf1/receipts', 'POST');
-      expect(patterns).toContain('receipt:list:*');
+  describe('getListItem', () => {
+    it('should return the item entry of the list members', () => {
+      expect(generator.getListItem('/mf1/pems/SN123/receipts', { uuid: 'r-1' })).toEqual({
+        key: 'receipt:r-1',
+        tags: ['receipt', 'receipt:r-1', 'point-of-sale:SN123/receipt'],
+      });
+      expect(generator.getListItem('/mf1/pems', { serial_number: 'SN123' })).toEqual({
+        key: 'point-of-sale:SN123',
+        tags: ['point-of-sale', 'point-of-sale:SN123'],
+      });
+    });
+
+    it('should return undefined for items and members without ID', () => {
+      expect(generator.getListItem('/mf1/receipts/r-1', { uuid: 'r-1' })).toBeUndefined();
+      expect(generator.getListItem('/mf1/receipts', { id: 'r-1' })).toBeUndefined();
+      expect(
+        generator.getListItem('/mf2/merchants/mid/suppliers', { uuid: 's-1' })
+      ).toBeUndefined();
+    });
+  });
+
+  describe('getTags', () => {
+    it('should tag items and their details by ID', () => {
+      expect(generator.getTags('/mf1/receipts/abc')).toEqual(['receipt', 'receipt:abc']);
+      expect(generator.getTags('/mf1/receipts/abc/details')).toEqual(['receipt', 'receipt:abc']);
+      expect(generator.getTags('/mf1/cashiers/me')).toEqual(['cashier', 'cashier:me']);
     });
 
-    it('should invalidate item and list on PUT', () => {
-      const patterns = generator.getInvalidationPatterns('/mf1/receipts/abc', 'PUT');
-      expect(patterns).toContain('receipt:abc*');
-      expect(patterns).toContain('receipt:list:*');
+    it('should tag lists', () => {
+      expect(generator.getTags('/mf1/receipts?page=1')).toEqual(['receipt', 'receipt:list']);
     });
 
-    it('should invalidate item and list on DELETE', () => {
-      const patterns = generator.getInvalidationPatterns('/mf2/merchants/abc', 'DELETE');
-      expect(patterns).toContain('merchant:abc*');
-      expect(patterns).toContain('merchant:list:*');
+    it('should tag nested resources by parent', () => {
+      expect(generator.getTags('/mf1/pems/SN123/receipts')).toEqual([
+        'receipt',
+        'receipt:list',
+        'point-of-sale:SN123/receipt',
+      ]);
+      expect(generator.getTags('/mf2/merchants/mid/suppliers/sid')).toEqual([
+        'supplier',
+        'supplier:sid',
+        'merchant:mid/supplier',
+      ]);
+    });
+
+    it('should return no tags for unknown URLs', () => {
+      expect(generator.getTags('/unknown/path')).toEqual([]);
+    });
+  });
+
+  describe('getInvalidationTags', () => {
+    it('should invalidate lists on POST', () => {
+      expect(generator.getInvalidationTags('/mf1/receipts', 'POST')).toEqual(['receipt:list']);
+    });
+
+    it('should invalidate item and lists on PUT', () => {
+      expect(generator.getInvalidationTags('/mf1/receipts/abc', 'PUT')).toEqual([
+        'receipt:list',
+        'receipt:abc',
+      ]);
+    });
+
+    it('should invalidate item, lists and nested resources on DELETE', () => {
+      expect(generator.getInvalidationTags('/mf2/merchants/abc', 'DELETE')).toEqual([
+        'merchant:list',
+        'merchant:abc',
+        'merchant:abc/supplier',
+        'merchant:abc/daily-report',
+        'merchant:abc/journal',
+      ]);
     });
 
     it('should invalidate cashier:me on cashier mutations', () => {
-      const patterns = generator.getInvalidationPatterns('/mf1/cashiers/abc', 'PUT');
-      expect(patterns).toContain('cashier:me');
+      expect(generator.getInvalidationTags('/mf1/cashiers/abc', 'PUT')).toContain('cashier:me');
+    });
+
+    it('should invalidate nested items without their parent', () => {
+      expect(generator.getInvalidationTags('/mf2/merchants/mid/suppliers/sid', 'PATCH')).toEqual([
+        'supplier:list',
+        'supplier:sid',
+      ]);
     });
 
-    it('should invalidate supplier list with merchant context', () => {
-      const patterns = generator.getInvalidationPatterns('/mf2/merchants/mid/suppliers', 'POST');
-      expect(patterns).toContain('supplier:list:merchant=mid*');
+    it('should invalidate emergency report lists on upload', () => {
+      expect(
+        generator.getInvalidationTags('/mf2/point-of-sales/SN123/upload-emergency-report', 'POST')
+      ).toEqual(['emergency-report:list']);
     });
 
     it('should return empty array for GET', () => {
-      const patterns = generator.getInvalidationPatterns('/mf1/receipts/abc', 'GET');
-      expect(patterns).toHaveLength(0);
+      expect(generator.getInvalidationTags('/mf1/receipts/abc', 'GET')).toHaveLength(0);
     });
   });
 
@@ -189,5 +265,14 @@ describe('CacheKeyGenerator', () => {
 
       expect(customGenerator.getTTL('/mf1/receipts/abc')).toBe(60 * 1000);
     });
+
+    it('should merge partial resource configuration with the defaults', () => {
+      const customGenerator = new CacheKeyGenerator({ merchant: { staleWhileRevalidate: true } });
+
+      expect(customGenerator.isStaleWhileRevalidate('/mf2/merchants/abc')).toBe(true);
+      expect(customGenerator.getTTL('/mf2/merchants/abc')).toBe(30 * 60 * 1000);
+      expect(customGenerator.shouldCache('/mf2/merchants/abc')).toBe(true);
+      expect(generator.isStaleWhileRevalidate('/mf2/merchants/abc')).toBe(false);
+    });
   });
 });
@@ -1,4 +1,4 @@
-import { BehaviorSubject } from 'rxjs';
+import { BehaviorSubject, firstValueFrom } from 'rxjs';
 
 import { CachedItem, ICachePort, INetworkPort, NetworkStatus } from '@/application/ports/driven';
 import { ICacheKeyGenerator } from '@/application/ports/driven/cache-key.port';
@@ -36,6 +36,7 @@ function createMockCachePort(): jest.Mocked<ICachePort> {
     setItem: jest.fn(),
     setBatch: jest.fn(),
     invalidate: jest.fn(),
+    invalidateTags: jest.fn(),
     clear: jest.fn(),
     getSize: jest.fn(),
     cleanup: jest.fn(),
@@ -47,9 +48,12 @@ function createMockKeyGenerator(): jest.Mocked<ICacheKeyGenerator> {
   return {
     generate: jest.fn(),
     parseResource: jest.fn(),
-    getInvalidationPatterns: jest.fn(),
+    getTags: jest.fn(),
+    getInvalidationTags: jest.fn(),
     getTTL: jest.fn(),
     shouldCache: jest.fn(),
+    isStaleWhileRevalidate: jest.fn(),
+    getListItem: jest.fn(),
   };
 }
 
@@ -86,10 +90,12 @@ describe('CachingHttpDecorator', () => {
     mockKeyGenerator.shouldCache.mockReturnValue(true);
     mockKeyGenerator.generate.mockImplementation((url) => `cache:${url}`);
     mockKeyGenerator.getTTL.mockReturnValue(5 * 60 * 1000); // 5 minutes
-    mockKeyGenerator.getInvalidationPatterns.mockReturnValue([]);
+    mockKeyGenerator.getTags.mockReturnValue([]);
+    mockKeyGenerator.getInvalidationTags.mockReturnValue([]);
     mockCache.get.mockResolvedValue(null);
     mockCache.set.mockResolvedValue(undefined);
     mockCache.invalidate.mockResolvedValue(undefined);
+    mockCache.invalidateTags.mockResolvedValue(undefined);
 
     decorator = new CachingHttpDecorator(mockHttp, mockCache, mockKeyGenerator, mockNetwork);
   });
@@ -286,6 +292,341 @@ describe('CachingHttpDecorator', () => {
     });
   });
 
+  describe('GET requests - Tags', () => {
+    it('should cache the response with the tags of the URL', async () => {
+      mockKeyGenerator.getTags.mockReturnValue(['receipt', 'receipt:123']);
+      mockHttp.get.mockResolvedValue({ data: { id: '123' }, status: 200, headers: {} });
+
+      await decorator.get('/mf1/receipts/123');
+
+      expect(mockKeyGenerator.getTags).toHaveBeenCalledWith('/mf1/receipts/123');
+      expect(mockCache.setItem).toHaveBeenCalledWith('cache:/mf1/receipts/123', {
+        data: { id: '123' },
+        timestamp: expect.any(Number),
+        tags: ['receipt', 'receipt:123'],
+      });
+    });
+  });
+
+  describe('GET requests - Stale-while-revalidate', () => {
+    const staleData = { id: '123', name: 'Old' };
+    const freshData = { id: '123', name: 'Fresh' };
+
+    beforeEach(() => {
+      mockKeyGenerator.isStaleWhileRevalidate.mockReturnValue(true);
+      mockCache.get.mockResolvedValue({ data: staleData, timestamp: Date.now() - 10 * 60 * 1000 });
+    });
+
+    it('should return expired data right away and refresh it in the background', async () => {
+      mockHttp.get.mockResolvedValue({ data: freshData, status: 200, headers: {} });
+      const refreshed = firstValueFrom(decorator.refreshes$);
+
+      const result = await decorator.get<typeof staleData>('/mf1/receipts/123');
+
+      expect(result.data).toEqual(staleData);
+      expect(result.headers['x-cache']).toBe('STALE');
+      await expect(refreshed).resolves.toEqual({
+        key: 'cache:/mf1/receipts/123',
+        url: '/mf1/receipts/123',
+        data: freshData,
+      });
+      expect(mockCache.set).toHaveBeenCalledWith('cache:/mf1/receipts/123', freshData);
+    });
+
+    it('should refresh an entry once while requests overlap', async () => {
+      mockHttp.get.mockResolvedValue({ data: freshData, status: 200, headers: {} });
+      const refreshed = firstValueFrom(decorator.refreshes$);
+
+      await Promise.all([decorator.get('/mf1/receipts/123'), decorator.get('/mf1/receipts/123')]);
+      await refreshed;
+
+      expect(mockHttp.get).toHaveBeenCalledTimes(1);
+    });
+
+    it('should keep the expired entry when the refresh fails', async () => {
+      const failure = Promise.reject(new Error('Network error'));
+      failure.catch(() => undefined);
+      mockHttp.get.mockReturnValue(failure);
+      const next = jest.fn();
+      decorator.refreshes$.subscribe(next);
+
+      const result = await decorator.get('/mf1/receipts/123');
+      await new Promise((resolve) => setTimeout(resolve, 0));
+
+      expect(result.headers['x-cache']).toBe('STALE');
+      expect(next).not.toHaveBeenCalled();
+      expect(mockCache.set).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('GET requests - Conditional requests', () => {
+    const cachedData = { id: '123', name: 'Cached' };
+    const expiredItem: CachedItem<typeof cachedData> = {
+      data: cachedData,
+      timestamp: Date.now() - 10 * 60 * 1000,
+      etag: '"v1"',
+      lastModified: 'Sat, 10 Jan 2026 10:00:00 GMT',
+    };
+
+    beforeEach(() => {
+      mockCache.get.mockResolvedValue(expiredItem);
+      mockCache.setItem.mockResolvedValue(undefined);
+    });
+
+    it('should send the validators of the expired entry', async () => {
+      mockHttp.get.mockResolvedValue({ data: cachedData, status: 200, headers: {} });
+
+      await decorator.get('/mf1/receipts/123', { headers: { Accept: 'application/json' } });
+
+      expect(mockHttp.get).toHaveBeenCalledWith('/mf1/receipts/123', {
+        headers: {
+          Accept: 'application/json',
+          'If-None-Match': '"v1"',
+          'If-Modified-Since': 'Sat, 10 Jan 2026 10:00:00 GMT',
+        },
+      });
+    });
+
+    it('should return the cached data as a HIT on 304 and restart its TTL', async () => {
+      mockHttp.get.mockResolvedValue({ data: '', status: 304, headers: {} });
+
+      const result = await decorator.get<typeof cachedData>('/mf1/receipts/123');
+
+      expect(result).toEqual({ data: cachedData, status: 200, headers: { 'x-cache': 'HIT' } });
+      expect(mockCache.setItem).toHaveBeenCalledWith('cache:/mf1/receipts/123', {
+        ...expiredItem,
+        timestamp: expect.any(Number),
+      });
+      expect(mockCache.setItem.mock.calls[0]![1].timestamp).toBeGreaterThan(expiredItem.timestamp);
+      expect(mockCache.set).not.toHaveBeenCalled();
+    });
+
+    it('should treat a rejected 304 as not modified', async () => {
+      mockHttp.get.mockRejectedValue(Object.assign(new Error('Not Modified'), { statusCode: 304 }));
+
+      const result = await decorator.get<typeof cachedData>('/mf1/receipts/123');
+
+      expect(result.data).toEqual(cachedData);
+      expect(result.headers['x-cache']).toBe('HIT');
+    });
+
+    it('should cache the validators of the response', async () => {
+      mockCache.get.mockResolvedValue(null);
+      mockHttp.get.mockResolvedValue({
+        data: cachedData,
+        status: 200,
+        headers: { ETag: '"v2"', 'last-modified': 'Sun, 11 Jan 2026 10:00:00 GMT' },
+      });
+
+      await decorator.get('/mf1/receipts/123');
+
+      expect(mockHttp.get).toHaveBeenCalledWith('/mf1/receipts/123', undefined);
+      expect(mockCache.setItem).toHaveBeenCalledWith('cache:/mf1/receipts/123', {
+        data: cachedData,
+        timestamp: expect.any(Number),
+        etag: '"v2"',
+        lastModified: 'Sun, 11 Jan 2026 10:00:00 GMT',
+      });
+    });
+
+    it('should not emit a refresh when the revalidated entry is not modified', async () => {
+      mockKeyGenerator.isStaleWhileRevalidate.mockReturnValue(true);
+      mockHttp.get.mockResolvedValue({ data: '', status: 304, headers: {} });
+      const next = jest.fn();
+      decorator.refreshes$.subscribe(next);
+
+      const result = await decorator.get('/mf1/receipts/123');
+      await new Promise((resolve) => setTimeout(resolve, 0));
+
+      expect(result.headers['x-cache']).toBe('STALE');
+      expect(mockCache.setItem).toHaveBeenCalledTimes(1);
+      expect(next).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('GET requests - Normalised lists', () => {
+    const first = { uuid: 'r-1', total_amount: '1.00' };
+    const second = { uuid: 'r-2', total_amount: '2.00' };
+    const page = { members: [first, second], total: 2, page: 1 };
+    const entries = new Map<string, CachedItem<unknown>>();
+
+    beforeEach(() => {
+      entries.clear();
+      mockKeyGenerator.generate.mockImplementation((url) =>
+        url === '/mf1/receipts' ? 'receipt:list:' : url.replace('/mf1/receipts/', 'receipt:')
+      );
+      mockKeyGenerator.getListItem.mockImplementation((url, item) => {
+        const key = `receipt:${(item as { uuid: string }).uuid}`;
+        return url === '/mf1/receipts' ? { key, tags: [key] } : undefined;
+      });
+      mockCache.get.mockImplementation(async (key) => (entries.get(key) as never) ?? null);
+      mockCache.setBatch.mockImplementation(async (items) => {
+        items.forEach(([key, item]) => entries.set(key, item));
+      });
+    });
+
+    it('should cache the list as item keys and each item on its own', async () => {
+      mockHttp.get.mockResolvedValue({ data: page, status: 200, headers: {} });
+
+      await decorator.get('/mf1/receipts');
+
+      expect(entries.get('receipt:r-1')).toMatchObject({ data: first, tags: ['receipt:r-1'] });
+      expect(entries.get('receipt:r-2')).toMatchObject({ data: second, tags: ['receipt:r-2'] });
+      expect(entries.get('receipt:list:')?.data).toMatchObject({
+        keys: ['receipt:r-1', 'receipt:r-2'],
+        page: { total: 2, page: 1 },
+      });
+      expect(mockCache.set).not.toHaveBeenCalled();
+    });
+
+    it('should serve the list and its items from the cache', async () => {
+      mockHttp.get.mockResolvedValue({ data: page, status: 200, headers: {} });
+      await decorator.get('/mf1/receipts');
+
+      const list = await decorator.get('/mf1/receipts');
+      const item = await decorator.get('/mf1/receipts/r-2');
+
+      expect(list).toMatchObject({ data: page, headers: { 'x-cache': 'HIT' } });
+      expect(item).toMatchObject({ data: second, headers: { 'x-cache': 'HIT' } });
+      expect(mockHttp.get).toHaveBeenCalledTimes(1);
+    });
+
+    it('should show a refreshed item in the cached lists', async () => {
+      mockHttp.get.mockResolvedValue({ data: page, status: 200, headers: {} });
+      await decorator.get('/mf1/receipts');
+      entries.set('receipt:r-1', {
+        data: { ...first, total_amount: '0.50' },
+        timestamp: Date.now(),
+      });
+
+      const list = await decorator.get<typeof page>('/mf1/receipts');
+
+      expect(list.data.members[0]).toEqual({ ...first, total_amount: '0.50' });
+    });
+
+    it('should fetch the list again when one of its items was invalidated', async () => {
+      mockHttp.get.mockResolvedValue({ data: page, status: 200, headers: {} });
+      await decorator.get('/mf1/receipts');
+      entries.delete('receipt:r-2');
+
+      const list = await decorator.get('/mf1/receipts');
+
+      expect(list.headers['x-cache']).toBe('MISS');
+      expect(mockHttp.get).toHaveBeenCalledTimes(2);
+      expect(entries.has('receipt:r-2')).toBe(true);
+    });
+
+    it('should keep the fields of the cached item missing from the list', async () => {
+      entries.set('receipt:r-1', { data: { ...first, details: 'cached' }, timestamp: 0 });
+      mockHttp.get.mockResolvedValue({ data: page, status: 200, headers: {} });
+
+      await decorator.get('/mf1/receipts');
+
+      expect(entries.get('receipt:r-1')?.data).toEqual({ ...first, details: 'cached' });
+    });
+  });
+
+  describe('GET requests - Cache policy', () => {
+    const cachedData = { id: '123', name: 'Cached' };
+    const freshData = { id: '123', name: 'Fresh' };
+
+    beforeEach(() => {
+      mockHttp.get.mockResolvedValue({ data: freshData, status: 200, headers: {} });
+    });
+
+    it('should skip a valid cache entry and cache the response with network-only', async () => {
+      mockCache.get.mockResolvedValue({ data: cachedData, timestamp: Date.now() - 1000 });
+
+      const result = await decorator.get('/mf1/receipts/123', {
+        cache: { mode: 'network-only' },
+      });
+
+      expect(result.data).toEqual(freshData);
+      expect(result.headers['x-cache']).toBe('MISS');
+      expect(mockCache.get).not.toHaveBeenCalled();
+      expect(mockCache.set).toHaveBeenCalledWith('cache:/mf1/receipts/123', freshData);
+    });
+
+    it('should not fall back to the cache when a network-only request fails', async () => {
+      mockCache.get.mockResolvedValue({ data: cachedData, timestamp: Date.now() - 1000 });
+      mockHttp.get.mockRejectedValue(new Error('Network error'));
+
+      await expect(
+        decorator.get('/mf1/receipts/123', { cache: { mode: 'network-only' } })
+      ).rejects.toThrow('Network error');
+    });
+
+    it('should return cached data of any age with cache-only', async () => {
+      mockCache.get.mockResolvedValue({ data: cachedData, timestamp: Date.now() - 60 * 60 * 1000 });
+
+      const result = await decorator.get('/mf1/receipts/123', { cache: { mode: 'cache-only' } });
+
+      expect(result.data).toEqual(cachedData);
+      expect(result.headers['x-cache']).toBe('STALE');
+      expect(mockHttp.get).not.toHaveBeenCalled();
+    });
+
+    it('should fail without calling the network when cache-only finds nothing', async () => {
+      await expect(
+        decorator.get('/mf1/receipts/123', { cache: { mode: 'cache-only' } })
+      ).rejects.toThrow('No cached data available for /mf1/receipts/123');
+
+      mockCache.get.mockResolvedValue({ data: cachedData, timestamp: Date.now() - 10 * 60 * 1000 });
+      await expect(
+        decorator.get('/mf1/receipts/123', { cache: { mode: 'cache-only', maxAge: 60 * 1000 } })
+      ).rejects.toThrow('No cached data available');
+
+      mockNetwork.setOnline(false);
+      await expect(
+        decorator.get('/mf1/receipts/123', { cache: { mode: 'cache-only', maxAge: 60 * 1000 } })
+      ).rejects.toThrow('No cached data available');
+
+      mockKeyGenerator.shouldCache.mockReturnValue(false);
+      await expect(
+        decorator.get('/mf1/pems/123/receipts', { cache: { mode: 'cache-only' } })
+      ).rejects.toThrow('No cached data available');
+
+      expect(mockHttp.get).not.toHaveBeenCalled();
+    });
+
+    it('should use maxAge in place of the TTL of the resource', async () => {
+      // 10 minutes old: expired for the 5 minutes TTL, valid within an hour
+      mockCache.get.mockResolvedValue({ data: cachedData, timestamp: Date.now() - 10 * 60 * 1000 });
+
+      const accepted = await decorator.get('/mf1/receipts/123', {
+        cache: { maxAge: 60 * 60 * 1000 },
+      });
+      expect(accepted.headers['x-cache']).toBe('HIT');
+      expect(mockHttp.get).not.toHaveBeenCalled();
+
+      mockCache.get.mockResolvedValue({ data: cachedData, timestamp: Date.now() - 2 * 60 * 1000 });
+      mockKeyGenerator.isStaleWhileRevalidate.mockReturnValue(true);
+
+      const refetched = await decorator.get('/mf1/receipts/123', { cache: { maxAge: 60 * 1000 } });
+      expect(refetched.data).toEqual(freshData);
+      expect(refetched.headers['x-cache']).toBe('MISS');
+    });
+
+    it('should not return data older than maxAge while offline', async () => {
+      mockCache.get.mockResolvedValue({ data: cachedData, timestamp: Date.now() - 10 * 60 * 1000 });
+      mockHttp.get.mockRejectedValue(new Error('Network error'));
+      mockNetwork.setOnline(false);
+
+      await expect(
+        decorator.get('/mf1/receipts/123', { cache: { maxAge: 60 * 1000 } })
+      ).rejects.toThrow('Network error');
+    });
+
+    it('should not fall back to data older than maxAge when the request fails', async () => {
+      mockCache.get.mockResolvedValue({ data: cachedData, timestamp: Date.now() - 10 * 60 * 1000 });
+      mockHttp.get.mockRejectedValue(new Error('Network error'));
+
+      await expect(
+        decorator.get('/mf1/receipts/123', { cache: { maxAge: 60 * 1000 } })
+      ).rejects.toThrow('Network error');
+    });
+  });
+
   describe('POST requests - Cache invalidation', () => {
     it('should call underlying http.post', async () => {
       const requestData = { name: 'New Item' };
@@ -303,17 +644,14 @@ describe('CachingHttpDecorator', () => {
       expect(result.data).toEqual(responseData);
     });
 
-    it('should invalidate cache patterns after POST', async () => {
-      mockKeyGenerator.getInvalidationPatterns.mockReturnValue(['receipt:list:*']);
+    it('should invalidate cache tags after POST', async () => {
+      mockKeyGenerator.getInvalidationTags.mockReturnValue(['receipt:list']);
       mockHttp.post.mockResolvedValue({ data: {}, status: 201, headers: {} });
 
       await decorator.post('/mf1/receipts', {});
 
-      expect(mockKeyGenerator.getInvalidationPatterns).toHaveBeenCalledWith(
-        '/mf1/receipts',
-        'POST'
-      );
-      expect(mockCache.invalidate).toHaveBeenCalledWith('receipt:list:*');
+      expect(mockKeyGenerator.getInvalidationTags).toHaveBeenCalledWith('/mf1/receipts', 'POST');
+      expect(mockCache.invalidateTags).toHaveBeenCalledWith(['receipt:list']);
     });
   });
 
@@ -334,18 +672,14 @@ describe('CachingHttpDecorator', () => {
       expect(result.data).toEqual(responseData);
     });
 
-    it('should invalidate cache patterns after PUT', async () => {
-      mockKeyGenerator.getInvalidationPatterns.mockReturnValue(['receipt:123*', 'receipt:list:*']);
+    it('should invalidate cache tags after PUT', async () => {
+      mockKeyGenerator.getInvalidationTags.mockReturnValue(['receipt:list', 'receipt:123']);
       mockHttp.put.mockResolvedValue({ data: {}, status: 200, headers: {} });
 
       await decorator.put('/mf1/receipts/123', {});
 
-      expect(mockKeyGenerator.getInvalidationPatterns).toHaveBeenCalledWith(
-        '/mf1/receipts/123',
-        'PUT'
-      );
-      expect(mockCache.invalidate).toHaveBeenCalledWith('receipt:123*');
-      expect(mockCache.invalidate).toHaveBeenCalledWith('receipt:list:*');
+      expect(mockKeyGenerator.getInvalidationTags).toHaveBeenCalledWith('/mf1/receipts/123', 'PUT');
+      expect(mockCache.invalidateTags).toHaveBeenCalledWith(['receipt:list', 'receipt:123']);
     });
   });
 
@@ -364,17 +698,17 @@ describe('CachingHttpDecorator', () => {
       expect(mockHttp.patch).toHaveBeenCalledWith('/mf1/receipts/123', requestData, undefined);
     });
 
-    it('should invalidate cache patterns after PATCH', async () => {
-      mockKeyGenerator.getInvalidationPatterns.mockReturnValue(['receipt:123*']);
+    it('should invalidate cache tags after PATCH', async () => {
+      mockKeyGenerator.getInvalidationTags.mockReturnValue(['receipt:123']);
       mockHttp.patch.mockResolvedValue({ data: {}, status: 200, headers: {} });
 
       await decorator.patch('/mf1/receipts/123', {});
 
-      expect(mockKeyGenerator.getInvalidationPatterns).toHaveBeenCalledWith(
+      expect(mockKeyGenerator.getInvalidationTags).toHaveBeenCalledWith(
         '/mf1/receipts/123',
         'PATCH'
       );
-      expect(mockCache.invalidate).toHaveBeenCalledWith('receipt:123*');
+      expect(mockCache.invalidateTags).toHaveBeenCalledWith(['receipt:123']);
     });
   });
 
@@ -391,17 +725,25 @@ describe('CachingHttpDecorator', () => {
       expect(mockHttp.delete).toHaveBeenCalledWith('/mf1/receipts/123', undefined);
     });
 
-    it('should invalidate cache patterns after DELETE', async () => {
-      mockKeyGenerator.getInvalidationPatterns.mockReturnValue(['receipt:123*', 'receipt:list:*']);
+    it('should invalidate cache tags after DELETE', async () => {
+      mockKeyGenerator.getInvalidationTags.mockReturnValue(['receipt:list', 'receipt:123']);
       mockHttp.delete.mockResolvedValue({ data: null, status: 204, headers: {} });
 
       await decorator.delete('/mf1/receipts/123');
 
-      expect(mockKeyGenerator.getInvalidationPatterns).toHaveBeenCalledWith(
+      expect(mockKeyGenerator.getInvalidationTags).toHaveBeenCalledWith(
         '/mf1/receipts/123',
         'DELETE'
       );
-      expect(mockCache.invalidate).toHaveBeenCalledTimes(2);
+      expect(mockCache.invalidateTags).toHaveBeenCalledTimes(1);
+    });
+
+    it('should not invalidate anything when there are no tags', async () => {
+      mockHttp.delete.mockResolvedValue({ data: null, status: 204, headers: {} });
+
+      await decorator.delete('/unknown/123');
+
+      expect(mockCache.invalidateTags).not.toHaveBeenCalled();
     });
   });
 
@@ -507,28 +849,13 @@ describe('CachingHttpDecorator', () => {
 
   describe('Cache invalidation error handling', () => {
     it('should not throw when invalidation fails', async () => {
-      mockKeyGenerator.getInvalidationPatterns.mockReturnValue(['receipt:*']);
-      mockCache.invalidate.mockRejectedValue(new Error('Invalidation error'));
+      mockKeyGenerator.getInvalidationTags.mockReturnValue(['receipt']);
+      mockCache.invalidateTags.mockRejectedValue(new Error('Invalidation error'));
       mockHttp.post.mockResolvedValue({ data: {}, status: 201, headers: {} });
 
       // Should not throw
       await expect(decorator.post('/mf1/receipts', {})).resolves.toBeDefined();
     });
-
-    it('should continue invalidating other patterns on individual failure', async () => {
-      mockKeyGenerator.getInvalidationPatterns.mockReturnValue(['receipt:123*', 'receipt:list:*']);
-
-      mockCache.invalidate
-        .mockRejectedValueOnce(new Error('First pattern failed'))
-        .mockResolvedValueOnce(undefined);
-
-      mockHttp.put.mockResolvedValue({ data: {}, status: 200, headers: {} });
-
-      await decorator.put('/mf1/receipts/123', {});
-
-      // Both patterns should be attempted
-      expect(mockCache.invalidate).toHaveBeenCalledTimes(2);
-    });
   });
 
   describe('destroy', () => {
@@ -570,7 +897,7 @@ describe('CachingHttpDecorator integration with CacheKeyGenerator', () => {
     // Test that list endpoints bypass cache
     mockHttp.get.mockResolvedValue({ data: [], status: 200, headers: {} });
 
-    await decorator.get('/mf1/receipts');
+    await decorator.get('/mf2/merchants');
 
     expect(mockCache.get).not.toHaveBeenCalled(); // Lists don't cache
 
@@ -581,7 +908,7 @@ describe('CachingHttpDecorator integration with CacheKeyGenerator', () => {
     await decorator.get('/mf1/receipts/123');
 
     expect(mockCache.get).toHaveBeenCalled(); // Items do cache
-    expect(mockCache.set).toHaveBeenCalled();
+    expect(mockCache.setItem).toHaveBeenCalled();
 
     decorator.destroy();
   });
@@ -601,27 +928,37 @@ describe('CachingHttpDecorator integration with CacheKeyGenerator', () => {
 
     // Test receipt endpoint
     await decorator.get('/mf1/receipts/abc-123');
-    expect(mockCache.set).toHaveBeenLastCalledWith('receipt:abc-123', {});
+    expect(mockCache.setItem).toHaveBeenLastCalledWith('receipt:abc-123', {
+      data: {},
+      timestamp: expect.any(Number),
+      tags: ['receipt', 'receipt:abc-123'],
+    });
 
     // Test merchant endpoint
     await decorator.get('/mf2/merchants/merchant-uuid');
-    expect(mockCache.set).toHaveBeenLastCalledWith('merchant:merchant-uuid', {});
+    expect(mockCache.setItem).toHaveBeenLastCalledWith(
+      'merchant:merchant-uuid',
+      expect.objectContaining({ tags: ['merchant', 'merchant:merchant-uuid'] })
+    );
 
     // Test cashier me endpoint
     await decorator.get('/mf1/cashiers/me');
-    expect(mockCache.set).toHaveBeenLastCalledWith('cashier:me', {});
+    expect(mockCache.setItem).toHaveBeenLastCalledWith(
+      'cashier:me',
+      expect.objectContaining({ tags: ['cashier', 'cashier:me'] })
+    );
 
     decorator.destroy();
   });
 
-  it('should invalidate correct patterns on mutations', async () => {
+  it('should invalidate correct tags on mutations', async () => {
     const { CacheKeyGenerator } = await import('../cache-key-generator');
 
     const mockHttp = createMockHttpPort();
     const mockCache = createMockCachePort();
     const keyGenerator = new CacheKeyGenerator();
 
-    mockCache.invalidate.mockResolvedValue(undefined);
+    mockCache.invalidateTags.mockResolvedValue(undefined);
     mockHttp.post.mockResolvedValue({ data: {}, status: 201, headers: {} });
     mockHttp.put.mockResolvedValue({ data: {}, status: 200, headers: {} });
     mockHttp.delete.mockResolvedValue({ data: null, status: 204, headers: {} });
@@ -630,22 +967,19 @@ describe('CachingHttpDecorator integration with CacheKeyGenerator', () => {
 
     // POST should invalidate list
     await decorator.post('/mf1/receipts', {});
-    expect(mockCache.invalidate).toHaveBeenCalledWith('receipt:list:*');
-
-    mockCache.invalidate.mockClear();
+    expect(mockCache.invalidateTags).toHaveBeenLastCalledWith(['receipt:list']);
 
     // PUT should invalidate item and list
     await decorator.put('/mf1/receipts/abc-123', {});
-    expect(mockCache.invalidate).toHaveBeenCalledWith('receipt:abc-123*');
-    expect(mockCache.invalidate).toHaveBeenCalledWith('receipt:list:*');
-
-    mockCache.invalidate.mockClear();
+    expect(mockCache.invalidateTags).toHaveBeenLastCalledWith(['receipt:list', 'receipt:abc-123']);
 
     // DELETE cashier should also invalidate cashier:me
     await decorator.delete('/mf1/cashiers/cashier-uuid');
-    expect(mockCache.invalidate).toHaveBeenCalledWith('cashier:cashier-uuid*');
-    expect(mockCache.invalidate).toHaveBeenCalledWith('cashier:list:*');
-    expect(mockCache.invalidate).toHaveBeenCalledWith('cashier:me');
+    expect(mockCache.invalidateTags).toHaveBeenLastCalledWith([
+      'cashier:list',
+      'cashier:cashier-uuid',
+      'cashier:me',
+    ]);
 
     decorator.destroy();
   });
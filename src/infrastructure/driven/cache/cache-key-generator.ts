@@ -1,4 +1,5 @@
 import {
+  CacheListItem,
   CacheResource,
   CacheResourceConfig,
   ICacheKeyGenerator,
@@ -15,6 +16,17 @@ interface UrlPattern {
   isList?: boolean;
 }
 
+interface ParsedUrl {
+  resource: CacheResource;
+  ids: string[];
+  /** IDs of the item, without the parent's */
+  itemIds: string[];
+  action?: string;
+  isList?: boolean;
+  parent?: string;
+  parentId?: string;
+}
+
 const URL_PATTERNS: UrlPattern[] = [
   // Receipt (mf1) - specific patterns first
   {
@@ -86,6 +98,25 @@ const URL_PATTERNS: UrlPattern[] = [
   },
   { pattern: /^\/mf2\/pems\/([^/]+)$/, resource: 'pem' },
 
+  // Emergency reports nested under point of sale (mf2)
+  {
+    pattern: /^\/mf2\/point-of-sales\/([^/]+)\/emergency-reports\/([^/]+)$/,
+    resource: 'emergency-report',
+    parent: 'point-of-sale',
+  },
+  {
+    pattern: /^\/mf2\/point-of-sales\/([^/]+)\/emergency-reports$/,
+    resource: 'emergency-report',
+    parent: 'point-of-sale',
+    isList: true,
+  },
+  {
+    pattern: /^\/mf2\/point-of-sales\/([^/]+)\/upload-emergency-report$/,
+    resource: 'emergency-report',
+    action: 'upload',
+    parent: 'point-of-sale',
+  },
+
   // Others
   { pattern: /^\/mf1\/notifications/, resource: 'notification', isList: true },
   {
@@ -94,21 +125,42 @@ const URL_PATTERNS: UrlPattern[] = [
   },
 ];
 
+/** Resources nested under each parent, whose entries are dropped with the parent */
+const CHILD_RESOURCES = URL_PATTERNS.reduce((children, { resource, parent }) => {
+  if (parent) children.set(parent, new Set([...(children.get(parent) ?? []), resource]));
+  return children;
+}, new Map<string, Set<CacheResource>>());
+
+const MUTATION_METHODS = ['POST', 'PUT', 'PATCH', 'DELETE'];
+
+/**
+ * ID field of the list items of the resources whose items are cached under the same key as the
+ * item endpoint (`<resource>:<id>`)
+ */
+const LIST_ITEM_ID_FIELDS: Partial<Record<CacheResource, string>> = {
+  receipt: 'uuid',
+  merchant: 'uuid',
+  cashier: 'uuid',
+  'cash-register': 'uuid',
+  'point-of-sale': 'serial_number',
+};
+
 const DEFAULT_TTL_CONFIG: Record<CacheResource, CacheResourceConfig> = {
-  // Data that rarely changes - 30 min TTL for items only
+  // Data that rarely changes - 30 min TTL
   merchant: { ttlMs: 30 * 60 * 1000, cacheList: false, cacheItem: true },
-  'point-of-sale': { ttlMs: 30 * 60 * 1000, cacheList: false, cacheItem: true },
+  'point-of-sale': { ttlMs: 30 * 60 * 1000, cacheList: true, cacheItem: true },
   'cash-register': { ttlMs: 30 * 60 * 1000, cacheList: false, cacheItem: true },
   pem: { ttlMs: 30 * 60 * 1000, cacheList: false, cacheItem: false },
 
-  // Data that changes moderately - 10 min TTL for items only
-  cashier: { ttlMs: 10 * 60 * 1000, cacheList: false, cacheItem: true },
+  // Data that changes moderately - 10 min TTL
+  cashier: { ttlMs: 10 * 60 * 1000, cacheList: true, cacheItem: true },
   supplier: { ttlMs: 10 * 60 * 1000, cacheList: false, cacheItem: true },
 
-  // Data that can change - 5 min TTL for items only
-  receipt: { ttlMs: 5 * 60 * 1000, cacheList: false, cacheItem: true },
+  // Data that can change - 5 min TTL
+  receipt: { ttlMs: 5 * 60 * 1000, cacheList: true, cacheItem: true },
   'daily-report': { ttlMs: 5 * 60 * 1000, cacheList: false, cacheItem: true },
   journal: { ttlMs: 5 * 60 * 1000, cacheList: false, cacheItem: true },
+  'emergency-report': { ttlMs: 5 * 60 * 1000, cacheList: false, cacheItem: true },
 
   // Real-time data - 1 min TTL
   notification: { ttlMs: 1 * 60 * 1000, cacheList: false, cacheItem: false },
@@ -120,8 +172,12 @@ const DEFAULT_TTL = 5 * 60 * 1000; // 5 minutes
 export class CacheKeyGenerator implements ICacheKeyGenerator {
   private config: Record<CacheResource, CacheResourceConfig>;
 
-  constructor(customConfig?: Partial<Record<CacheResource, CacheResourceConfig>>) {
-    this.config = { ...DEFAULT_TTL_CONFIG, ...customConfig };
+  constructor(customConfig?: Partial<Record<CacheResource, Partial<CacheResourceConfig>>>) {
+    this.config = { ...DEFAULT_TTL_CONFIG };
+    for (const [resource, config] of Object.entries(customConfig ?? {})) {
+      const key = resource as CacheResource;
+      this.config[key] = { ...DEFAULT_TTL_CONFIG[key], ...config };
+    }
     log.info('CacheKeyGenerator initialized with config:', {
       resources: Object.keys(this.config),
     });
@@ -210,62 +266,102 @@ export class CacheKeyGenerator implements ICacheKeyGenerator {
     return config.cacheItem;
   }
 
-  getInvalidationPatterns(url: string, method: string): string[] {
+  isStaleWhileRevalidate(url: string): boolean {
+    const resource = this.parseResource(url);
+    return resource ? this.config[resource].staleWhileRevalidate === true : false;
+  }
+
+  getListItem(url: string, item: unknown): CacheListItem | undefined {
     const parsed = this.parseUrl(url);
-    if (!parsed) {
-      log.debug('No patterns to invalidate for URL:', { url, method });
-      return [];
-    }
+    if (!parsed?.isList || !this.config[parsed.resource].cacheItem) return undefined;
 
-    const { resource, ids, parent } = parsed;
-    const patterns: string[] = [];
+    const idField = LIST_ITEM_ID_FIELDS[parsed.resource];
+    const id = idField ? (item as Record<string, unknown> | null)?.[idField] : undefined;
+    if (typeof id !== 'string' && typeof id !== 'number') return undefined;
 
-    // Always invalidate list on mutations
-    if (method === 'POST' || method === 'PUT' || method === 'PATCH' || method === 'DELETE') {
-      if (parent && ids.length > 0) {
-        patterns.push(`${resource}:list:${parent}=${ids[0]}*`);
-      }
-      patterns.push(`${resource}:list:*`);
+    return {
+      key: `${parsed.resource}:${id}`,
+      tags: this.buildTags({ ...parsed, isList: false, itemIds: [String(id)] }),
+    };
+  }
+
+  /**
+   * Tags of the entry cached for `url`:
+   * - `<resource>`: every entry of the resource
+   * - `<resource>:list`: the lists of the resource
+   * - `<resource>:<id>`: an item with its details, or `<resource>:<action>` (e.g. `cashier:me`)
+   * - `<parent>:<id>/<resource>`: the entries nested under a parent (e.g. the receipts of a PEM)
+   */
+  getTags(url: string): string[] {
+    const parsed = this.parseUrl(url);
+    return parsed ? this.buildTags(parsed) : [];
+  }
+
+  getInvalidationTags(url: string, method: string): string[] {
+    const parsed = this.parseUrl(url);
+    if (!parsed || !MUTATION_METHODS.includes(method)) {
+      log.debug('No tags to invalidate for URL:', { url, method });
+      return [];
     }
 
-    // Invalidate specific item on PUT/PATCH/DELETE
-    if (method === 'PUT' || method === 'PATCH' || method === 'DELETE') {
-      if (ids.length > 0) {
-        patterns.push(`${resource}:${ids.join(':')}*`);
+    const { resource, itemIds } = parsed;
+    // Mutations can add, change or remove items of any list
+    const tags = [`${resource}:list`];
+
+    if (method !== 'POST' && itemIds.length > 0) {
+      const itemTag = `${resource}:${itemIds.join(':')}`;
+      tags.push(itemTag);
+      if (method === 'DELETE') {
+        CHILD_RESOURCES.get(resource)?.forEach((child) => tags.push(`${itemTag}/${child}`));
       }
     }
 
     // Special cases
     if (resource === 'cashier' && (method === 'PUT' || method === 'DELETE')) {
-      patterns.push('cashier:me');
+      tags.push('cashier:me');
+    }
+
+    log.debug('Invalidation tags:', { url, method, tags });
+    return tags;
+  }
+
+  private buildTags(parsed: ParsedUrl): string[] {
+    const { resource, itemIds, action, isList, parent, parentId } = parsed;
+    const tags: string[] = [resource];
+
+    if (isList) {
+      tags.push(`${resource}:list`);
+    } else if (itemIds.length > 0) {
+      tags.push(`${resource}:${itemIds.join(':')}`);
+    } else if (action) {
+      tags.push(`${resource}:${action}`);
     }
 
-    log.debug('Invalidation patterns:', { url, method, patterns });
-    return patterns;
+    if (parent && parentId) {
+      tags.push(`${parent}:${parentId}/${resource}`);
+    }
+    return tags;
   }
 
-  private parseUrl(url: string): {
-    resource: CacheResource;
-    ids: string[];
-    action?: string;
-    isList?: boolean;
-    parent?: string;
-  } | null {
+  private parseUrl(url: string): ParsedUrl | null {
     // Remove query string for pattern matching
     const urlPath = url.split('?')[0];
 
     for (const pattern of URL_PATTERNS) {
       const match = urlPath?.match(pattern.pattern);
       if (match) {
-        // Extract IDs from capture groups
+        // Extract IDs from capture groups, the first one is the parent's for nested resources
         const ids = match.slice(1).filter(Boolean);
+        const parentId = pattern.parent ? ids[0] : undefined;
 
         return {
           resource: pattern.resource,
           ids,
+          itemIds: pattern.parent ? ids.slice(1) : ids,
           action: pattern.action,
           isList: pattern.isList,
           parent: pattern.parent,
+          parentId,
         };
       }
     }
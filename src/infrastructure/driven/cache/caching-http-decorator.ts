@@ -1,12 +1,26 @@
-import { Subscription } from 'rxjs';
+import { Observable, Subject, Subscription } from 'rxjs';
 
-import { ICachePort, INetworkPort } from '@/application/ports/driven';
+import { CacheRefresh, CachedItem, ICachePort, INetworkPort } from '@/application/ports/driven';
 import { ICacheKeyGenerator } from '@/application/ports/driven/cache-key.port';
 import { HttpRequestConfig, HttpResponse, IHttpPort } from '@/application/ports/driven/http.port';
+import { classifyError } from '@/infrastructure/driven/http/error-classifier';
 import { createPrefixedLogger } from '@/shared/utils';
 
+import { denormalizeList, isNormalizedList, normalizeList } from './list-normalizer';
+
 const log = createPrefixedLogger('CACHE');
 
+const NOT_MODIFIED = 304;
+
+function noCachedData(url: string): Error {
+  return new Error(`No cached data available for ${url}`);
+}
+
+function headerOf(headers: Record<string, string>, name: string): string | undefined {
+  const match = Object.keys(headers).find((key) => key.toLowerCase() === name);
+  return match ? headers[match] : undefined;
+}
+
 export interface CachingHttpDecoratorConfig {
   enabled?: boolean;
 }
@@ -15,6 +29,8 @@ export class CachingHttpDecorator implements IHttpPort {
   private currentOnlineState = true;
   private networkSubscription?: Subscription;
   private authToken: string | null = null;
+  private readonly refreshSubject = new Subject<CacheRefresh>();
+  private readonly revalidating = new Set<string>();
 
   constructor(
     private readonly http: IHttpPort,
@@ -30,6 +46,14 @@ export class CachingHttpDecorator implements IHttpPort {
     this.setupNetworkMonitoring();
   }
 
+  /**
+   * Values fetched in the background for the expired entries returned by resources in
+   * stale-while-revalidate mode
+   */
+  get refreshes$(): Observable<CacheRefresh> {
+    return this.refreshSubject.asObservable();
+  }
+
   private setupNetworkMonitoring(): void {
     if (this.networkMonitor) {
       this.networkSubscription = this.networkMonitor.online$.subscribe((online) => {
@@ -55,10 +79,13 @@ export class CachingHttpDecorator implements IHttpPort {
 
   async get<T>(url: string, config?: HttpRequestConfig): Promise<HttpResponse<T>> {
     const startTime = Date.now();
+    const mode = config?.cache?.mode ?? 'cache-first';
+    const maxAge = config?.cache?.maxAge;
 
     // Check if caching is disabled globally
     if (this.config.enabled === false) {
       log.debug('GET (cache disabled globally):', { url });
+      if (mode === 'cache-only') throw noCachedData(url);
       return this.http.get<T>(url, config);
     }
 
@@ -66,11 +93,12 @@ export class CachingHttpDecorator implements IHttpPort {
     const shouldCache = this.keyGenerator.shouldCache(url);
     if (!shouldCache) {
       log.debug('GET (not cacheable - likely a list endpoint):', { url });
+      if (mode === 'cache-only') throw noCachedData(url);
       return this.http.get<T>(url, config);
     }
 
     const cacheKey = this.keyGenerator.generate(url, config?.params);
-    const ttl = this.keyGenerator.getTTL(url);
+    const ttl = maxAge ?? this.keyGenerator.getTTL(url);
     const resource = this.keyGenerator.parseResource(url);
 
     log.info('GET request starting:', {
@@ -80,12 +108,13 @@ export class CachingHttpDecorator implements IHttpPort {
       ttlMs: ttl,
       ttlMin: Math.round(ttl / 60000),
       params: config?.params,
+      mode,
     });
 
-    // Check cache
-    let cached: { data: T; timestamp: number } | null = null;
+    // Check cache, unless the caller wants a fresh value
+    let cached: CachedItem<T> | null = null;
     try {
-      cached = await this.cache.get<T>(cacheKey);
+      cached = mode === 'network-only' ? null : await this.read<T>(cacheKey);
       if (cached) {
         log.debug('Cache entry found:', {
           cacheKey,
@@ -131,8 +160,18 @@ export class CachingHttpDecorator implements IHttpPort {
         };
       }
 
-      // If offline and cache is stale, return stale data
-      if (!this.isOnline()) {
+      // Without a maxAge the caller takes the cached data of any age
+      if (mode === 'cache-only' && maxAge === undefined) {
+        log.info('CACHE STALE (cache only):', { url, cacheKey, ageMs: age });
+        return {
+          data: cached.data,
+          status: 200,
+          headers: { 'x-cache': 'STALE' },
+        };
+      }
+
+      // If offline and cache is stale, return stale data, unless a maxAge bounds its age
+      if (mode !== 'cache-only' && maxAge === undefined && !this.isOnline()) {
         const duration = Date.now() - startTime;
         log.info('CACHE STALE (offline):', {
           url,
@@ -147,17 +186,51 @@ export class CachingHttpDecorator implements IHttpPort {
         };
       }
 
+      // A maxAge is a bound on the data returned, a stale value would break it
+      if (maxAge === undefined && this.keyGenerator.isStaleWhileRevalidate(url)) {
+        this.revalidate(url, config, cacheKey, cached);
+        const duration = Date.now() - startTime;
+        log.info('CACHE STALE (revalidating):', {
+          url,
+          cacheKey,
+          ageMs: age,
+          durationMs: duration,
+        });
+        return {
+          data: cached.data,
+          status: 200,
+          headers: { 'x-cache': 'STALE' },
+        };
+      }
+
       log.debug('Cache expired, fetching fresh data:', { cacheKey, ageMs: age, ttlMs: ttl });
     }
 
+    if (mode === 'cache-only') {
+      log.info('CACHE MISS (cache only):', { url, cacheKey });
+      throw noCachedData(url);
+    }
+
     // Fetch fresh data
     try {
       log.debug('Fetching from network:', { url });
-      const response = await this.http.get<T>(url, config);
+      const response = await this.fetch<T>(url, config, cached);
+
+      if (!response) {
+        // Not modified: the cached entry is as good as a fresh one
+        await this.touch(cacheKey, url, cached!);
+        const duration = Date.now() - startTime;
+        log.info('CACHE HIT (not modified):', { url, cacheKey, durationMs: duration });
+        return {
+          data: cached!.data,
+          status: 200,
+          headers: { 'x-cache': 'HIT' },
+        };
+      }
 
       // Cache the response
       try {
-        await this.cache.set(cacheKey, response.data);
+        await this.store(cacheKey, url, response);
         log.debug('Response cached successfully:', { cacheKey });
       } catch (error) {
         log.error('Failed to cache response:', {
@@ -179,8 +252,8 @@ export class CachingHttpDecorator implements IHttpPort {
         headers: { ...response.headers, 'x-cache': 'MISS' },
       };
     } catch (error) {
-      // On error, return stale cache if available
-      if (cached) {
+      // On error, return stale cache if available and the caller did not bound its age
+      if (cached && maxAge === undefined) {
         const duration = Date.now() - startTime;
         log.warn('CACHE STALE (network error):', {
           url,
@@ -249,31 +322,196 @@ export class CachingHttpDecorator implements IHttpPort {
     return this.authToken;
   }
 
-  private async invalidateRelated(url: string, method: string): Promise<void> {
-    const patterns = this.keyGenerator.getInvalidationPatterns(url, method);
+  /**
+   * Fetches the URL, sending the validators of the cached entry if any
+   *
+   * @returns null when the server answers that the cached entry is not modified
+   */
+  private async fetch<T>(
+    url: string,
+    config: HttpRequestConfig | undefined,
+    cached: CachedItem<T> | null
+  ): Promise<HttpResponse<T> | null> {
+    const validators: Record<string, string> = {};
+    if (cached?.etag) validators['If-None-Match'] = cached.etag;
+    if (cached?.lastModified) validators['If-Modified-Since'] = cached.lastModified;
+    const conditional = Object.keys(validators).length > 0;
+
+    try {
+      const response = await this.http.get<T>(
+        url,
+        conditional ? { ...config, headers: { ...config?.headers, ...validators } } : config
+      );
+      return conditional && response.status === NOT_MODIFIED ? null : response;
+    } catch (error) {
+      // Some transports reject any non-2xx status
+      if (conditional && classifyError(error).statusCode === NOT_MODIFIED) return null;
+      throw error;
+    }
+  }
 
-    if (patterns.length === 0) {
-      log.debug('No cache patterns to invalidate:', { url, method });
+  /**
+   * Reads a cache entry, rebuilding normalised lists from their items
+   *
+   * @returns null also when an item of the list is no longer cached
+   */
+  private async read<T>(cacheKey: string): Promise<CachedItem<T> | null> {
+    const cached = await this.cache.get<T>(cacheKey);
+    if (!cached || !isNormalizedList(cached.data)) return cached;
+
+    const list = cached.data;
+    const items = await Promise.all(list.keys.map((key) => this.cache.get(key)));
+    if (items.some((item) => !item)) {
+      log.debug('Cached list misses some items:', { cacheKey });
+      return null;
+    }
+    return {
+      ...cached,
+      data: denormalizeList(
+        list,
+        items.map((item) => item!.data)
+      ) as T,
+    };
+  }
+
+  /** Caches a response along with its validators and tags */
+  private async store<T>(cacheKey: string, url: string, response: HttpResponse<T>): Promise<void> {
+    const etag = headerOf(response.headers, 'etag');
+    const lastModified = headerOf(response.headers, 'last-modified');
+    const tags = this.keyGenerator.getTags(url);
+    const item: CachedItem<T> = {
+      data: response.data,
+      timestamp: Date.now(),
+      ...(etag ? { etag } : {}),
+      ...(lastModified ? { lastModified } : {}),
+      ...(tags.length > 0 ? { tags } : {}),
+    };
+
+    if (await this.storeList(cacheKey, url, item)) return;
+    if (!etag && !lastModified && tags.length === 0) {
+      await this.cache.set(cacheKey, response.data);
       return;
     }
+    await this.cache.setItem(cacheKey, item);
+  }
+
+  /**
+   * Caches a list as the keys of its items, and each item under its own key. Items are merged
+   * into the cached ones, which may hold fields only returned by the item endpoint.
+   *
+   * @returns false when the lists of the resource are not normalised
+   */
+  private async storeList<T>(cacheKey: string, url: string, item: CachedItem<T>): Promise<boolean> {
+    const normalized = normalizeList(item.data, (member) =>
+      this.keyGenerator.getListItem(url, member)
+    );
+    if (!normalized) return false;
+
+    const cachedItems = await Promise.all(normalized.items.map(({ key }) => this.cache.get(key)));
+    const entries: Array<[string, CachedItem<unknown>]> = normalized.items.map(
+      ({ key, tags, data }, index) => {
+        const cachedData = cachedItems[index]?.data;
+        return [
+          key,
+          {
+            data:
+              typeof cachedData === 'object' && typeof data === 'object'
+                ? { ...cachedData, ...data }
+                : data,
+            timestamp: item.timestamp,
+            tags,
+          },
+        ];
+      }
+    );
+    await this.cache.setBatch([...entries, [cacheKey, { ...item, data: normalized.list }]]);
+    log.debug('List cached by item:', { cacheKey, items: entries.length });
+    return true;
+  }
 
-    log.info('Invalidating cache patterns:', { url, method, patterns });
+  /** Restarts the TTL of an entry the server confirmed as not modified */
+  private async touch<T>(cacheKey: string, url: string, cached: CachedItem<T>): Promise<void> {
+    try {
+      // Some adapters do not return the tags of an entry
+      const tags = this.keyGenerator.getTags(url);
+      const item = { ...cached, timestamp: Date.now(), ...(tags.length > 0 ? { tags } : {}) };
+      if (!(await this.storeList(cacheKey, url, item))) {
+        await this.cache.setItem(cacheKey, item);
+      }
+    } catch (error) {
+      log.error('Failed to refresh cache entry:', {
+        cacheKey,
+        error: error instanceof Error ? error.message : error,
+      });
+    }
+  }
 
-    for (const pattern of patterns) {
-      try {
-        await this.cache.invalidate(pattern);
-        log.debug('Cache pattern invalidated:', { pattern });
-      } catch (error) {
-        log.error('Failed to invalidate pattern:', {
-          pattern,
+  private revalidate<T>(
+    url: string,
+    config: HttpRequestConfig | undefined,
+    cacheKey: string,
+    cached: CachedItem<T>
+  ): void {
+    if (this.revalidating.has(cacheKey)) {
+      log.debug('Revalidation already in progress:', { cacheKey });
+      return;
+    }
+    this.revalidating.add(cacheKey);
+
+    this.fetch<T>(url, config, cached)
+      .then(async (response) => {
+        if (!response) {
+          // Nothing to emit, the value returned as stale is still current
+          await this.touch(cacheKey, url, cached);
+          log.info('Cache entry revalidated (not modified):', { url, cacheKey });
+          return;
+        }
+
+        try {
+          await this.store(cacheKey, url, response);
+        } catch (error) {
+          log.error('Failed to cache revalidated response:', {
+            cacheKey,
+            error: error instanceof Error ? error.message : error,
+          });
+        }
+        log.info('Cache entry revalidated:', { url, cacheKey });
+        this.refreshSubject.next({ key: cacheKey, url, data: response.data });
+      })
+      .catch((error) => {
+        log.warn('Background revalidation failed:', {
+          url,
+          cacheKey,
           error: error instanceof Error ? error.message : error,
         });
-      }
+      })
+      .finally(() => this.revalidating.delete(cacheKey));
+  }
+
+  private async invalidateRelated(url: string, method: string): Promise<void> {
+    const tags = this.keyGenerator.getInvalidationTags(url, method);
+
+    if (tags.length === 0) {
+      log.debug('No cache tags to invalidate:', { url, method });
+      return;
+    }
+
+    log.info('Invalidating cache tags:', { url, method, tags });
+
+    try {
+      await this.cache.invalidateTags(tags);
+      log.debug('Cache tags invalidated:', { tags });
+    } catch (error) {
+      log.error('Failed to invalidate tags:', {
+        tags,
+        error: error instanceof Error ? error.message : error,
+      });
     }
   }
 
   destroy(): void {
     log.debug('CachingHttpDecorator destroyed');
     this.networkSubscription?.unsubscribe();
+    this.refreshSubject.complete();
   }
 }
@@ -0,0 +1,58 @@
+import { CacheListItem } from '@/application/ports/driven/cache-key.port';
+
+/** Field holding the items of a page: `members` for mf1 and most mf2 pages, `member` for JSON-LD */
+type MembersField = 'members' | 'member';
+
+/**
+ * List stored in cache as the ordered keys of its items, which are cached on their own, so
+ * that a refreshed item shows up in every list containing it
+ */
+export interface NormalizedList {
+  __normalizedList: true;
+  field: MembersField;
+  keys: string[];
+  /** The page without its items (total, links, ...) */
+  page: Record<string, unknown>;
+}
+
+export function isNormalizedList(value: unknown): value is NormalizedList {
+  return (
+    typeof value === 'object' &&
+    value !== null &&
+    (value as Partial<NormalizedList>).__normalizedList === true
+  );
+}
+
+/**
+ * Splits a page into the list and its items
+ *
+ * @returns null when the value is not a page or an item has no cache key
+ */
+export function normalizeList(
+  value: unknown,
+  entryOf: (item: unknown) => CacheListItem | undefined
+): { list: NormalizedList; items: Array<CacheListItem & { data: unknown }> } | null {
+  if (typeof value !== 'object' || value === null) return null;
+
+  const page = value as Record<string, unknown>;
+  const field = (['members', 'member'] as const).find((name) => Array.isArray(page[name]));
+  if (!field) return null;
+
+  const items: Array<CacheListItem & { data: unknown }> = [];
+  for (const item of page[field] as unknown[]) {
+    const entry = entryOf(item);
+    if (!entry) return null;
+    items.push({ ...entry, data: item });
+  }
+
+  const { [field]: _members, ...rest } = page;
+  return {
+    list: { __normalizedList: true, field, keys: items.map(({ key }) => key), page: rest },
+    items,
+  };
+}
+
+/** Rebuilds the page from the list and its items, in the order of the list */
+export function denormalizeList(list: NormalizedList, items: unknown[]): Record<string, unknown> {
+  return { ...list.page, [list.field]: items };
+}
@@ -4,6 +4,8 @@ import {
   ErrorCategory,
   classifyError,
   getUserFriendlyMessage,
+  isAmbiguousFailure,
+  isNetworkFailure,
   shouldReconfigureCertificate,
   shouldRetryRequest,
 } from '../error-classifier';
@@ -336,3 +338,37 @@ describe('getUserFriendlyMessage', () => {
     expect(result).toContain('Certificate error');
   });
 });
+
+describe('isAmbiguousFailure', () => {
+  it('should be ambiguous when the server answered 5xx', () => {
+    expect(isAmbiguousFailure({ response: { status: 502 }, message: 'Bad Gateway' })).toBe(true);
+  });
+
+  it('should be ambiguous when no response arrived', () => {
+    expect(
+      isAmbiguousFailure({ code: 'ECONNABORTED', message: 'timeout of 30000ms exceeded' })
+    ).toBe(true);
+    expect(isAmbiguousFailure(new Error('Network Error'))).toBe(true);
+  });
+
+  it('should not be ambiguous when the server rejected the request', () => {
+    expect(isAmbiguousFailure({ response: { status: 422 }, message: 'Unprocessable' })).toBe(false);
+    expect(isAmbiguousFailure({ statusCode: 429 })).toBe(false);
+  });
+});
+
+describe('isNetworkFailure', () => {
+  it('should detect requests that got no response', () => {
+    expect(isNetworkFailure({ code: 'ERR_NETWORK', message: 'Network Error' })).toBe(true);
+    expect(isNetworkFailure({ type: 'NETWORK_ERROR', message: 'Network error occurred' })).toBe(
+      true
+    );
+  });
+
+  it('should not treat server responses as network failures', () => {
+    expect(isNetworkFailure({ response: { status: 503 }, message: 'Service Unavailable' })).toBe(
+      false
+    );
+    expect(isNetworkFailure(new Error('Invalid receipt'))).toBe(false);
+  });
+});
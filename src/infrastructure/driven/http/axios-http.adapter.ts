@@ -29,6 +29,8 @@ export class AxiosHttpAdapter implements IHttpPort {
       headers: {
         'Content-Type': 'application/json',
       },
+      // 304 answers the conditional requests of the cache, it is not an error
+      validateStatus: (status) => (status >= 200 && status < 300) || status === 304,
     });
 
     this.setupInterceptors();
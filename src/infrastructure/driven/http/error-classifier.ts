@@ -102,6 +102,42 @@ export function classifyError(error: unknown): ErrorClassification {
   };
 }
 
+/**
+ * Tells whether a request failed before any response reached the client: the connection
+ * could not be established, dropped or timed out.
+ */
+export function isNetworkFailure(error: unknown): boolean {
+  if (extractStatusCode(error) !== undefined) {
+    return false;
+  }
+
+  const errorObj = error as { code?: string; type?: string } | null | undefined;
+  if (
+    errorObj?.type === 'NETWORK_ERROR' ||
+    errorObj?.code === 'ECONNABORTED' ||
+    errorObj?.code === 'ETIMEDOUT' ||
+    errorObj?.code === 'ERR_NETWORK'
+  ) {
+    return true;
+  }
+
+  return classifyError(error).category === ErrorCategory.NETWORK_ERROR;
+}
+
+/**
+ * Tells whether a failed request may still have been processed by the server: the
+ * connection dropped or timed out before a response arrived, or the server answered 5xx.
+ * Retrying such a request can duplicate its effect unless it carries an idempotency key.
+ */
+export function isAmbiguousFailure(error: unknown): boolean {
+  const statusCode = extractStatusCode(error);
+  if (statusCode !== undefined) {
+    return statusCode >= 500;
+  }
+
+  return isNetworkFailure(error);
+}
+
 export function shouldReconfigureCertificate(error: unknown): boolean {
   const classification = classifyError(error);
   return classification.category === ErrorCategory.CERTIFICATE_ERROR;
@@ -0,0 +1,159 @@
+import { IHttpPort } from '@/application/ports/driven/http.port';
+import { DEFAULT_QUEUE_CONFIG } from '@/domain/entities/offline.entity';
+import {
+  BACKGROUND_SYNC_MESSAGE,
+  BACKGROUND_SYNC_TAG,
+} from '@/infrastructure/driven/platforms/web/background-sync';
+import { ACubeSDKError } from '@/shared/types';
+
+import {
+  BackgroundSyncOptions,
+  BackgroundSyncWorkerScope,
+  drainOfflineQueue,
+  registerBackgroundSyncHandler,
+} from '../background-sync';
+import { OperationQueue } from '../queue';
+import { KeyValueQueueStorage } from '../queue-storage';
+import { createHttp, createStorage } from './test-doubles';
+
+function createToken(exp: number): string {
+  const encode = (value: object) => Buffer.from(JSON.stringify(value)).toString('base64url');
+  return `${encode({ alg: 'HS256' })}.${encode({ uid: 1, exp })}.signature`;
+}
+
+async function queueOperations(storage: KeyValueQueueStorage, count: number): Promise<string[]> {
+  const queue = new OperationQueue(storage, { ...DEFAULT_QUEUE_CONFIG, syncInterval: 0 });
+  await queue.ready();
+  const ids: string[] = [];
+  for (let i = 0; i < count; i++) {
+    ids.push(await queue.addOperation('CREATE', 'cashier', '/mf1/cashiers', 'POST', { i }));
+  }
+  queue.destroy();
+  return ids;
+}
+
+describe('drainOfflineQueue', () => {
+  let queueStorage: KeyValueQueueStorage;
+  let http: jest.Mocked<IHttpPort>;
+  let store: jest.Mocked<Required<BackgroundSyncOptions>['store']>;
+  let options: BackgroundSyncOptions;
+
+  beforeEach(() => {
+    queueStorage = new KeyValueQueueStorage(createStorage());
+    http = createHttp();
+    store = {
+      loadSession: jest.fn().mockResolvedValue({
+        apiUrl: 'https://api.test',
+        accessToken: createToken(Math.floor(Date.now() / 1000) + 3600),
+      }),
+      clearSession: jest.fn().mockResolvedValue(undefined),
+      addResults: jest.fn().mockResolvedValue(undefined),
+    };
+    options = {
+      store,
+      queueStorage,
+      createHttp: () => http,
+      queueConfig: { retryDelay: 0, maxRetries: 1 },
+    };
+  });
+
+  it('sends the queued operations and stores their results for the pages', async () => {
+    const [first, second] = await queueOperations(queueStorage, 2);
+    http.post
+      .mockResolvedValueOnce({ data: { id: 'c1' }, status: 201, headers: {} })
+      .mockRejectedValueOnce(
+        new ACubeSDKError('VALIDATION_ERROR', 'Invalid cashier', undefined, 422)
+      );
+
+    const outcome = await drainOfflineQueue(options);
+
+    expect(http.post).toHaveBeenCalledTimes(2);
+    expect(outcome).toEqual({
+      results: [
+        { operationId: first, success: true },
+        { operationId: second, success: false, error: 'Invalid cashier' },
+      ],
+      remaining: 0,
+    });
+    expect(store.addResults).toHaveBeenCalledWith(outcome.results);
+
+    const stored = await queueStorage.loadAll();
+    expect(stored.find((op) => op.id === first)?.status).toBe('completed');
+    expect(stored.find((op) => op.id === second)?.status).toBe('failed');
+  });
+
+  it('sends nothing without a session or with an expired token', async () => {
+    await queueOperations(queueStorage, 1);
+
+    store.loadSession.mockResolvedValueOnce(null);
+    expect(await drainOfflineQueue(options)).toEqual({ results: [], remaining: 0 });
+
+    store.loadSession.mockResolvedValueOnce({
+      apiUrl: 'https://api.test',
+      accessToken: createToken(Math.floor(Date.now() / 1000) - 60),
+    });
+    expect(await drainOfflineQueue(options)).toEqual({ results: [], remaining: 0 });
+
+    expect(http.post).not.toHaveBeenCalled();
+    expect(store.addResults).not.toHaveBeenCalled();
+    expect(store.clearSession).toHaveBeenCalledTimes(1);
+  });
+
+  it('retries operations failing with network errors like the app does', async () => {
+    const [id] = await queueOperations(queueStorage, 1);
+    http.post
+      .mockRejectedValueOnce(Object.assign(new Error('Network Error'), { code: 'NETWORK_ERROR' }))
+      .mockResolvedValueOnce({ data: {}, status: 201, headers: {} });
+
+    const outcome = await drainOfflineQueue(options);
+
+    expect(http.post).toHaveBeenCalledTimes(2);
+    expect(outcome).toEqual({ results: [{ operationId: id, success: true }], remaining: 0 });
+  });
+});
+
+describe('registerBackgroundSyncHandler', () => {
+  function createScope() {
+    let listener:
+      ((event: { tag: string; waitUntil(promise: Promise<unknown>): void }) => void) | undefined;
+    const client = { postMessage: jest.fn() };
+    const scope: BackgroundSyncWorkerScope = {
+      addEventListener: (_type, handler) => {
+        listener = handler;
+      },
+      clients: { matchAll: jest.fn().mockResolvedValue([client]) },
+    };
+    const fire = (tag: string): Promise<unknown> | undefined => {
+      let pending: Promise<unknown> | undefined;
+      listener?.({ tag, waitUntil: (promise) => (pending = promise) });
+      return pending;
+    };
+    return { scope, client, fire };
+  }
+
+  it('tells the open pages once the queue has been drained', async () => {
+    const queueStorage = new KeyValueQueueStorage(createStorage());
+    await queueOperations(queueStorage, 1);
+    const http = createHttp();
+    http.post.mockResolvedValue({ data: {}, status: 201, headers: {} });
+    const { scope, client, fire } = createScope();
+
+    registerBackgroundSyncHandler(scope, {
+      store: {
+        loadSession: async () => ({
+          apiUrl: 'https://api.test',
+          accessToken: createToken(Math.floor(Date.now() / 1000) + 3600),
+        }),
+        clearSession: async () => undefined,
+        addResults: async () => undefined,
+      },
+      queueStorage,
+      createHttp: () => http,
+    });
+
+    expect(fire('another-tag')).toBeUndefined();
+    await fire(BACKGROUND_SYNC_TAG);
+
+    expect(client.postMessage).toHaveBeenCalledWith({ type: BACKGROUND_SYNC_MESSAGE });
+  });
+});
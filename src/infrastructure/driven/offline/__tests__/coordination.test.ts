@@ -0,0 +1,131 @@
+import { BehaviorSubject, Subject, firstValueFrom } from 'rxjs';
+import { filter } from 'rxjs/operators';
+
+import { IStoragePort, ISyncCoordinatorPort, QueueSyncMessage } from '@/application/ports/driven';
+import { IHttpPort } from '@/application/ports/driven/http.port';
+import { ReceiptInput } from '@/domain/entities/receipt.entity';
+
+import { OfflineManager } from '../offline-manager';
+import { createHttp, createNetwork, createStorage } from './test-doubles';
+
+type TestCoordinator = ISyncCoordinatorPort & { leader: BehaviorSubject<boolean> };
+
+/** Coordinators of tabs connected to the same channel, delivering messages like BroadcastChannel */
+function createTabs(count: number): TestCoordinator[] {
+  const channel = new Subject<{ from: number; message: QueueSyncMessage }>();
+  return Array.from({ length: count }, (_, index) => {
+    const leader = new BehaviorSubject(index === 0);
+    return {
+      leader,
+      isLeader$: leader.asObservable(),
+      messages$: new Subject<QueueSyncMessage>(),
+      isLeader: () => leader.value,
+      broadcast: (message) => {
+        // Structured clone, as a real channel would
+        const copy = JSON.parse(JSON.stringify(message));
+        setTimeout(() => channel.next({ from: index, message: copy }));
+      },
+      destroy: () => leader.complete(),
+    };
+  }).map((coordinator, index) => {
+    channel
+      .pipe(filter(({ from }) => from !== index))
+      .subscribe(({ message }) =>
+        (coordinator.messages$ as Subject<QueueSyncMessage>).next(message)
+      );
+    return coordinator;
+  });
+}
+
+const waitFor = async (condition: () => boolean): Promise<void> => {
+  for (let i = 0; i < 100 && !condition(); i++) {
+    await new Promise((resolve) => setTimeout(resolve, 10));
+  }
+  expect(condition()).toBe(true);
+};
+
+const sale: ReceiptInput = {
+  items: [{ quantity: '1', description: 'Caffè', unitPrice: '1.20', vatRateCode: '10.00' }],
+  cashPaymentAmount: '1.20',
+};
+
+describe('OfflineManager across tabs', () => {
+  let storage: IStoragePort;
+  let tabs: TestCoordinator[];
+  let http: jest.Mocked<IHttpPort>[];
+  let managers: OfflineManager[];
+
+  const open = (index: number) => {
+    const manager = new OfflineManager(
+      storage,
+      http[index]!,
+      createNetwork(),
+      { syncInterval: 0 },
+      {},
+      undefined,
+      undefined,
+      tabs[index]
+    );
+    managers.push(manager);
+    return manager;
+  };
+
+  beforeEach(() => {
+    storage = createStorage();
+    tabs = createTabs(2);
+    http = [createHttp(), createHttp()];
+    http.forEach((client) =>
+      client.post.mockResolvedValue({ data: { uuid: 'receipt-uuid' }, status: 201, headers: {} })
+    );
+    managers = [];
+  });
+
+  afterEach(() => {
+    managers.forEach((manager) => manager.destroy());
+  });
+
+  it('should let only the leader sync the operations queued by other tabs', async () => {
+    const leader = open(0);
+    const follower = open(1);
+
+    const id = await follower.receipts.create(sale);
+    await waitFor(() => leader.getOperation(id) !== undefined);
+
+    await expect(follower.sync()).resolves.toBeNull();
+    await waitFor(() => follower.getOperation(id)?.status === 'completed');
+
+    expect(http[0]!.post).toHaveBeenCalledTimes(1);
+    expect(http[1]!.post).not.toHaveBeenCalled();
+  });
+
+  it('should settle the operations watched by a follower', async () => {
+    const leader = open(0);
+    const follower = open(1);
+
+    const id = await follower.receipts.create(sale);
+    const result = firstValueFrom(follower.watchOperation(id));
+    await waitFor(() => leader.getOperation(id) !== undefined);
+    await leader.sync();
+
+    await expect(result).resolves.toEqual({ uuid: 'receipt-uuid' });
+  });
+
+  it('should resume the operations left processing by a closed leader', async () => {
+    const leader = open(0);
+    const follower = open(1);
+    // The request of the leader never completes, as if its tab was closed meanwhile
+    http[0]!.post.mockReturnValue(new Promise(() => undefined));
+
+    const id = await follower.receipts.create(sale);
+    await waitFor(() => leader.getOperation(id) !== undefined);
+    leader.sync().catch(() => undefined);
+    await waitFor(() => follower.getOperation(id)?.status === 'processing');
+
+    leader.destroy();
+    tabs[0]!.leader.next(false);
+    tabs[1]!.leader.next(true);
+
+    await waitFor(() => follower.getOperation(id)?.status === 'completed');
+    expect(http[1]!.post).toHaveBeenCalledTimes(1);
+  });
+});
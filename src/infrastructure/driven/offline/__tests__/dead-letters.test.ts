@@ -0,0 +1,170 @@
+import { AxiosError, AxiosResponse } from 'axios';
+import { firstValueFrom } from 'rxjs';
+
+import { IHttpPort } from '@/application/ports/driven/http.port';
+import { QueueEvents } from '@/domain/entities/offline.entity';
+import { ReceiptInput } from '@/domain/entities/receipt.entity';
+import { ACubeSDKError } from '@/shared/types';
+
+import { OfflineManager } from '../offline-manager';
+import { responsePlaceholder } from '../placeholders';
+import { createHttp, createNetwork, createStorage } from './test-doubles';
+
+const sale: ReceiptInput = {
+  items: [{ quantity: '1', description: 'Caffè', unitPrice: '1.20', vatRateCode: '10.00' }],
+  cashPaymentAmount: '1.20',
+};
+
+const rejected = new ACubeSDKError('VALIDATION_ERROR', 'Invalid receipt', undefined, 422, [
+  { propertyPath: 'items[0].vat_rate_code', message: 'Invalid VAT rate code' },
+]);
+
+describe('OfflineManager dead letters', () => {
+  let http: jest.Mocked<IHttpPort>;
+  let events: jest.Mocked<
+    Required<
+      Pick<
+        QueueEvents,
+        'onOperationDeadLettered' | 'onOperationResubmitted' | 'onOperationDiscarded'
+      >
+    >
+  >;
+  let offline: OfflineManager;
+
+  beforeEach(() => {
+    http = createHttp();
+    events = {
+      onOperationDeadLettered: jest.fn(),
+      onOperationResubmitted: jest.fn(),
+      onOperationDiscarded: jest.fn(),
+    };
+    offline = new OfflineManager(
+      createStorage(),
+      http,
+      createNetwork(),
+      { syncInterval: 0, maxRetries: 0 },
+      events
+    );
+  });
+
+  afterEach(() => {
+    offline.destroy();
+  });
+
+  it('should keep the error of a rejected operation with its violations', async () => {
+    http.post.mockRejectedValue(rejected);
+
+    const id = await offline.receipts.create(sale);
+    await offline.sync();
+
+    const [deadLetter] = offline.getDeadLetters();
+    expect(deadLetter?.operation.id).toBe(id);
+    expect(deadLetter?.error).toBeInstanceOf(ACubeSDKError);
+    expect(deadLetter?.error).toMatchObject({
+      type: 'VALIDATION_ERROR',
+      statusCode: 422,
+      violations: rejected.violations,
+    });
+    expect(events.onOperationDeadLettered).toHaveBeenCalledWith(expect.objectContaining({ id }));
+    await expect(firstValueFrom(offline.deadLetterCount$)).resolves.toBe(1);
+  });
+
+  it('should keep the API problem details of an HTTP error', async () => {
+    http.post.mockRejectedValue(
+      new AxiosError('Request failed with status code 422', 'ERR_BAD_REQUEST', undefined, null, {
+        status: 422,
+        data: { detail: 'Invalid receipt', violations: rejected.violations },
+      } as AxiosResponse)
+    );
+
+    await offline.receipts.create(sale);
+    await offline.sync();
+
+    expect(offline.getDeadLetters()[0]?.error).toMatchObject({
+      message: 'Invalid receipt',
+      statusCode: 422,
+      violations: rejected.violations,
+    });
+  });
+
+  it('should resubmit a corrected payload with its failed dependents', async () => {
+    http.post.mockRejectedValueOnce(rejected).mockResolvedValueOnce({
+      data: { uuid: 'receipt-uuid', document_number: '0001-0042' },
+      status: 201,
+      headers: {},
+    });
+    http.delete.mockResolvedValue({ data: undefined, status: 204, headers: {} });
+
+    const saleId = await offline.receipts.create(sale);
+    const voidId = await offline.receipts.void({
+      documentNumber: responsePlaceholder(saleId, 'document_number'),
+    });
+    await offline.sync();
+    const idempotencyKey = offline.getOperation(saleId)?.idempotencyKey;
+
+    expect(offline.getDeadLetters()).toHaveLength(2);
+
+    await offline.resubmitDeadLetter(saleId, {
+      ...sale,
+      items: [{ ...sale.items[0]!, vatRateCode: '22.00' }],
+    });
+
+    expect(offline.getDeadLetters()).toHaveLength(0);
+    expect(offline.getOperation(voidId)?.status).toBe('completed');
+    expect(offline.getOperation(saleId)?.idempotencyKey).not.toBe(idempotencyKey);
+    expect(http.post).toHaveBeenLastCalledWith(
+      '/mf1/receipts',
+      expect.objectContaining({ items: [expect.objectContaining({ vat_rate_code: '22.00' })] }),
+      expect.anything()
+    );
+    expect(events.onOperationResubmitted).toHaveBeenCalledTimes(2);
+  });
+
+  it('should validate a corrected payload before resubmitting it', async () => {
+    http.post.mockRejectedValue(rejected);
+
+    const id = await offline.receipts.create(sale);
+    await offline.sync();
+
+    await expect(
+      offline.resubmitDeadLetter(id, { ...sale, cashPaymentAmount: undefined })
+    ).rejects.toMatchObject({ type: 'VALIDATION_ERROR' });
+    expect(offline.getDeadLetters()).toHaveLength(1);
+  });
+
+  it('should discard a dead letter and its dependents with the reason', async () => {
+    http.post.mockRejectedValue(rejected);
+
+    const saleId = await offline.receipts.create(sale);
+    await offline.receipts.void({
+      documentNumber: responsePlaceholder(saleId, 'document_number'),
+    });
+    await offline.sync();
+
+    const discarded = await offline.discardDeadLetter(saleId, 'Issued on paper');
+
+    expect(discarded).toHaveLength(2);
+    expect(discarded.map((op) => op.discardReason)).toEqual(['Issued on paper', 'Issued on paper']);
+    expect(offline.getDeadLetters()).toHaveLength(0);
+    expect(events.onOperationDiscarded).toHaveBeenCalledWith(
+      expect.objectContaining({ id: saleId, discardReason: 'Issued on paper' }),
+      'Issued on paper'
+    );
+  });
+
+  it('should export dead letters as JSON', async () => {
+    http.post.mockRejectedValue(rejected);
+
+    await offline.receipts.create(sale);
+    await offline.sync();
+
+    const report = JSON.parse(JSON.stringify(offline.exportDeadLetters()));
+
+    expect(report.operations).toEqual([
+      expect.objectContaining({
+        kind: 'receipt.create',
+        failure: expect.objectContaining({ statusCode: 422, violations: rejected.violations }),
+      }),
+    ]);
+  });
+});
@@ -0,0 +1,154 @@
+import { QueuedOperation } from '@/domain/entities/offline.entity';
+
+import {
+  EncryptedQueueStorage,
+  QUEUE_KEYS_STORAGE_KEY,
+  UNREADABLE_OPERATION_ERROR,
+} from '../encrypted-queue-storage';
+import { KeyValueQueueStorage } from '../queue-storage';
+import { createStorage } from './test-doubles';
+
+function createOperation(id: string): QueuedOperation {
+  return {
+    id,
+    type: 'CREATE',
+    resource: 'receipt',
+    endpoint: '/mf1/receipts',
+    method: 'POST',
+    data: { customer_tax_code: 'RSSMRA80A01H501U', card_payment_amount: '12.50' },
+    status: 'pending',
+    createdAt: 1,
+    updatedAt: 1,
+    retryCount: 0,
+    maxRetries: 3,
+    priority: 2,
+  };
+}
+
+describe('EncryptedQueueStorage', () => {
+  let storage: ReturnType<typeof createStorage>;
+  let secureStorage: ReturnType<typeof createStorage>;
+  let encrypted: EncryptedQueueStorage;
+
+  const rawValues = () =>
+    [...storage.values.entries()].filter(([key]) => key !== QUEUE_KEYS_STORAGE_KEY);
+
+  beforeEach(() => {
+    storage = createStorage();
+    secureStorage = createStorage();
+    encrypted = new EncryptedQueueStorage(new KeyValueQueueStorage(storage), secureStorage);
+  });
+
+  it('stores the payloads encrypted with a key kept in the secure storage', async () => {
+    await encrypted.save([createOperation('op-1')]);
+
+    const [[, raw]] = rawValues() as [[string, string]];
+    expect(raw).not.toContain('RSSMRA80A01H501U');
+    expect(JSON.parse(raw)).toMatchObject({ id: 'op-1', status: 'pending', priority: 2 });
+    expect(secureStorage.values.has(QUEUE_KEYS_STORAGE_KEY)).toBe(true);
+
+    const reopened = new EncryptedQueueStorage(new KeyValueQueueStorage(storage), secureStorage);
+    expect(await reopened.loadAll()).toEqual([createOperation('op-1')]);
+  });
+
+  it('encrypts operations saved together with a single new key', async () => {
+    await encrypted.save([createOperation('op-1'), createOperation('op-2')]);
+
+    const reopened = new EncryptedQueueStorage(new KeyValueQueueStorage(storage), secureStorage);
+    expect(await reopened.loadAll()).toHaveLength(2);
+  });
+
+  it('encrypts the operations saved before encryption was enabled', async () => {
+    await new KeyValueQueueStorage(storage).save([createOperation('op-1')]);
+
+    expect(await encrypted.loadAll()).toEqual([createOperation('op-1')]);
+    expect(rawValues()[0]?.[1]).not.toContain('RSSMRA80A01H501U');
+  });
+
+  it('encrypts the queue again with a new key on rotation', async () => {
+    await encrypted.save([createOperation('op-1')]);
+    const [[, before]] = rawValues() as [[string, string]];
+    const keysBefore = JSON.parse(secureStorage.values.get(QUEUE_KEYS_STORAGE_KEY)!);
+
+    await encrypted.rotateKey();
+
+    const keysAfter = JSON.parse(secureStorage.values.get(QUEUE_KEYS_STORAGE_KEY)!);
+    expect(keysAfter.currentKeyId).not.toBe(keysBefore.currentKeyId);
+    expect(Object.keys(keysAfter.keys)).toEqual([keysAfter.currentKeyId]);
+    expect(JSON.parse(rawValues()[0]![1]).encrypted.keyId).toBe(keysAfter.currentKeyId);
+    expect(rawValues()[0]![1]).not.toBe(before);
+
+    const reopened = new EncryptedQueueStorage(new KeyValueQueueStorage(storage), secureStorage);
+    expect(await reopened.loadAll()).toEqual([createOperation('op-1')]);
+  });
+
+  it('removes the operations and their keys', async () => {
+    await encrypted.save([createOperation('op-1')]);
+
+    await encrypted.destroyKeys();
+
+    expect(rawValues()).toEqual([]);
+    expect(secureStorage.values.has(QUEUE_KEYS_STORAGE_KEY)).toBe(false);
+  });
+
+  it('keeps operations whose key is lost as failed, unless told to remove them', async () => {
+    await encrypted.save([createOperation('op-1')]);
+    const lostKeys = createStorage();
+
+    const keeping = new EncryptedQueueStorage(new KeyValueQueueStorage(storage), lostKeys);
+    const [loaded] = await keeping.loadAll();
+    expect(loaded).toMatchObject({
+      id: 'op-1',
+      status: 'failed',
+      retryCount: 3,
+      error: UNREADABLE_OPERATION_ERROR,
+    });
+    expect(loaded?.data).toBeUndefined();
+
+    // The stored payload survives until the key is readable again
+    await keeping.save([loaded!]);
+    const reopened = new EncryptedQueueStorage(new KeyValueQueueStorage(storage), secureStorage);
+    expect(await reopened.loadAll()).toEqual([
+      { ...createOperation('op-1'), status: 'failed', retryCount: 3 },
+    ]);
+
+    const removing = new EncryptedQueueStorage(new KeyValueQueueStorage(storage), lostKeys, {
+      removeUnreadable: true,
+    });
+    expect(await removing.loadAll()).toEqual([]);
+    expect(rawValues()).toEqual([]);
+  });
+
+  it('never creates keys over keys that cannot be read', async () => {
+    await encrypted.save([createOperation('op-1')]);
+    const unreadableKeys = { ...secureStorage, get: async () => null };
+
+    const reopened = new EncryptedQueueStorage(new KeyValueQueueStorage(storage), unreadableKeys);
+    await reopened.loadAll();
+
+    await expect(reopened.save([createOperation('op-2')])).rejects.toThrow(
+      'Encryption keys cannot be read'
+    );
+    expect(await encrypted.loadAll()).toEqual([createOperation('op-1')]);
+
+    // Once the operations of the unreadable keys are gone, new keys can be created
+    await reopened.remove(['op-1']);
+    await expect(reopened.save([createOperation('op-2')])).resolves.toBeUndefined();
+  });
+
+  it('reads the keys again after another context rotated them', async () => {
+    const open = () => new EncryptedQueueStorage(new KeyValueQueueStorage(storage), secureStorage);
+    const [writer, reader] = [open(), open()];
+    await encrypted.save([createOperation('op-1')]);
+    await Promise.all([writer.loadAll(), reader.loadAll()]);
+
+    await encrypted.rotateKey();
+
+    // Values encrypted with a key not loaded yet make the keys be read again
+    expect(await reader.loadAll()).toEqual([createOperation('op-1')]);
+    // New values need the new current key, read when the rotation is broadcast
+    await writer.reloadKeys();
+    await writer.save([createOperation('op-2')]);
+    expect(await open().loadAll()).toEqual([createOperation('op-1'), createOperation('op-2')]);
+  });
+});
@@ -0,0 +1,161 @@
+import { firstValueFrom } from 'rxjs';
+
+import { ReceiptApiOutput, ReceiptDetailsApiOutput } from '@/application/dto/receipt.dto';
+import { IHttpPort } from '@/application/ports/driven/http.port';
+import { ReceiptInput } from '@/domain/entities/receipt.entity';
+import { ReceiptRepositoryImpl } from '@/infrastructure/driven/api/receipt.repository.impl';
+
+import { OfflineFallbackReceiptRepository, isPendingResult } from '../offline-fallback';
+import { OfflineManager } from '../offline-manager';
+import { ReceiptJournal } from '../receipt-journal';
+import { createHttp, createNetwork, createStorage } from './test-doubles';
+
+const receiptOutput: ReceiptApiOutput = {
+  uuid: 'receipt-uuid',
+  type: 'sale',
+  created_at: '2026-01-10T10:00:00Z',
+  total_amount: '1.20',
+  document_number: '0001-0001',
+  document_datetime: '2026-01-10T10:00:00Z',
+  is_returnable: true,
+  is_voidable: true,
+};
+
+const sale: ReceiptInput = {
+  items: [{ quantity: '1', description: 'Caffè', unitPrice: '1.20', vatRateCode: '10.00' }],
+  cashPaymentAmount: '1.20',
+};
+
+const networkError = Object.assign(new Error('Network Error'), { code: 'ERR_NETWORK' });
+
+describe('OfflineFallbackReceiptRepository', () => {
+  let http: jest.Mocked<IHttpPort>;
+  let offline: OfflineManager;
+
+  const createRepository = (online: boolean, journal?: ReceiptJournal) => {
+    offline = new OfflineManager(createStorage(), http, createNetwork(online), {
+      syncInterval: 0,
+      maxRetries: 0,
+    });
+    return new OfflineFallbackReceiptRepository(new ReceiptRepositoryImpl(http), offline, journal);
+  };
+
+  beforeEach(() => {
+    http = createHttp();
+  });
+
+  afterEach(() => {
+    offline.destroy();
+  });
+
+  it('should return the receipt when the request succeeds', async () => {
+    http.post.mockResolvedValue({ data: receiptOutput, status: 201, headers: {} });
+
+    const result = await createRepository(true).create(sale);
+
+    expect(isPendingResult(result)).toBe(false);
+    expect(offline.isEmpty()).toBe(true);
+  });
+
+  it('should queue the write without sending it while offline', async () => {
+    const result = await createRepository(false).voidReceipt({ documentNumber: '0001-0001' });
+
+    expect(isPendingResult(result)).toBe(true);
+    expect(http.delete).not.toHaveBeenCalled();
+    expect(offline.getPendingCount()).toBe(1);
+  });
+
+  it('should queue a request failing with a network error and resolve it once synced', async () => {
+    http.post
+      .mockRejectedValueOnce(networkError)
+      .mockResolvedValueOnce({ data: receiptOutput, status: 201, headers: {} });
+    const repository = createRepository(true);
+
+    const result = await repository.create(sale);
+    if (!isPendingResult(result)) throw new Error('Expected a pending result');
+    await offline.sync();
+
+    await expect(firstValueFrom(result.result$)).resolves.toMatchObject({ uuid: 'receipt-uuid' });
+    const [first, second] = http.post.mock.calls;
+    expect(second?.[2]?.headers).toEqual(first?.[2]?.headers);
+  });
+
+  it('should reconcile a sale queued after a timeout before sending it again', async () => {
+    const issued = { ...receiptOutput, document_datetime: new Date().toISOString() };
+    http.post.mockRejectedValueOnce(Object.assign(new Error('timeout'), { code: 'ECONNABORTED' }));
+    // The lookup right after the timeout fails as well, the sale is queued
+    http.get.mockRejectedValueOnce(networkError).mockImplementation(async (url, config) => {
+      if (url === `/mf1/receipts/${issued.uuid}/details`) {
+        const details: ReceiptDetailsApiOutput = {
+          ...issued,
+          vat_number: '12345678901',
+          cashier_name: null,
+          total_taxable_amount: '1.09',
+          total_uncollected_amount: '0.00',
+          deductible_amount: '0.00',
+          total_vat_amount: '0.11',
+          total_discount: '0.00',
+        };
+        return { data: details, status: 200, headers: {} };
+      }
+      const members = config?.params?.status === 'ready' ? [issued] : [];
+      return { data: { members, page: 1, pages: 1 }, status: 200, headers: {} };
+    });
+    const repository = createRepository(true);
+
+    const result = await repository.create(sale, { serialNumber: 'POS-001' });
+    if (!isPendingResult(result)) throw new Error('Expected a pending result');
+    expect(offline.getOperation(result.operationId)?.lastAttempt).toBeDefined();
+    await offline.sync();
+
+    await expect(firstValueFrom(result.result$)).resolves.toMatchObject({ uuid: 'receipt-uuid' });
+    expect(http.post).toHaveBeenCalledTimes(1);
+  });
+
+  it('should error the pending result when the queued write is rejected', async () => {
+    http.post
+      .mockRejectedValueOnce(networkError)
+      .mockRejectedValueOnce(Object.assign(new Error('Unprocessable Entity'), { statusCode: 422 }));
+    const repository = createRepository(true);
+
+    const result = await repository.returnItems({
+      documentNumber: '0001-0001',
+      items: [{ id: 1, quantity: '1' }],
+    });
+    if (!isPendingResult(result)) throw new Error('Expected a pending result');
+    await offline.sync();
+
+    await expect(firstValueFrom(result.result$)).rejects.toThrow('Unprocessable Entity');
+  });
+
+  it('should number queued sales in the journal and void them once issued', async () => {
+    http.post
+      .mockRejectedValueOnce(networkError)
+      .mockResolvedValueOnce({ data: receiptOutput, status: 201, headers: {} });
+    http.delete.mockResolvedValueOnce({ data: undefined, status: 204, headers: {} });
+    const journal = new ReceiptJournal(createStorage());
+    const repository = createRepository(true, journal);
+
+    const result = await repository.create(sale, { cashRegisterId: 'cr-1' });
+    if (!isPendingResult(result)) throw new Error('Expected a pending result');
+    expect(result.journalEntry).toMatchObject({ cashRegisterId: 'cr-1', provisionalNumber: 1 });
+
+    const voided = await repository.voidReceipt({
+      documentNumber: await journal.documentNumberOf('cr-1', 1),
+    });
+    expect(isPendingResult(voided)).toBe(true);
+    await offline.sync();
+    await journal.follow(offline.getOperation(result.operationId)!);
+
+    expect(http.delete.mock.calls[0]?.[1]?.data).toMatchObject({ document_number: '0001-0001' });
+    expect(await journal.get('cr-1', 1)).toMatchObject({ status: 'issued' });
+  });
+
+  it('should rethrow errors returned by the server', async () => {
+    const rejected = { response: { status: 422 }, message: 'Unprocessable Entity' };
+    http.post.mockRejectedValue(rejected);
+
+    await expect(createRepository(true).create(sale)).rejects.toBe(rejected);
+    expect(offline.isEmpty()).toBe(true);
+  });
+});
@@ -0,0 +1,43 @@
+import {
+  findPlaceholderDependencies,
+  resolvePlaceholders,
+  responsePlaceholder,
+} from '../placeholders';
+
+describe('offline placeholders', () => {
+  const responses: Record<string, unknown> = {
+    sale: { document_number: '0001-0042', totals: { amount: 12.5 } },
+  };
+
+  it('should list the operations referenced anywhere in the data', () => {
+    const data = {
+      document_number: responsePlaceholder('sale', 'document_number'),
+      items: [{ note: `void of ${responsePlaceholder('other', 'uuid')}` }],
+    };
+
+    expect(findPlaceholderDependencies(data)).toEqual(['sale', 'other']);
+  });
+
+  it('should keep the type of a value replacing a whole string', () => {
+    const resolved = resolvePlaceholders(
+      { amount: responsePlaceholder('sale', 'totals.amount') },
+      (id) => responses[id]
+    );
+
+    expect(resolved).toEqual({ amount: 12.5 });
+  });
+
+  it('should interpolate placeholders inside longer strings', () => {
+    const endpoint = `/mf1/receipts/${responsePlaceholder('sale', 'document_number')}/details`;
+
+    expect(resolvePlaceholders(endpoint, (id) => responses[id])).toBe(
+      '/mf1/receipts/0001-0042/details'
+    );
+  });
+
+  it('should throw when the referenced field is missing', () => {
+    expect(() =>
+      resolvePlaceholders(responsePlaceholder('sale', 'uuid'), (id) => responses[id])
+    ).toThrow('Response of operation sale has no "uuid"');
+  });
+});
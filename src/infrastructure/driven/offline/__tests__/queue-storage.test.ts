@@ -0,0 +1,152 @@
+import { mkdtemp, readdir, rm } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+
+import {
+  DEFAULT_QUEUE_CONFIG,
+  QueueConfig,
+  QueuedOperation,
+} from '@/domain/entities/offline.entity';
+import { NodeQueueStorageAdapter } from '@/infrastructure/driven/platforms/node/queue-storage';
+
+import { OperationQueue } from '../queue';
+import { KeyValueQueueStorage, LEGACY_QUEUE_KEY, migrateLegacyQueue } from '../queue-storage';
+import { createStorage } from './test-doubles';
+
+function createOperation(id: string, overrides: Partial<QueuedOperation> = {}): QueuedOperation {
+  return {
+    id,
+    type: 'CREATE',
+    resource: 'receipt',
+    endpoint: '/mf1/receipts',
+    method: 'POST',
+    data: {},
+    priority: 1,
+    status: 'pending',
+    createdAt: 1,
+    updatedAt: 1,
+    retryCount: 0,
+    maxRetries: 3,
+    ...overrides,
+  };
+}
+
+const config: QueueConfig = { ...DEFAULT_QUEUE_CONFIG, syncInterval: 0 };
+
+describe('KeyValueQueueStorage', () => {
+  it('should store each operation under its own key', async () => {
+    const storage = createStorage();
+    const queueStorage = new KeyValueQueueStorage(storage);
+
+    await queueStorage.save([createOperation('a'), createOperation('b')]);
+    await queueStorage.remove(['a']);
+
+    expect([...storage.values.keys()]).toEqual([`${LEGACY_QUEUE_KEY}:b`]);
+    await expect(queueStorage.loadAll()).resolves.toMatchObject([{ id: 'b' }]);
+  });
+
+  it('should clear only queue keys', async () => {
+    const storage = createStorage();
+    await storage.set('acube_tokens', 'token');
+    const queueStorage = new KeyValueQueueStorage(storage);
+    await queueStorage.save([createOperation('a')]);
+
+    await queueStorage.clear();
+
+    expect([...storage.values.keys()]).toEqual(['acube_tokens']);
+  });
+});
+
+describe('migrateLegacyQueue', () => {
+  it('should move the legacy queue to the queue storage', async () => {
+    const storage = createStorage();
+    await storage.set(
+      LEGACY_QUEUE_KEY,
+      JSON.stringify([createOperation('a'), createOperation('b')])
+    );
+    const queueStorage = new KeyValueQueueStorage(storage);
+
+    await expect(migrateLegacyQueue(storage, queueStorage)).resolves.toBe(2);
+
+    expect(storage.values.has(LEGACY_QUEUE_KEY)).toBe(false);
+    await expect(queueStorage.loadAll()).resolves.toHaveLength(2);
+  });
+
+  it('should keep the legacy queue when saving fails', async () => {
+    const storage = createStorage();
+    await storage.set(LEGACY_QUEUE_KEY, JSON.stringify([createOperation('a')]));
+    const queueStorage = new KeyValueQueueStorage(storage);
+    jest.spyOn(queueStorage, 'save').mockRejectedValue(new Error('Quota exceeded'));
+
+    await expect(migrateLegacyQueue(storage, queueStorage)).rejects.toThrow('Quota exceeded');
+    expect(storage.values.has(LEGACY_QUEUE_KEY)).toBe(true);
+  });
+
+  it('should discard an unreadable legacy queue', async () => {
+    const storage = createStorage();
+    await storage.set(LEGACY_QUEUE_KEY, '{not json');
+
+    await expect(migrateLegacyQueue(storage, new KeyValueQueueStorage(storage))).resolves.toBe(0);
+    expect(storage.values.has(LEGACY_QUEUE_KEY)).toBe(false);
+  });
+});
+
+describe('OperationQueue storage', () => {
+  it('should load migrated operations and resume interrupted ones', async () => {
+    const storage = createStorage();
+    await storage.set(
+      LEGACY_QUEUE_KEY,
+      JSON.stringify([createOperation('a', { status: 'processing' }), createOperation('b')])
+    );
+    const queueStorage = new KeyValueQueueStorage(storage);
+
+    const queue = new OperationQueue(queueStorage, config, {}, { legacyStorage: storage });
+    await queue.ready();
+
+    expect(queue.getPendingOperations().map((op) => op.id)).toEqual(['a', 'b']);
+    await expect(queueStorage.loadAll()).resolves.toEqual(
+      expect.arrayContaining([expect.objectContaining({ id: 'a', status: 'pending' })])
+    );
+  });
+
+  it('should write only the operations that changed', async () => {
+    const queueStorage = new KeyValueQueueStorage(createStorage());
+    const queue = new OperationQueue(queueStorage, config);
+    await queue.ready();
+    const first = await queue.addOperation('CREATE', 'receipt', '/mf1/receipts', 'POST', {});
+    await queue.addOperation('CREATE', 'receipt', '/mf1/receipts', 'POST', {});
+    const save = jest.spyOn(queueStorage, 'save');
+    const remove = jest.spyOn(queueStorage, 'remove');
+
+    await queue.updateOperation(first, { status: 'completed' });
+    await queue.clearCompleted();
+
+    expect(save).toHaveBeenCalledWith([expect.objectContaining({ id: first })]);
+    expect(remove).toHaveBeenCalledWith([first]);
+    await expect(queueStorage.loadAll()).resolves.toHaveLength(1);
+  });
+});
+
+describe('NodeQueueStorageAdapter', () => {
+  let directory: string;
+
+  beforeEach(async () => {
+    directory = await mkdtemp(join(tmpdir(), 'acube-queue-'));
+  });
+
+  afterEach(async () => {
+    await rm(directory, { recursive: true, force: true });
+  });
+
+  it('should keep the last of concurrent saves of the same operation', async () => {
+    const storage = new NodeQueueStorageAdapter(directory);
+
+    await Promise.all([
+      storage.save([createOperation('op-1', { status: 'processing' })]),
+      storage.save([createOperation('op-1', { status: 'completed' })]),
+    ]);
+
+    expect(await storage.loadAll()).toEqual([createOperation('op-1', { status: 'completed' })]);
+    expect(await readdir(directory)).toEqual(['op-1.json']);
+  });
+});
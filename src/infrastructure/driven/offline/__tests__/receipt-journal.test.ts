@@ -0,0 +1,137 @@
+import { ReceiptApiOutput } from '@/application/dto/receipt.dto';
+import { QueuedOperation } from '@/domain/entities/offline.entity';
+import { ReceiptInput } from '@/domain/entities/receipt.entity';
+
+import { PayloadCipher } from '../payload-cipher';
+import { RECEIPT_JOURNAL_KEYS_STORAGE_KEY, ReceiptJournal } from '../receipt-journal';
+import { createStorage } from './test-doubles';
+
+function createOperation(id: string, changes: Partial<QueuedOperation> = {}): QueuedOperation {
+  return {
+    id,
+    type: 'CREATE',
+    resource: 'receipt',
+    endpoint: '/mf1/receipts',
+    method: 'POST',
+    data: {},
+    kind: 'receipt.create',
+    status: 'pending',
+    createdAt: 1,
+    updatedAt: 1,
+    retryCount: 0,
+    maxRetries: 3,
+    priority: 2,
+    ...changes,
+  };
+}
+
+const receiptOutput: ReceiptApiOutput = {
+  uuid: 'receipt-uuid',
+  type: 'sale',
+  created_at: '2026-01-10T10:00:00Z',
+  total_amount: '1.20',
+  document_number: '0001-0001',
+  document_datetime: '2026-01-10T10:00:00Z',
+  is_returnable: true,
+  is_voidable: true,
+};
+
+const sale: ReceiptInput = {
+  items: [{ quantity: '1', description: 'Caffè', unitPrice: '1.20', vatRateCode: '10.00' }],
+  customerTaxCode: 'RSSMRA80A01H501U',
+  cashPaymentAmount: '1.20',
+};
+
+describe('ReceiptJournal', () => {
+  let storage: ReturnType<typeof createStorage>;
+  let journal: ReceiptJournal;
+
+  beforeEach(() => {
+    storage = createStorage();
+    journal = new ReceiptJournal(storage);
+  });
+
+  it('numbers the sales sequentially per cash register', async () => {
+    const entries = await Promise.all([
+      journal.record('cr-1', 'op-1', sale),
+      journal.record('cr-1', 'op-2', sale),
+      journal.record('cr-2', 'op-3', sale),
+    ]);
+
+    expect(entries.map((entry) => entry.provisionalNumber)).toEqual([1, 2, 1]);
+    expect(await journal.get('cr-1', 2)).toMatchObject({
+      operationId: 'op-2',
+      input: sale,
+      status: 'provisional',
+    });
+    expect((await journal.find({ cashRegisterId: 'cr-1' })).map((e) => e.operationId)).toEqual([
+      'op-1',
+      'op-2',
+    ]);
+  });
+
+  it('never reuses a number, also after the entries are pruned', async () => {
+    await journal.record('cr-1', 'op-1', sale);
+    await journal.follow(createOperation('op-1', { status: 'completed', response: receiptOutput }));
+
+    expect(await journal.prune(new Date(Date.now() + 1000))).toBe(1);
+    expect(await new ReceiptJournal(storage).record('cr-1', 'op-2', sale)).toMatchObject({
+      provisionalNumber: 2,
+    });
+  });
+
+  it('links the issued receipt once the sale is synced', async () => {
+    await journal.record('cr-1', 'op-1', sale);
+    expect(await journal.documentNumberOf('cr-1', 1)).toBe('{{op:op-1:document_number}}');
+
+    await journal.follow(createOperation('op-1', { status: 'completed', response: receiptOutput }));
+
+    const [entry] = await journal.find({ status: 'issued' });
+    expect(entry?.receipt).toMatchObject({ uuid: 'receipt-uuid', documentNumber: '0001-0001' });
+    expect(await journal.documentNumberOf('cr-1', 1)).toBe('0001-0001');
+  });
+
+  it('tracks the sales that fail or are discarded', async () => {
+    await journal.record('cr-1', 'op-1', sale);
+    await journal.record('cr-1', 'op-2', sale);
+
+    await journal.follow(createOperation('op-1', { status: 'failed', error: 'Rejected' }));
+    await journal.discard('op-2');
+
+    expect(await journal.get('cr-1', 1)).toMatchObject({ status: 'failed', error: 'Rejected' });
+    await expect(journal.documentNumberOf('cr-1', 2)).rejects.toThrow('is discarded');
+
+    await journal.follow(createOperation('op-1', { status: 'pending' }));
+    expect(await journal.get('cr-1', 1)).toMatchObject({ status: 'provisional' });
+  });
+
+  it('reconciles the entries with the operations in the queue', async () => {
+    await journal.record('cr-1', 'op-1', sale);
+    await journal.record('cr-1', 'op-2', sale);
+    const operations = new Map([
+      ['op-1', createOperation('op-1', { status: 'completed', response: receiptOutput })],
+    ]);
+
+    await journal.reconcile((id) => operations.get(id));
+
+    expect((await journal.find()).map((entry) => entry.status)).toEqual(['issued', 'provisional']);
+  });
+
+  it('stores the entries encrypted when given a cipher', async () => {
+    const secureStorage = createStorage();
+    const cipher = () => new PayloadCipher(secureStorage, RECEIPT_JOURNAL_KEYS_STORAGE_KEY);
+    journal = new ReceiptJournal(storage, cipher());
+
+    await journal.record('cr-1', 'op-1', sale);
+    await journal.rotateKey();
+
+    expect([...storage.values.values()].join()).not.toContain('RSSMRA80A01H501U');
+    expect(await new ReceiptJournal(storage, cipher()).get('cr-1', 1)).toMatchObject({
+      input: sale,
+    });
+
+    await journal.clear();
+    expect(storage.values.size).toBe(0);
+    expect(secureStorage.values.size).toBe(0);
+  });
+});
@@ -0,0 +1,218 @@
+import { IHttpPort } from '@/application/ports/driven/http.port';
+import { DEFAULT_QUEUE_CONFIG, QueueConfig } from '@/domain/entities/offline.entity';
+import { ReceiptReconciler } from '@/infrastructure/driven/api/receipt-reconciler';
+
+import { responsePlaceholder } from '../placeholders';
+import { OperationQueue } from '../queue';
+import { KeyValueQueueStorage } from '../queue-storage';
+import { SyncManager } from '../sync-manager';
+import { createHttp, createNetwork, createStorage } from './test-doubles';
+
+const config: QueueConfig = { ...DEFAULT_QUEUE_CONFIG, maxRetries: 0, syncInterval: 0 };
+
+describe('SyncManager operation dependencies', () => {
+  let queue: OperationQueue;
+  let http: jest.Mocked<IHttpPort>;
+  let syncManager: SyncManager;
+
+  beforeEach(() => {
+    queue = new OperationQueue(new KeyValueQueueStorage(createStorage()), config);
+    http = createHttp();
+    syncManager = new SyncManager(queue, http, createNetwork(), config);
+  });
+
+  afterEach(() => {
+    syncManager.destroy();
+    queue.destroy();
+  });
+
+  it('should send a dependent only after its parent, filled with the parent response', async () => {
+    http.post.mockResolvedValue({
+      data: { uuid: 'receipt-uuid', document_number: '0001-0042' },
+      status: 201,
+      headers: {},
+    });
+    http.delete.mockResolvedValue({ data: undefined, status: 204, headers: {} });
+
+    const saleId = await queue.addOperation('CREATE', 'receipt', '/mf1/receipts', 'POST', {
+      items: [],
+    });
+    const voidId = await queue.addOperation(
+      'DELETE',
+      'receipt',
+      '/mf1/receipts',
+      'DELETE',
+      { document_number: responsePlaceholder(saleId, 'document_number') },
+      3
+    );
+
+    expect(queue.getOperation(voidId)?.dependsOn).toEqual([saleId]);
+    expect(queue.getNextBatch().map((op) => op.id)).toEqual([saleId]);
+
+    const result = await syncManager.syncPendingOperations();
+
+    expect(result.successCount).toBe(2);
+    expect(http.post.mock.invocationCallOrder[0]).toBeLessThan(
+      http.delete.mock.invocationCallOrder[0]!
+    );
+    expect(http.delete).toHaveBeenCalledWith(
+      '/mf1/receipts',
+      expect.objectContaining({ data: { document_number: '0001-0042' } })
+    );
+  });
+
+  it('should fail the dependents of a permanently rejected parent', async () => {
+    http.post.mockRejectedValue(
+      Object.assign(new Error('Unprocessable Entity'), { statusCode: 422 })
+    );
+
+    const saleId = await queue.addOperation('CREATE', 'receipt', '/mf1/receipts', 'POST', {});
+    const returnId = await queue.addOperation(
+      'CREATE',
+      'receipt',
+      '/mf1/receipts/return',
+      'POST',
+      {},
+      3,
+      { dependsOn: [saleId] }
+    );
+    const voidId = await queue.addOperation('DELETE', 'receipt', '/mf1/receipts', 'DELETE', {}, 3, {
+      dependsOn: [returnId],
+    });
+
+    const result = await syncManager.syncPendingOperations();
+
+    expect(result.failureCount).toBe(3);
+    expect(http.post).toHaveBeenCalledTimes(1);
+    expect(http.delete).not.toHaveBeenCalled();
+    expect(queue.getOperation(voidId)?.status).toBe('failed');
+    expect(queue.getOperation(voidId)?.error).toBe(
+      `Dependency ${saleId} failed: Unprocessable Entity`
+    );
+  });
+
+  it('should reject dependencies on unknown operations', async () => {
+    await expect(
+      queue.addOperation('DELETE', 'receipt', '/mf1/receipts', 'DELETE', {}, 3, {
+        dependsOn: ['missing'],
+      })
+    ).rejects.toThrow('Unknown dependencies: missing');
+  });
+
+  it('should accept dependencies on stored operations while the queue is loading', async () => {
+    const storage = new KeyValueQueueStorage(createStorage());
+    const saleId = await queue.addOperation('CREATE', 'receipt', '/mf1/receipts', 'POST', {});
+    await storage.save([queue.getOperation(saleId)!]);
+
+    const reloaded = new OperationQueue(storage, config);
+    const voidId = await reloaded.addOperation(
+      'DELETE',
+      'receipt',
+      '/mf1/receipts',
+      'DELETE',
+      {},
+      3,
+      {
+        dependsOn: [saleId],
+      }
+    );
+
+    expect(reloaded.getOperation(voidId)?.dependsOn).toEqual([saleId]);
+    reloaded.destroy();
+  });
+
+  it('should not evict operations others depend on when the queue is full', async () => {
+    const small = new OperationQueue(new KeyValueQueueStorage(createStorage()), {
+      ...config,
+      maxQueueSize: 2,
+    });
+    const saleId = await small.addOperation('CREATE', 'receipt', '/mf1/receipts', 'POST', {});
+    await small.addOperation('DELETE', 'receipt', '/mf1/receipts', 'DELETE', {}, 1, {
+      dependsOn: [saleId],
+    });
+
+    await expect(
+      small.addOperation('CREATE', 'receipt', '/mf1/receipts', 'POST', {})
+    ).resolves.toBeDefined();
+    expect(small.getOperation(saleId)).toBeDefined();
+
+    small.destroy();
+  });
+
+  it('should keep completed parents needed by pending dependents', async () => {
+    const saleId = await queue.addOperation('CREATE', 'receipt', '/mf1/receipts', 'POST', {});
+    await queue.addOperation('DELETE', 'receipt', '/mf1/receipts', 'DELETE', {}, 3, {
+      dependsOn: [saleId],
+    });
+    await queue.updateOperation(saleId, { status: 'completed', response: {} });
+
+    await queue.clearCompleted();
+
+    expect(queue.getOperation(saleId)).toBeDefined();
+  });
+});
+
+describe('SyncManager receipt reconciliation', () => {
+  let queue: OperationQueue;
+  let http: jest.Mocked<IHttpPort>;
+  let syncManager: SyncManager;
+
+  beforeEach(() => {
+    queue = new OperationQueue(new KeyValueQueueStorage(createStorage()), config);
+    http = createHttp();
+    syncManager = new SyncManager(queue, http, createNetwork(), config);
+  });
+
+  afterEach(() => {
+    syncManager.destroy();
+    queue.destroy();
+  });
+
+  it('should look the receipt up within the last failed attempt only', async () => {
+    const timeout = Object.assign(new Error('timeout of 30000ms exceeded'), {
+      code: 'ECONNABORTED',
+    });
+    http.post.mockRejectedValueOnce(timeout).mockResolvedValueOnce({
+      data: { uuid: 'receipt-uuid' },
+      status: 201,
+      headers: {},
+    });
+    http.get.mockResolvedValue({
+      data: { members: [], page: 1, pages: 1 },
+      status: 200,
+      headers: {},
+    });
+    const id = await queue.addOperation(
+      'CREATE',
+      'receipt',
+      '/mf1/receipts',
+      'POST',
+      { items: [{ quantity: '1.00', description: 'Caffè', unit_price: '1.20' }] },
+      2,
+      { serialNumber: 'POS-001' }
+    );
+
+    await syncManager.syncPendingOperations();
+    const { lastAttempt } = queue.getOperation(id)!;
+    expect(lastAttempt).toEqual({ startedAt: expect.any(Number), endedAt: expect.any(Number) });
+    expect(http.get).not.toHaveBeenCalled();
+
+    await queue.resubmit(id);
+    const result = await syncManager.syncPendingOperations();
+
+    expect(result.successCount).toBe(1);
+    expect(http.get).toHaveBeenCalledWith(
+      '/mf1/pems/POS-001/receipts',
+      expect.objectContaining({
+        params: expect.objectContaining({
+          'document_datetime[after]': new Date(
+            lastAttempt!.startedAt - ReceiptReconciler.CLOCK_SKEW_MS
+          ).toISOString(),
+          'document_datetime[before]': new Date(
+            lastAttempt!.endedAt + ReceiptReconciler.CLOCK_SKEW_MS
+          ).toISOString(),
+        }),
+      })
+    );
+  });
+});
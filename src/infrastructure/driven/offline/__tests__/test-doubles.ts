@@ -0,0 +1,46 @@
+import { BehaviorSubject } from 'rxjs';
+
+import { INetworkPort, IStoragePort } from '@/application/ports/driven';
+import { IHttpPort } from '@/application/ports/driven/http.port';
+
+/** In-memory storage, exposing the stored values to assert on what was written */
+export function createStorage(): IStoragePort & { values: Map<string, string> } {
+  const values = new Map<string, string>();
+  return {
+    values,
+    get: async (key) => values.get(key) ?? null,
+    set: async (key, value) => {
+      values.set(key, value);
+    },
+    remove: async (key) => {
+      values.delete(key);
+    },
+    clear: async () => values.clear(),
+    getAllKeys: async () => [...values.keys()],
+    multiGet: async (keys) => Object.fromEntries(keys.map((key) => [key, values.get(key) ?? null])),
+    multiSet: async (items) =>
+      Object.entries(items).forEach(([key, value]) => values.set(key, value)),
+    multiRemove: async (keys) => keys.forEach((key) => values.delete(key)),
+  };
+}
+
+export function createNetwork(online = true): INetworkPort {
+  return {
+    status$: new BehaviorSubject({ online, timestamp: 0 }),
+    online$: new BehaviorSubject(online),
+    getNetworkInfo: async () => null,
+    destroy: () => undefined,
+  };
+}
+
+export function createHttp(): jest.Mocked<IHttpPort> {
+  return {
+    get: jest.fn(),
+    post: jest.fn(),
+    put: jest.fn(),
+    patch: jest.fn(),
+    delete: jest.fn(),
+    setAuthToken: jest.fn(),
+    getAuthToken: jest.fn(),
+  };
+}
@@ -0,0 +1,96 @@
+import { IHttpPort } from '@/application/ports/driven/http.port';
+import { ReceiptInput } from '@/domain/entities/receipt.entity';
+import { Money } from '@/domain/value-objects/money.vo';
+import { ACubeSDKError } from '@/shared/types';
+
+import { OfflineManager } from '../offline-manager';
+import { responsePlaceholder } from '../placeholders';
+import { createHttp, createNetwork, createStorage } from './test-doubles';
+
+const sale: ReceiptInput = {
+  items: [
+    { quantity: '2', description: 'Caffè', unitPrice: Money.of('1.2'), vatRateCode: '10.00' },
+  ],
+  cashPaymentAmount: '2.40',
+};
+
+describe('OfflineManager typed operations', () => {
+  let storage: ReturnType<typeof createStorage>;
+  let http: jest.Mocked<IHttpPort>;
+  let offline: OfflineManager;
+
+  beforeEach(() => {
+    storage = createStorage();
+    http = createHttp();
+    offline = new OfflineManager(storage, http, createNetwork(), { syncInterval: 0 });
+  });
+
+  afterEach(() => {
+    offline.destroy();
+  });
+
+  it('should queue the domain input with its operation kind', async () => {
+    const id = await offline.receipts.create(sale, { serialNumber: 'POS-001' });
+
+    expect(offline.getOperation(id)).toMatchObject({
+      kind: 'receipt.create',
+      endpoint: '/mf1/receipts',
+      method: 'POST',
+      priority: 2,
+      serialNumber: 'POS-001',
+      data: { items: [{ unitPrice: '1.20' }], cashPaymentAmount: '2.40' },
+    });
+    expect([...storage.values.values()].join()).toContain('"kind":"receipt.create"');
+  });
+
+  it('should reject invalid inputs when they are queued', async () => {
+    const queued = offline.receipts.create({ ...sale, cashPaymentAmount: undefined });
+
+    await expect(queued).rejects.toBeInstanceOf(ACubeSDKError);
+    await expect(queued).rejects.toMatchObject({
+      type: 'VALIDATION_ERROR',
+      violations: [
+        { propertyPath: 'payment_methods', message: 'At least one payment method is required' },
+      ],
+    });
+    expect(offline.isEmpty()).toBe(true);
+  });
+
+  it('should report amounts that cannot be mapped as validation errors', async () => {
+    const queued = offline.receipts.create({ ...sale, cashPaymentAmount: 'two euros' });
+
+    await expect(queued).rejects.toMatchObject({
+      type: 'VALIDATION_ERROR',
+      violations: [{ propertyPath: '', message: 'Invalid monetary amount "two euros"' }],
+    });
+    expect(offline.isEmpty()).toBe(true);
+  });
+
+  it('should send the API shape when synced', async () => {
+    http.post.mockResolvedValue({
+      data: { uuid: 'receipt-uuid', document_number: '0001-0042' },
+      status: 201,
+      headers: {},
+    });
+    http.delete.mockResolvedValue({ data: undefined, status: 204, headers: {} });
+
+    const saleId = await offline.receipts.create(sale);
+    await offline.receipts.void({
+      documentNumber: responsePlaceholder(saleId, 'document_number'),
+    });
+    await offline.sync();
+
+    expect(http.post).toHaveBeenCalledWith(
+      '/mf1/receipts',
+      expect.objectContaining({
+        items: [expect.objectContaining({ unit_price: '1.20', vat_rate_code: '10.00' })],
+        cash_payment_amount: '2.40',
+      }),
+      expect.anything()
+    );
+    expect(http.delete).toHaveBeenCalledWith(
+      '/mf1/receipts',
+      expect.objectContaining({ data: { document_number: '0001-0042' } })
+    );
+  });
+});
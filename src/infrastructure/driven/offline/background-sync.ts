@@ -0,0 +1,224 @@
+import { BehaviorSubject } from 'rxjs';
+
+import {
+  BackgroundSyncResult,
+  BackgroundSyncSession,
+  IHttpPort,
+  INetworkPort,
+  IQueueStoragePort,
+} from '@/application/ports/driven';
+import { DEFAULT_QUEUE_CONFIG, QueueConfig } from '@/domain/entities/offline.entity';
+import { isTokenExpired, parseJwt } from '@/domain/services';
+import { AxiosHttpAdapter } from '@/infrastructure/driven/http/axios-http.adapter';
+import {
+  BACKGROUND_SYNC_MESSAGE,
+  BACKGROUND_SYNC_TAG,
+  BackgroundSyncStore,
+} from '@/infrastructure/driven/platforms/web/background-sync';
+import { WebQueueStorageAdapter } from '@/infrastructure/driven/platforms/web/queue-storage';
+import {
+  OFFLINE_QUEUE_LOCK,
+  WebSyncCoordinator,
+} from '@/infrastructure/driven/platforms/web/sync-coordinator';
+import { createPrefixedLogger } from '@/shared/utils';
+
+import { EncryptedQueueStorage, QUEUE_KEYS_STORAGE_KEY } from './encrypted-queue-storage';
+import { OperationQueue } from './queue';
+import { SharedQueueStorage } from './shared-queue-storage';
+import { SyncManager } from './sync-manager';
+
+const log = createPrefixedLogger('BACKGROUND-SYNC');
+
+/** Minimal shape of the `sync` event, not part of the DOM typings */
+interface BackgroundSyncEvent {
+  readonly tag: string;
+  waitUntil(promise: Promise<unknown>): void;
+}
+
+/** Minimal shape of the service worker global scope used by the handler */
+export interface BackgroundSyncWorkerScope {
+  addEventListener(type: 'sync', listener: (event: BackgroundSyncEvent) => void): void;
+  readonly clients: {
+    matchAll(options: {
+      type: 'window';
+      includeUncontrolled: boolean;
+    }): Promise<ReadonlyArray<{ postMessage(message: unknown): void }>>;
+  };
+}
+
+export interface BackgroundSyncOptions {
+  /** Store holding the session and the results, shared with the pages */
+  store?: Pick<BackgroundSyncStore, 'loadSession' | 'clearSession' | 'addResults'>;
+  /** Storage of the offline queue, the IndexedDB one used by the pages by default */
+  queueStorage?: IQueueStoragePort;
+  createHttp?: (session: BackgroundSyncSession) => IHttpPort;
+  queueConfig?: Partial<QueueConfig>;
+}
+
+export interface BackgroundSyncOutcome {
+  results: BackgroundSyncResult[];
+  /** Operations still waiting to be sent, e.g. after a network error */
+  remaining: number;
+}
+
+/**
+ * Sends the persisted offline queue with the stored session and keeps the results for the pages.
+ * Nothing is sent while a tab is syncing the queue or when the stored token has expired, in which
+ * case the session is removed.
+ */
+export async function drainOfflineQueue(
+  options: BackgroundSyncOptions = {}
+): Promise<BackgroundSyncOutcome> {
+  const store = options.store ?? new BackgroundSyncStore();
+  const session = await store.loadSession();
+  if (!session) {
+    log.debug('No session stored, skipping background sync');
+    return { results: [], remaining: 0 };
+  }
+
+  if (!hasValidToken(session)) {
+    // The token and the queue keys are of no use anymore, the app stores a new session
+    log.debug('Stored token expired, the queue is synced once the app is opened again');
+    await store.clearSession();
+    return { results: [], remaining: 0 };
+  }
+
+  const locks = typeof navigator !== 'undefined' ? navigator.locks : undefined;
+  if (!locks) {
+    return drain(session, store, options);
+  }
+
+  // A tab holding the lock is already syncing the queue
+  const outcome = await locks.request(OFFLINE_QUEUE_LOCK, { ifAvailable: true }, (lock) =>
+    lock ? drain(session, store, options) : null
+  );
+  return outcome ?? { results: [], remaining: 0 };
+}
+
+async function drain(
+  session: BackgroundSyncSession,
+  store: Pick<BackgroundSyncStore, 'addResults'>,
+  options: BackgroundSyncOptions
+): Promise<BackgroundSyncOutcome> {
+  const http = options.createHttp?.(session) ?? createHttp(session);
+  // Open tabs are told about the operations sent in the background
+  const coordinator =
+    options.queueStorage || typeof BroadcastChannel === 'undefined'
+      ? undefined
+      : new WebSyncCoordinator({ electLeader: false });
+  const queueStorage =
+    options.queueStorage ??
+    (coordinator
+      ? new SharedQueueStorage(withSessionKeys(new WebQueueStorageAdapter(), session), coordinator)
+      : withSessionKeys(new WebQueueStorageAdapter(), session));
+  const queueConfig: QueueConfig = {
+    ...DEFAULT_QUEUE_CONFIG,
+    ...options.queueConfig,
+    syncInterval: 0,
+  };
+  const queue = new OperationQueue(queueStorage, queueConfig);
+  const online$ = new BehaviorSubject(true);
+  const network: INetworkPort = {
+    online$,
+    status$: new BehaviorSubject({ online: true, timestamp: Date.now() }),
+    getNetworkInfo: async () => null,
+    destroy: () => online$.complete(),
+  };
+
+  const results: BackgroundSyncResult[] = [];
+  const syncManager = new SyncManager(queue, http, network, queueConfig, {
+    onOperationCompleted: (result) => {
+      results.push({ operationId: result.operation.id, success: true });
+    },
+    onOperationFailed: (result) => {
+      // Operations being retried stay in the queue
+      if (queue.getOperation(result.operation.id)?.status !== 'failed') return;
+      results.push({ operationId: result.operation.id, success: false, error: result.error });
+    },
+  });
+
+  try {
+    await queue.ready();
+    if (!queue.isEmpty()) {
+      await syncManager.syncPendingOperations();
+    }
+    await store.addResults(results);
+    return { results, remaining: queue.getStats().pending };
+  } finally {
+    // Going offline first keeps the retry timers from syncing after the worker is done
+    online$.next(false);
+    syncManager.destroy();
+    queue.destroy();
+    network.destroy();
+    coordinator?.destroy();
+  }
+}
+
+function hasValidToken(session: BackgroundSyncSession): boolean {
+  try {
+    return !isTokenExpired(parseJwt(session.accessToken));
+  } catch {
+    return false;
+  }
+}
+
+/** Reads the queue encrypted by the app with the keys stored in the session */
+function withSessionKeys(
+  storage: IQueueStoragePort,
+  session: BackgroundSyncSession
+): IQueueStoragePort {
+  const { queueKeys } = session;
+  if (!queueKeys) return storage;
+
+  return new EncryptedQueueStorage(
+    storage,
+    {
+      get: async (key) => (key === QUEUE_KEYS_STORAGE_KEY ? queueKeys : null),
+      // Keys are only created and rotated by the app
+      set: async () => undefined,
+      remove: async () => undefined,
+    },
+    // The app may have rotated the key since the session was stored
+    { removeUnreadable: false }
+  );
+}
+
+function createHttp(session: BackgroundSyncSession): IHttpPort {
+  const http = new AxiosHttpAdapter({ baseUrl: session.apiUrl });
+  http.setAuthToken(session.accessToken);
+  return http;
+}
+
+/**
+ * Drains the offline queue when the browser fires the Background Sync scheduled by the SDK, then
+ * tells the open pages so that `onOfflineOperationCompleted` fires. Call it from the service
+ * worker of the app:
+ *
+ * ```ts
+ * registerBackgroundSyncHandler(self);
+ * ```
+ */
+export function registerBackgroundSyncHandler(
+  scope: BackgroundSyncWorkerScope,
+  options: BackgroundSyncOptions = {}
+): void {
+  scope.addEventListener('sync', (event) => {
+    if (event.tag !== BACKGROUND_SYNC_TAG) return;
+
+    event.waitUntil(
+      drainOfflineQueue(options).then(async ({ results, remaining }) => {
+        if (results.length > 0) {
+          const clients = await scope.clients.matchAll({
+            type: 'window',
+            includeUncontrolled: true,
+          });
+          clients.forEach((client) => client.postMessage({ type: BACKGROUND_SYNC_MESSAGE }));
+        }
+        if (remaining > 0) {
+          // Rejecting lets the browser retry the sync later
+          throw new Error(`${remaining} queued operations still pending`);
+        }
+      })
+    );
+  });
+}
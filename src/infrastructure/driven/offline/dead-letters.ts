@@ -0,0 +1,64 @@
+import axios from 'axios';
+
+import { OperationFailure, QueuedOperation } from '@/domain/entities/offline.entity';
+import { transformError } from '@/infrastructure/driven/http/error-transformer';
+import { ACubeSDKError, SDKError } from '@/shared/types';
+
+/** Operation that failed permanently, waiting to be resubmitted or discarded */
+export interface DeadLetter {
+  operation: QueuedOperation;
+  /** Error rebuilt from the stored failure, with its status code and violations */
+  error: ACubeSDKError;
+  failedAt: number;
+}
+
+/** Dead letters exported for support, safe to serialise as JSON */
+export interface DeadLetterReport {
+  exportedAt: string;
+  operations: QueuedOperation[];
+}
+
+/** Keeps what is needed to rebuild the error once the operation has been persisted */
+export function toOperationFailure(
+  error: unknown,
+  failedAt: number = Date.now()
+): OperationFailure {
+  // The HTTP adapter rejects with the Axios error, which carries the API problem details
+  const sdkError = axios.isAxiosError(error) ? transformError(error) : error;
+  if (sdkError instanceof ACubeSDKError) {
+    return {
+      type: sdkError.type,
+      message: sdkError.message,
+      statusCode: sdkError.statusCode,
+      violations: sdkError.violations,
+      failedAt,
+    };
+  }
+
+  const statusCode = (error as { statusCode?: unknown } | null)?.statusCode;
+  return {
+    message: error instanceof Error ? error.message : 'Unknown error',
+    statusCode: typeof statusCode === 'number' ? statusCode : undefined,
+    failedAt,
+  };
+}
+
+export function toDeadLetter(operation: QueuedOperation): DeadLetter {
+  // Operations failed before failures were recorded only have the message
+  const failure = operation.failure ?? {
+    message: operation.error ?? 'Unknown error',
+    failedAt: operation.updatedAt,
+  };
+
+  return {
+    operation,
+    error: new ACubeSDKError(
+      (failure.type as SDKError | undefined) ?? 'UNKNOWN_ERROR',
+      failure.message,
+      undefined,
+      failure.statusCode,
+      failure.violations
+    ),
+    failedAt: failure.failedAt,
+  };
+}
@@ -0,0 +1,193 @@
+import { IQueueStoragePort } from '@/application/ports/driven';
+import { QueuedOperation } from '@/domain/entities/offline.entity';
+import { createPrefixedLogger } from '@/shared/utils';
+
+import { CipherKeyStorage, EncryptedPayload, PayloadCipher } from './payload-cipher';
+
+const log = createPrefixedLogger('QUEUE-ENCRYPTION');
+
+/** Key of the secure storage holding the keys the queue is encrypted with */
+export const QUEUE_KEYS_STORAGE_KEY = 'acube_offline_queue_keys';
+
+/** Fields of a queued operation that can carry customer and payment data */
+type SensitiveFields = Pick<QueuedOperation, 'data' | 'response' | 'error' | 'failure'>;
+
+type StoredOperation = Omit<QueuedOperation, keyof SensitiveFields> & {
+  encrypted?: EncryptedPayload;
+};
+
+/** Failure of the operations loaded without their payload, which cannot be decrypted */
+export const UNREADABLE_OPERATION_ERROR = 'The operation can no longer be decrypted';
+
+export interface EncryptedQueueStorageOptions {
+  /**
+   * Whether operations that can no longer be decrypted are removed from the storage. By default
+   * they are loaded as failed operations without payload, keeping the stored one, so that they
+   * can be discarded or resubmitted with a new payload.
+   */
+  removeUnreadable?: boolean;
+}
+
+/**
+ * Queue storage encrypting the payload, response and errors of each operation with AES-GCM. The
+ * keys are kept in the secure storage; the fields the queue is scheduled on stay readable.
+ * Operations saved before encryption was enabled are encrypted when loaded.
+ */
+export class EncryptedQueueStorage implements IQueueStoragePort {
+  private readonly cipher: PayloadCipher;
+  /** Rotation re-encrypts the stored operations, so it never overlaps other changes */
+  private tail: Promise<unknown> = Promise.resolve();
+  /** Stored payloads of the operations that could not be decrypted, by operation ID */
+  private readonly unreadable = new Map<string, EncryptedPayload>();
+
+  constructor(
+    private readonly storage: IQueueStoragePort,
+    keyStorage: CipherKeyStorage,
+    private readonly options: EncryptedQueueStorageOptions = {}
+  ) {
+    this.cipher = new PayloadCipher(keyStorage, QUEUE_KEYS_STORAGE_KEY);
+  }
+
+  static isAvailable(): boolean {
+    return PayloadCipher.isAvailable();
+  }
+
+  loadAll(): Promise<QueuedOperation[]> {
+    return this.exclusive(() => this.readAll());
+  }
+
+  save(operations: QueuedOperation[]): Promise<void> {
+    return this.exclusive(() => this.write(operations));
+  }
+
+  remove(ids: string[]): Promise<void> {
+    return this.exclusive(async () => {
+      await this.storage.remove(ids);
+      this.forgetUnreadable(ids);
+    });
+  }
+
+  clear(): Promise<void> {
+    return this.exclusive(async () => {
+      await this.storage.clear();
+      this.forgetUnreadable([...this.unreadable.keys()]);
+    });
+  }
+
+  /** Reads the keys again, e.g. after another context rotated them */
+  reloadKeys(): Promise<void> {
+    return this.exclusive(async () => this.cipher.reloadKeys());
+  }
+
+  /**
+   * Encrypts the stored operations with a new key, then forgets the previous ones
+   */
+  rotateKey(): Promise<void> {
+    return this.exclusive(async () => {
+      const operations = await this.readAll();
+      await this.cipher.beginRotation();
+      await this.write(operations);
+      await this.cipher.completeRotation();
+      log.info('Rotated offline queue key', { operations: operations.length });
+    });
+  }
+
+  /**
+   * Removes the stored operations and their keys, e.g. on logout
+   */
+  destroyKeys(): Promise<void> {
+    return this.exclusive(async () => {
+      await this.storage.clear();
+      await this.cipher.destroyKeys();
+      this.unreadable.clear();
+    });
+  }
+
+  private async readAll(): Promise<QueuedOperation[]> {
+    const stored = (await this.storage.loadAll()) as StoredOperation[];
+    await this.cipher.ready();
+    const operations: QueuedOperation[] = [];
+    const unencrypted: QueuedOperation[] = [];
+    const unreadable: QueuedOperation[] = [];
+    this.unreadable.clear();
+
+    for (const { encrypted, ...operation } of stored) {
+      if (!encrypted) {
+        unencrypted.push(operation as QueuedOperation);
+        operations.push(operation as QueuedOperation);
+        continue;
+      }
+      try {
+        operations.push({
+          ...operation,
+          ...(await this.cipher.decrypt<SensitiveFields>(encrypted)),
+        });
+      } catch {
+        this.unreadable.set(operation.id, encrypted);
+        unreadable.push(operation as QueuedOperation);
+      }
+    }
+
+    if (unreadable.length === 0) this.cipher.forgetUnknownKeys();
+    if (unencrypted.length > 0) {
+      await this.write(unencrypted);
+      log.info('Encrypted offline queue operations', { operations: unencrypted.length });
+    }
+    if (unreadable.length > 0 && this.options.removeUnreadable) {
+      // Their key is gone: they can no longer be sent
+      await this.storage.remove(unreadable.map((op) => op.id));
+      this.forgetUnreadable(unreadable.map((op) => op.id));
+      log.warn('Removed queued operations that can no longer be decrypted', {
+        operations: unreadable.length,
+      });
+    } else if (unreadable.length > 0) {
+      // Their key may only be unreadable for now: they are never sent without a new payload
+      operations.push(
+        ...unreadable.map((operation): QueuedOperation => ({
+          ...operation,
+          status: 'failed',
+          retryCount: operation.maxRetries,
+          error: UNREADABLE_OPERATION_ERROR,
+          failure: { message: UNREADABLE_OPERATION_ERROR, failedAt: Date.now() },
+        }))
+      );
+      log.warn('Loaded queued operations that cannot be decrypted as failed', {
+        operations: unreadable.length,
+      });
+    }
+    return operations;
+  }
+
+  private async write(operations: QueuedOperation[]): Promise<void> {
+    if (operations.length === 0) return;
+    const stored = await Promise.all(
+      operations.map(async (operation): Promise<StoredOperation> => {
+        const { data, response, error, failure, ...rest } = operation;
+        // Without a new payload the stored one is kept, should its key be readable again
+        const stored = this.unreadable.get(operation.id);
+        if (stored && data === undefined) {
+          return { ...rest, encrypted: stored };
+        }
+        this.forgetUnreadable([operation.id]);
+        return {
+          ...rest,
+          encrypted: await this.cipher.encrypt({ data, response, error, failure }),
+        };
+      })
+    );
+    await this.storage.save(stored as QueuedOperation[]);
+  }
+
+  private forgetUnreadable(ids: string[]): void {
+    if (this.unreadable.size === 0) return;
+    ids.forEach((id) => this.unreadable.delete(id));
+    // Nothing is left that the unreadable keys could decrypt
+    if (this.unreadable.size === 0) this.cipher.forgetUnknownKeys();
+  }
+
+  private exclusive<T>(task: () => Promise<T>): Promise<T> {
+    const result = this.tail.then(task, task);
+    this.tail = result.catch(() => undefined);
+    return result;
+  }
+}
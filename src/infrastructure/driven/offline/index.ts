@@ -1,12 +1,30 @@
+export * from './background-sync';
+export * from './dead-letters';
+export * from './encrypted-queue-storage';
+export * from './payload-cipher';
+export * from './offline-fallback';
 export * from './offline-manager';
+export * from './placeholders';
 export * from './queue';
+export * from './queue-storage';
+export * from './receipt-journal';
+export * from './shared-queue-storage';
 export * from './sync-manager';
+export {
+  OfflineCashierOperations,
+  OfflineReceiptOperations,
+  type OfflineOperationInputs,
+} from './typed-operations';
 export type {
   OperationType,
   ResourceType,
   OperationStatus,
   HttpMethod,
   QueuedOperation,
+  QueuedOperationOptions,
+  OperationFailure,
+  OfflineEnqueueOptions,
+  OfflineOperationKind,
   SyncResult,
   BatchSyncResult,
   QueueConfig,
@@ -0,0 +1,242 @@
+import { Observable } from 'rxjs';
+import { map, shareReplay } from 'rxjs/operators';
+
+import { ReceiptApiOutput, ReceiptMapper } from '@/application/dto/receipt.dto';
+import { QueuedOperationOptions } from '@/domain/entities/offline.entity';
+import {
+  Receipt,
+  ReceiptCreateOptions,
+  ReceiptDetails,
+  ReceiptInput,
+  ReceiptListParams,
+  ReceiptReturnInput,
+  ReturnViaDifferentDeviceInput,
+  ReturnWithProofInput,
+  ReturnableReceiptItem,
+  VoidReceiptInput,
+  VoidViaDifferentDeviceInput,
+  VoidWithProofInput,
+} from '@/domain/entities/receipt.entity';
+import { IReceiptRepository } from '@/domain/repositories/receipt.repository';
+import { ReadOptions } from '@/domain/value-objects/cache-policy.vo';
+import { Page, PageIterationOptions } from '@/domain/value-objects/page.vo';
+import { isNetworkFailure } from '@/infrastructure/driven/http/error-classifier';
+import { generateIdempotencyKey } from '@/shared/utils';
+
+import { OfflineManager } from './offline-manager';
+import { findPlaceholderDependencies } from './placeholders';
+import { ReceiptJournal, ReceiptJournalEntry } from './receipt-journal';
+
+/** Handle of a write that was queued instead of sent */
+export interface PendingResult<T> {
+  readonly pending: true;
+  readonly operationId: string;
+  /** Emits the result once the queued operation is synced, errors if it fails permanently */
+  readonly result$: Observable<T>;
+}
+
+export type OfflineWriteResult<T> = T | PendingResult<T>;
+
+/** Queued sale, with its provisional number when recorded in the receipt journal */
+export interface PendingReceipt extends PendingResult<Receipt> {
+  readonly journalEntry?: ReceiptJournalEntry;
+}
+
+export interface OfflineReceiptCreateOptions extends ReceiptCreateOptions {
+  /** Cash register the sale is numbered on in the receipt journal when it is queued */
+  cashRegisterId?: string;
+}
+
+export function isPendingResult<T>(result: OfflineWriteResult<T>): result is PendingResult<T> {
+  return (
+    typeof result === 'object' && result !== null && (result as PendingResult<T>).pending === true
+  );
+}
+
+type ReceiptWriteMethod =
+  | 'create'
+  | 'voidReceipt'
+  | 'voidViaDifferentDevice'
+  | 'voidWithProof'
+  | 'returnItems'
+  | 'returnViaDifferentDevice'
+  | 'returnWithProof';
+
+export interface IOfflineFallbackReceiptRepository extends Omit<
+  IReceiptRepository,
+  ReceiptWriteMethod
+> {
+  create(
+    input: ReceiptInput,
+    options?: OfflineReceiptCreateOptions
+  ): Promise<Receipt | PendingReceipt>;
+  voidReceipt(input: VoidReceiptInput): Promise<OfflineWriteResult<void>>;
+  voidViaDifferentDevice(input: VoidViaDifferentDeviceInput): Promise<OfflineWriteResult<void>>;
+  voidWithProof(input: VoidWithProofInput): Promise<OfflineWriteResult<void>>;
+  returnItems(input: ReceiptReturnInput): Promise<OfflineWriteResult<Receipt>>;
+  returnViaDifferentDevice(
+    input: ReturnViaDifferentDeviceInput
+  ): Promise<OfflineWriteResult<Receipt>>;
+  returnWithProof(input: ReturnWithProofInput): Promise<OfflineWriteResult<Receipt>>;
+}
+
+const toReceipt = (response: unknown): Receipt =>
+  ReceiptMapper.fromApiOutput(response as ReceiptApiOutput);
+
+const toVoid = (): void => undefined;
+
+/**
+ * Receipt repository whose writes are queued in the offline manager when the device is offline
+ * or the request fails without reaching the server. Reads and any other failure go through
+ * unchanged. Writes referring to a queued operation, e.g. the void of a provisionally numbered
+ * sale, are always queued after it.
+ */
+export class OfflineFallbackReceiptRepository implements IOfflineFallbackReceiptRepository {
+  constructor(
+    private readonly receipts: IReceiptRepository,
+    private readonly offlineManager: OfflineManager,
+    private readonly journal?: ReceiptJournal
+  ) {}
+
+  async create(
+    input: ReceiptInput,
+    options: OfflineReceiptCreateOptions = {}
+  ): Promise<Receipt | PendingReceipt> {
+    const { cashRegisterId, ...receiptOptions } = options;
+    // The same key goes with the queued copy, so a request that did reach the server is not
+    // issued twice
+    const createOptions = {
+      ...receiptOptions,
+      idempotencyKey: receiptOptions.idempotencyKey ?? generateIdempotencyKey(),
+    };
+    const result = await this.withFallback(
+      input,
+      () => this.receipts.create(input, createOptions),
+      (lastAttempt) =>
+        this.offlineManager.receipts.create(input, { ...createOptions, lastAttempt }),
+      toReceipt
+    );
+    if (!isPendingResult(result) || !this.journal || cashRegisterId === undefined) {
+      return result;
+    }
+
+    const journalEntry = await this.journal.record(cashRegisterId, result.operationId, input);
+    // The operation may have been synced while the entry was recorded
+    const operation = this.offlineManager.getOperation(result.operationId);
+    if (operation && operation.status !== 'pending') await this.journal.follow(operation);
+    return { ...result, journalEntry };
+  }
+
+  findById(receiptUuid: string, options?: ReadOptions): Promise<Receipt> {
+    return this.receipts.findById(receiptUuid, options);
+  }
+
+  findAll(params: ReceiptListParams, options?: ReadOptions): Promise<Page<Receipt>> {
+    return this.receipts.findAll(params, options);
+  }
+
+  iterateAll(
+    params: Omit<ReceiptListParams, 'page' | 'size'>,
+    options?: PageIterationOptions
+  ): AsyncIterable<Receipt> {
+    return this.receipts.iterateAll(params, options);
+  }
+
+  getDetails(receiptUuid: string, format: 'json', options?: ReadOptions): Promise<ReceiptDetails>;
+  getDetails(receiptUuid: string, format: 'pdf', options?: ReadOptions): Promise<string>;
+  getDetails(
+    receiptUuid: string,
+    format: 'json' | 'pdf',
+    options?: ReadOptions
+  ): Promise<ReceiptDetails | string> {
+    return this.receipts.getDetails(receiptUuid, format, options);
+  }
+
+  getReturnableItems(receiptUuid: string): Promise<ReturnableReceiptItem[]> {
+    return this.receipts.getReturnableItems(receiptUuid);
+  }
+
+  voidReceipt(input: VoidReceiptInput): Promise<OfflineWriteResult<void>> {
+    return this.withFallback(
+      input,
+      () => this.receipts.voidReceipt(input),
+      () => this.offlineManager.receipts.void(input),
+      toVoid
+    );
+  }
+
+  voidViaDifferentDevice(input: VoidViaDifferentDeviceInput): Promise<OfflineWriteResult<void>> {
+    return this.withFallback(
+      input,
+      () => this.receipts.voidViaDifferentDevice(input),
+      () => this.offlineManager.receipts.voidViaDifferentDevice(input),
+      toVoid
+    );
+  }
+
+  voidWithProof(input: VoidWithProofInput): Promise<OfflineWriteResult<void>> {
+    return this.withFallback(
+      input,
+      () => this.receipts.voidWithProof(input),
+      () => this.offlineManager.receipts.voidWithProof(input),
+      toVoid
+    );
+  }
+
+  returnItems(input: ReceiptReturnInput): Promise<OfflineWriteResult<Receipt>> {
+    return this.withFallback(
+      input,
+      () => this.receipts.returnItems(input),
+      () => this.offlineManager.receipts.returnItems(input),
+      toReceipt
+    );
+  }
+
+  returnViaDifferentDevice(
+    input: ReturnViaDifferentDeviceInput
+  ): Promise<OfflineWriteResult<Receipt>> {
+    return this.withFallback(
+      input,
+      () => this.receipts.returnViaDifferentDevice(input),
+      () => this.offlineManager.receipts.returnViaDifferentDevice(input),
+      toReceipt
+    );
+  }
+
+  returnWithProof(input: ReturnWithProofInput): Promise<OfflineWriteResult<Receipt>> {
+    return this.withFallback(
+      input,
+      () => this.receipts.returnWithProof(input),
+      () => this.offlineManager.receipts.returnWithProof(input),
+      toReceipt
+    );
+  }
+
+  private async withFallback<T>(
+    input: unknown,
+    send: () => Promise<T>,
+    enqueue: (lastAttempt?: QueuedOperationOptions['lastAttempt']) => Promise<string>,
+    fromResponse: (response: unknown) => T
+  ): Promise<OfflineWriteResult<T>> {
+    let lastAttempt: QueuedOperationOptions['lastAttempt'];
+    if (this.offlineManager.isOnline() && findPlaceholderDependencies(input).length === 0) {
+      const startedAt = Date.now();
+      try {
+        return await send();
+      } catch (error) {
+        if (!isNetworkFailure(error)) throw error;
+        // The request may have reached the server all the same
+        lastAttempt = { startedAt, endedAt: Date.now() };
+      }
+    }
+
+    const operationId = await enqueue(lastAttempt);
+    const result$ = this.offlineManager
+      .watchOperation(operationId)
+      .pipe(map(fromResponse), shareReplay(1));
+    // Subscribed right away, so that the result is kept even if the operation is later cleared
+    result$.subscribe({ error: () => undefined });
+
+    return { pending: true, operationId, result$ };
+  }
+}
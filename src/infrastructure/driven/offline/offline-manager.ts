@@ -1,24 +1,43 @@
-import { BehaviorSubject, Observable, Subject } from 'rxjs';
+import { BehaviorSubject, Observable, Subject, defer, of, throwError } from 'rxjs';
+import { distinctUntilChanged, filter, map, take, takeUntil } from 'rxjs/operators';
 
 import {
   ICachePort as ICacheAdapter,
   INetworkPort as INetworkMonitor,
+  IQueueStoragePort,
   IStoragePort as IStorage,
+  ISyncCoordinatorPort,
+  QueueSyncMessage,
 } from '@/application/ports/driven';
 import { IHttpPort } from '@/application/ports/driven/http.port';
 import {
   BatchSyncResult,
   DEFAULT_QUEUE_CONFIG,
+  OfflineEnqueueOptions,
+  OfflineOperationKind,
   OperationType,
   QueueConfig,
   QueueEvents,
   QueuedOperation,
+  QueuedOperationOptions,
   ResourceType,
+  SyncResult,
   SyncStatus,
 } from '@/domain/entities/offline.entity';
 
+import { DeadLetter, DeadLetterReport, toDeadLetter } from './dead-letters';
 import { OperationQueue } from './queue';
+import { KeyValueQueueStorage } from './queue-storage';
+import { SharedQueueStorage } from './shared-queue-storage';
 import { SyncManager } from './sync-manager';
+import {
+  OFFLINE_OPERATIONS,
+  OfflineCashierOperations,
+  OfflineOperationInputs,
+  OfflineReceiptOperations,
+  toStorableInput,
+  validateOfflineInput,
+} from './typed-operations';
 
 export class OfflineManager {
   private queue: OperationQueue;
@@ -29,8 +48,21 @@ export class OfflineManager {
     isProcessing: false,
     queueStats: { total: 0, pending: 0, processing: 0, completed: 0, failed: 0 },
   });
+  private readonly deadLetterSubject = new BehaviorSubject<DeadLetter[]>([]);
+  private readonly resultSubject = new Subject<SyncResult>();
+  private readonly events: QueueEvents;
   private readonly destroy$ = new Subject<void>();
 
+  /** Typed receipt operations, validated when queued */
+  readonly receipts = new OfflineReceiptOperations((kind, input, options) =>
+    this.enqueue(kind, input, options)
+  );
+
+  /** Typed cashier operations, validated when queued */
+  readonly cashiers = new OfflineCashierOperations((kind, input, options) =>
+    this.enqueue(kind, input, options)
+  );
+
   get queue$(): Observable<QueuedOperation[]> {
     return this.queueSubject.asObservable();
   }
@@ -39,15 +71,30 @@ export class OfflineManager {
     return this.syncStatusSubject.asObservable();
   }
 
+  /** Operations that failed permanently, with their errors */
+  get deadLetters$(): Observable<DeadLetter[]> {
+    return this.deadLetterSubject.asObservable();
+  }
+
+  get deadLetterCount$(): Observable<number> {
+    return this.deadLetterSubject.pipe(
+      map((deadLetters) => deadLetters.length),
+      distinctUntilChanged()
+    );
+  }
+
   constructor(
     storage: IStorage,
     httpPort: IHttpPort,
     networkMonitor: INetworkMonitor,
     config: Partial<QueueConfig> = {},
     events: QueueEvents = {},
-    _cache?: ICacheAdapter
+    _cache?: ICacheAdapter,
+    queueStorage?: IQueueStoragePort,
+    syncCoordinator?: ISyncCoordinatorPort
   ) {
     const finalConfig = { ...DEFAULT_QUEUE_CONFIG, ...config };
+    this.events = events;
 
     const wrappedEvents: QueueEvents = {
       ...events,
@@ -57,11 +104,18 @@ export class OfflineManager {
       },
       onOperationCompleted: (result) => {
         this.updateQueueState();
+        this.resultSubject.next(result);
         events.onOperationCompleted?.(result);
       },
       onOperationFailed: (result) => {
         this.updateQueueState();
+        this.resultSubject.next(result);
         events.onOperationFailed?.(result);
+
+        const operation = this.queue.getOperation(result.operation.id);
+        if (operation?.status === 'failed') {
+          events.onOperationDeadLettered?.(operation);
+        }
       },
       onBatchSyncCompleted: (result) => {
         this.updateQueueState();
@@ -69,21 +123,91 @@ export class OfflineManager {
       },
     };
 
-    this.queue = new OperationQueue(storage, finalConfig, wrappedEvents);
+    const operationStorage = queueStorage ?? new KeyValueQueueStorage(storage);
+    // A queue saved by older versions in `storage` is migrated on load
+    this.queue = new OperationQueue(
+      syncCoordinator
+        ? new SharedQueueStorage(operationStorage, syncCoordinator)
+        : operationStorage,
+      finalConfig,
+      wrappedEvents,
+      { legacyStorage: storage, resumeInterrupted: !syncCoordinator }
+    );
     this.syncManager = new SyncManager(
       this.queue,
       httpPort,
       networkMonitor,
       finalConfig,
-      wrappedEvents
+      wrappedEvents,
+      syncCoordinator
     );
 
+    if (syncCoordinator) {
+      this.setupCoordination(syncCoordinator);
+    }
+
     this.updateQueueState();
   }
 
+  private setupCoordination(coordinator: ISyncCoordinatorPort): void {
+    coordinator.messages$
+      .pipe(takeUntil(this.destroy$))
+      .subscribe((message) => this.applyRemoteChange(message));
+
+    coordinator.isLeader$
+      .pipe(
+        filter((isLeader) => isLeader),
+        takeUntil(this.destroy$)
+      )
+      .subscribe(() => this.takeOverSync());
+  }
+
+  private applyRemoteChange(message: QueueSyncMessage): void {
+    switch (message.type) {
+      case 'operations-saved':
+        this.queue.applyRemoteSave(message.operations);
+        // Settles the operations watched here but synced by the leader
+        for (const operation of message.operations) {
+          if (operation.status === 'completed') {
+            this.resultSubject.next({ operation, success: true, response: operation.response });
+          } else if (operation.status === 'failed') {
+            this.resultSubject.next({ operation, success: false, error: operation.error });
+          }
+        }
+        break;
+      case 'operations-removed':
+        this.queue.applyRemoteRemoval(message.ids);
+        break;
+      case 'queue-cleared':
+        this.queue.applyRemoteRemoval();
+        break;
+      case 'sync-requested':
+        // A sync in progress also sends the operations added meanwhile
+        if (!this.getStatus().isProcessing) {
+          this.sync().catch((error) => this.events.onError?.(error));
+        }
+        break;
+    }
+    this.updateQueueState();
+  }
+
+  /** Resumes the operations a previous leader was sending when it went away */
+  private async takeOverSync(): Promise<void> {
+    try {
+      await this.queue.reload();
+      this.updateQueueState();
+      if (this.isOnline() && !this.isEmpty()) {
+        await this.sync();
+      }
+    } catch (error) {
+      this.events.onError?.(error instanceof Error ? error : new Error(String(error)));
+    }
+  }
+
   private updateQueueState(): void {
     this.queueSubject.next(this.queue.getPendingOperations());
     this.syncStatusSubject.next(this.syncManager.getSyncStatus());
+    this.deadLetterSubject.next(this.getDeadLetters());
   }
 
   async queueOperation(
@@ -92,46 +216,101 @@ export class OfflineManager {
     endpoint: string,
     method: 'GET' | 'POST' | 'PUT' | 'PATCH' | 'DELETE',
     data?: unknown,
-    priority: number = 1
+    priority: number = 1,
+    options: QueuedOperationOptions = {}
+  ): Promise<string> {
+    const id = await this.queue.addOperation(
+      type,
+      resource,
+      endpoint,
+      method,
+      data,
+      priority,
+      options
+    );
+    this.updateQueueState();
+    return id;
+  }
+
+  private async enqueue<K extends OfflineOperationKind>(
+    kind: K,
+    input: OfflineOperationInputs[K],
+    options: OfflineEnqueueOptions = {}
   ): Promise<string> {
-    const id = await this.queue.addOperation(type, resource, endpoint, method, data, priority);
+    validateOfflineInput(kind, input);
+
+    const { type, resource, endpoint, method, priority } = OFFLINE_OPERATIONS[kind];
+    const { priority: requestedPriority, ...queueOptions } = options;
+    const id = await this.queue.addOperation(
+      type,
+      resource,
+      endpoint,
+      method,
+      toStorableInput(input),
+      requestedPriority ?? priority,
+      { ...queueOptions, kind }
+    );
     this.updateQueueState();
     return id;
   }
 
-  async queueReceiptCreation(receiptData: unknown, priority: number = 2): Promise<string> {
+  /**
+   * Queues a receipt creation. Passing the point of sale serial number lets the sync look the
+   * receipt up after an ambiguous failure instead of posting it again.
+   *
+   * @deprecated Use `receipts.create`, which validates the input when it is queued
+   */
+  async queueReceiptCreation(
+    receiptData: unknown,
+    priority: number = 2,
+    options: QueuedOperationOptions = {}
+  ): Promise<string> {
     return await this.queueOperation(
       'CREATE',
       'receipt',
       '/mf1/receipts',
       'POST',
       receiptData,
-      priority
+      priority,
+      options
     );
   }
 
-  async queueReceiptVoid(voidData: unknown, priority: number = 3): Promise<string> {
+  /** @deprecated Use `receipts.void`, which validates the input when it is queued */
+  async queueReceiptVoid(
+    voidData: unknown,
+    priority: number = 3,
+    options: QueuedOperationOptions = {}
+  ): Promise<string> {
     return await this.queueOperation(
       'DELETE',
       'receipt',
       '/mf1/receipts',
       'DELETE',
       voidData,
-      priority
+      priority,
+      options
     );
   }
 
-  async queueReceiptReturn(returnData: unknown, priority: number = 3): Promise<string> {
+  /** @deprecated Use `receipts.returnItems`, which validates the input when it is queued */
+  async queueReceiptReturn(
+    returnData: unknown,
+    priority: number = 3,
+    options: QueuedOperationOptions = {}
+  ): Promise<string> {
     return await this.queueOperation(
       'CREATE',
       'receipt',
       '/mf1/receipts/return',
       'POST',
       returnData,
-      priority
+      priority,
+      options
     );
   }
 
+  /** @deprecated Use `cashiers.create`, which validates the input when it is queued */
   async queueCashierCreation(cashierData: unknown, priority: number = 1): Promise<string> {
     return await this.queueOperation(
       'CREATE',
@@ -173,6 +352,50 @@ export class OfflineManager {
     }
   }
 
+  getDeadLetters(): DeadLetter[] {
+    return this.queue.getFailedOperations().map(toDeadLetter);
+  }
+
+  /**
+   * Sends a failed operation again, with the dependents that failed because of it. The payload
+   * can be corrected first: the payload of a typed operation is validated as when it was queued.
+   */
+  async resubmitDeadLetter(id: string, data?: unknown): Promise<void> {
+    const kind = this.queue.getOperation(id)?.kind;
+    if (data !== undefined && kind) {
+      validateOfflineInput(kind, data as OfflineOperationInputs[typeof kind]);
+      data = toStorableInput(data);
+    }
+
+    const resubmitted = await this.queue.resubmit(id, data);
+    resubmitted.forEach((operation) => this.events.onOperationResubmitted?.(operation));
+    this.updateQueueState();
+    if (this.isOnline()) {
+      await this.sync();
+    }
+  }
+
+  /** Removes a failed operation, and its dependents that could never be sent */
+  async discardDeadLetter(id: string, reason: string): Promise<QueuedOperation[]> {
+    const discarded = await this.queue.discard(id, reason);
+    discarded.forEach((operation) => this.events.onOperationDiscarded?.(operation, reason));
+    this.updateQueueState();
+    return discarded;
+  }
+
+  /**
+   * Failed operations with their payloads and errors, to be attached to a support request. The
+   * payloads are decrypted even when the queue is encrypted: handle the report as sensitive data.
+   */
+  exportDeadLetters(ids?: string[]): DeadLetterReport {
+    return {
+      exportedAt: new Date().toISOString(),
+      operations: this.queue
+        .getFailedOperations()
+        .filter((operation) => !ids || ids.includes(operation.id)),
+    };
+  }
+
   async clearCompleted(): Promise<void> {
     await this.queue.clearCompleted();
     this.updateQueueState();
@@ -188,10 +411,49 @@ export class OfflineManager {
     this.updateQueueState();
   }
 
+  /**
+   * Emits the response of a queued operation once it is synced, then completes. Errors with the
+   * `ACubeSDKError` of the dead letter once the operation fails permanently; failed attempts that
+   * are retried are not reported.
+   */
+  watchOperation(id: string): Observable<unknown> {
+    return defer(() => {
+      const operation = this.queue.getOperation(id);
+      if (!operation) {
+        return throwError(() => new Error(`Unknown operation: ${id}`));
+      }
+      if (operation.status === 'completed') {
+        return of(operation.response);
+      }
+      if (operation.status === 'failed') {
+        return throwError(() => toDeadLetter(operation).error);
+      }
+
+      return this.resultSubject.pipe(
+        filter((result) => result.operation.id === id),
+        filter((result) => result.success || this.queue.getOperation(id)?.status === 'failed'),
+        take(1),
+        map((result) => {
+          const failed = this.queue.getOperation(id);
+          if (!result.success) {
+            throw failed ? toDeadLetter(failed).error : new Error(result.error ?? 'Unknown error');
+          }
+          return result.response;
+        }),
+        takeUntil(this.destroy$)
+      );
+    });
+  }
+
   getOperation(id: string) {
     return this.queue.getOperation(id);
   }
 
+  /** Resolves once the stored operations have been loaded */
+  ready(): Promise<void> {
+    return this.queue.ready();
+  }
+
   async removeOperation(id: string): Promise<boolean> {
     const result = await this.queue.removeOperation(id);
     this.updateQueueState();
@@ -0,0 +1,207 @@
+import { IStoragePort } from '@/application/ports/driven';
+import { createPrefixedLogger } from '@/shared/utils';
+
+const log = createPrefixedLogger('PAYLOAD-CIPHER');
+
+/** Storage of the encryption keys, the secure storage of the platform */
+export type CipherKeyStorage = Pick<IStoragePort, 'get' | 'set' | 'remove'>;
+
+/** Value encrypted with AES-GCM, safe to serialise as JSON */
+export interface EncryptedPayload {
+  keyId: string;
+  iv: string;
+  ciphertext: string;
+}
+
+interface Keyring {
+  currentKeyId: string;
+  /** Raw AES-256 keys, base64 encoded, by ID */
+  keys: Record<string, string>;
+}
+
+function toBase64(bytes: Uint8Array): string {
+  let binary = '';
+  bytes.forEach((byte) => (binary += String.fromCharCode(byte)));
+  return btoa(binary);
+}
+
+function fromBase64(value: string): Uint8Array<ArrayBuffer> {
+  return Uint8Array.from(atob(value), (char) => char.charCodeAt(0));
+}
+
+/**
+ * Encrypts JSON values with AES-GCM. The keys are kept under `keysStorageKey` in the key storage
+ * and created on the first encryption; rotation keeps the previous keys readable until it is
+ * completed, so that the values can be encrypted again in between.
+ *
+ * Key storages may report a failing read as a missing value: once a value could not be decrypted
+ * for want of its key, no new keys are created over the ones that could not be read.
+ */
+export class PayloadCipher {
+  private keyring: Promise<Keyring | null> | null = null;
+  private creatingKeyring: Promise<string> | null = null;
+  private readonly cryptoKeys = new Map<string, Promise<CryptoKey>>();
+  /** Keys of values that could not be decrypted, see `forgetUnknownKeys` */
+  private readonly unknownKeyIds = new Set<string>();
+
+  constructor(
+    private readonly keyStorage: CipherKeyStorage,
+    private readonly keysStorageKey: string
+  ) {}
+
+  static isAvailable(): boolean {
+    return typeof globalThis.crypto?.subtle?.encrypt === 'function';
+  }
+
+  /** Loads the keys, so that a failing key storage is not taken for lost keys */
+  async ready(): Promise<void> {
+    await this.loadKeyring();
+  }
+
+  async encrypt(value: unknown): Promise<EncryptedPayload> {
+    const keyId = await this.currentKeyId();
+    const iv = globalThis.crypto.getRandomValues(new Uint8Array(12));
+    const ciphertext = await globalThis.crypto.subtle.encrypt(
+      { name: 'AES-GCM', iv },
+      await this.cryptoKey(keyId),
+      new TextEncoder().encode(JSON.stringify(value))
+    );
+    return { keyId, iv: toBase64(iv), ciphertext: toBase64(new Uint8Array(ciphertext)) };
+  }
+
+  /**
+   * @throws Error when the key of the payload is gone or the payload was tampered with
+   */
+  async decrypt<T>(payload: EncryptedPayload): Promise<T> {
+    const plaintext = await globalThis.crypto.subtle.decrypt(
+      { name: 'AES-GCM', iv: fromBase64(payload.iv) },
+      await this.cryptoKey(payload.keyId),
+      fromBase64(payload.ciphertext)
+    );
+    return JSON.parse(new TextDecoder().decode(plaintext)) as T;
+  }
+
+  /** Makes a new key current, the previous ones can still decrypt */
+  async beginRotation(): Promise<void> {
+    const previous = await this.loadKeyring();
+    const keyId = this.generateKeyId();
+    await this.storeKeyring({
+      currentKeyId: keyId,
+      keys: { ...previous?.keys, [keyId]: this.generateKey() },
+    });
+  }
+
+  /** Forgets every key but the current one */
+  async completeRotation(): Promise<void> {
+    const keyring = await this.loadKeyring();
+    if (!keyring) return;
+
+    const { currentKeyId } = keyring;
+    await this.storeKeyring({
+      currentKeyId,
+      keys: { [currentKeyId]: keyring.keys[currentKeyId]! },
+    });
+    [...this.cryptoKeys.keys()]
+      .filter((id) => id !== currentKeyId)
+      .forEach((id) => this.cryptoKeys.delete(id));
+  }
+
+  async destroyKeys(): Promise<void> {
+    await this.keyStorage.remove(this.keysStorageKey);
+    this.keyring = Promise.resolve(null);
+    this.cryptoKeys.clear();
+    this.unknownKeyIds.clear();
+  }
+
+  /** Reads the keys from the key storage again, e.g. after another context rotated them */
+  reloadKeys(): void {
+    this.keyring = null;
+    this.cryptoKeys.clear();
+  }
+
+  /**
+   * Allows new keys to be created again once the values encrypted with the unknown keys have
+   * been removed
+   */
+  forgetUnknownKeys(): void {
+    this.unknownKeyIds.clear();
+  }
+
+  private cryptoKey(keyId: string): Promise<CryptoKey> {
+    let cryptoKey = this.cryptoKeys.get(keyId);
+    if (!cryptoKey) {
+      cryptoKey = this.loadKeyring().then(async (cached) => {
+        // Another context may have rotated the keys since they were loaded
+        const keyring = cached?.keys[keyId] ? cached : await this.reloadKeyring();
+        const raw = keyring?.keys[keyId];
+        if (!raw) {
+          this.unknownKeyIds.add(keyId);
+          throw new Error(`Unknown encryption key: ${keyId}`);
+        }
+        return globalThis.crypto.subtle.importKey('raw', fromBase64(raw), 'AES-GCM', false, [
+          'encrypt',
+          'decrypt',
+        ]);
+      });
+      cryptoKey.catch(() => this.cryptoKeys.delete(keyId));
+      this.cryptoKeys.set(keyId, cryptoKey);
+    }
+    return cryptoKey;
+  }
+
+  private async currentKeyId(): Promise<string> {
+    const keyring = await this.loadKeyring();
+    if (keyring) return keyring.currentKeyId;
+
+    if (this.unknownKeyIds.size > 0) {
+      // The keys may exist but be unreadable: replacing them would lose the values for good
+      throw new Error('Encryption keys cannot be read, refusing to create new ones');
+    }
+
+    // Values encrypted together must not each create a key
+    if (!this.creatingKeyring) {
+      const keyId = this.generateKeyId();
+      this.creatingKeyring = this.storeKeyring({
+        currentKeyId: keyId,
+        keys: { [keyId]: this.generateKey() },
+      })
+        .then(() => keyId)
+        .finally(() => (this.creatingKeyring = null));
+    }
+    return this.creatingKeyring;
+  }
+
+  private loadKeyring(): Promise<Keyring | null> {
+    if (!this.keyring) {
+      this.keyring = this.keyStorage.get(this.keysStorageKey).then((value) => {
+        if (!value) return null;
+        try {
+          return JSON.parse(value) as Keyring;
+        } catch {
+          log.warn('Discarding unreadable encryption keys', { key: this.keysStorageKey });
+          return null;
+        }
+      });
+      this.keyring.catch(() => (this.keyring = null));
+    }
+    return this.keyring;
+  }
+
+  private reloadKeyring(): Promise<Keyring | null> {
+    this.keyring = null;
+    return this.loadKeyring();
+  }
+
+  private async storeKeyring(keyring: Keyring): Promise<void> {
+    await this.keyStorage.set(this.keysStorageKey, JSON.stringify(keyring));
+    this.keyring = Promise.resolve(keyring);
+  }
+
+  private generateKey(): string {
+    return toBase64(globalThis.crypto.getRandomValues(new Uint8Array(32)));
+  }
+
+  private generateKeyId(): string {
+    return `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`;
+  }
+}
@@ -0,0 +1,88 @@
+const PLACEHOLDER_PATTERN = /\{\{op:([^:}]+):([^}]+)\}\}/g;
+const WHOLE_PLACEHOLDER_PATTERN = /^\{\{op:([^:}]+):([^}]+)\}\}$/;
+
+/**
+ * Placeholder for a field of another queued operation's response, replaced when the
+ * operation holding it is synced. Dotted paths read nested fields.
+ *
+ * An operation whose data or endpoint contains placeholders depends on the referenced
+ * operations and is held until they complete.
+ *
+ * @example
+ * ```typescript
+ * const saleId = await offlineManager.queueReceiptCreation(sale);
+ * await offlineManager.queueReceiptVoid({
+ *   document_number: responsePlaceholder(saleId, 'document_number'),
+ * });
+ * ```
+ */
+export function responsePlaceholder(operationId: string, path: string): string {
+  return `{{op:${operationId}:${path}}}`;
+}
+
+function collectStrings(value: unknown, strings: string[]): string[] {
+  if (typeof value === 'string') {
+    strings.push(value);
+  } else if (Array.isArray(value)) {
+    value.forEach((item) => collectStrings(item, strings));
+  } else if (value !== null && typeof value === 'object') {
+    Object.values(value).forEach((item) => collectStrings(item, strings));
+  }
+  return strings;
+}
+
+/** IDs of the operations referenced by placeholders anywhere in `value` */
+export function findPlaceholderDependencies(value: unknown): string[] {
+  const ids = new Set<string>();
+  for (const text of collectStrings(value, [])) {
+    for (const match of text.matchAll(PLACEHOLDER_PATTERN)) {
+      ids.add(match[1]!);
+    }
+  }
+  return [...ids];
+}
+
+function readPath(source: unknown, path: string): unknown {
+  return path
+    .split('.')
+    .reduce<unknown>(
+      (current, key) =>
+        current !== null && typeof current === 'object'
+          ? (current as Record<string, unknown>)[key]
+          : undefined,
+      source
+    );
+}
+
+/**
+ * Replaces every placeholder in `value` with the referenced response field. A string that is
+ * a single placeholder takes the field as is, otherwise the field is interpolated.
+ *
+ * @throws Error when the referenced response or field is missing
+ */
+export function resolvePlaceholders<T>(value: T, getResponse: (operationId: string) => unknown): T {
+  const lookup = (operationId: string, path: string): unknown => {
+    const field = readPath(getResponse(operationId), path);
+    if (field === undefined || field === null) {
+      throw new Error(`Response of operation ${operationId} has no "${path}"`);
+    }
+    return field;
+  };
+
+  const resolve = (current: unknown): unknown => {
+    if (typeof current === 'string') {
+      const whole = WHOLE_PLACEHOLDER_PATTERN.exec(current);
+      if (whole) return lookup(whole[1]!, whole[2]!);
+      return current.replace(PLACEHOLDER_PATTERN, (_match, id: string, path: string) =>
+        String(lookup(id, path))
+      );
+    }
+    if (Array.isArray(current)) return current.map(resolve);
+    if (current !== null && typeof current === 'object') {
+      return Object.fromEntries(Object.entries(current).map(([key, item]) => [key, resolve(item)]));
+    }
+    return current;
+  };
+
+  return resolve(value) as T;
+}
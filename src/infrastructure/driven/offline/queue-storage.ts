@@ -0,0 +1,82 @@
+import { IQueueStoragePort, IStoragePort as IStorage } from '@/application/ports/driven';
+import { QueuedOperation } from '@/domain/entities/offline.entity';
+import { createPrefixedLogger } from '@/shared/utils';
+
+const log = createPrefixedLogger('QUEUE-STORAGE');
+
+/** Key under which older versions saved the whole queue as a single JSON array */
+export const LEGACY_QUEUE_KEY = 'acube_operation_queue';
+
+/**
+ * Queue storage over a key-value storage, one key per operation. Used when the platform has no
+ * dedicated queue storage.
+ */
+export class KeyValueQueueStorage implements IQueueStoragePort {
+  private static readonly KEY_PREFIX = `${LEGACY_QUEUE_KEY}:`;
+
+  constructor(private readonly storage: IStorage) {}
+
+  async loadAll(): Promise<QueuedOperation[]> {
+    const values = await this.storage.multiGet(await this.getKeys());
+    return Object.values(values).flatMap((value) => {
+      if (!value) return [];
+      try {
+        return [JSON.parse(value) as QueuedOperation];
+      } catch {
+        log.warn('Skipping unreadable queued operation');
+        return [];
+      }
+    });
+  }
+
+  async save(operations: QueuedOperation[]): Promise<void> {
+    await this.storage.multiSet(
+      Object.fromEntries(operations.map((op) => [this.keyOf(op.id), JSON.stringify(op)]))
+    );
+  }
+
+  async remove(ids: string[]): Promise<void> {
+    await this.storage.multiRemove(ids.map((id) => this.keyOf(id)));
+  }
+
+  async clear(): Promise<void> {
+    await this.storage.multiRemove(await this.getKeys());
+  }
+
+  private keyOf(id: string): string {
+    return `${KeyValueQueueStorage.KEY_PREFIX}${id}`;
+  }
+
+  private async getKeys(): Promise<string[]> {
+    const keys = await this.storage.getAllKeys();
+    return keys.filter((key) => key.startsWith(KeyValueQueueStorage.KEY_PREFIX));
+  }
+}
+
+/**
+ * Moves a queue saved by older versions under `LEGACY_QUEUE_KEY` into the queue storage. The
+ * legacy key is removed only once every operation has been saved.
+ *
+ * @returns the number of migrated operations
+ */
+export async function migrateLegacyQueue(
+  storage: IStorage,
+  queueStorage: IQueueStoragePort
+): Promise<number> {
+  const legacy = await storage.get(LEGACY_QUEUE_KEY);
+  if (!legacy) return 0;
+
+  let operations: QueuedOperation[];
+  try {
+    operations = JSON.parse(legacy);
+  } catch {
+    log.warn('Discarding unreadable legacy queue');
+    await storage.remove(LEGACY_QUEUE_KEY);
+    return 0;
+  }
+
+  await queueStorage.save(operations);
+  await storage.remove(LEGACY_QUEUE_KEY);
+  log.info('Migrated legacy operation queue', { operations: operations.length });
+  return operations.length;
+}
@@ -1,4 +1,4 @@
-import { IStoragePort as IStorage } from '@/application/ports/driven';
+import { IQueueStoragePort, IStoragePort as IStorage } from '@/application/ports/driven';
 import {
   DEFAULT_QUEUE_CONFIG,
   HttpMethod,
@@ -7,22 +7,41 @@ import {
   QueueEvents,
   QueueStats,
   QueuedOperation,
+  QueuedOperationOptions,
   ResourceType,
 } from '@/domain/entities/offline.entity';
+import { generateIdempotencyKey } from '@/shared/utils';
+
+import { findPlaceholderDependencies } from './placeholders';
+import { migrateLegacyQueue } from './queue-storage';
+
+export interface OperationQueueOptions {
+  /**
+   * Storage holding a queue saved under a single key by older versions, migrated to the queue
+   * storage when the queue is loaded
+   */
+  legacyStorage?: IStorage;
+  /**
+   * Whether operations found processing on load are sent again. Disable it when another context
+   * may still be sending them: `reload` resumes them once this one takes over.
+   */
+  resumeInterrupted?: boolean;
+}
 
 export class OperationQueue {
-  private static readonly QUEUE_KEY = 'acube_operation_queue';
   private queue: QueuedOperation[] = [];
   private processing = false;
   private syncIntervalId?: ReturnType<typeof setInterval>;
+  private readonly loading: Promise<void>;
 
   constructor(
-    private storage: IStorage,
+    private storage: IQueueStoragePort,
     private config: QueueConfig = DEFAULT_QUEUE_CONFIG,
-    private events: QueueEvents = {}
+    private events: QueueEvents = {},
+    private options: OperationQueueOptions = {}
   ) {
     this.config = { ...DEFAULT_QUEUE_CONFIG, ...config };
-    this.loadQueue();
+    this.loading = this.loadQueue(options.resumeInterrupted ?? true);
 
     if (this.config.syncInterval > 0) {
       this.startAutoSync();
@@ -35,12 +54,28 @@ export class OperationQueue {
     endpoint: string,
     method: HttpMethod,
     data?: unknown,
-    priority: number = 1
+    priority: number = 1,
+    options: QueuedOperationOptions & Pick<QueuedOperation, 'kind'> = {}
   ): Promise<string> {
+    // Dependencies may be stored operations not loaded yet
+    await this.loading;
+
+    const dependsOn = [
+      ...new Set([...(options.dependsOn ?? []), ...findPlaceholderDependencies([endpoint, data])]),
+    ];
+    const unknown = dependsOn.filter((id) => !this.getOperation(id));
+    if (unknown.length > 0) {
+      throw new Error(`Unknown dependencies: ${unknown.join(', ')}`);
+    }
+
     if (this.queue.length >= this.config.maxQueueSize) {
-      const lowPriorityIndex = this.queue.findIndex((op) => op.priority === 1);
+      // Operations others depend on are kept, evicting them would leave the dependents stuck
+      const lowPriorityIndex = this.queue.findIndex(
+        (op) => op.priority === 1 && this.getDependents(op.id).length === 0
+      );
       if (lowPriorityIndex !== -1) {
-        this.queue.splice(lowPriorityIndex, 1);
+        const [evicted] = this.queue.splice(lowPriorityIndex, 1);
+        await this.forget([evicted!.id]);
       } else {
         throw new Error('Queue is full');
       }
@@ -53,12 +88,18 @@ export class OperationQueue {
       endpoint,
       method,
       data,
+      kind: options.kind,
       status: 'pending',
       createdAt: Date.now(),
       updatedAt: Date.now(),
       retryCount: 0,
       maxRetries: this.config.maxRetries,
       priority,
+      idempotencyKey:
+        options.idempotencyKey ?? (resource === 'receipt' ? generateIdempotencyKey() : undefined),
+      serialNumber: options.serialNumber,
+      lastAttempt: options.lastAttempt,
+      dependsOn: dependsOn.length > 0 ? dependsOn : undefined,
     };
 
     const insertIndex = this.queue.findIndex((op) => op.priority < priority);
@@ -68,7 +109,7 @@ export class OperationQueue {
       this.queue.splice(insertIndex, 0, operation);
     }
 
-    await this.saveQueue();
+    await this.persist([operation]);
     this.events.onOperationAdded?.(operation);
 
     return operation.id;
@@ -87,7 +128,7 @@ export class OperationQueue {
     if (index === -1) return false;
 
     this.queue.splice(index, 1);
-    await this.saveQueue();
+    await this.forget([id]);
     return true;
   }
 
@@ -95,8 +136,8 @@ export class OperationQueue {
     const operation = this.queue.find((op) => op.id === id);
     if (!operation) return false;
 
-    Object.assign(operation, { ...updates, updatedAt: Date.now() });
-    await this.saveQueue();
+    Object.assign(operation, { ...updates, updatedAt: this.nextUpdatedAt(operation) });
+    await this.persist([operation]);
     return true;
   }
 
@@ -112,34 +153,139 @@ export class OperationQueue {
 
   async clearQueue(): Promise<void> {
     this.queue = [];
-    await this.saveQueue();
+    try {
+      await this.storage.clear();
+    } catch (error) {
+      this.events.onError?.(new Error(`Failed to clear queue: ${error}`));
+    }
   }
 
   async clearCompleted(): Promise<void> {
-    this.queue = this.queue.filter((op) => op.status !== 'completed');
-    await this.saveQueue();
+    // Dependents that have not run yet still need the response of their parents
+    const needed = new Set(
+      this.queue.filter((op) => op.status !== 'completed').flatMap((op) => op.dependsOn ?? [])
+    );
+    await this.removeWhere((op) => op.status === 'completed' && !needed.has(op.id));
   }
 
   async clearFailed(): Promise<void> {
-    this.queue = this.queue.filter((op) => op.status !== 'failed');
-    await this.saveQueue();
+    await this.removeWhere((op) => op.status === 'failed');
   }
 
   async retryFailed(): Promise<void> {
-    for (const operation of this.queue.filter((op) => op.status === 'failed')) {
-      if (operation.retryCount < operation.maxRetries) {
-        operation.status = 'pending';
-        operation.retryCount++;
-        operation.updatedAt = Date.now();
-        delete operation.error;
+    const retried = this.queue.filter(
+      (op) => op.status === 'failed' && op.retryCount < op.maxRetries
+    );
+    for (const operation of retried) {
+      operation.status = 'pending';
+      operation.retryCount++;
+      operation.updatedAt = this.nextUpdatedAt(operation);
+      delete operation.error;
+      delete operation.failure;
+    }
+    await this.persist(retried);
+  }
+
+  /** Operations that failed permanently */
+  getFailedOperations(): QueuedOperation[] {
+    return this.queue.filter((op) => op.status === 'failed');
+  }
+
+  /**
+   * Sends a failed operation again from its first attempt, with the dependents that failed
+   * because of it. Replacing the payload also replaces the idempotency key, which the server
+   * would otherwise reject for a different request.
+   *
+   * @returns the resubmitted operations
+   */
+  async resubmit(id: string, data?: unknown): Promise<QueuedOperation[]> {
+    const operation = this.getOperation(id);
+    if (operation?.status !== 'failed') {
+      throw new Error(`Operation ${id} has not failed`);
+    }
+
+    if (data !== undefined) {
+      operation.data = data;
+      if (operation.idempotencyKey) operation.idempotencyKey = generateIdempotencyKey();
+      delete operation.lastAttempt;
+    }
+
+    const resubmitted = [
+      operation,
+      ...this.getDependents(id).filter((op) => op.status === 'failed' && op.failure?.dependencyId),
+    ];
+    for (const op of resubmitted) {
+      op.status = 'pending';
+      op.retryCount = 0;
+      op.updatedAt = this.nextUpdatedAt(op);
+      delete op.error;
+      delete op.failure;
+    }
+    await this.persist(resubmitted);
+    return resubmitted;
+  }
+
+  /**
+   * Removes a failed operation together with its dependents, which could never be sent
+   *
+   * @returns the removed operations
+   */
+  async discard(id: string, reason: string): Promise<QueuedOperation[]> {
+    const operation = this.getOperation(id);
+    if (operation?.status !== 'failed') {
+      throw new Error(`Operation ${id} has not failed`);
+    }
+
+    const discarded = [
+      operation,
+      ...this.getDependents(id).filter((op) => op.status !== 'completed'),
+    ];
+    for (const op of discarded) {
+      op.discardReason = reason;
+      op.updatedAt = this.nextUpdatedAt(op);
+    }
+    // Kept with the reason should the removal fail halfway
+    await this.persist(discarded);
+    await this.removeWhere((op) => discarded.includes(op));
+    return discarded;
+  }
+
+  /** Operations depending, directly or not, on the given one */
+  getDependents(id: string): QueuedOperation[] {
+    const dependents: QueuedOperation[] = [];
+    const parents = [id];
+
+    for (let parent = parents.pop(); parent !== undefined; parent = parents.pop()) {
+      for (const op of this.queue) {
+        if (op.dependsOn?.includes(parent) && !dependents.includes(op)) {
+          dependents.push(op);
+          parents.push(op.id);
+        }
       }
     }
-    await this.saveQueue();
+    return dependents;
   }
 
+  /** Marks every dependent of a permanently failed operation as failed too */
+  async failDependents(id: string, error: string): Promise<QueuedOperation[]> {
+    const failed = this.getDependents(id).filter((op) => op.status !== 'completed');
+    for (const op of failed) {
+      const message = `Dependency ${id} failed: ${error}`;
+      Object.assign(op, {
+        status: 'failed',
+        error: message,
+        failure: { message, dependencyId: id, failedAt: Date.now() },
+        updatedAt: this.nextUpdatedAt(op),
+      });
+    }
+    await this.persist(failed);
+    return failed;
+  }
+
+  /** Pending operations whose dependencies have all completed, by priority then age */
   getNextBatch(): QueuedOperation[] {
     return this.queue
-      .filter((op) => op.status === 'pending')
+      .filter((op) => op.status === 'pending' && this.areDependenciesCompleted(op))
       .sort((a, b) => b.priority - a.priority || a.createdAt - b.createdAt)
       .slice(0, this.config.batchSize);
   }
@@ -173,30 +319,105 @@ export class OperationQueue {
     return this.processing;
   }
 
-  private async loadQueue(): Promise<void> {
+  /** Resolves once the stored operations have been loaded */
+  ready(): Promise<void> {
+    return this.loading;
+  }
+
+  /** Loads the stored operations again, e.g. when taking over the sync from another context */
+  async reload(): Promise<void> {
+    await this.loading;
+    await this.loadQueue(true);
+  }
+
+  /**
+   * Applies operations saved by another context sharing the storage, without storing them. A
+   * copy older than the one already here, e.g. loaded from the storage before the message
+   * arrived, is ignored.
+   */
+  applyRemoteSave(operations: QueuedOperation[]): void {
+    for (const operation of operations) {
+      const index = this.queue.findIndex((op) => op.id === operation.id);
+      if (index === -1) {
+        this.queue.push(operation);
+      } else if (operation.updatedAt >= this.queue[index]!.updatedAt) {
+        this.queue[index] = operation;
+      }
+    }
+    this.queue.sort((a, b) => b.priority - a.priority || a.createdAt - b.createdAt);
+  }
+
+  /** Applies a removal made by another context sharing the storage, all operations if no IDs */
+  applyRemoteRemoval(ids?: string[]): void {
+    this.queue = ids ? this.queue.filter((op) => !ids.includes(op.id)) : [];
+  }
+
+  private async loadQueue(resumeInterrupted: boolean): Promise<void> {
     try {
-      const queueData = await this.storage.get(OperationQueue.QUEUE_KEY);
-      if (queueData) {
-        this.queue = JSON.parse(queueData);
-        this.queue.forEach((op) => {
-          if (op.status === 'processing') {
-            op.status = 'pending';
-          }
-        });
+      if (this.options.legacyStorage) {
+        await migrateLegacyQueue(this.options.legacyStorage, this.storage);
       }
-    } catch {
-      this.queue = [];
+
+      const stored = await this.storage.loadAll();
+      // Interrupted while being sent, the operation is sent again, unless it is being sent here
+      const interrupted =
+        resumeInterrupted && !this.processing
+          ? stored.filter((op) => op.status === 'processing')
+          : [];
+      interrupted.forEach((op) => {
+        op.status = 'pending';
+        op.updatedAt = this.nextUpdatedAt(op);
+      });
+
+      // Operations added or changed here while loading are kept
+      const current = new Map(this.queue.map((op) => [op.id, op]));
+      const loaded = stored.map((op) => {
+        const local = current.get(op.id);
+        return local && local.updatedAt > op.updatedAt ? local : op;
+      });
+      const added = this.queue.filter((op) => !stored.some((storedOp) => storedOp.id === op.id));
+      this.queue = [...loaded, ...added].sort(
+        (a, b) => b.priority - a.priority || a.createdAt - b.createdAt
+      );
+      await this.persist(interrupted);
+    } catch (error) {
+      this.events.onError?.(new Error(`Failed to load queue: ${error}`));
+    }
+  }
+
+  private async persist(operations: QueuedOperation[]): Promise<void> {
+    if (operations.length === 0) return;
+    try {
+      await this.storage.save(operations);
+    } catch (error) {
+      this.events.onError?.(new Error(`Failed to save queue: ${error}`));
     }
   }
 
-  private async saveQueue(): Promise<void> {
+  private async forget(ids: string[]): Promise<void> {
+    if (ids.length === 0) return;
     try {
-      await this.storage.set(OperationQueue.QUEUE_KEY, JSON.stringify(this.queue));
+      await this.storage.remove(ids);
     } catch (error) {
       this.events.onError?.(new Error(`Failed to save queue: ${error}`));
     }
   }
 
+  private async removeWhere(predicate: (operation: QueuedOperation) => boolean): Promise<void> {
+    const removed = this.queue.filter(predicate);
+    this.queue = this.queue.filter((op) => !predicate(op));
+    await this.forget(removed.map((op) => op.id));
+  }
+
+  /** Strictly increasing, so that copies of the operation can be told apart by age */
+  private nextUpdatedAt(operation: QueuedOperation): number {
+    return Math.max(Date.now(), operation.updatedAt + 1);
+  }
+
+  private areDependenciesCompleted(operation: QueuedOperation): boolean {
+    return (operation.dependsOn ?? []).every((id) => this.getOperation(id)?.status === 'completed');
+  }
+
   private generateId(): string {
     return `${Date.now()}-${Math.random().toString(36).substr(2, 9)}`;
   }
@@ -0,0 +1,323 @@
+import { ReceiptApiOutput, ReceiptMapper } from '@/application/dto/receipt.dto';
+import { IStoragePort } from '@/application/ports/driven';
+import { QueuedOperation } from '@/domain/entities/offline.entity';
+import { Receipt, ReceiptInput } from '@/domain/entities/receipt.entity';
+import { createPrefixedLogger } from '@/shared/utils';
+
+import { EncryptedPayload, PayloadCipher } from './payload-cipher';
+import { responsePlaceholder } from './placeholders';
+import { toStorableInput } from './typed-operations';
+
+const log = createPrefixedLogger('RECEIPT-JOURNAL');
+
+/** Key of the secure storage holding the keys the journal is encrypted with */
+export const RECEIPT_JOURNAL_KEYS_STORAGE_KEY = 'acube_receipt_journal_keys';
+
+const ENTRY_PREFIX = 'acube_receipt_journal:';
+const SEQUENCE_PREFIX = 'acube_receipt_journal_sequence:';
+/** Web Lock keeping browser tabs from assigning the same number */
+const JOURNAL_LOCK = 'acube_receipt_journal';
+
+/**
+ * - `provisional`: queued, the receipt has not been issued yet
+ * - `issued`: synced, `receipt` holds the receipt issued by the server
+ * - `failed`: the queued sale failed permanently, see the dead letters
+ * - `discarded`: the queued sale was discarded and will never be issued
+ */
+export type ReceiptJournalStatus = 'provisional' | 'issued' | 'failed' | 'discarded';
+
+/** Sale handed out with a provisional number while the receipt could not be issued */
+export interface ReceiptJournalEntry {
+  cashRegisterId: string;
+  /** Sequential per cash register, starting from 1 */
+  provisionalNumber: number;
+  /** Queued operation issuing the receipt */
+  operationId: string;
+  input: ReceiptInput;
+  /** When the sale was recorded, ISO 8601 */
+  createdAt: string;
+  status: ReceiptJournalStatus;
+  receipt?: Receipt;
+  error?: string;
+}
+
+export interface ReceiptJournalQuery {
+  cashRegisterId?: string;
+  status?: ReceiptJournalStatus;
+  /** Entries recorded from this date, included */
+  from?: Date;
+  /** Entries recorded before this date */
+  to?: Date;
+}
+
+/** Fields of an entry that can carry customer and payment data */
+interface SensitiveFields {
+  input?: ReceiptInput;
+  response?: ReceiptApiOutput;
+  error?: string;
+}
+
+type StoredEntry = Omit<ReceiptJournalEntry, 'input' | 'receipt' | 'error'> &
+  SensitiveFields & { encrypted?: EncryptedPayload };
+
+/**
+ * Local journal of the sales queued while the PEM was unreachable. Each sale gets a provisional
+ * number, sequential per cash register, and is linked to the receipt issued once it is synced.
+ * Entries are encrypted when a cipher is given.
+ */
+export class ReceiptJournal {
+  private tail: Promise<unknown> = Promise.resolve();
+
+  constructor(
+    private readonly storage: IStoragePort,
+    private readonly cipher?: PayloadCipher
+  ) {}
+
+  /** Assigns the next provisional number of the cash register to a queued sale */
+  record(
+    cashRegisterId: string,
+    operationId: string,
+    input: ReceiptInput
+  ): Promise<ReceiptJournalEntry> {
+    return this.exclusive(async () => {
+      const sequenceKey = `${SEQUENCE_PREFIX}${encodeURIComponent(cashRegisterId)}`;
+      const provisionalNumber = Number((await this.storage.get(sequenceKey)) ?? 0) + 1;
+      const entry: ReceiptJournalEntry = {
+        cashRegisterId,
+        provisionalNumber,
+        operationId,
+        input: toStorableInput(input),
+        createdAt: new Date().toISOString(),
+        status: 'provisional',
+      };
+
+      // Stored with the sequence, so that a number is never assigned twice
+      await this.storage.multiSet({
+        [sequenceKey]: String(provisionalNumber),
+        [this.keyOf(cashRegisterId, provisionalNumber)]: await this.serialize(entry),
+      });
+      log.debug('Recorded provisional receipt', { cashRegisterId, provisionalNumber, operationId });
+      return entry;
+    });
+  }
+
+  async get(
+    cashRegisterId: string,
+    provisionalNumber: number
+  ): Promise<ReceiptJournalEntry | null> {
+    const value = await this.storage.get(this.keyOf(cashRegisterId, provisionalNumber));
+    return value ? this.deserialize(value) : null;
+  }
+
+  async findByOperationId(operationId: string): Promise<ReceiptJournalEntry | null> {
+    return (await this.find()).find((entry) => entry.operationId === operationId) ?? null;
+  }
+
+  /** Entries matching the query, by cash register then provisional number */
+  async find(query: ReceiptJournalQuery = {}): Promise<ReceiptJournalEntry[]> {
+    const { cashRegisterId, status, from, to } = query;
+    return (await this.loadAll())
+      .filter(
+        (entry) =>
+          (cashRegisterId === undefined || entry.cashRegisterId === cashRegisterId) &&
+          (status === undefined || entry.status === status) &&
+          (from === undefined || new Date(entry.createdAt) >= from) &&
+          (to === undefined || new Date(entry.createdAt) < to)
+      )
+      .sort(
+        (a, b) =>
+          a.cashRegisterId.localeCompare(b.cashRegisterId) ||
+          a.provisionalNumber - b.provisionalNumber
+      );
+  }
+
+  /**
+   * Document number to void or return a provisionally numbered sale with. Until the receipt is
+   * issued this is a placeholder: the void or return is queued and sent after the sale.
+   *
+   * @throws Error when the entry does not exist or the sale will never be issued
+   */
+  async documentNumberOf(cashRegisterId: string, provisionalNumber: number): Promise<string> {
+    const entry = await this.get(cashRegisterId, provisionalNumber);
+    if (!entry) {
+      throw new Error(`No provisional receipt ${provisionalNumber} for ${cashRegisterId}`);
+    }
+
+    switch (entry.status) {
+      case 'issued':
+        return entry.receipt!.documentNumber;
+      case 'provisional':
+        return responsePlaceholder(entry.operationId, 'document_number');
+      default:
+        throw new Error(`Provisional receipt ${provisionalNumber} is ${entry.status}`);
+    }
+  }
+
+  /**
+   * Brings the entry of a queued sale in line with the operation: a completed operation links
+   * the issued receipt. Operations without an entry are ignored.
+   */
+  follow(operation: QueuedOperation): Promise<void> {
+    return this.exclusive(async () => {
+      const entry = await this.findByOperationId(operation.id);
+      if (!entry || entry.status === 'issued' || entry.status === 'discarded') return;
+
+      switch (operation.status) {
+        case 'completed':
+          entry.status = 'issued';
+          entry.receipt = ReceiptMapper.fromApiOutput(operation.response as ReceiptApiOutput);
+          delete entry.error;
+          break;
+        case 'failed':
+          entry.status = 'failed';
+          entry.error = operation.error;
+          break;
+        default:
+          entry.status = 'provisional';
+          delete entry.error;
+      }
+      await this.storage.set(
+        this.keyOf(entry.cashRegisterId, entry.provisionalNumber),
+        await this.serialize(entry)
+      );
+    });
+  }
+
+  /** Marks the entry of a sale that was discarded from the queue */
+  discard(operationId: string): Promise<void> {
+    return this.exclusive(async () => {
+      const entry = await this.findByOperationId(operationId);
+      if (!entry || entry.status === 'issued') return;
+
+      entry.status = 'discarded';
+      await this.storage.set(
+        this.keyOf(entry.cashRegisterId, entry.provisionalNumber),
+        await this.serialize(entry)
+      );
+    });
+  }
+
+  /**
+   * Follows every entry not issued yet, e.g. once the queue is loaded after the sales were
+   * synced in the background. Operations no longer in the queue are left as they are.
+   */
+  async reconcile(getOperation: (id: string) => QueuedOperation | undefined): Promise<void> {
+    const entries = await this.find();
+    for (const entry of entries) {
+      if (entry.status !== 'provisional' && entry.status !== 'failed') continue;
+      const operation = getOperation(entry.operationId);
+      if (operation) await this.follow(operation);
+    }
+  }
+
+  /**
+   * Removes the issued and discarded entries recorded before `before`. Numbering goes on from
+   * the last number assigned.
+   *
+   * @returns the number of removed entries
+   */
+  prune(before: Date): Promise<number> {
+    return this.exclusive(async () => {
+      const removed = (await this.loadAll()).filter(
+        (entry) =>
+          (entry.status === 'issued' || entry.status === 'discarded') &&
+          new Date(entry.createdAt) < before
+      );
+      await this.storage.multiRemove(
+        removed.map((entry) => this.keyOf(entry.cashRegisterId, entry.provisionalNumber))
+      );
+      return removed.length;
+    });
+  }
+
+  /** Removes every entry, restarts the numbering and forgets the encryption keys */
+  clear(): Promise<void> {
+    return this.exclusive(async () => {
+      const keys = (await this.storage.getAllKeys()).filter(
+        (key) => key.startsWith(ENTRY_PREFIX) || key.startsWith(SEQUENCE_PREFIX)
+      );
+      await this.storage.multiRemove(keys);
+      await this.cipher?.destroyKeys();
+    });
+  }
+
+  /** Reads the keys again, e.g. after another context rotated them */
+  reloadKeys(): Promise<void> {
+    return this.exclusive(async () => this.cipher?.reloadKeys());
+  }
+
+  /** Encrypts the entries with a new key, then forgets the previous ones */
+  rotateKey(): Promise<void> {
+    return this.exclusive(async () => {
+      if (!this.cipher) return;
+
+      const entries = await this.loadAll();
+      await this.cipher.beginRotation();
+      await this.storage.multiSet(
+        Object.fromEntries(
+          await Promise.all(
+            entries.map(async (entry) => [
+              this.keyOf(entry.cashRegisterId, entry.provisionalNumber),
+              await this.serialize(entry),
+            ])
+          )
+        )
+      );
+      await this.cipher.completeRotation();
+    });
+  }
+
+  private async loadAll(): Promise<ReceiptJournalEntry[]> {
+    const keys = (await this.storage.getAllKeys()).filter((key) => key.startsWith(ENTRY_PREFIX));
+    const values = await this.storage.multiGet(keys);
+    const entries = await Promise.all(
+      Object.values(values).map((value) => (value ? this.deserialize(value) : null))
+    );
+    return entries.filter((entry): entry is ReceiptJournalEntry => entry !== null);
+  }
+
+  private async serialize(entry: ReceiptJournalEntry): Promise<string> {
+    const { input, receipt, error, ...rest } = entry;
+    const sensitive: SensitiveFields = {
+      input,
+      response: receipt ? ReceiptMapper.toApiOutput(receipt) : undefined,
+      error,
+    };
+    const stored: StoredEntry = this.cipher
+      ? { ...rest, encrypted: await this.cipher.encrypt(sensitive) }
+      : { ...rest, ...sensitive };
+    return JSON.stringify(stored);
+  }
+
+  private async deserialize(value: string): Promise<ReceiptJournalEntry | null> {
+    try {
+      const { encrypted, input, response, error, ...rest } = JSON.parse(value) as StoredEntry;
+      const sensitive =
+        encrypted && this.cipher
+          ? await this.cipher.decrypt<SensitiveFields>(encrypted)
+          : { input, response, error };
+      return {
+        ...rest,
+        input: sensitive.input!,
+        receipt: sensitive.response ? ReceiptMapper.fromApiOutput(sensitive.response) : undefined,
+        error: sensitive.error,
+      };
+    } catch {
+      log.warn('Skipping unreadable receipt journal entry');
+      return null;
+    }
+  }
+
+  private keyOf(cashRegisterId: string, provisionalNumber: number): string {
+    return `${ENTRY_PREFIX}${encodeURIComponent(cashRegisterId)}:${provisionalNumber}`;
+  }
+
+  private exclusive<T>(task: () => Promise<T>): Promise<T> {
+    const locks = typeof navigator !== 'undefined' ? navigator.locks : undefined;
+    const run = (): Promise<T> =>
+      locks ? (locks.request(JOURNAL_LOCK, task) as Promise<T>) : task();
+    const result = this.tail.then(run, run);
+    this.tail = result.catch(() => undefined);
+    return result;
+  }
+}
@@ -0,0 +1,32 @@
+import { IQueueStoragePort, ISyncCoordinatorPort } from '@/application/ports/driven';
+import { QueuedOperation } from '@/domain/entities/offline.entity';
+
+/**
+ * Queue storage shared with other contexts: every change is broadcast once stored, so that their
+ * queues can apply it without reading the storage again
+ */
+export class SharedQueueStorage implements IQueueStoragePort {
+  constructor(
+    private readonly storage: IQueueStoragePort,
+    private readonly coordinator: ISyncCoordinatorPort
+  ) {}
+
+  loadAll(): Promise<QueuedOperation[]> {
+    return this.storage.loadAll();
+  }
+
+  async save(operations: QueuedOperation[]): Promise<void> {
+    await this.storage.save(operations);
+    this.coordinator.broadcast({ type: 'operations-saved', operations });
+  }
+
+  async remove(ids: string[]): Promise<void> {
+    await this.storage.remove(ids);
+    this.coordinator.broadcast({ type: 'operations-removed', ids });
+  }
+
+  async clear(): Promise<void> {
+    await this.storage.clear();
+    this.coordinator.broadcast({ type: 'queue-cleared' });
+  }
+}
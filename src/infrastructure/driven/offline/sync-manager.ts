@@ -1,7 +1,8 @@
 import { Subject, Subscription } from 'rxjs';
 import { filter, pairwise, startWith, takeUntil } from 'rxjs/operators';
 
-import { INetworkPort as INetworkMonitor } from '@/application/ports/driven';
+import { ReceiptApiInput, ReceiptApiOutput, ReceiptMapper } from '@/application/dto/receipt.dto';
+import { INetworkPort as INetworkMonitor, ISyncCoordinatorPort } from '@/application/ports/driven';
 import { IHttpPort } from '@/application/ports/driven/http.port';
 import {
   BatchSyncResult,
@@ -11,8 +12,22 @@ import {
   SyncResult,
   SyncStatus,
 } from '@/domain/entities/offline.entity';
+import { ReceiptReconciler } from '@/infrastructure/driven/api/receipt-reconciler';
+import { ReceiptRepositoryImpl } from '@/infrastructure/driven/api/receipt.repository.impl';
+import { IDEMPOTENCY_KEY_HEADER } from '@/shared/utils';
 
+import { toOperationFailure } from './dead-letters';
+import { resolvePlaceholders } from './placeholders';
 import { OperationQueue } from './queue';
+import { toApiOperation } from './typed-operations';
+
+function isReceiptApiInput(data: unknown): data is ReceiptApiInput {
+  const items = (data as { items?: unknown } | null | undefined)?.items;
+  return (
+    Array.isArray(items) &&
+    items.every((item) => typeof (item as { unit_price?: unknown })?.unit_price === 'string')
+  );
+}
 
 export class SyncManager {
   private isOnline = true;
@@ -24,7 +39,8 @@ export class SyncManager {
     private httpPort: IHttpPort,
     private networkMonitor: INetworkMonitor,
     private config: QueueConfig,
-    private events: QueueEvents = {}
+    private events: QueueEvents = {},
+    private coordinator?: ISyncCoordinatorPort
   ) {
     this.setupNetworkMonitoring();
   }
@@ -40,7 +56,7 @@ export class SyncManager {
       )
       .subscribe(() => {
         // Offline → Online transition detected
-        this.syncPendingOperations();
+        if (this.isLeader()) this.syncPendingOperations();
       });
 
     // Track current online state
@@ -54,6 +70,10 @@ export class SyncManager {
       throw new Error('Cannot sync while offline');
     }
 
+    if (!this.isLeader()) {
+      throw new Error('Sync is run by another context');
+    }
+
     if (this.queue.isCurrentlyProcessing()) {
       throw new Error('Sync already in progress');
     }
@@ -101,10 +121,32 @@ export class SyncManager {
             this.queue.updateOperation(operation.id, {
               status: 'failed',
               error: syncResult.error,
+              failure: toOperationFailure(result.reason),
             });
           }
         });
 
+        // Dependents of a permanently failed operation can never be sent
+        for (const operation of batch) {
+          const current = this.queue.getOperation(operation.id);
+          if (current?.status !== 'failed') continue;
+
+          const dependents = await this.queue.failDependents(
+            operation.id,
+            current.error ?? 'Unknown error'
+          );
+          for (const dependent of dependents) {
+            const syncResult: SyncResult = {
+              operation: dependent,
+              success: false,
+              error: dependent.error,
+            };
+            results.push(syncResult);
+            failureCount++;
+            this.events.onOperationFailed?.(syncResult);
+          }
+        }
+
         if (!this.queue.isEmpty()) {
           await this.delay(500);
         }
@@ -133,9 +175,10 @@ export class SyncManager {
     await this.queue.updateOperation(operation.id, { status: 'processing' });
 
     try {
-      const response = await this.executeOperation(operation);
+      const prepared = toApiOperation(this.resolveDependencies(operation));
+      const response = (await this.reconcileReceipt(prepared)) ?? (await this.send(prepared));
 
-      await this.queue.updateOperation(operation.id, { status: 'completed' });
+      await this.queue.updateOperation(operation.id, { status: 'completed', response });
 
       return { operation, success: true, response };
     } catch (error) {
@@ -151,7 +194,7 @@ export class SyncManager {
         });
 
         setTimeout(() => {
-          if (this.isOnline && !this.queue.isCurrentlyProcessing()) {
+          if (this.isOnline && this.isLeader() && !this.queue.isCurrentlyProcessing()) {
             this.syncPendingOperations();
           }
         }, delay);
@@ -161,6 +204,7 @@ export class SyncManager {
         await this.queue.updateOperation(operation.id, {
           status: 'failed',
           error: errorMessage,
+          failure: toOperationFailure(error),
         });
 
         return { operation, success: false, error: errorMessage };
@@ -168,8 +212,68 @@ export class SyncManager {
     }
   }
 
+  /** Fills the placeholders of a dependent operation from the responses of its parents */
+  private resolveDependencies(operation: QueuedOperation): QueuedOperation {
+    if (!operation.dependsOn?.length) return operation;
+
+    const { endpoint, data } = resolvePlaceholders(
+      { endpoint: operation.endpoint, data: operation.data },
+      (id) => this.queue.getOperation(id)?.response
+    );
+    return { ...operation, endpoint, data };
+  }
+
+  /**
+   * A receipt creation being retried may have been issued by the last attempt that failed
+   * ambiguously: looks it up first and returns it as the API would, so that it is not posted
+   * again. Earlier attempts were looked up before the last one was sent.
+   */
+  private async reconcileReceipt(
+    operation: QueuedOperation
+  ): Promise<ReceiptApiOutput | undefined> {
+    const { serialNumber, lastAttempt, data } = operation;
+    if (
+      !serialNumber ||
+      !lastAttempt ||
+      operation.resource !== 'receipt' ||
+      operation.method !== 'POST' ||
+      operation.endpoint !== '/mf1/receipts' ||
+      !isReceiptApiInput(data)
+    ) {
+      return undefined;
+    }
+
+    const reconciler = new ReceiptReconciler(new ReceiptRepositoryImpl(this.httpPort));
+    const reconciliation = await reconciler.reconcile(serialNumber, data, lastAttempt);
+
+    if (reconciliation.outcome === 'ambiguous') {
+      throw new Error(
+        `${reconciliation.candidates.length} receipts match the queued receipt, it has to be reconciled manually`
+      );
+    }
+    return reconciliation.outcome === 'issued'
+      ? ReceiptMapper.toApiOutput(reconciliation.receipt)
+      : undefined;
+  }
+
+  /** Sends the operation, recording when a failed request ran for a later reconciliation */
+  private async send(operation: QueuedOperation): Promise<unknown> {
+    const startedAt = Date.now();
+    try {
+      return await this.executeOperation(operation);
+    } catch (error) {
+      await this.queue.updateOperation(operation.id, {
+        lastAttempt: { startedAt, endedAt: Date.now() },
+      });
+      throw error;
+    }
+  }
+
   private async executeOperation(operation: QueuedOperation): Promise<unknown> {
-    const { method, endpoint, data, headers } = operation;
+    const { method, endpoint, data, idempotencyKey } = operation;
+    const headers = idempotencyKey
+      ? { ...operation.headers, [IDEMPOTENCY_KEY_HEADER]: idempotencyKey }
+      : operation.headers;
     const config = headers ? { headers } : undefined;
 
     switch (method) {
@@ -182,7 +286,7 @@ export class SyncManager {
       case 'PATCH':
         return (await this.httpPort.patch(endpoint, data, config)).data;
       case 'DELETE':
-        return (await this.httpPort.delete(endpoint, config)).data;
+        return (await this.httpPort.delete(endpoint, { ...config, data })).data;
       default:
         throw new Error(`Unsupported HTTP method: ${method}`);
     }
@@ -214,9 +318,20 @@ export class SyncManager {
     return this.isOnline;
   }
 
+  /** Without a coordinator this is the only context using the queue */
+  isLeader(): boolean {
+    return this.coordinator?.isLeader() ?? true;
+  }
+
+  /** Syncs the queue, or asks the leader to when another context is syncing it */
   async triggerSync(): Promise<BatchSyncResult | null> {
     if (!this.isOnline) return null;
 
+    if (!this.isLeader()) {
+      this.coordinator?.broadcast({ type: 'sync-requested' });
+      return null;
+    }
+
     if (this.queue.isEmpty()) {
       return { totalOperations: 0, successCount: 0, failureCount: 0, results: [] };
     }
@@ -0,0 +1,254 @@
+import * as z from 'zod';
+
+import { CashierMapper } from '@/application/dto/cashier.dto';
+import { ReceiptMapper } from '@/application/dto/receipt.dto';
+import { CashierCreateInput } from '@/domain/entities/cashier.entity';
+import {
+  HttpMethod,
+  OfflineEnqueueOptions,
+  OfflineOperationKind,
+  OperationType,
+  QueuedOperation,
+  ResourceType,
+} from '@/domain/entities/offline.entity';
+import {
+  ReceiptInput,
+  ReceiptReturnInput,
+  ReturnViaDifferentDeviceInput,
+  ReturnWithProofInput,
+  VoidReceiptInput,
+  VoidViaDifferentDeviceInput,
+  VoidWithProofInput,
+} from '@/domain/entities/receipt.entity';
+import { Money } from '@/domain/value-objects/money.vo';
+import { ACubeSDKError, APIViolation } from '@/shared/types';
+import {
+  CashierCreateInputSchema,
+  ReceiptInputSchema,
+  ReceiptReturnInputSchema,
+  ReceiptReturnOrVoidViaPEMInputSchema,
+  ReceiptReturnOrVoidWithProofInputSchema,
+  ValidationMessages,
+  VoidReceiptInputSchema,
+  validateInput,
+} from '@/shared/validation';
+
+/** Domain input of each typed offline operation */
+export interface OfflineOperationInputs {
+  'receipt.create': ReceiptInput;
+  'receipt.void': VoidReceiptInput;
+  'receipt.voidViaDifferentDevice': VoidViaDifferentDeviceInput;
+  'receipt.voidWithProof': VoidWithProofInput;
+  'receipt.return': ReceiptReturnInput;
+  'receipt.returnViaDifferentDevice': ReturnViaDifferentDeviceInput;
+  'receipt.returnWithProof': ReturnWithProofInput;
+  'cashier.create': CashierCreateInput;
+}
+
+interface OfflineOperationDefinition<TInput> {
+  type: OperationType;
+  resource: ResourceType;
+  method: HttpMethod;
+  endpoint: string;
+  priority: number;
+  schema: z.ZodType;
+  toApi(input: TInput): unknown;
+}
+
+export const OFFLINE_OPERATIONS: {
+  [K in OfflineOperationKind]: OfflineOperationDefinition<OfflineOperationInputs[K]>;
+} = {
+  'receipt.create': {
+    type: 'CREATE',
+    resource: 'receipt',
+    method: 'POST',
+    endpoint: '/mf1/receipts',
+    priority: 2,
+    schema: ReceiptInputSchema,
+    toApi: (input) => ReceiptMapper.toApiInput(input),
+  },
+  'receipt.void': {
+    type: 'DELETE',
+    resource: 'receipt',
+    method: 'DELETE',
+    endpoint: '/mf1/receipts',
+    priority: 3,
+    schema: VoidReceiptInputSchema,
+    toApi: (input) => ReceiptMapper.voidInputToApi(input),
+  },
+  'receipt.voidViaDifferentDevice': {
+    type: 'DELETE',
+    resource: 'receipt',
+    method: 'DELETE',
+    endpoint: '/mf1/receipts/void-via-different-device',
+    priority: 3,
+    schema: ReceiptReturnOrVoidViaPEMInputSchema,
+    toApi: (input) => ReceiptMapper.voidViaDifferentDeviceToApi(input),
+  },
+  'receipt.voidWithProof': {
+    type: 'DELETE',
+    resource: 'receipt',
+    method: 'DELETE',
+    endpoint: '/mf1/receipts/void-with-proof',
+    priority: 3,
+    schema: ReceiptReturnOrVoidWithProofInputSchema,
+    toApi: (input) => ReceiptMapper.voidWithProofToApi(input),
+  },
+  'receipt.return': {
+    type: 'CREATE',
+    resource: 'receipt',
+    method: 'POST',
+    endpoint: '/mf1/receipts/return',
+    priority: 3,
+    schema: ReceiptReturnInputSchema,
+    toApi: (input) => ReceiptMapper.returnInputToApi(input),
+  },
+  'receipt.returnViaDifferentDevice': {
+    type: 'CREATE',
+    resource: 'receipt',
+    method: 'POST',
+    endpoint: '/mf1/receipts/return-via-different-device',
+    priority: 3,
+    schema: ReceiptReturnOrVoidViaPEMInputSchema,
+    toApi: (input) => ReceiptMapper.returnViaDifferentDeviceToApi(input),
+  },
+  'receipt.returnWithProof': {
+    type: 'CREATE',
+    resource: 'receipt',
+    method: 'POST',
+    endpoint: '/mf1/receipts/return-with-proof',
+    priority: 3,
+    schema: ReceiptReturnOrVoidWithProofInputSchema,
+    toApi: (input) => ReceiptMapper.returnWithProofToApi(input),
+  },
+  'cashier.create': {
+    type: 'CREATE',
+    resource: 'cashier',
+    method: 'POST',
+    endpoint: '/mf1/cashiers',
+    priority: 1,
+    schema: CashierCreateInputSchema,
+    toApi: (input) => CashierMapper.toCreateApiInput(input),
+  },
+};
+
+/**
+ * Validates a typed operation input against the schema of its API request.
+ *
+ * @throws ACubeSDKError of type `VALIDATION_ERROR` listing the invalid fields
+ */
+export function validateOfflineInput<K extends OfflineOperationKind>(
+  kind: K,
+  input: OfflineOperationInputs[K]
+): void {
+  const definition: OfflineOperationDefinition<OfflineOperationInputs[K]> =
+    OFFLINE_OPERATIONS[kind];
+
+  let data: unknown;
+  try {
+    data = definition.toApi(input);
+  } catch (error) {
+    // Values the mapping cannot convert, such as malformed amounts, have no API field yet
+    const message = error instanceof Error ? error.message : String(error);
+    throw invalidInput(kind, [{ propertyPath: '', message }]);
+  }
+
+  const result = validateInput(definition.schema, data);
+  if (result.success) return;
+
+  throw invalidInput(
+    kind,
+    result.errors.map((error) => ({
+      propertyPath: error.field,
+      message:
+        ValidationMessages[error.message as keyof typeof ValidationMessages] ?? error.message,
+    }))
+  );
+}
+
+function invalidInput(kind: OfflineOperationKind, violations: APIViolation[]): ACubeSDKError {
+  const details = violations.map((v) => [v.propertyPath, v.message].filter(Boolean).join(' '));
+  return new ACubeSDKError(
+    'VALIDATION_ERROR',
+    `Invalid ${kind} input: ${details.join(', ')}`,
+    undefined,
+    undefined,
+    violations
+  );
+}
+
+/** Copy of a domain input that survives the queue persistence, amounts become decimal strings */
+export function toStorableInput<T>(input: T): T {
+  const convert = (value: unknown): unknown => {
+    if (value instanceof Money) return value.toDecimalString();
+    if (Array.isArray(value)) return value.map(convert);
+    if (value !== null && typeof value === 'object') {
+      return Object.fromEntries(Object.entries(value).map(([key, item]) => [key, convert(item)]));
+    }
+    return value;
+  };
+  return convert(input) as T;
+}
+
+/** Maps the domain input of a typed operation to its API request, other operations are kept */
+export function toApiOperation(operation: QueuedOperation): QueuedOperation {
+  if (!operation.kind) return operation;
+  return { ...operation, data: OFFLINE_OPERATIONS[operation.kind].toApi(operation.data as never) };
+}
+
+export type OfflineEnqueue = <K extends OfflineOperationKind>(
+  kind: K,
+  input: OfflineOperationInputs[K],
+  options?: OfflineEnqueueOptions
+) => Promise<string>;
+
+/**
+ * Receipt operations queued while offline. Inputs are validated when queued and mapped to the
+ * API shape when synced; every method resolves to the queued operation ID.
+ */
+export class OfflineReceiptOperations {
+  constructor(private readonly enqueue: OfflineEnqueue) {}
+
+  create(input: ReceiptInput, options?: OfflineEnqueueOptions): Promise<string> {
+    return this.enqueue('receipt.create', input, options);
+  }
+
+  void(input: VoidReceiptInput, options?: OfflineEnqueueOptions): Promise<string> {
+    return this.enqueue('receipt.void', input, options);
+  }
+
+  voidViaDifferentDevice(
+    input: VoidViaDifferentDeviceInput,
+    options?: OfflineEnqueueOptions
+  ): Promise<string> {
+    return this.enqueue('receipt.voidViaDifferentDevice', input, options);
+  }
+
+  voidWithProof(input: VoidWithProofInput, options?: OfflineEnqueueOptions): Promise<string> {
+    return this.enqueue('receipt.voidWithProof', input, options);
+  }
+
+  returnItems(input: ReceiptReturnInput, options?: OfflineEnqueueOptions): Promise<string> {
+    return this.enqueue('receipt.return', input, options);
+  }
+
+  returnViaDifferentDevice(
+    input: ReturnViaDifferentDeviceInput,
+    options?: OfflineEnqueueOptions
+  ): Promise<string> {
+    return this.enqueue('receipt.returnViaDifferentDevice', input, options);
+  }
+
+  returnWithProof(input: ReturnWithProofInput, options?: OfflineEnqueueOptions): Promise<string> {
+    return this.enqueue('receipt.returnWithProof', input, options);
+  }
+}
+
+/** Cashier operations queued while offline */
+export class OfflineCashierOperations {
+  constructor(private readonly enqueue: OfflineEnqueue) {}
+
+  create(input: CashierCreateInput, options?: OfflineEnqueueOptions): Promise<string> {
+    return this.enqueue('cashier.create', input, options);
+  }
+}
@@ -0,0 +1,120 @@
+import { IQueueStoragePort } from '@/application/ports/driven';
+import { QueuedOperation } from '@/domain/entities/offline.entity';
+import { createPrefixedLogger } from '@/shared/utils';
+
+const log = createPrefixedLogger('QUEUE-NODE');
+
+// Conditionally import Node.js modules
+let fs: typeof import('node:fs/promises') | null = null;
+let path: typeof import('node:path') | null = null;
+
+try {
+  fs = require('node:fs/promises');
+  path = require('node:path');
+} catch {
+  log.warn('Node.js file system not available - file queue storage disabled');
+}
+
+const FILE_EXTENSION = '.json';
+
+/**
+ * Node.js offline queue storage keeping one JSON file per operation in a directory. Files are
+ * written to a temporary name and renamed, so a crash never leaves a partially written operation.
+ */
+export class NodeQueueStorageAdapter implements IQueueStoragePort {
+  private readonly directory: string;
+  private ensureDirectory: Promise<void> | null = null;
+  private readonly writes = new Map<string, Promise<void>>();
+  private writeCount = 0;
+
+  constructor(directory?: string) {
+    if (!fs || !path) {
+      throw new Error('Node.js file system is not available');
+    }
+    this.directory = directory ?? path.join(process.cwd(), '.acube', 'offline-queue');
+  }
+
+  static isAvailable(): boolean {
+    return fs !== null && path !== null;
+  }
+
+  async loadAll(): Promise<QueuedOperation[]> {
+    await this.ready();
+
+    const files = (await fs!.readdir(this.directory)).filter((file) =>
+      file.endsWith(FILE_EXTENSION)
+    );
+    const operations = await Promise.all(
+      files.map(async (file) => {
+        try {
+          return JSON.parse(
+            await fs!.readFile(path!.join(this.directory, file), 'utf8')
+          ) as QueuedOperation;
+        } catch {
+          log.warn('Skipping unreadable queued operation', { file });
+          return null;
+        }
+      })
+    );
+    return operations.filter((op): op is QueuedOperation => op !== null);
+  }
+
+  async save(operations: QueuedOperation[]): Promise<void> {
+    await this.ready();
+
+    await Promise.all(operations.map((op) => this.write(this.fileOf(op.id), JSON.stringify(op))));
+  }
+
+  async remove(ids: string[]): Promise<void> {
+    await this.ready();
+    await Promise.all(ids.map((id) => fs!.rm(this.fileOf(id), { force: true })));
+  }
+
+  async clear(): Promise<void> {
+    await this.ready();
+
+    const files = await fs!.readdir(this.directory);
+    await Promise.all(
+      files
+        .filter((file) => file.endsWith(FILE_EXTENSION))
+        .map((file) => fs!.rm(path!.join(this.directory, file), { force: true }))
+    );
+  }
+
+  /**
+   * Writes of the same file are chained, so the last save wins and concurrent saves never share
+   * a temporary file
+   */
+  private write(file: string, content: string): Promise<void> {
+    const previous = this.writes.get(file) ?? Promise.resolve();
+    const current = previous
+      .catch(() => undefined)
+      .then(async () => {
+        const temporary = `${file}.${process.pid}.${++this.writeCount}.tmp`;
+        await fs!.writeFile(temporary, content, 'utf8');
+        await fs!.rename(temporary, file);
+      })
+      .finally(() => {
+        if (this.writes.get(file) === current) this.writes.delete(file);
+      });
+    this.writes.set(file, current);
+    return current;
+  }
+
+  private fileOf(id: string): string {
+    return path!.join(this.directory, `${encodeURIComponent(id)}${FILE_EXTENSION}`);
+  }
+
+  private ready(): Promise<void> {
+    if (!this.ensureDirectory) {
+      this.ensureDirectory = fs!
+        .mkdir(this.directory, { recursive: true })
+        .then(() => undefined)
+        .catch((error) => {
+          this.ensureDirectory = null;
+          throw error;
+        });
+    }
+    return this.ensureDirectory;
+  }
+}
@@ -26,12 +26,17 @@ const log = createPrefixedLogger('CACHE-RN');
 export class ReactNativeCacheAdapter implements ICacheAdapter {
   private static readonly DB_NAME = 'acube_cache.db';
   private static readonly TABLE_NAME = 'cache_entries';
+  private static readonly TAGS_TABLE_NAME = 'cache_tags';
+  /** Keys deleted per statement, below the SQLite limit of 999 parameters */
+  private static readonly DELETE_CHUNK_SIZE = 500;
 
   private db: ExpoSQLiteDatabase | RNSQLiteDatabase | null = null;
   private initPromise: Promise<void> | null = null;
   private options: CacheOptions;
   private isExpo = false;
   private hasCompressedColumn = false;
+  private hasValidatorColumns = false;
+  private hasTagsTable = false;
 
   constructor(options: CacheOptions = {}) {
     this.options = {
@@ -143,6 +148,56 @@ export class ReactNativeCacheAdapter implements ICacheAdapter {
       // Don't throw - allow the app to continue even if migration fails
       // The compressed feature will just be disabled
     }
+
+    try {
+      // Response validators for conditional requests; older entries have none
+      this.hasValidatorColumns = await this.checkColumnExists('last_modified');
+
+      if (!this.hasValidatorColumns) {
+        log.debug('Adding validator columns to cache table');
+        if (!(await this.checkColumnExists('etag'))) {
+          await this.executeSql(
+            `ALTER TABLE ${ReactNativeCacheAdapter.TABLE_NAME} ADD COLUMN etag TEXT DEFAULT NULL`
+          );
+        }
+        await this.executeSql(
+          `ALTER TABLE ${ReactNativeCacheAdapter.TABLE_NAME} ADD COLUMN last_modified TEXT DEFAULT NULL`
+        );
+        this.hasValidatorColumns = true;
+      }
+    } catch (error) {
+      log.debug('Migration failed, disabling conditional requests', error);
+      this.hasValidatorColumns = false;
+    }
+
+    try {
+      // Tags the entries are invalidated by, indexed both ways
+      const tables = this.normalizeResults<{ name: string }>(
+        await this.executeSql(`SELECT name FROM sqlite_master WHERE type = 'table' AND name = ?`, [
+          ReactNativeCacheAdapter.TAGS_TABLE_NAME,
+        ])
+      );
+
+      if (tables.length === 0) {
+        log.debug('Creating cache tags table');
+        // Entries stored before have no tags and could never be invalidated
+        await this.executeSql(`DELETE FROM ${ReactNativeCacheAdapter.TABLE_NAME}`);
+        await this.executeSql(
+          `CREATE TABLE IF NOT EXISTS ${ReactNativeCacheAdapter.TAGS_TABLE_NAME} (
+            cache_key TEXT NOT NULL,
+            tag TEXT NOT NULL,
+            PRIMARY KEY (tag, cache_key)
+          )`
+        );
+        await this.executeSql(
+          `CREATE INDEX IF NOT EXISTS idx_cache_tags_key ON ${ReactNativeCacheAdapter.TAGS_TABLE_NAME}(cache_key)`
+        );
+      }
+      this.hasTagsTable = true;
+    } catch (error) {
+      log.debug('Migration failed, tag invalidations will clear the cache', error);
+      this.hasTagsTable = false;
+    }
   }
 
   private async checkColumnExists(columnName: string): Promise<boolean> {
@@ -187,6 +242,8 @@ export class ReactNativeCacheAdapter implements ICacheAdapter {
       data: JSON.parse(rawData),
       timestamp: row.timestamp,
       compressed: isCompressed,
+      etag: row.etag ?? undefined,
+      lastModified: row.last_modified ?? undefined,
     };
   }
 
@@ -230,30 +287,57 @@ export class ReactNativeCacheAdapter implements ICacheAdapter {
       hasCompressedColumn: this.hasCompressedColumn,
     });
 
-    // Build SQL and parameters based on available columns
-    let sql: string;
-    let params: SQLiteParams;
+    const statements = this.buildWrite(key, item, finalData, isCompressed);
+
+    log.debug('Executing setItem SQL', { key, statements: statements.length });
+
+    for (const { sql, params } of statements) {
+      await this.executeSql(sql, params);
+    }
+  }
+
+  /**
+   * Statements writing the entry in the columns available in the table, then its tags
+   */
+  private buildWrite<T>(
+    key: string,
+    item: CachedItem<T>,
+    data: string,
+    isCompressed: boolean
+  ): Array<{ sql: string; params: SQLiteParams }> {
+    const columns = ['cache_key', 'data', 'timestamp'];
+    const params: SQLiteParams = [key, data, item.timestamp];
 
     if (this.hasCompressedColumn) {
-      sql = `
-        INSERT OR REPLACE INTO ${ReactNativeCacheAdapter.TABLE_NAME}
-        (cache_key, data, timestamp, compressed)
-        VALUES (?, ?, ?, ?)
-      `;
-      params = [key, finalData, item.timestamp, isCompressed ? 1 : 0];
-    } else {
-      // Fallback for databases without compressed column
-      sql = `
-        INSERT OR REPLACE INTO ${ReactNativeCacheAdapter.TABLE_NAME}
-        (cache_key, data, timestamp)
-        VALUES (?, ?, ?)
-      `;
-      params = [key, finalData, item.timestamp];
+      columns.push('compressed');
+      params.push(isCompressed ? 1 : 0);
+    }
+    if (this.hasValidatorColumns) {
+      columns.push('etag', 'last_modified');
+      params.push(item.etag ?? null, item.lastModified ?? null);
     }
 
-    log.debug('Executing setItem SQL', { key, paramsCount: params.length });
+    const sql = `
+      INSERT OR REPLACE INTO ${ReactNativeCacheAdapter.TABLE_NAME}
+      (${columns.join(', ')})
+      VALUES (${columns.map(() => '?').join(', ')})
+    `;
+    const statements = [{ sql, params }];
 
-    await this.executeSql(sql, params);
+    if (this.hasTagsTable) {
+      const tags = item.tags ?? [];
+      statements.push({
+        sql: `DELETE FROM ${ReactNativeCacheAdapter.TAGS_TABLE_NAME} WHERE cache_key = ?`,
+        params: [key],
+      });
+      if (tags.length > 0) {
+        statements.push({
+          sql: `INSERT OR IGNORE INTO ${ReactNativeCacheAdapter.TAGS_TABLE_NAME} (cache_key, tag) VALUES ${tags.map(() => '(?, ?)').join(', ')}`,
+          params: tags.flatMap((tag) => [key, tag]),
+        });
+      }
+    }
+    return statements;
   }
 
   async setBatch<T>(items: Array<[string, CachedItem<T>]>): Promise<void> {
@@ -299,27 +383,9 @@ export class ReactNativeCacheAdapter implements ICacheAdapter {
       isCompressed = compressionResult.compressed;
     }
 
-    // Build SQL and parameters based on available columns
-    let sql: string;
-    let params: SQLiteParams;
-
-    if (this.hasCompressedColumn) {
-      sql = `
-        INSERT OR REPLACE INTO ${ReactNativeCacheAdapter.TABLE_NAME}
-        (cache_key, data, timestamp, compressed)
-        VALUES (?, ?, ?, ?)
-      `;
-      params = [key, finalData, item.timestamp, isCompressed ? 1 : 0];
-    } else {
-      sql = `
-        INSERT OR REPLACE INTO ${ReactNativeCacheAdapter.TABLE_NAME}
-        (cache_key, data, timestamp)
-        VALUES (?, ?, ?)
-      `;
-      params = [key, finalData, item.timestamp];
+    for (const { sql, params } of this.buildWrite(key, item, finalData, isCompressed)) {
+      await (this.db as ExpoSQLiteDatabase).runAsync(sql, params);
     }
-
-    await (this.db as ExpoSQLiteDatabase).runAsync(sql, params);
   }
 
   private async setBatchItemRN<T>(
@@ -338,49 +404,68 @@ export class ReactNativeCacheAdapter implements ICacheAdapter {
       isCompressed = compressionResult.compressed;
     }
 
-    // Build SQL and parameters based on available columns
-    let sql: string;
-    let params: SQLiteParams;
-
-    if (this.hasCompressedColumn) {
-      sql = `
-        INSERT OR REPLACE INTO ${ReactNativeCacheAdapter.TABLE_NAME}
-        (cache_key, data, timestamp, compressed)
-        VALUES (?, ?, ?, ?)
-      `;
-      params = [key, finalData, item.timestamp, isCompressed ? 1 : 0];
-    } else {
-      sql = `
-        INSERT OR REPLACE INTO ${ReactNativeCacheAdapter.TABLE_NAME}
-        (cache_key, data, timestamp)
-        VALUES (?, ?, ?)
-      `;
-      params = [key, finalData, item.timestamp];
-    }
-
-    return new Promise<void>((resolve, reject) => {
-      tx.executeSql(
-        sql,
-        params,
-        () => resolve(),
-        (_: SQLiteTransaction, error: Error) => {
-          reject(error);
-          return false;
-        }
-      );
-    });
+    const statements = this.buildWrite(key, item, finalData, isCompressed);
+
+    await Promise.all(
+      statements.map(
+        ({ sql, params }) =>
+          new Promise<void>((resolve, reject) => {
+            tx.executeSql(
+              sql,
+              params,
+              () => resolve(),
+              (_: SQLiteTransaction, error: Error) => {
+                reject(error);
+                return false;
+              }
+            );
+          })
+      )
+    );
   }
 
   async invalidate(pattern: string): Promise<void> {
     await this.ensureInitialized();
 
     const keys = await this.getKeys(pattern);
-    if (keys.length === 0) return;
+    await this.deleteKeys(keys);
+  }
+
+  async invalidateTags(tags: string[]): Promise<void> {
+    if (tags.length === 0) return;
+
+    await this.ensureInitialized();
 
-    const placeholders = keys.map(() => '?').join(',');
-    const sql = `DELETE FROM ${ReactNativeCacheAdapter.TABLE_NAME} WHERE cache_key IN (${placeholders})`;
+    if (!this.hasTagsTable) {
+      log.debug('Tags not available, clearing the cache', { tags });
+      await this.clear();
+      return;
+    }
+
+    const placeholders = tags.map(() => '?').join(',');
+    const sql = `SELECT DISTINCT cache_key FROM ${ReactNativeCacheAdapter.TAGS_TABLE_NAME} WHERE tag IN (${placeholders})`;
+    const rows = this.normalizeResults<{ cache_key: string }>(await this.executeSql(sql, tags));
+
+    await this.deleteKeys(rows.map((row) => row.cache_key));
+    log.debug('Tag invalidation completed', { tags, entriesRemoved: rows.length });
+  }
+
+  private async deleteKeys(keys: string[]): Promise<void> {
+    for (let i = 0; i < keys.length; i += ReactNativeCacheAdapter.DELETE_CHUNK_SIZE) {
+      const chunk = keys.slice(i, i + ReactNativeCacheAdapter.DELETE_CHUNK_SIZE);
+      const placeholders = chunk.map(() => '?').join(',');
 
-    await this.executeSql(sql, keys);
+      await this.executeSql(
+        `DELETE FROM ${ReactNativeCacheAdapter.TABLE_NAME} WHERE cache_key IN (${placeholders})`,
+        chunk
+      );
+      if (this.hasTagsTable) {
+        await this.executeSql(
+          `DELETE FROM ${ReactNativeCacheAdapter.TAGS_TABLE_NAME} WHERE cache_key IN (${placeholders})`,
+          chunk
+        );
+      }
+    }
   }
 
   async clear(): Promise<void> {
@@ -388,6 +473,9 @@ export class ReactNativeCacheAdapter implements ICacheAdapter {
 
     const sql = `DELETE FROM ${ReactNativeCacheAdapter.TABLE_NAME}`;
     await this.executeSql(sql);
+    if (this.hasTagsTable) {
+      await this.executeSql(`DELETE FROM ${ReactNativeCacheAdapter.TAGS_TABLE_NAME}`);
+    }
   }
 
   async getSize(): Promise<CacheSize> {
@@ -481,6 +569,8 @@ export class ReactNativeCacheAdapter implements ICacheAdapter {
  */
 export class MemoryCacheAdapter implements ICacheAdapter {
   private cache = new Map<string, CachedItem<unknown>>();
+  /** Keys of the entries by tag */
+  private tagIndex = new Map<string, Set<string>>();
   private options: CacheOptions;
   private totalBytes = 0;
 
@@ -491,6 +581,22 @@ export class MemoryCacheAdapter implements ICacheAdapter {
     };
   }
 
+  private indexTags(key: string, tags: string[] = []): void {
+    for (const tag of tags) {
+      const keys = this.tagIndex.get(tag) ?? new Set<string>();
+      keys.add(key);
+      this.tagIndex.set(tag, keys);
+    }
+  }
+
+  private unindexTags(key: string, tags: string[] = []): void {
+    for (const tag of tags) {
+      const keys = this.tagIndex.get(tag);
+      keys?.delete(key);
+      if (keys?.size === 0) this.tagIndex.delete(tag);
+    }
+  }
+
   private calculateItemSize(key: string, item: CachedItem<unknown>): number {
     // Calculate rough size estimation for memory usage
     const keySize = key.length * 2; // UTF-16 estimation
@@ -566,6 +672,7 @@ export class MemoryCacheAdapter implements ICacheAdapter {
       const oldItem = this.cache.get(key)!;
       const oldItemSize = this.calculateItemSize(key, oldItem);
       this.totalBytes -= oldItemSize;
+      this.unindexTags(key, oldItem.tags);
     }
 
     // Enforce max entries limit
@@ -575,6 +682,7 @@ export class MemoryCacheAdapter implements ICacheAdapter {
         const oldestItem = this.cache.get(oldestKey)!;
         const oldestItemSize = this.calculateItemSize(oldestKey, oldestItem);
         this.totalBytes -= oldestItemSize;
+        this.unindexTags(oldestKey, oldestItem.tags);
         this.cache.delete(oldestKey);
         log.debug('Removed oldest item for capacity', { oldestKey, freedBytes: oldestItemSize });
       }
@@ -582,6 +690,7 @@ export class MemoryCacheAdapter implements ICacheAdapter {
 
     // Set new item and update total size
     this.cache.set(key, item);
+    this.indexTags(key, item.tags);
     this.totalBytes += newItemSize;
 
     log.debug('Updated cache size', {
@@ -625,6 +734,7 @@ export class MemoryCacheAdapter implements ICacheAdapter {
         const oldItem = this.cache.get(oldKey)!;
         const oldItemSize = this.calculateItemSize(oldKey, oldItem);
         this.totalBytes -= oldItemSize;
+        this.unindexTags(oldKey, oldItem.tags);
         this.cache.delete(oldKey);
         itemsToRemove.push(oldKey);
       }
@@ -642,7 +752,9 @@ export class MemoryCacheAdapter implements ICacheAdapter {
 
     // Second pass: set all items
     for (const [key, item] of items) {
+      this.unindexTags(key, this.cache.get(key)?.tags);
       this.cache.set(key, item);
+      this.indexTags(key, item.tags);
     }
 
     log.debug('Batch operation completed', {
@@ -662,6 +774,7 @@ export class MemoryCacheAdapter implements ICacheAdapter {
       if (regex.test(key)) {
         const item = this.cache.get(key)!;
         const itemSize = this.calculateItemSize(key, item);
+        this.unindexTags(key, item.tags);
         this.cache.delete(key);
         this.totalBytes -= itemSize;
         bytesFreed += itemSize;
@@ -680,8 +793,33 @@ export class MemoryCacheAdapter implements ICacheAdapter {
     }
   }
 
+  async invalidateTags(tags: string[]): Promise<void> {
+    const keys = new Set(tags.flatMap((tag) => [...(this.tagIndex.get(tag) ?? [])]));
+    let bytesFreed = 0;
+
+    for (const key of keys) {
+      const item = this.cache.get(key)!;
+      const itemSize = this.calculateItemSize(key, item);
+      this.unindexTags(key, item.tags);
+      this.cache.delete(key);
+      this.totalBytes -= itemSize;
+      bytesFreed += itemSize;
+    }
+
+    if (keys.size > 0) {
+      log.debug('Tag invalidation completed', {
+        tags,
+        entriesRemoved: keys.size,
+        bytesFreed,
+        remainingEntries: this.cache.size,
+        remainingBytes: this.totalBytes,
+      });
+    }
+  }
+
   async clear(): Promise<void> {
     this.cache.clear();
+    this.tagIndex.clear();
     this.totalBytes = 0;
     log.debug('Cache cleared', { entries: 0, bytes: 0 });
   }
@@ -0,0 +1,168 @@
+import { IQueueStoragePort } from '@/application/ports/driven';
+import { QueuedOperation } from '@/domain/entities/offline.entity';
+import { createPrefixedLogger } from '@/shared/utils';
+
+import {
+  ExpoSQLiteDatabase,
+  QueueRow,
+  RNSQLiteDatabase,
+  SQLiteExecuteResult,
+  SQLiteParams,
+  SQLiteTransaction,
+} from './types';
+
+const log = createPrefixedLogger('QUEUE-RN');
+
+/**
+ * React Native offline queue storage using SQLite (Expo or react-native-sqlite-storage), one row
+ * per operation
+ */
+export class ReactNativeQueueStorageAdapter implements IQueueStoragePort {
+  private static readonly DB_NAME = 'acube_offline_queue.db';
+  private static readonly TABLE_NAME = 'queued_operations';
+  /** Keeps each statement below the SQLite limit of 999 bound parameters */
+  private static readonly ROWS_PER_STATEMENT = 250;
+
+  private db: ExpoSQLiteDatabase | RNSQLiteDatabase | null = null;
+  private initPromise: Promise<void> | null = null;
+  private isExpo = false;
+
+  async loadAll(): Promise<QueuedOperation[]> {
+    await this.ensureInitialized();
+
+    const results = await this.executeSql(
+      `SELECT * FROM ${ReactNativeQueueStorageAdapter.TABLE_NAME}`
+    );
+    return this.normalizeResults(results).flatMap((row) => {
+      try {
+        return [JSON.parse(row.data) as QueuedOperation];
+      } catch {
+        log.warn('Skipping unreadable queued operation', { id: row.id });
+        return [];
+      }
+    });
+  }
+
+  async save(operations: QueuedOperation[]): Promise<void> {
+    if (operations.length === 0) return;
+    await this.ensureInitialized();
+
+    for (const chunk of this.chunk(operations)) {
+      const rows = chunk.map(() => '(?, ?, ?)').join(', ');
+      const params = chunk.flatMap((op) => [op.id, JSON.stringify(op), op.updatedAt]);
+      await this.executeSql(
+        `INSERT OR REPLACE INTO ${ReactNativeQueueStorageAdapter.TABLE_NAME} (id, data, updated_at) VALUES ${rows}`,
+        params
+      );
+    }
+  }
+
+  async remove(ids: string[]): Promise<void> {
+    if (ids.length === 0) return;
+    await this.ensureInitialized();
+
+    for (const chunk of this.chunk(ids)) {
+      const placeholders = chunk.map(() => '?').join(',');
+      await this.executeSql(
+        `DELETE FROM ${ReactNativeQueueStorageAdapter.TABLE_NAME} WHERE id IN (${placeholders})`,
+        chunk
+      );
+    }
+  }
+
+  async clear(): Promise<void> {
+    await this.ensureInitialized();
+    await this.executeSql(`DELETE FROM ${ReactNativeQueueStorageAdapter.TABLE_NAME}`);
+  }
+
+  private async initialize(): Promise<void> {
+    try {
+      // Try Expo SQLite first
+      const ExpoSQLite = require('expo-sqlite');
+      this.db = await ExpoSQLite.openDatabaseAsync(ReactNativeQueueStorageAdapter.DB_NAME);
+      this.isExpo = true;
+    } catch (expoError) {
+      try {
+        // Fallback to react-native-sqlite-storage
+        const SQLite = require('react-native-sqlite-storage');
+
+        this.db = await new Promise<RNSQLiteDatabase>((resolve, reject) => {
+          SQLite.openDatabase(
+            { name: ReactNativeQueueStorageAdapter.DB_NAME, location: 'default' },
+            resolve,
+            reject
+          );
+        });
+        this.isExpo = false;
+      } catch (rnError) {
+        throw new Error(
+          `Failed to initialize SQLite: Expo error: ${expoError}, RN error: ${rnError}`
+        );
+      }
+    }
+
+    await this.executeSql(`
+      CREATE TABLE IF NOT EXISTS ${ReactNativeQueueStorageAdapter.TABLE_NAME} (
+        id TEXT PRIMARY KEY,
+        data TEXT NOT NULL,
+        updated_at INTEGER NOT NULL
+      )
+    `);
+  }
+
+  private normalizeResults(results: SQLiteExecuteResult): QueueRow[] {
+    if (this.isExpo) {
+      const expoResults = results as { results?: QueueRow[] } | QueueRow[];
+      return Array.isArray(expoResults) ? expoResults : expoResults.results || [];
+    }
+
+    const rows = (results as { rows?: { length: number; item(i: number): QueueRow } }).rows;
+    const normalizedRows: QueueRow[] = [];
+    for (let i = 0; i < (rows?.length ?? 0); i++) {
+      normalizedRows.push(rows!.item(i));
+    }
+    return normalizedRows;
+  }
+
+  private async executeSql(sql: string, params: SQLiteParams = []): Promise<SQLiteExecuteResult> {
+    if (this.isExpo) {
+      const expoDB = this.db as ExpoSQLiteDatabase;
+      if (sql.trimStart().toLowerCase().startsWith('select')) {
+        return { results: await expoDB.getAllAsync(sql, params) };
+      }
+      return await expoDB.runAsync(sql, params);
+    }
+
+    return new Promise((resolve, reject) => {
+      (this.db as RNSQLiteDatabase).transaction((tx: SQLiteTransaction) => {
+        tx.executeSql(
+          sql,
+          params,
+          (_: SQLiteTransaction, results: SQLiteExecuteResult) => resolve(results),
+          (_: SQLiteTransaction, error: Error) => {
+            reject(error);
+            return false;
+          }
+        );
+      });
+    });
+  }
+
+  private chunk<T>(items: T[]): T[][] {
+    const chunks: T[][] = [];
+    for (let i = 0; i < items.length; i += ReactNativeQueueStorageAdapter.ROWS_PER_STATEMENT) {
+      chunks.push(items.slice(i, i + ReactNativeQueueStorageAdapter.ROWS_PER_STATEMENT));
+    }
+    return chunks;
+  }
+
+  private async ensureInitialized(): Promise<void> {
+    if (!this.initPromise) {
+      this.initPromise = this.initialize().catch((error) => {
+        this.initPromise = null;
+        throw error;
+      });
+    }
+    await this.initPromise;
+  }
+}
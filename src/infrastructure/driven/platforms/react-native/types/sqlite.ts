@@ -12,6 +12,14 @@ export interface CacheRow {
   data: string;
   timestamp: number;
   compressed?: number;
+  etag?: string | null;
+  last_modified?: string | null;
+}
+
+export interface QueueRow {
+  id: string;
+  data: string;
+  updated_at: number;
 }
 
 export interface ExpoSQLiteDatabase {
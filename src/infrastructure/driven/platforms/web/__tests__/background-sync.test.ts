@@ -0,0 +1,75 @@
+import { BackgroundSyncStore } from '../background-sync';
+
+// IndexedDB is not available in Node.js, the session store is kept in a map
+const records = new Map<string, unknown>();
+
+jest.mock('idb', () => ({
+  openDB: jest.fn(async () => ({
+    get: async (_store: string, key: string) => records.get(key),
+    put: async (_store: string, value: unknown, key: string) => {
+      records.set(key, value);
+    },
+    add: async (_store: string, value: unknown, key: string) => {
+      if (records.has(key)) throw new Error('ConstraintError');
+      records.set(key, value);
+    },
+    transaction: () => ({
+      store: {
+        delete: async (key: string) => {
+          records.delete(key);
+        },
+      },
+      done: Promise.resolve(),
+    }),
+  })),
+}));
+
+const session = {
+  apiUrl: 'https://api.test',
+  accessToken: 'header.payload.signature',
+  queueKeys: '{"currentKeyId":"k1","keys":{"k1":"c2VjcmV0"}}',
+};
+
+describe('BackgroundSyncStore', () => {
+  let store: BackgroundSyncStore;
+
+  beforeEach(() => {
+    records.clear();
+    store = new BackgroundSyncStore();
+  });
+
+  it('should store the session encrypted with a non-extractable key', async () => {
+    await store.saveSession(session);
+
+    const stored = new TextDecoder().decode(
+      (records.get('current') as { ciphertext: ArrayBuffer }).ciphertext
+    );
+    expect(stored).not.toContain(session.accessToken);
+    expect(stored).not.toContain('c2VjcmV0');
+    expect((records.get('key') as CryptoKey).extractable).toBe(false);
+    expect(await store.loadSession()).toEqual(session);
+  });
+
+  it('should remove the session with its key', async () => {
+    await store.saveSession(session);
+
+    await store.clearSession();
+
+    expect(records.size).toBe(0);
+    expect(await store.loadSession()).toBeNull();
+  });
+
+  it('should discard a session that cannot be decrypted', async () => {
+    await store.saveSession(session);
+    records.set(
+      'key',
+      await globalThis.crypto.subtle.generateKey({ name: 'AES-GCM', length: 256 }, false, [
+        'encrypt',
+        'decrypt',
+      ])
+    );
+
+    expect(await store.loadSession()).toBeNull();
+    expect(records.size).toBe(0);
+  });
+});
@@ -0,0 +1,37 @@
+import { firstValueFrom } from 'rxjs';
+
+import { WebCacheAdapter } from '../cache';
+
+// IndexedDB is not available in Node.js, a store that only clears is enough here
+jest.mock('idb', () => ({
+  openDB: jest.fn(async () => ({
+    transaction: () => ({ objectStore: () => ({ clear: async () => undefined }) }),
+    close: () => undefined,
+  })),
+  deleteDB: jest.fn(),
+}));
+
+describe('WebCacheAdapter invalidations', () => {
+  let tab: WebCacheAdapter;
+  let otherTab: WebCacheAdapter;
+
+  beforeEach(() => {
+    tab = new WebCacheAdapter();
+    otherTab = new WebCacheAdapter();
+  });
+
+  afterEach(() => {
+    tab.destroy();
+    otherTab.destroy();
+  });
+
+  it('should report an invalidation here and in the other tabs', async () => {
+    const local = firstValueFrom(tab.invalidations$);
+    const remote = firstValueFrom(otherTab.invalidations$);
+
+    await tab.clear();
+
+    await expect(local).resolves.toEqual({ pattern: '*', remote: false });
+    await expect(remote).resolves.toEqual({ pattern: '*', remote: true });
+  });
+});
@@ -0,0 +1,226 @@
+import { IDBPDatabase, openDB } from 'idb';
+import { Observable, Subject, defer } from 'rxjs';
+
+import {
+  BackgroundSyncResult,
+  BackgroundSyncSession,
+  IBackgroundSyncPort,
+} from '@/application/ports/driven';
+import { createPrefixedLogger } from '@/shared/utils';
+
+const log = createPrefixedLogger('BACKGROUND-SYNC-WEB');
+
+/** Background Sync tag handled by the service worker */
+export const BACKGROUND_SYNC_TAG = 'acube-offline-queue';
+
+/** Message posted by the service worker to the open pages once results are stored */
+export const BACKGROUND_SYNC_MESSAGE = 'acube:background-sync-results';
+
+interface BackgroundSyncRegistration extends ServiceWorkerRegistration {
+  sync?: { register(tag: string): Promise<void> };
+}
+
+/** Session encrypted with the session key of the store */
+interface SealedSession {
+  iv: Uint8Array<ArrayBuffer>;
+  ciphertext: ArrayBuffer;
+}
+
+/**
+ * IndexedDB store shared by the pages and the service worker: the session the worker syncs with
+ * and the results it leaves for the pages. The session, with its token and queue keys, is
+ * encrypted with a non-extractable AES-GCM key stored as a `CryptoKey`, which scripts can use but
+ * never read.
+ */
+export class BackgroundSyncStore {
+  private static readonly DB_NAME = 'acube_background_sync';
+  private static readonly DB_VERSION = 1;
+  private static readonly SESSION_STORE = 'session';
+  private static readonly RESULTS_STORE = 'results';
+  private static readonly SESSION_KEY = 'current';
+  private static readonly CRYPTO_KEY = 'key';
+
+  private dbPromise: Promise<IDBPDatabase> | null = null;
+
+  async saveSession(session: BackgroundSyncSession): Promise<void> {
+    const db = await this.getDatabase();
+    const key = await this.sessionKey(db);
+    const iv = globalThis.crypto.getRandomValues(new Uint8Array(12));
+    const ciphertext = await globalThis.crypto.subtle.encrypt(
+      { name: 'AES-GCM', iv },
+      key,
+      new TextEncoder().encode(JSON.stringify(session))
+    );
+    const sealed: SealedSession = { iv, ciphertext };
+    await db.put(BackgroundSyncStore.SESSION_STORE, sealed, BackgroundSyncStore.SESSION_KEY);
+  }
+
+  async loadSession(): Promise<BackgroundSyncSession | null> {
+    const db = await this.getDatabase();
+    const [sealed, key] = await Promise.all([
+      db.get(BackgroundSyncStore.SESSION_STORE, BackgroundSyncStore.SESSION_KEY) as Promise<
+        SealedSession | undefined
+      >,
+      db.get(BackgroundSyncStore.SESSION_STORE, BackgroundSyncStore.CRYPTO_KEY) as Promise<
+        CryptoKey | undefined
+      >,
+    ]);
+    if (!sealed || !key) return null;
+
+    try {
+      const plaintext = await globalThis.crypto.subtle.decrypt(
+        { name: 'AES-GCM', iv: sealed.iv },
+        key,
+        sealed.ciphertext
+      );
+      return JSON.parse(new TextDecoder().decode(plaintext)) as BackgroundSyncSession;
+    } catch {
+      log.warn('Discarding unreadable background sync session');
+      await this.clearSession();
+      return null;
+    }
+  }
+
+  /** Removes the session with its key, the next session is encrypted with a new one */
+  async clearSession(): Promise<void> {
+    const db = await this.getDatabase();
+    const transaction = db.transaction(BackgroundSyncStore.SESSION_STORE, 'readwrite');
+    await Promise.all([
+      transaction.store.delete(BackgroundSyncStore.SESSION_KEY),
+      transaction.store.delete(BackgroundSyncStore.CRYPTO_KEY),
+      transaction.done,
+    ]);
+  }
+
+  async addResults(results: BackgroundSyncResult[]): Promise<void> {
+    if (results.length === 0) return;
+    const db = await this.getDatabase();
+    const transaction = db.transaction(BackgroundSyncStore.RESULTS_STORE, 'readwrite');
+    await Promise.all([
+      ...results.map((result) => transaction.store.put(result)),
+      transaction.done,
+    ]);
+  }
+
+  /** Returns the stored results and removes them, so that each is delivered once */
+  async takeResults(): Promise<BackgroundSyncResult[]> {
+    const db = await this.getDatabase();
+    const transaction = db.transaction(BackgroundSyncStore.RESULTS_STORE, 'readwrite');
+    const results = (await transaction.store.getAll()) as BackgroundSyncResult[];
+    await Promise.all([transaction.store.clear(), transaction.done]);
+    return results;
+  }
+
+  private async sessionKey(db: IDBPDatabase): Promise<CryptoKey> {
+    const existing = (await db.get(
+      BackgroundSyncStore.SESSION_STORE,
+      BackgroundSyncStore.CRYPTO_KEY
+    )) as CryptoKey | undefined;
+    if (existing) return existing;
+
+    const key = await globalThis.crypto.subtle.generateKey(
+      { name: 'AES-GCM', length: 256 },
+      false,
+      ['encrypt', 'decrypt']
+    );
+    try {
+      await db.add(BackgroundSyncStore.SESSION_STORE, key, BackgroundSyncStore.CRYPTO_KEY);
+      return key;
+    } catch {
+      // Another page stored its key first, sessions are encrypted with that one
+      return (await db.get(
+        BackgroundSyncStore.SESSION_STORE,
+        BackgroundSyncStore.CRYPTO_KEY
+      )) as CryptoKey;
+    }
+  }
+
+  private getDatabase(): Promise<IDBPDatabase> {
+    if (!this.dbPromise) {
+      this.dbPromise = openDB(BackgroundSyncStore.DB_NAME, BackgroundSyncStore.DB_VERSION, {
+        upgrade: (db) => {
+          if (!db.objectStoreNames.contains(BackgroundSyncStore.SESSION_STORE)) {
+            db.createObjectStore(BackgroundSyncStore.SESSION_STORE);
+          }
+          if (!db.objectStoreNames.contains(BackgroundSyncStore.RESULTS_STORE)) {
+            db.createObjectStore(BackgroundSyncStore.RESULTS_STORE, { keyPath: 'operationId' });
+          }
+        },
+        terminated: () => {
+          log.debug('Background sync database connection terminated unexpectedly');
+          this.dbPromise = null;
+        },
+      }).catch((error) => {
+        this.dbPromise = null;
+        throw error;
+      });
+    }
+    return this.dbPromise;
+  }
+}
+
+/**
+ * Page side of the service worker background sync. The service worker of the app has to call
+ * `registerBackgroundSyncHandler`.
+ */
+export class WebBackgroundSyncAdapter implements IBackgroundSyncPort {
+  private readonly store = new BackgroundSyncStore();
+  private readonly resultsSubject = new Subject<BackgroundSyncResult[]>();
+
+  private readonly onMessage = (event: MessageEvent<{ type?: string } | null>) => {
+    if (event.data?.type === BACKGROUND_SYNC_MESSAGE) {
+      this.collectResults();
+    }
+  };
+
+  constructor() {
+    navigator.serviceWorker.addEventListener('message', this.onMessage);
+  }
+
+  static isAvailable(): boolean {
+    return (
+      typeof navigator !== 'undefined' &&
+      'serviceWorker' in navigator &&
+      typeof indexedDB !== 'undefined' &&
+      typeof globalThis.crypto?.subtle?.encrypt === 'function'
+    );
+  }
+
+  get results$(): Observable<BackgroundSyncResult[]> {
+    // Results stored while no page was open are collected on subscription
+    return defer(() => {
+      this.collectResults();
+      return this.resultsSubject;
+    });
+  }
+
+  async schedule(session: BackgroundSyncSession): Promise<void> {
+    await this.store.saveSession(session);
+
+    const registration = (await navigator.serviceWorker.getRegistration()) as
+      BackgroundSyncRegistration | undefined;
+    if (!registration?.sync) {
+      log.warn('Background Sync not available, queued operations sync only while the app is open');
+      return;
+    }
+    await registration.sync.register(BACKGROUND_SYNC_TAG);
+  }
+
+  clearSession(): Promise<void> {
+    return this.store.clearSession();
+  }
+
+  destroy(): void {
+    navigator.serviceWorker.removeEventListener('message', this.onMessage);
+    this.resultsSubject.complete();
+  }
+
+  private collectResults(): void {
+    this.store
+      .takeResults()
+      .then((results) => {
+        if (results.length > 0) this.resultsSubject.next(results);
+      })
+      .catch((error) => log.warn('Failed to read background sync results', error));
+  }
+}
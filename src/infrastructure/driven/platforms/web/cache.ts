@@ -1,6 +1,8 @@
 import { IDBPDatabase, IDBPTransaction, deleteDB, openDB } from 'idb';
+import { Observable, Subject } from 'rxjs';
 
 import {
+  CacheInvalidation,
   CacheOptions,
   CacheSize,
   CachedItem,
@@ -14,17 +16,21 @@ const log = createPrefixedLogger('CACHE-WEB');
 /**
  * Web cache adapter using IndexedDB with automatic error recovery
  * Cache never expires - data persists until explicitly invalidated
+ * Invalidations are broadcast to the other tabs sharing the database
  */
 export class WebCacheAdapter implements ICacheAdapter {
   private static readonly DB_NAME = 'acube_cache';
-  private static readonly DB_VERSION = 2;
+  private static readonly DB_VERSION = 4;
   private static readonly STORE_NAME = 'cache_entries';
+  private static readonly CHANNEL_NAME = 'acube_cache';
 
   private db: IDBPDatabase | null = null;
   private initPromise: Promise<void> | null = null;
   private options: CacheOptions;
   private retryCount = 0;
   private maxRetries = 3;
+  private readonly invalidationSubject = new Subject<CacheInvalidation>();
+  private channel: BroadcastChannel | null = null;
 
   constructor(options: CacheOptions = {}) {
     this.options = {
@@ -35,6 +41,26 @@ export class WebCacheAdapter implements ICacheAdapter {
       ...options,
     };
     this.initPromise = this.initialize();
+
+    if (typeof BroadcastChannel !== 'undefined') {
+      this.channel = new BroadcastChannel(WebCacheAdapter.CHANNEL_NAME);
+      this.channel.onmessage = (event: MessageEvent<Omit<CacheInvalidation, 'remote'>>) => {
+        this.invalidationSubject.next({ ...event.data, remote: true });
+      };
+    }
+  }
+
+  get invalidations$(): Observable<CacheInvalidation> {
+    return this.invalidationSubject.asObservable();
+  }
+
+  /** Stops receiving and broadcasting invalidations and closes the database */
+  destroy(): void {
+    this.channel?.close();
+    this.channel = null;
+    this.invalidationSubject.complete();
+    this.db?.close();
+    this.db = null;
   }
 
   private async initialize(): Promise<void> {
@@ -120,6 +146,25 @@ export class WebCacheAdapter implements ICacheAdapter {
       });
     }
 
+    // Version 3 stores the response validators with each entry. Entries stored before have none
+    // and are downloaded in full when they expire.
+    if (oldVersion < 3) {
+      log.debug('Cache entries now keep ETag and Last-Modified validators');
+    }
+
+    // Version 4 indexes the tags the entries are invalidated by. Entries stored before have no
+    // tags and could never be invalidated, so they are dropped.
+    if (oldVersion < 4) {
+      const store = transaction.objectStore(WebCacheAdapter.STORE_NAME);
+      if (!store.indexNames.contains('tags')) {
+        store.createIndex('tags', 'tags', { unique: false, multiEntry: true });
+      }
+      if (oldVersion > 0) {
+        void store.clear();
+      }
+      log.debug('Created tags index');
+    }
+
     log.debug('Database upgrade completed');
   }
 
@@ -204,6 +249,9 @@ export class WebCacheAdapter implements ICacheAdapter {
         data: finalData,
         timestamp: item.timestamp,
         compressed: isCompressed,
+        etag: item.etag,
+        lastModified: item.lastModified,
+        tags: item.tags,
       };
     } catch (error) {
       log.debug('Error getting cache item', { key, error });
@@ -252,6 +300,9 @@ export class WebCacheAdapter implements ICacheAdapter {
       data: finalData,
       timestamp: item.timestamp,
       compressed: isCompressed,
+      etag: item.etag,
+      lastModified: item.lastModified,
+      tags: item.tags,
     };
 
     try {
@@ -309,6 +360,9 @@ export class WebCacheAdapter implements ICacheAdapter {
       data: finalData,
       timestamp: item.timestamp,
       compressed: isCompressed,
+      etag: item.etag,
+      lastModified: item.lastModified,
+      tags: item.tags,
     };
   }
 
@@ -318,6 +372,30 @@ export class WebCacheAdapter implements ICacheAdapter {
     const keys = await this.getKeys(pattern);
     const deletePromises = keys.map((key) => this.delete(key));
     await Promise.all(deletePromises);
+    this.notifyInvalidation({ pattern });
+  }
+
+  async invalidateTags(tags: string[]): Promise<void> {
+    if (tags.length === 0) return;
+
+    await this.ensureInitialized();
+
+    try {
+      const transaction = this.db!.transaction([WebCacheAdapter.STORE_NAME], 'readwrite');
+      const store = transaction.objectStore(WebCacheAdapter.STORE_NAME);
+      const index = store.index('tags');
+
+      const keys = new Set<IDBValidKey>();
+      for (const tag of tags) {
+        (await index.getAllKeys(tag)).forEach((key) => keys.add(key));
+      }
+      await Promise.all([...keys].map((key) => store.delete(key)));
+      await transaction.done;
+      log.debug('Tag invalidation completed', { tags, entriesRemoved: keys.size });
+    } catch (error) {
+      log.debug('Error invalidating cache tags', { tags, error });
+    }
+    this.notifyInvalidation({ tags });
   }
 
   async clear(): Promise<void> {
@@ -328,6 +406,7 @@ export class WebCacheAdapter implements ICacheAdapter {
       const store = transaction.objectStore(WebCacheAdapter.STORE_NAME);
       await store.clear();
       log.debug('Cache cleared successfully');
+      this.notifyInvalidation({ pattern: '*' });
     } catch (error) {
       log.debug('Error clearing cache', error);
       // Silently fail for cache clear
@@ -408,6 +487,15 @@ export class WebCacheAdapter implements ICacheAdapter {
     }
   }
 
+  private notifyInvalidation(invalidation: Omit<CacheInvalidation, 'remote'>): void {
+    this.invalidationSubject.next({ ...invalidation, remote: false });
+    try {
+      this.channel?.postMessage(invalidation);
+    } catch (error) {
+      log.debug('Error broadcasting cache invalidation', { ...invalidation, error });
+    }
+  }
+
   private async ensureInitialized(): Promise<void> {
     if (!this.initPromise) {
       this.initPromise = this.initialize();
@@ -441,4 +529,7 @@ interface StoredCacheItem<T> {
   data: T;
   timestamp: number;
   compressed?: boolean;
+  etag?: string;
+  lastModified?: string;
+  tags?: string[];
 }
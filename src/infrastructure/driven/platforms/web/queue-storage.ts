@@ -0,0 +1,61 @@
+import { IDBPDatabase, openDB } from 'idb';
+
+import { IQueueStoragePort } from '@/application/ports/driven';
+import { QueuedOperation } from '@/domain/entities/offline.entity';
+import { createPrefixedLogger } from '@/shared/utils';
+
+const log = createPrefixedLogger('QUEUE-WEB');
+
+/**
+ * Web offline queue storage using IndexedDB, one record per operation keyed by its ID
+ */
+export class WebQueueStorageAdapter implements IQueueStoragePort {
+  private static readonly DB_NAME = 'acube_offline_queue';
+  private static readonly DB_VERSION = 1;
+  private static readonly STORE_NAME = 'operations';
+
+  private dbPromise: Promise<IDBPDatabase> | null = null;
+
+  async loadAll(): Promise<QueuedOperation[]> {
+    const db = await this.getDatabase();
+    return (await db.getAll(WebQueueStorageAdapter.STORE_NAME)) as QueuedOperation[];
+  }
+
+  async save(operations: QueuedOperation[]): Promise<void> {
+    const db = await this.getDatabase();
+    const transaction = db.transaction(WebQueueStorageAdapter.STORE_NAME, 'readwrite');
+    await Promise.all([...operations.map((op) => transaction.store.put(op)), transaction.done]);
+  }
+
+  async remove(ids: string[]): Promise<void> {
+    const db = await this.getDatabase();
+    const transaction = db.transaction(WebQueueStorageAdapter.STORE_NAME, 'readwrite');
+    await Promise.all([...ids.map((id) => transaction.store.delete(id)), transaction.done]);
+  }
+
+  async clear(): Promise<void> {
+    const db = await this.getDatabase();
+    await db.clear(WebQueueStorageAdapter.STORE_NAME);
+  }
+
+  private getDatabase(): Promise<IDBPDatabase> {
+    if (!this.dbPromise) {
+      this.dbPromise = openDB(WebQueueStorageAdapter.DB_NAME, WebQueueStorageAdapter.DB_VERSION, {
+        upgrade: (db) => {
+          if (!db.objectStoreNames.contains(WebQueueStorageAdapter.STORE_NAME)) {
+            db.createObjectStore(WebQueueStorageAdapter.STORE_NAME, { keyPath: 'id' });
+            log.debug('Created offline queue store');
+          }
+        },
+        terminated: () => {
+          log.debug('Queue database connection terminated unexpectedly');
+          this.dbPromise = null;
+        },
+      }).catch((error) => {
+        this.dbPromise = null;
+        throw error;
+      });
+    }
+    return this.dbPromise;
+  }
+}
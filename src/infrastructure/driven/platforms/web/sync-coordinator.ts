@@ -0,0 +1,93 @@
+import { BehaviorSubject, Observable, Subject } from 'rxjs';
+import { distinctUntilChanged } from 'rxjs/operators';
+
+import { ISyncCoordinatorPort, QueueSyncMessage } from '@/application/ports/driven';
+import { createPrefixedLogger } from '@/shared/utils';
+
+const log = createPrefixedLogger('SYNC-COORDINATOR-WEB');
+
+/** Web Lock held by the context syncing the offline queue */
+export const OFFLINE_QUEUE_LOCK = 'acube_offline_queue_leader';
+
+export interface WebSyncCoordinatorOptions {
+  /** Whether to compete for the leadership, disable it to only broadcast changes */
+  electLeader?: boolean;
+}
+
+/**
+ * Coordinates the browser tabs sharing the offline queue. The leader is the tab holding a Web
+ * Lock, released when the tab closes; queue changes go through a BroadcastChannel. Without Web
+ * Locks every tab is leader, as if it were alone.
+ */
+export class WebSyncCoordinator implements ISyncCoordinatorPort {
+  private static readonly CHANNEL_NAME = 'acube_offline_queue';
+
+  private readonly channel: BroadcastChannel;
+  private readonly leaderSubject: BehaviorSubject<boolean>;
+  private readonly messagesSubject = new Subject<QueueSyncMessage>();
+  private releaseLock?: () => void;
+  private readonly abortController = new AbortController();
+
+  constructor({ electLeader = true }: WebSyncCoordinatorOptions = {}) {
+    this.channel = new BroadcastChannel(WebSyncCoordinator.CHANNEL_NAME);
+    this.channel.onmessage = (event: MessageEvent<QueueSyncMessage>) => {
+      this.messagesSubject.next(event.data);
+    };
+
+    const locks = typeof navigator !== 'undefined' ? navigator.locks : undefined;
+    this.leaderSubject = new BehaviorSubject<boolean>(electLeader && !locks);
+    if (electLeader && locks) {
+      this.requestLeadership(locks);
+    }
+  }
+
+  static isAvailable(): boolean {
+    return typeof BroadcastChannel !== 'undefined';
+  }
+
+  get isLeader$(): Observable<boolean> {
+    return this.leaderSubject.pipe(distinctUntilChanged());
+  }
+
+  get messages$(): Observable<QueueSyncMessage> {
+    return this.messagesSubject.asObservable();
+  }
+
+  isLeader(): boolean {
+    return this.leaderSubject.value;
+  }
+
+  broadcast(message: QueueSyncMessage): void {
+    try {
+      this.channel.postMessage(message);
+    } catch (error) {
+      log.warn('Failed to broadcast queue change', { type: message.type, error });
+    }
+  }
+
+  destroy(): void {
+    this.abortController.abort();
+    this.releaseLock?.();
+    this.channel.close();
+    this.leaderSubject.complete();
+    this.messagesSubject.complete();
+  }
+
+  private requestLeadership(locks: LockManager): void {
+    locks
+      .request(OFFLINE_QUEUE_LOCK, { signal: this.abortController.signal }, () => {
+        log.debug('This tab is now syncing the offline queue');
+        this.leaderSubject.next(true);
+        // Held until the tab is closed or the coordinator destroyed
+        return new Promise<void>((resolve) => {
+          this.releaseLock = resolve;
+        });
+      })
+      .catch((error: unknown) => {
+        if (!this.abortController.signal.aborted) {
+          log.warn('Leader election failed, syncing from this tab', error);
+          this.leaderSubject.next(true);
+        }
+      });
+  }
+}
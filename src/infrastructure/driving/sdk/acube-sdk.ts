@@ -1,7 +1,12 @@
+import { EMPTY, Observable } from 'rxjs';
+
 import {
+  CacheInvalidation,
+  CacheRefresh,
   CertificateInfo,
   ICertificatePort,
   IMTLSPort,
+  IQueueStoragePort,
   PlatformAdapters,
 } from '@/application/ports/driven';
 import { IHttpPort } from '@/application/ports/driven/http.port';
@@ -11,6 +16,7 @@ import { CertificateService } from '@/application/services/certificate.service';
 import { ICashRegisterRepository } from '@/domain/repositories/cash-register.repository';
 import { ICashierRepository } from '@/domain/repositories/cashier.repository';
 import { IDailyReportRepository } from '@/domain/repositories/daily-report.repository';
+import { IEmergencyReportRepository } from '@/domain/repositories/emergency-report.repository';
 import { IJournalRepository } from '@/domain/repositories/journal.repository';
 import { IMerchantRepository } from '@/domain/repositories/merchant.repository';
 import { INotificationRepository } from '@/domain/repositories/notification.repository';
@@ -22,7 +28,18 @@ import { ITelemetryRepository } from '@/domain/repositories/telemetry.repository
 import { AuthStrategy, IUserProvider } from '@/infrastructure/driven/http/auth-strategy';
 import { JwtAuthHandler } from '@/infrastructure/driven/http/jwt-auth.handler';
 import { MtlsAuthHandler } from '@/infrastructure/driven/http/mtls-auth.handler';
-import { OfflineManager, QueueEvents } from '@/infrastructure/driven/offline';
+import {
+  EncryptedQueueStorage,
+  KeyValueQueueStorage,
+  OfflineFallbackReceiptRepository,
+  OfflineManager,
+  PayloadCipher,
+  QUEUE_KEYS_STORAGE_KEY,
+  QueueEvents,
+  QueuedOperation,
+  RECEIPT_JOURNAL_KEYS_STORAGE_KEY,
+  ReceiptJournal,
+} from '@/infrastructure/driven/offline';
 import { createACubeMTLSConfig, loadPlatformAdapters } from '@/infrastructure/loaders';
 import { ConfigManager } from '@/shared/config';
 import { ACubeSDKError, AuthCredentials, SDKConfig, User } from '@/shared/types';
@@ -46,11 +63,16 @@ export class ACubeSDK {
   private adapters?: PlatformAdapters;
   private authService?: AuthenticationService;
   private offlineManager?: OfflineManager;
+  private encryptedQueueStorage?: EncryptedQueueStorage;
+  private journal?: ReceiptJournal;
+  private offlineReceiptRepository?: OfflineFallbackReceiptRepository;
   private certificateService?: CertificateService;
   private container?: DIContainer;
   private isInitialized = false;
   private currentOnlineState = true;
   private networkSubscription?: { unsubscribe: () => void };
+  private backgroundSyncSubscription?: { unsubscribe: () => void };
+  private keyRotationSubscription?: { unsubscribe: () => void };
 
   constructor(
     config: SDKConfig,
@@ -88,6 +110,7 @@ export class ACubeSDK {
 
         this.adapters = loadPlatformAdapters({
           mtlsConfig,
+          backgroundSync: this.config.isBackgroundSyncEnabled(),
         });
         log.info('Platform adapters loaded', {
           hasCache: !!this.adapters.cache,
@@ -97,6 +120,13 @@ export class ACubeSDK {
         });
       }
 
+      if (this.config.isOfflineQueueEncrypted() && !PayloadCipher.isAvailable()) {
+        // The queue and the journal hold customer and payment data, never stored in plaintext
+        throw new Error(
+          'Web Crypto (crypto.subtle) is required to encrypt the offline queue: install a polyfill or set encryptOfflineQueue to false'
+        );
+      }
+
       const factoryConfig: SDKFactoryConfig = {
         baseUrl: this.config.getApiUrl(),
         authUrl: this.config.getAuthUrl(),
@@ -117,7 +147,8 @@ export class ACubeSDK {
         SDKFactory.registerCacheServices(
           this.container,
           this.adapters.cache,
-          this.adapters.networkMonitor
+          this.adapters.networkMonitor,
+          this.config.getCacheConfig()
         );
       } else {
         log.debug('No cache adapter available, caching disabled');
@@ -145,7 +176,11 @@ export class ACubeSDK {
           timeout: this.config.getTimeout(),
         },
         {
-          onUserChanged: this.events.onUserChanged,
+          onUserChanged: (user) => {
+            // Logged out or token expired: the service worker must not keep the credentials
+            if (!user) this.clearBackgroundSyncSession();
+            this.events.onUserChanged?.(user);
+          },
           onAuthError: (error) => {
             this.events.onAuthError?.(new ACubeSDKError('AUTH_ERROR', error.message, error));
           },
@@ -156,15 +191,30 @@ export class ACubeSDK {
       const queueEvents: QueueEvents = {
         onOperationAdded: (operation) => {
           this.events.onOfflineOperationAdded?.(operation.id);
+          this.scheduleBackgroundSync();
         },
         onOperationCompleted: (result) => {
           this.events.onOfflineOperationCompleted?.(result.operation.id, result.success);
+          this.followInJournal({
+            ...result.operation,
+            status: 'completed',
+            response: result.response,
+          });
         },
         onOperationFailed: (result) => {
           this.events.onOfflineOperationCompleted?.(result.operation.id, false);
         },
+        onOperationDeadLettered: (operation) => this.followInJournal(operation),
+        onOperationResubmitted: (operation) => this.followInJournal(operation),
+        onOperationDiscarded: (operation) => {
+          this.journal
+            ?.discard(operation.id)
+            .catch((error) => log.warn('Failed to update the receipt journal', error));
+        },
       };
 
+      this.journal = this.createReceiptJournal(this.adapters);
+
       this.offlineManager = new OfflineManager(
         this.adapters.storage,
         httpPort,
@@ -172,9 +222,39 @@ export class ACubeSDK {
         {
           syncInterval: 30000,
         },
-        queueEvents
+        queueEvents,
+        undefined,
+        this.createQueueStorage(this.adapters),
+        this.adapters.syncCoordinator
       );
 
+      // Operations synced by the service worker, also while the app was closed
+      this.backgroundSyncSubscription = this.adapters.backgroundSync?.results$.subscribe(
+        (results) => {
+          for (const result of results) {
+            this.events.onOfflineOperationCompleted?.(result.operationId, result.success);
+            const operation = this.offlineManager?.getOperation(result.operationId);
+            if (operation) this.followInJournal(operation);
+          }
+        }
+      );
+
+      // Keys rotated by another tab: the cached ones are gone from the secure storage
+      this.keyRotationSubscription = this.adapters.syncCoordinator?.messages$.subscribe(
+        (message) => {
+          if (message.type !== 'keys-rotated') return;
+          Promise.all([this.encryptedQueueStorage?.reloadKeys(), this.journal?.reloadKeys()]).catch(
+            (error) => log.warn('Failed to reload the offline queue keys', error)
+          );
+        }
+      );
+
+      // Sales synced while the app was closed are linked once the queue is loaded
+      this.offlineManager
+        .ready()
+        .then(() => this.journal?.reconcile((id) => this.offlineManager?.getOperation(id)))
+        .catch((error) => log.warn('Failed to reconcile the receipt journal', error));
+
       this.networkSubscription = this.adapters.networkMonitor.online$.subscribe((online) => {
         this.currentOnlineState = online;
         this.events.onNetworkStatusChanged?.(online);
@@ -306,6 +386,29 @@ export class ACubeSDK {
     return this.container!.get<IReceiptRepository>(DI_TOKENS.RECEIPT_REPOSITORY);
   }
 
+  /**
+   * Opt-in receipt repository whose writes are queued for sync, instead of failing, while the
+   * device is offline. Queued writes resolve to a `PendingResult` handle; sales created with a
+   * `cashRegisterId` get a provisional number in the receipt journal.
+   */
+  get offlineReceipts(): OfflineFallbackReceiptRepository {
+    this.ensureInitialized();
+    if (!this.offlineReceiptRepository) {
+      this.offlineReceiptRepository = new OfflineFallbackReceiptRepository(
+        this.receipts,
+        this.offlineManager!,
+        this.journal
+      );
+    }
+    return this.offlineReceiptRepository;
+  }
+
+  /** Provisionally numbered sales queued through `offlineReceipts` */
+  get receiptJournal(): ReceiptJournal {
+    this.ensureInitialized();
+    return this.journal!;
+  }
+
   get merchants(): IMerchantRepository {
     this.ensureInitialized();
     return this.container!.get<IMerchantRepository>(DI_TOKENS.MERCHANT_REPOSITORY);
@@ -356,6 +459,11 @@ export class ACubeSDK {
     return this.container!.get<ITelemetryRepository>(DI_TOKENS.TELEMETRY_REPOSITORY);
   }
 
+  get emergencyReports(): IEmergencyReportRepository {
+    this.ensureInitialized();
+    return this.container!.get<IEmergencyReportRepository>(DI_TOKENS.EMERGENCY_REPORT_REPOSITORY);
+  }
+
   async login(credentials: AuthCredentials): Promise<User> {
     this.ensureInitialized();
     log.info('Login attempt', { email: credentials.email });
@@ -378,6 +486,12 @@ export class ACubeSDK {
 
     await this.authService!.logout();
     this.httpPort.setAuthToken(null);
+    if (this.config.shouldClearOfflineQueueOnLogout()) {
+      await this.offlineManager?.clearAll();
+      await this.encryptedQueueStorage?.destroyKeys();
+      await this.journal?.clear();
+    }
+    await this.clearBackgroundSyncSession();
   }
 
   async getCurrentUser(): Promise<User | null> {
@@ -396,6 +510,39 @@ export class ACubeSDK {
     return await this.authService!.isAuthenticated();
   }
 
+  /**
+   * Encrypts the offline queue and the receipt journal with a new key. Does nothing when they are
+   * not encrypted. The other tabs sharing the queue are told to read the new keys.
+   */
+  async rotateOfflineQueueKey(): Promise<void> {
+    this.ensureInitialized();
+    await this.journal!.rotateKey();
+    if (!this.encryptedQueueStorage) return;
+
+    await this.encryptedQueueStorage.rotateKey();
+    this.adapters?.syncCoordinator?.broadcast({ type: 'keys-rotated' });
+    // The service worker reads the queue with the keys of its session
+    this.scheduleBackgroundSync();
+  }
+
+  /**
+   * Values refreshed in the background for the expired cache entries returned by resources in
+   * stale-while-revalidate mode. Completes right away when caching is not available.
+   */
+  get cacheRefreshes$(): Observable<CacheRefresh> {
+    this.ensureInitialized();
+    return SDKFactory.getCachingHttp(this.container!)?.refreshes$ ?? EMPTY;
+  }
+
+  /**
+   * Invalidations of the cache, including those made by other browser tabs sharing it. Completes
+   * right away when the cache adapter does not report them.
+   */
+  get cacheInvalidations$(): Observable<CacheInvalidation> {
+    this.ensureInitialized();
+    return this.adapters?.cache?.invalidations$ ?? EMPTY;
+  }
+
   getOfflineManager(): OfflineManager {
     this.ensureInitialized();
     return this.offlineManager!;
@@ -589,11 +736,70 @@ export class ACubeSDK {
 
   destroy(): void {
     this.networkSubscription?.unsubscribe();
+    this.backgroundSyncSubscription?.unsubscribe();
+    this.keyRotationSubscription?.unsubscribe();
     this.offlineManager?.destroy();
+    this.offlineReceiptRepository = undefined;
+    this.journal = undefined;
+    if (this.container) SDKFactory.getCachingHttp(this.container)?.destroy();
     this.container?.clear();
     this.isInitialized = false;
   }
 
+  /** Lets the service worker send the queued operations if the app is closed before it does */
+  private scheduleBackgroundSync(): void {
+    const backgroundSync = this.adapters?.backgroundSync;
+    if (!backgroundSync || !this.authService) return;
+
+    this.authService
+      .getAccessToken()
+      .then((accessToken) => {
+        if (!accessToken) return;
+        return this.getQueueKeys().then((queueKeys) =>
+          backgroundSync.schedule({ apiUrl: this.config.getApiUrl(), accessToken, queueKeys })
+        );
+      })
+      .catch((error) => log.warn('Failed to schedule the background sync', error));
+  }
+
+  private async clearBackgroundSyncSession(): Promise<void> {
+    await this.adapters?.backgroundSync?.clearSession().catch((error) => {
+      log.warn('Failed to clear the background sync session', error);
+    });
+  }
+
+  /** The service worker needs the keys to read an encrypted queue */
+  private async getQueueKeys(): Promise<string | undefined> {
+    if (!this.encryptedQueueStorage) return undefined;
+    return (await this.adapters!.secureStorage.get(QUEUE_KEYS_STORAGE_KEY)) ?? undefined;
+  }
+
+  private followInJournal(operation: QueuedOperation): void {
+    this.journal
+      ?.follow(operation)
+      .catch((error) => log.warn('Failed to update the receipt journal', error));
+  }
+
+  private createReceiptJournal(adapters: PlatformAdapters): ReceiptJournal {
+    if (!this.config.isOfflineQueueEncrypted()) {
+      return new ReceiptJournal(adapters.storage);
+    }
+    return new ReceiptJournal(
+      adapters.storage,
+      new PayloadCipher(adapters.secureStorage, RECEIPT_JOURNAL_KEYS_STORAGE_KEY)
+    );
+  }
+
+  private createQueueStorage(adapters: PlatformAdapters): IQueueStoragePort {
+    const queueStorage = adapters.queueStorage ?? new KeyValueQueueStorage(adapters.storage);
+    if (!this.config.isOfflineQueueEncrypted()) {
+      return queueStorage;
+    }
+
+    this.encryptedQueueStorage = new EncryptedQueueStorage(queueStorage, adapters.secureStorage);
+    return this.encryptedQueueStorage;
+  }
+
   private ensureInitialized(): void {
     if (!this.isInitialized) {
       throw new ACubeSDKError(
@@ -6,6 +6,7 @@ export const DI_TOKENS = {
   NETWORK_PORT: Symbol('NETWORK_PORT'),
   CACHE_PORT: Symbol('CACHE_PORT'),
   CACHE_KEY_GENERATOR: Symbol('CACHE_KEY_GENERATOR'),
+  CACHING_HTTP_PORT: Symbol('CACHING_HTTP_PORT'),
   MTLS_PORT: Symbol('MTLS_PORT'),
   TOKEN_STORAGE_PORT: Symbol('TOKEN_STORAGE_PORT'),
 
@@ -20,6 +21,7 @@ export const DI_TOKENS = {
   JOURNAL_REPOSITORY: Symbol('JOURNAL_REPOSITORY'),
   NOTIFICATION_REPOSITORY: Symbol('NOTIFICATION_REPOSITORY'),
   TELEMETRY_REPOSITORY: Symbol('TELEMETRY_REPOSITORY'),
+  EMERGENCY_REPORT_REPOSITORY: Symbol('EMERGENCY_REPORT_REPOSITORY'),
 
   RECEIPT_SERVICE: Symbol('RECEIPT_SERVICE'),
   AUTH_SERVICE: Symbol('AUTH_SERVICE'),
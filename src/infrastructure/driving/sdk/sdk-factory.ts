@@ -7,6 +7,7 @@ import { AuthenticationService } from '@/application/services/authentication.ser
 import { ICashRegisterRepository } from '@/domain/repositories/cash-register.repository';
 import { ICashierRepository } from '@/domain/repositories/cashier.repository';
 import { IDailyReportRepository } from '@/domain/repositories/daily-report.repository';
+import { IEmergencyReportRepository } from '@/domain/repositories/emergency-report.repository';
 import { IJournalRepository } from '@/domain/repositories/journal.repository';
 import { IMerchantRepository } from '@/domain/repositories/merchant.repository';
 import { INotificationRepository } from '@/domain/repositories/notification.repository';
@@ -19,6 +20,7 @@ import {
   CashRegisterRepositoryImpl,
   CashierRepositoryImpl,
   DailyReportRepositoryImpl,
+  EmergencyReportRepositoryImpl,
   JournalRepositoryImpl,
   MerchantRepositoryImpl,
   NotificationRepositoryImpl,
@@ -32,6 +34,7 @@ import { CacheKeyGenerator } from '@/infrastructure/driven/cache/cache-key-gener
 import { CachingHttpDecorator } from '@/infrastructure/driven/cache/caching-http-decorator';
 import { AxiosHttpAdapter } from '@/infrastructure/driven/http/axios-http.adapter';
 import { TokenStorageAdapter } from '@/infrastructure/driven/storage/token-storage.adapter';
+import { SDKCacheConfig } from '@/shared/types';
 
 import { DIContainer, DI_TOKENS } from './di-container';
 
@@ -57,6 +60,7 @@ export interface SDKServices {
   journals: IJournalRepository;
   notifications: INotificationRepository;
   telemetry: ITelemetryRepository;
+  emergencyReports: IEmergencyReportRepository;
 }
 
 export class SDKFactory {
@@ -126,13 +130,19 @@ export class SDKFactory {
       return new TelemetryRepositoryImpl(http);
     });
 
+    container.registerFactory(DI_TOKENS.EMERGENCY_REPORT_REPOSITORY, () => {
+      const http = container.get<IHttpPort>(DI_TOKENS.HTTP_PORT);
+      return new EmergencyReportRepositoryImpl(http);
+    });
+
     return container;
   }
 
   static registerCacheServices(
     container: DIContainer,
     cache: ICachePort,
-    network?: INetworkPort
+    network?: INetworkPort,
+    cacheConfig: SDKCacheConfig = {}
   ): void {
     container.register(DI_TOKENS.CACHE_PORT, cache);
 
@@ -140,12 +150,13 @@ export class SDKFactory {
       container.register(DI_TOKENS.NETWORK_PORT, network);
     }
 
-    const keyGenerator = new CacheKeyGenerator();
+    const keyGenerator = new CacheKeyGenerator(cacheConfig.resources);
     container.register(DI_TOKENS.CACHE_KEY_GENERATOR, keyGenerator);
 
     const baseHttp = container.get<IHttpPort>(DI_TOKENS.BASE_HTTP_PORT);
     const cachingHttp = new CachingHttpDecorator(baseHttp, cache, keyGenerator, network);
 
+    container.register(DI_TOKENS.CACHING_HTTP_PORT, cachingHttp);
     container.register(DI_TOKENS.HTTP_PORT, cachingHttp);
   }
 
@@ -156,6 +167,13 @@ export class SDKFactory {
     return undefined;
   }
 
+  static getCachingHttp(container: DIContainer): CachingHttpDecorator | undefined {
+    if (container.has(DI_TOKENS.CACHING_HTTP_PORT)) {
+      return container.get<CachingHttpDecorator>(DI_TOKENS.CACHING_HTTP_PORT);
+    }
+    return undefined;
+  }
+
   static registerAuthServices(
     container: DIContainer,
     secureStorage: ISecureStoragePort,
@@ -188,6 +206,9 @@ export class SDKFactory {
       journals: container.get<IJournalRepository>(DI_TOKENS.JOURNAL_REPOSITORY),
       notifications: container.get<INotificationRepository>(DI_TOKENS.NOTIFICATION_REPOSITORY),
       telemetry: container.get<ITelemetryRepository>(DI_TOKENS.TELEMETRY_REPOSITORY),
+      emergencyReports: container.get<IEmergencyReportRepository>(
+        DI_TOKENS.EMERGENCY_REPORT_REPOSITORY
+      ),
     };
 
     if (container.has(DI_TOKENS.TOKEN_STORAGE_PORT)) {
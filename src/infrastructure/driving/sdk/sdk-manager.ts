@@ -13,6 +13,7 @@ import { TelemetryService, TelemetryState } from '@/application/services/telemet
 import { ICashRegisterRepository } from '@/domain/repositories/cash-register.repository';
 import { ICashierRepository } from '@/domain/repositories/cashier.repository';
 import { IDailyReportRepository } from '@/domain/repositories/daily-report.repository';
+import { IEmergencyReportRepository } from '@/domain/repositories/emergency-report.repository';
 import { IJournalRepository } from '@/domain/repositories/journal.repository';
 import { IMerchantRepository } from '@/domain/repositories/merchant.repository';
 import { IPemRepository } from '@/domain/repositories/pem.repository';
@@ -72,6 +73,7 @@ export interface ManagedServices {
   pems: IPemRepository;
   dailyReports: IDailyReportRepository;
   journals: IJournalRepository;
+  emergencyReports: IEmergencyReportRepository;
   telemetry: TelemetryOperations;
   login: (credentials: AuthCredentials) => Promise<User>;
   logout: () => Promise<void>;
@@ -391,6 +393,7 @@ export class SDKManager {
       pems: sdk.pems,
       dailyReports: sdk.dailyReports,
       journals: sdk.journals,
+      emergencyReports: sdk.emergencyReports,
       telemetry: {
         startPollingAuto: (): Promise<string | null> => this.startTelemetryPollingAuto(),
         startPolling: (pemId: string): void => telemetryService.startPolling(pemId),
@@ -1,10 +1,13 @@
 import { PlatformAdapters } from '@/application/ports/driven';
 import { createPrefixedLogger, detectPlatform } from '@/shared/utils';
 
+import { loadBackgroundSync } from './background-sync-loader';
 import { loadCacheAdapter } from './cache-loader';
 import { loadMTLSAdapter } from './mtls-loader';
 import { loadNetworkMonitor } from './network-loader';
+import { loadQueueStorage } from './queue-storage-loader';
 import { loadStorageAdapters } from './storage-loader';
+import { loadSyncCoordinator } from './sync-coordinator-loader';
 
 const log = createPrefixedLogger('ADAPTER-LOADER');
 
@@ -18,10 +21,12 @@ export interface MTLSAdapterConfig {
 
 export interface PlatformAdapterOptions {
   mtlsConfig?: MTLSAdapterConfig;
+  /** Loads the service worker background sync of the offline queue, where available */
+  backgroundSync?: boolean;
 }
 
 export function loadPlatformAdapters(options: PlatformAdapterOptions = {}): PlatformAdapters {
-  const { mtlsConfig } = options;
+  const { mtlsConfig, backgroundSync: enableBackgroundSync = false } = options;
   const { platform } = detectPlatform();
 
   log.debug('Loading adapters for platform:', platform);
@@ -29,6 +34,9 @@ export function loadPlatformAdapters(options: PlatformAdapterOptions = {}): Plat
   const storageAdapters = loadStorageAdapters(platform);
   const networkMonitor = loadNetworkMonitor(platform);
   const cache = loadCacheAdapter(platform);
+  const queueStorage = loadQueueStorage(platform);
+  const syncCoordinator = loadSyncCoordinator(platform);
+  const backgroundSync = enableBackgroundSync ? loadBackgroundSync(platform) : undefined;
   const mtls = loadMTLSAdapter(platform, mtlsConfig);
 
   log.debug('Adapters loaded:', {
@@ -37,6 +45,9 @@ export function loadPlatformAdapters(options: PlatformAdapterOptions = {}): Plat
     hasSecureStorage: !!storageAdapters.secureStorage,
     hasNetworkMonitor: !!networkMonitor,
     hasCache: !!cache,
+    hasQueueStorage: !!queueStorage,
+    hasSyncCoordinator: !!syncCoordinator,
+    hasBackgroundSync: !!backgroundSync,
     hasMTLS: !!mtls,
   });
 
@@ -44,6 +55,9 @@ export function loadPlatformAdapters(options: PlatformAdapterOptions = {}): Plat
     ...storageAdapters,
     networkMonitor,
     cache,
+    queueStorage,
+    syncCoordinator,
+    backgroundSync,
     mtls: mtls || undefined,
   };
 }
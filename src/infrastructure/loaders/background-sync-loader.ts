@@ -0,0 +1,22 @@
+import { IBackgroundSyncPort } from '@/application/ports/driven';
+import { WebBackgroundSyncAdapter } from '@/infrastructure/driven/platforms/web/background-sync';
+import { createPrefixedLogger } from '@/shared/utils';
+
+const log = createPrefixedLogger('BACKGROUND-SYNC-LOADER');
+
+/**
+ * Loads the background sync of the offline queue. Only browsers can sync it from a service worker
+ * while the app is closed.
+ */
+export function loadBackgroundSync(platform: string): IBackgroundSyncPort | undefined {
+  if (platform !== 'web' || !WebBackgroundSyncAdapter.isAvailable()) {
+    return undefined;
+  }
+
+  try {
+    return new WebBackgroundSyncAdapter();
+  } catch (error) {
+    log.warn('Background sync not available:', error);
+    return undefined;
+  }
+}
@@ -1,5 +1,8 @@
 export * from './cache-loader';
 export * from './storage-loader';
 export * from './network-loader';
+export * from './queue-storage-loader';
+export * from './sync-coordinator-loader';
+export * from './background-sync-loader';
 export * from './mtls-loader';
 export * from './adapter-loader';
@@ -0,0 +1,28 @@
+import { IQueueStoragePort } from '@/application/ports/driven';
+import { NodeQueueStorageAdapter } from '@/infrastructure/driven/platforms/node/queue-storage';
+import { ReactNativeQueueStorageAdapter } from '@/infrastructure/driven/platforms/react-native/queue-storage';
+import { WebQueueStorageAdapter } from '@/infrastructure/driven/platforms/web/queue-storage';
+import { createPrefixedLogger } from '@/shared/utils';
+
+const log = createPrefixedLogger('QUEUE-STORAGE-LOADER');
+
+/**
+ * Loads the offline queue storage of the platform. Without one, the queue is kept in the
+ * platform key-value storage.
+ */
+export function loadQueueStorage(platform: string): IQueueStoragePort | undefined {
+  try {
+    switch (platform) {
+      case 'web':
+        return typeof indexedDB !== 'undefined' ? new WebQueueStorageAdapter() : undefined;
+      case 'react-native':
+        return new ReactNativeQueueStorageAdapter();
+      case 'node':
+      default:
+        return NodeQueueStorageAdapter.isAvailable() ? new NodeQueueStorageAdapter() : undefined;
+    }
+  } catch (error) {
+    log.warn(`Queue storage not available for platform ${platform}:`, error);
+    return undefined;
+  }
+}
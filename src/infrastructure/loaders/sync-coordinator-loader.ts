@@ -0,0 +1,22 @@
+import { ISyncCoordinatorPort } from '@/application/ports/driven';
+import { WebSyncCoordinator } from '@/infrastructure/driven/platforms/web/sync-coordinator';
+import { createPrefixedLogger } from '@/shared/utils';
+
+const log = createPrefixedLogger('SYNC-COORDINATOR-LOADER');
+
+/**
+ * Loads the coordinator of the contexts sharing the offline queue. Only browsers can run several
+ * of them (tabs) on the same storage.
+ */
+export function loadSyncCoordinator(platform: string): ISyncCoordinatorPort | undefined {
+  if (platform !== 'web' || !WebSyncCoordinator.isAvailable()) {
+    return undefined;
+  }
+
+  try {
+    return new WebSyncCoordinator();
+  } catch (error) {
+    log.warn('Sync coordinator not available:', error);
+    return undefined;
+  }
+}
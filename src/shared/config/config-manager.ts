@@ -1,4 +1,4 @@
-import { Environment, SDKConfig } from '@/shared/types';
+import { Environment, SDKCacheConfig, SDKConfig } from '@/shared/types';
 
 interface InternalConfig {
   environment: Environment;
@@ -7,6 +7,10 @@ interface InternalConfig {
   timeout: number;
   retryAttempts: number;
   debug: boolean;
+  backgroundSync: boolean;
+  encryptOfflineQueue: boolean;
+  clearOfflineQueueOnLogout: boolean;
+  cache: SDKCacheConfig;
   customHeaders: Record<string, string>;
 }
 
@@ -25,6 +29,10 @@ export class ConfigManager {
       timeout: 30000,
       retryAttempts: 3,
       debug: userConfig.debug ?? false,
+      backgroundSync: userConfig.backgroundSync ?? false,
+      encryptOfflineQueue: userConfig.encryptOfflineQueue ?? true,
+      clearOfflineQueueOnLogout: userConfig.clearOfflineQueueOnLogout ?? false,
+      cache: userConfig.cache ?? {},
       customHeaders: {},
     };
   }
@@ -56,6 +64,10 @@ export class ConfigManager {
     return {
       environment: this.config.environment,
       debug: this.config.debug,
+      backgroundSync: this.config.backgroundSync,
+      encryptOfflineQueue: this.config.encryptOfflineQueue,
+      clearOfflineQueueOnLogout: this.config.clearOfflineQueueOnLogout,
+      cache: this.config.cache,
     };
   }
 
@@ -75,6 +87,22 @@ export class ConfigManager {
     return this.config.debug;
   }
 
+  isBackgroundSyncEnabled(): boolean {
+    return this.config.backgroundSync;
+  }
+
+  isOfflineQueueEncrypted(): boolean {
+    return this.config.encryptOfflineQueue;
+  }
+
+  shouldClearOfflineQueueOnLogout(): boolean {
+    return this.config.clearOfflineQueueOnLogout;
+  }
+
+  getCacheConfig(): SDKCacheConfig {
+    return this.config.cache;
+  }
+
   getTimeout(): number {
     return this.config.timeout;
   }
@@ -96,5 +124,11 @@ export class ConfigManager {
     if (updates.debug !== undefined) {
       this.config.debug = updates.debug;
     }
+    if (updates.backgroundSync !== undefined) {
+      this.config.backgroundSync = updates.backgroundSync;
+    }
+    if (updates.clearOfflineQueueOnLogout !== undefined) {
+      this.config.clearOfflineQueueOnLogout = updates.clearOfflineQueueOnLogout;
+    }
   }
 }
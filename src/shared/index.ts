@@ -1,4 +1,5 @@
 export * from './config/config-manager';
 export * from './utils';
 export * from './validation';
+export * from './openapi';
 export * from './types';
@@ -0,0 +1,72 @@
+import { CashRegisterMapper } from '@/application/dto/cash-register.dto';
+import { MerchantMapper } from '@/application/dto/merchant.dto';
+import { ReceiptMapper } from '@/application/dto/receipt.dto';
+
+import {
+  Mf1CashRegisterUpdateSchema,
+  Mf1PointOfSaleOutputSchema,
+  Mf1ReceiptInputSchema,
+  Mf2MerchantCreateInputSchema,
+  Mf2PemDataSchema,
+} from '../index';
+
+describe('generated OpenAPI schemas', () => {
+  it('should accept the receipt payload produced by ReceiptMapper', () => {
+    const payload = ReceiptMapper.toApiInput({
+      items: [{ quantity: '1', description: 'Caffè', unitPrice: '1.2', vatRateCode: '22.00' }],
+      cashPaymentAmount: '1.2',
+      uncollectedDcrToSsn: false,
+    });
+
+    expect(Mf1ReceiptInputSchema.safeParse(payload).success).toBe(true);
+  });
+
+  it('should accept the cash register update produced by CashRegisterMapper', () => {
+    const payload = CashRegisterMapper.toUpdateApiInput({ name: 'Cassa 2' });
+
+    expect(Mf1CashRegisterUpdateSchema.safeParse(payload).success).toBe(true);
+    expect(Mf1CashRegisterUpdateSchema.safeParse({}).success).toBe(false);
+  });
+
+  it('should apply string constraints from the specification', () => {
+    const payload = MerchantMapper.toCreateApiInput({
+      vatNumber: '12345678901',
+      email: 'merchant@example.com',
+      password: 'Password123!',
+      businessName: 'Bar Centrale',
+      address: {
+        streetAddress: 'Via Roma',
+        streetNumber: '1',
+        zipCode: '00100',
+        city: 'Roma',
+        province: 'RM',
+      },
+    });
+
+    expect(Mf2MerchantCreateInputSchema.safeParse(payload).success).toBe(true);
+    expect(Mf2MerchantCreateInputSchema.safeParse({ ...payload, vat_number: '123' }).success).toBe(
+      false
+    );
+    expect(Mf2PemDataSchema.safeParse({ version: '1.0', type: 'AP' }).success).toBe(false);
+  });
+
+  it('should model nullable operational status and the ERROR PEM status', () => {
+    const output = {
+      serial_number: 'E001-000001',
+      status: 'ERROR',
+      address: {
+        street_address: 'Via Roma',
+        street_number: '1',
+        zip_code: '00100',
+        city: 'Roma',
+        province: 'RM',
+      },
+      operational_status: null,
+    };
+
+    expect(Mf1PointOfSaleOutputSchema.safeParse(output).success).toBe(true);
+    expect(
+      Mf1PointOfSaleOutputSchema.safeParse({ ...output, operational_status: 'PAUSED' }).success
+    ).toBe(false);
+  });
+});
@@ -0,0 +1,500 @@
+/**
+ * THIS FILE IS GENERATED by scripts/generate-openapi-types.mjs from OpenAPI Specification.json.
+ * Do not edit it by hand: run `npm run generate:api` after updating the specification.
+ */
+/* eslint-disable no-useless-escape */
+import * as z from 'zod';
+
+export const Mf1AddressSchema = z.object({
+  street_address: z.string(),
+  street_number: z.string(),
+  zip_code: z.string().min(5).max(5),
+  city: z.string(),
+  province: z.string().min(2).max(2),
+});
+
+export const Mf1CashRegisterBasicOutputSchema = z.object({
+  uuid: z.string(),
+  pem_serial_number: z.string(),
+  name: z.string(),
+});
+
+export const Mf1CashRegisterCreateSchema = z.object({
+  pem_serial_number: z.string(),
+  name: z.string(),
+});
+
+export const Mf1CashRegisterDetailedOutputSchema = z.object({
+  uuid: z.string(),
+  pem_serial_number: z.string(),
+  name: z.string(),
+  mtls_certificate: z.string(),
+  private_key: z.string(),
+});
+
+export const Mf1CashRegisterUpdateSchema = z.object({
+  name: z.string(),
+});
+
+export const Mf1CashierCreateInputSchema = z.object({
+  email: z.string().max(255),
+  password: z.string().min(8).max(40),
+  name: z.string().max(255),
+  display_name: z.string().nullable(),
+});
+
+export const Mf1CashierStatusSchema = z.enum(['active', 'disabled']);
+
+export const Mf1CashierOutputSchema = z.object({
+  uuid: z.string(),
+  email: z.string(),
+  display_name: z.string().nullable().optional(),
+  name: z.string(),
+  status: Mf1CashierStatusSchema,
+  merchant_uuid: z.string(),
+});
+
+export const Mf1CashierSimpleOutputSchema = z.object({
+  uuid: z.string(),
+  email: z.string(),
+  display_name: z.string().nullable().optional(),
+  name: z.string(),
+  status: Mf1CashierStatusSchema,
+});
+
+export const Mf1ErrorModel400BadRequestSchema = z.object({
+  type: z.string().optional(),
+  title: z.string().optional(),
+  status: z.number().int().optional(),
+  detail: z.string().optional(),
+  instance: z.string().nullable().optional(),
+});
+
+export const Mf1ErrorModel401UnauthorizedSchema = z.object({
+  type: z.string().optional(),
+  title: z.string().optional(),
+  status: z.number().int().optional(),
+  detail: z.string().optional(),
+  instance: z.string().nullable().optional(),
+});
+
+export const Mf1ErrorModel403ForbiddenSchema = z.object({
+  type: z.string().optional(),
+  title: z.string().optional(),
+  status: z.number().int().optional(),
+  detail: z.string().optional(),
+  instance: z.string().nullable().optional(),
+});
+
+export const Mf1ErrorModel404NotFoundSchema = z.object({
+  type: z.string().optional(),
+  title: z.string().optional(),
+  status: z.number().int().optional(),
+  detail: z.string().optional(),
+  instance: z.string().nullable().optional(),
+});
+
+export const Mf1ErrorModel409ConflictSchema = z.object({
+  type: z.string().optional(),
+  title: z.string().optional(),
+  status: z.number().int().optional(),
+  detail: z.string().optional(),
+  instance: z.string().nullable().optional(),
+});
+
+export const Mf1ErrorModel500InternalServerErrorSchema = z.object({
+  type: z.string().optional(),
+  title: z.string().optional(),
+  status: z.number().int().optional(),
+  detail: z.string().optional(),
+  instance: z.string().nullable().optional(),
+});
+
+export const Mf1ErrorModel503ServiceUnavailableSchema = z.object({
+  type: z.string().optional(),
+  title: z.string().optional(),
+  status: z.number().int().optional(),
+  detail: z.string().optional(),
+  instance: z.string().nullable().optional(),
+});
+
+export const Mf1ValidationErrorSchema = z.object({
+  loc: z.array(z.union([z.string(), z.number().int()])),
+  msg: z.string(),
+  type: z.string(),
+});
+
+export const Mf1HTTPValidationErrorSchema = z.object({
+  detail: z.array(Mf1ValidationErrorSchema).optional(),
+});
+
+export const Mf1ItemTypeSchema = z.enum(['goods', 'service']);
+
+export const Mf1NaturaTypeSchema = z.enum(['N1', 'N2', 'N3', 'N4', 'N5', 'N6']);
+
+export const Mf1PEMOperationalStatusSchema = z.enum(['OPEN', 'CLOSED', 'CLOSING']);
+
+export const Mf1PEMStatusSchema = z.enum([
+  'NEW',
+  'REGISTERED',
+  'ACTIVATED',
+  'ONLINE',
+  'OFFLINE',
+  'DISCARDED',
+  'ERROR',
+]);
+
+export const Mf1PEMStatusOfflineRequestSchema = z.object({
+  timestamp: z.string(),
+  reason: z.string(),
+});
+
+export const Mf1PageCashRegisterBasicOutputSchema = z.object({
+  members: z.array(Mf1CashRegisterBasicOutputSchema),
+  total: z.number().int().min(0).nullable().optional(),
+  page: z.number().int().min(1).nullable(),
+  size: z.number().int().min(1).nullable(),
+  pages: z.number().int().min(0).nullable().optional(),
+});
+
+export const Mf1PageCashierSimpleOutputSchema = z.object({
+  members: z.array(Mf1CashierSimpleOutputSchema),
+  total: z.number().int().min(0).nullable().optional(),
+  page: z.number().int().min(1).nullable(),
+  size: z.number().int().min(1).nullable(),
+  pages: z.number().int().min(0).nullable().optional(),
+});
+
+export const Mf1PointOfSaleOutputSchema = z.object({
+  serial_number: z.string(),
+  status: Mf1PEMStatusSchema,
+  address: Mf1AddressSchema,
+  operational_status: Mf1PEMOperationalStatusSchema.nullable(),
+});
+
+export const Mf1PagePointOfSaleOutputSchema = z.object({
+  members: z.array(Mf1PointOfSaleOutputSchema),
+  total: z.number().int().min(0).nullable().optional(),
+  page: z.number().int().min(1).nullable(),
+  size: z.number().int().min(1).nullable(),
+  pages: z.number().int().min(0).nullable().optional(),
+});
+
+export const Mf1ReceiptTypeSchema = z.enum(['sale', 'return', 'void']);
+
+export const Mf1ReceiptOutputSchema = z.object({
+  uuid: z.string(),
+  type: Mf1ReceiptTypeSchema,
+  total_amount: z.string().nullable().optional(),
+  document_number: z.string().min(9).max(9),
+  document_datetime: z.string(),
+  parent_receipt_uuid: z.string().nullable().optional(),
+  is_voidable: z.boolean(),
+  is_returnable: z.boolean(),
+  pdf_url: z.string().nullable().optional(),
+});
+
+export const Mf1PaginatedResponseReceiptOutputSchema = z.object({
+  members: z.array(Mf1ReceiptOutputSchema),
+  total: z.number().int(),
+  page: z.number().int(),
+  size: z.number().int(),
+});
+
+export const Mf1PointOfSaleActivationInputSchema = z.object({
+  registration_key: z.string(),
+});
+
+export const Mf1PointOfSaleDetailedOutputSchema = z.object({
+  serial_number: z.string(),
+  status: Mf1PEMStatusSchema,
+  address: Mf1AddressSchema,
+  operational_status: Mf1PEMOperationalStatusSchema.nullable(),
+  registration_key: z.string().nullable(),
+});
+
+export const Mf1VatRateEnumSchema = z.enum([
+  '4.00',
+  '5.00',
+  '10.00',
+  '22.00',
+  '2.00',
+  '6.40',
+  '7.00',
+  '7.30',
+  '7.50',
+  '7.65',
+  '7.95',
+  '8.30',
+  '8.50',
+  '8.80',
+  '9.50',
+  '12.30',
+]);
+
+export const Mf1ReceiptItemSchema = z.object({
+  type: Mf1ItemTypeSchema.optional(),
+  quantity: z.string(),
+  description: z.string().min(1).max(1000),
+  unit_price: z.string(),
+  vat_rate_code: z.union([Mf1VatRateEnumSchema, Mf1NaturaTypeSchema]).nullable(),
+  simplified_vat_allocation: z.boolean().optional(),
+  discount: z.string().optional(),
+  prepaid_or_voucher: z.boolean().optional(),
+  complimentary: z.boolean().optional(),
+});
+
+export const Mf1ReceiptDetailsOutputSchema = z.object({
+  uuid: z.string(),
+  type: Mf1ReceiptTypeSchema,
+  total_amount: z.string().nullable().optional(),
+  document_number: z.string().min(9).max(9),
+  document_datetime: z.string(),
+  parent_receipt_uuid: z.string().nullable().optional(),
+  is_voidable: z.boolean(),
+  is_returnable: z.boolean(),
+  pdf_url: z.string().nullable().optional(),
+  total_taxable_amount: z.string(),
+  total_uncollected_amount: z.string(),
+  deductible_amount: z.string(),
+  total_vat_amount: z.string(),
+  total_discount: z.string(),
+  items: z.array(Mf1ReceiptItemSchema).optional(),
+  customer_lottery_code: z.string().nullable().optional(),
+  cashier_name: z.string().nullable(),
+});
+
+export const Mf1ReceiptInputSchema = z.object({
+  items: z.array(Mf1ReceiptItemSchema),
+  customer_tax_code: z
+    .string()
+    .regex(/^[A-Z0-9]{11,16}$/)
+    .nullable()
+    .optional(),
+  customer_lottery_code: z.string().min(0).max(16).nullable().optional(),
+  discount: z.string().optional(),
+  invoice_issuing: z.boolean().optional(),
+  uncollected_dcn_to_ssn: z.boolean().optional(),
+  services_uncollected_amount: z.string().optional(),
+  goods_uncollected_amount: z.string().optional(),
+  cash_payment_amount: z.string().optional(),
+  electronic_payment_amount: z.string().optional(),
+  ticket_restaurant_payment_amount: z.string().optional(),
+  ticket_restaurant_quantity: z.number().int().optional(),
+});
+
+export const Mf1ReceiptProofTypeSchema = z.enum(['POS', 'VR', 'ND']);
+
+export const Mf1ReceiptStatusSchema = z.enum(['ready', 'sent']);
+
+export const Mf1ReturnItemSchema = z.object({
+  id: z.number().int().min(1),
+  quantity: z.string(),
+});
+
+export const Mf1ReturnViaDifferentDeviceInputSchema = z.object({
+  device_id: z.string(),
+  items: z.array(Mf1ReceiptItemSchema),
+  document_number: z.string(),
+  document_datetime: z.string().regex(/^\d{4}-\d{2}-\d{2}T\d{2}:\d{2}:\d{2}$/),
+  lottery_code: z.string().nullable().optional(),
+});
+
+export const Mf1ReturnViaProofInputSchema = z.object({
+  items: z.array(Mf1ReceiptItemSchema),
+  proof: Mf1ReceiptProofTypeSchema,
+  document_datetime: z.string().regex(/^\d{4}-\d{2}-\d{2}T\d{2}:\d{2}:\d{2}$/),
+});
+
+export const Mf1ReturnViaSamePosInputSchema = z.object({
+  items: z.array(Mf1ReturnItemSchema),
+  document_number: z.string(),
+});
+
+export const Mf1ReturnableReceiptItemSchema = z.object({
+  id: z.number().int(),
+  type: Mf1ItemTypeSchema.optional(),
+  quantity: z.string(),
+  returned_quantity: z.string(),
+  description: z.string().min(1).max(1000),
+  unit_price: z.string(),
+  vat_rate_code: z.union([Mf1VatRateEnumSchema, Mf1NaturaTypeSchema]).nullable(),
+  simplified_vat_allocation: z.boolean().optional(),
+  discount: z.string().optional(),
+  prepaid_or_voucher: z.boolean().optional(),
+  complimentary: z.boolean().optional(),
+});
+
+export const Mf1VoidViaDifferentDeviceInputSchema = z.object({
+  device_id: z.string(),
+  document_number: z.string(),
+  document_datetime: z.string().regex(/^\d{4}-\d{2}-\d{2}T\d{2}:\d{2}:\d{2}$/),
+  items: z.array(Mf1ReceiptItemSchema),
+  lottery_code: z.string().nullable().optional(),
+});
+
+export const Mf1VoidViaSamePosInputSchema = z.object({
+  document_number: z.string(),
+});
+
+export const Mf1VoidWithProofInputSchema = z.object({
+  items: z.array(Mf1ReceiptItemSchema),
+  proof: Mf1ReceiptProofTypeSchema,
+  document_datetime: z.string().regex(/^\d{4}-\d{2}-\d{2}T\d{2}:\d{2}:\d{2}$/),
+});
+
+export const Mf2AddressSchema = z.object({
+  street_address: z.string(),
+  street_number: z.string().optional(),
+  zip_code: z
+    .string()
+    .min(5)
+    .max(5)
+    .regex(/^(\d+)$/),
+  city: z.string(),
+  province: z.string().min(2).max(2),
+});
+
+export const Mf2ConstraintViolationSchema = z.object({
+  status: z.number().int().optional(),
+  violations: z
+    .array(
+      z.object({
+        propertyPath: z.string().optional(),
+        message: z.string().optional(),
+      })
+    )
+    .optional(),
+  detail: z.string().optional(),
+  type: z.string().optional(),
+  title: z.string().nullable().optional(),
+  instance: z.string().nullable().optional(),
+});
+
+export const Mf2DailyReportEntrySchema = z.object({
+  vat_rate_code: z
+    .union([
+      z.enum(['N1', 'N2', 'N3', 'N4', 'N5', 'N6']),
+      z.enum([
+        '4.00',
+        '5.00',
+        '10.00',
+        '22.00',
+        '2.00',
+        '6.40',
+        '7.00',
+        '7.30',
+        '7.50',
+        '7.65',
+        '7.95',
+        '8.30',
+        '8.50',
+        '8.80',
+        '9.50',
+        '12.30',
+      ]),
+    ])
+    .nullable()
+    .optional(),
+  vat_amount: z.string().nullable().optional(),
+  simplified_vat_allocation: z.boolean().optional(),
+  partial_amount: z.string(),
+  total_returned_amount: z.string().nullable().optional(),
+  total_voided_amount: z.string().nullable().optional(),
+  total_prepaid_or_voucher_amount: z.string().nullable().optional(),
+  total_uncollected_services: z.string().nullable().optional(),
+  total_uncollected_invoiced: z.string().nullable().optional(),
+  total_uncollected_dcr_to_ssn: z.string().nullable().optional(),
+  total_uncollected_complimentary: z.string().nullable().optional(),
+  ateco_code: z.string().nullable().optional(),
+});
+
+export const Mf2EmergencyReportOutputSchema = z.object({
+  id: z.number().int().optional(),
+  closed_at: z.string().optional(),
+});
+
+export const Mf2ErrorSchema = z.object({
+  title: z.string().optional(),
+  detail: z.string().optional(),
+  status: z.number().optional(),
+  instance: z.string().nullable().optional(),
+  type: z.string().optional(),
+});
+
+export const Mf2MerchantCreateInputSchema = z.object({
+  vat_number: z
+    .string()
+    .min(11)
+    .max(11)
+    .regex(/^(\d+)$/),
+  fiscal_code: z
+    .string()
+    .min(11)
+    .max(11)
+    .regex(/^(\d+)$/)
+    .optional(),
+  business_name: z.string().nullable().optional(),
+  first_name: z.string().nullable().optional(),
+  last_name: z.string().nullable().optional(),
+  email: z.email(),
+  password: z.string().regex(/^((?=.*[A-Z])(?=.*[a-z])(?=.*[0-9])(?=.*[!@#$%\^&\*])(?=.{10,}).*)$/),
+  address: Mf2AddressSchema,
+});
+
+export const Mf2MerchantOutputSchema = z.object({
+  uuid: z.string().optional(),
+  vat_number: z.string().optional(),
+  fiscal_code: z.string().nullable().optional(),
+  email: z.string().optional(),
+  business_name: z.string().nullable().optional(),
+  first_name: z.string().nullable().optional(),
+  last_name: z.string().nullable().optional(),
+  address: Mf2AddressSchema.optional(),
+});
+
+export const Mf2MerchantUpdateInputSchema = z.object({
+  business_name: z.string().nullable().optional(),
+  first_name: z.string().nullable().optional(),
+  last_name: z.string().nullable().optional(),
+  address: Mf2AddressSchema.nullable().optional(),
+});
+
+export const Mf2PemEmergencyReportInputSchema = z.object({
+  datetime: z.string().nullable(),
+  documents_count: z.number().int().min(0).gt(0).optional(),
+  cash_payment_amount: z.string().optional(),
+  electronic_payment_amount: z.string().optional(),
+  ticket_restaurant_payment_amount: z.string().optional(),
+  ticket_restaurant_quantity: z.number().int().optional(),
+  entries: z.array(Mf2DailyReportEntrySchema).optional(),
+});
+
+export const Mf2PemEmergencyReportOutputSchema = z.object({
+  id: z.number().int().optional(),
+  closed_at: z.string().optional(),
+});
+
+export const Mf2PemDataSchema = z.object({
+  version: z.string().regex(/^(\d+\.\d+\.\d+)$/),
+  type: z.enum(['AP', 'SP', 'TM', 'PV']),
+});
+
+export const Mf2PemPointOfSaleCreateInputSchema = z.object({
+  merchant_uuid: z.string(),
+  receipt_header: z.string().nullable().optional(),
+  address: Mf2AddressSchema.nullable().optional(),
+  external_pem_data: Mf2PemDataSchema.nullable().optional(),
+});
+
+export const Mf2PemPointOfSaleCreateOutputSchema = z.object({
+  serial_number: z.string().optional(),
+  registration_key: z.string().optional(),
+});
+
+export const Mf2PemPointOfSaleOutputSchema = z.object({
+  serial_number: z.string().optional(),
+  type: z.string().optional(),
+  status: z.string().optional(),
+  address: Mf2AddressSchema.optional(),
+});
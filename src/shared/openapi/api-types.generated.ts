@@ -0,0 +1,576 @@
+/**
+ * THIS FILE IS GENERATED by scripts/generate-openapi-types.mjs from OpenAPI Specification.json.
+ * Do not edit it by hand: run `npm run generate:api` after updating the specification.
+ */
+
+export interface Mf1Address {
+  /** The street address associated to the PEM */
+  street_address: string;
+  /** The street number associated to the PEM */
+  street_number: string;
+  /** The zip code associated to the PEM */
+  zip_code: string;
+  /** The city associated to the PEM */
+  city: string;
+  /** The province associated to the PEM */
+  province: string;
+}
+
+export interface Mf1CashRegisterBasicOutput {
+  uuid: string;
+  pem_serial_number: string;
+  name: string;
+}
+
+export interface Mf1CashRegisterCreate {
+  pem_serial_number: string;
+  name: string;
+}
+
+export interface Mf1CashRegisterDetailedOutput {
+  uuid: string;
+  pem_serial_number: string;
+  name: string;
+  mtls_certificate: string;
+  private_key: string;
+}
+
+export interface Mf1CashRegisterUpdate {
+  name: string;
+}
+
+export interface Mf1CashierCreateInput {
+  email: string;
+  password: string;
+  name: string;
+  /** An optional display name to be displayed in the receipt's PDF. */
+  display_name: string | null;
+}
+
+export interface Mf1CashierOutput {
+  uuid: string;
+  email: string;
+  /** An optional display name to be displayed in the receipt's PDF. */
+  display_name?: string | null;
+  name: string;
+  status: Mf1CashierStatus;
+  merchant_uuid: string;
+}
+
+export interface Mf1CashierSimpleOutput {
+  uuid: string;
+  email: string;
+  /** An optional display name to be displayed in the receipt's PDF. */
+  display_name?: string | null;
+  name: string;
+  status: Mf1CashierStatus;
+}
+
+export type Mf1CashierStatus = 'active' | 'disabled';
+
+export interface Mf1ErrorModel400BadRequest {
+  type?: string;
+  title?: string;
+  status?: number;
+  detail?: string;
+  instance?: string | null;
+}
+
+export interface Mf1ErrorModel401Unauthorized {
+  type?: string;
+  title?: string;
+  status?: number;
+  detail?: string;
+  instance?: string | null;
+}
+
+export interface Mf1ErrorModel403Forbidden {
+  type?: string;
+  title?: string;
+  status?: number;
+  detail?: string;
+  instance?: string | null;
+}
+
+export interface Mf1ErrorModel404NotFound {
+  type?: string;
+  title?: string;
+  status?: number;
+  detail?: string;
+  instance?: string | null;
+}
+
+export interface Mf1ErrorModel409Conflict {
+  type?: string;
+  title?: string;
+  status?: number;
+  detail?: string;
+  instance?: string | null;
+}
+
+export interface Mf1ErrorModel500InternalServerError {
+  type?: string;
+  title?: string;
+  status?: number;
+  detail?: string;
+  instance?: string | null;
+}
+
+export interface Mf1ErrorModel503ServiceUnavailable {
+  type?: string;
+  title?: string;
+  status?: number;
+  detail?: string;
+  instance?: string | null;
+}
+
+export interface Mf1HTTPValidationError {
+  detail?: Mf1ValidationError[];
+}
+
+export type Mf1ItemType = 'goods' | 'service';
+
+/** Natura codes with their corresponding descriptions. */
+export type Mf1NaturaType = 'N1' | 'N2' | 'N3' | 'N4' | 'N5' | 'N6';
+
+export type Mf1PEMOperationalStatus = 'OPEN' | 'CLOSED' | 'CLOSING';
+
+export type Mf1PEMStatus =
+  'NEW' | 'REGISTERED' | 'ACTIVATED' | 'ONLINE' | 'OFFLINE' | 'DISCARDED' | 'ERROR';
+
+export interface Mf1PEMStatusOfflineRequest {
+  timestamp: string;
+  reason: string;
+}
+
+export interface Mf1PageCashRegisterBasicOutput {
+  members: Mf1CashRegisterBasicOutput[];
+  total?: number | null;
+  page: number | null;
+  size: number | null;
+  pages?: number | null;
+}
+
+export interface Mf1PageCashierSimpleOutput {
+  members: Mf1CashierSimpleOutput[];
+  total?: number | null;
+  page: number | null;
+  size: number | null;
+  pages?: number | null;
+}
+
+export interface Mf1PagePointOfSaleOutput {
+  members: Mf1PointOfSaleOutput[];
+  total?: number | null;
+  page: number | null;
+  size: number | null;
+  pages?: number | null;
+}
+
+export interface Mf1PaginatedResponseReceiptOutput {
+  members: Mf1ReceiptOutput[];
+  /** Total number of elements across all pages */
+  total: number;
+  /** Page identifier */
+  page: number;
+  /** Page size */
+  size: number;
+}
+
+export interface Mf1PointOfSaleActivationInput {
+  registration_key: string;
+}
+
+export interface Mf1PointOfSaleDetailedOutput {
+  serial_number: string;
+  status: Mf1PEMStatus;
+  address: Mf1Address;
+  /** The current operational state of the Point of Sale, reflecting the state of its latest journal (open, closing, or closed). This field is set only when the Point of Sale status is ONLINE; otherwise, it is null. */
+  operational_status: Mf1PEMOperationalStatus | null;
+  /** The registration key is set only as long as the Point of Sale has not been activated yet */
+  registration_key: string | null;
+}
+
+export interface Mf1PointOfSaleOutput {
+  serial_number: string;
+  status: Mf1PEMStatus;
+  address: Mf1Address;
+  /** The current operational state of the Point of Sale, reflecting the state of its latest journal (open, closing, or closed). This field is set only when the Point of Sale status is ONLINE; otherwise, it is null. */
+  operational_status: Mf1PEMOperationalStatus | null;
+}
+
+export interface Mf1ReceiptDetailsOutput {
+  uuid: string;
+  type: Mf1ReceiptType;
+  /** Total amount of the sale receipt as a string with up to 8 decimal digits. For void and return receipts this value is null. */
+  total_amount?: string | null;
+  /** The document number assigned to the document by the Italian Tax Authority. This is the official ID of the document valid for fiscal purposes. */
+  document_number: string;
+  /** The date and time the document was issued in ISO 8601 date-time format (YYYY-MM-DDTHH:mm:ss). */
+  document_datetime: string;
+  /** The UUID of the parent receipt in case of a voiding or return receipt. It is present only for return and void receipts associated to the same Point of Sale that issued the sale receipt. */
+  parent_receipt_uuid?: string | null;
+  /** Return and Void receipts are not voidable. Sale receipts are voidable only if they haven't already been voided and have no associated return receipts. */
+  is_voidable: boolean;
+  /** A receipt is returnable if it is a sale receipt, it hasn't been voided and has returnable items. */
+  is_returnable: boolean;
+  /** Public URL to download the PDF of the receipt */
+  pdf_url?: string | null;
+  /** Total amount subject to VAT/tax before any discounts or exemptions as a string with 2 to 8 decimal digits */
+  total_taxable_amount: string;
+  /** Total amount that remains unpaid or uncollected from the customer as a string with 2 to 8 decimal digits */
+  total_uncollected_amount: string;
+  /** Amount that can be deducted for tax purposes (business expenses) as a string with 2 to 8 decimal digits */
+  deductible_amount: string;
+  /** Total Value Added Tax amount calculated on taxable transactions as a string with 2 to 8 decimal digits */
+  total_vat_amount: string;
+  /** Individual discount amount applied to the overall receipt ('Sconto a pagare') as a string with 2 to 8 decimal digits */
+  total_discount: string;
+  /** List of individual products/services included in the receipt */
+  items?: Mf1ReceiptItem[];
+  /** Lottery code of the customer */
+  customer_lottery_code?: string | null;
+  /** The name of the cashier that issued the receipt. If null, it has been issued by the merchant. */
+  cashier_name: string | null;
+}
+
+export interface Mf1ReceiptInput {
+  /** "Elementi contabili". Commercial document items. At least one item is required. */
+  items: Mf1ReceiptItem[];
+  /** Tax code of the customer. If set, customer_lottery_code can't be set as well. */
+  customer_tax_code?: string | null;
+  /** Lottery code of the customer. If set, customer_tax_code can't be set as well. */
+  customer_lottery_code?: string | null;
+  /** "Sconto a Pagare". This discount, expressed in euros as a string with 2 to 8 decimal places, does not affect the taxable amount reported to the Italian Tax Authority. It represents an unpaid portion of the total, typically a rounding adjustment, applied at the time of payment. */
+  discount?: string;
+  /** Set this field to true if the amount has not been collectedsince the issued commercial document will be followed by an invoice. This use case is generally called 'Credito - segue fattura'. */
+  invoice_issuing?: boolean;
+  /** Set this flag to true when the payment is not collected because the commercial document relates to the Distinta Contabile Riepilogativa that will be transmitted to the Sistema Sanitario Nazionale. */
+  uncollected_dcn_to_ssn?: boolean;
+  /** "Credito Non Riscosso - Prestazioni Servizi". Uncollected Amount in EUR as a string with 2 to 8 decimal digits in case of services. */
+  services_uncollected_amount?: string;
+  /** "Credito Non Riscosso - Bene Consegnato". Uncollected Amount in EUR as a string with 2 to 8 decimal digits in case of delivered goods. */
+  goods_uncollected_amount?: string;
+  /** "Pagamento in contanti". Cash payment amount in EUR as a string with 2 to 8 decimal digits. */
+  cash_payment_amount?: string;
+  /** "Pagamento elettronico". Electronic payment amount in EUR as a string with 2 to 8 decimal digits. */
+  electronic_payment_amount?: string;
+  /** 'Pagamento Ticket Restaurant'. Meal voucher payment amount in EUR as a string with 2 to 8 decimal digits. */
+  ticket_restaurant_payment_amount?: string;
+  /** 'Numero Ticket Restaurant'. Number of meal vouchers used. */
+  ticket_restaurant_quantity?: number;
+}
+
+/** Model representing an item in a commercial document. */
+export interface Mf1ReceiptItem {
+  /** Type of the item. */
+  type?: Mf1ItemType;
+  /** Quantity expressed as a string with exactly 2 decimal digits. E.g. '1.00', '1.50', '2.00' */
+  quantity: string;
+  /** Description of the item (max 1000 chars) */
+  description: string;
+  /** Unit price expressed as a string with 2 to 8 decimal digits. It is a gross price, i.e. it includes VAT amount */
+  unit_price: string;
+  /** VAT rate code as a string. Set it to null if the item is subject to 'Ventilazione IVA'. */
+  vat_rate_code: Mf1VatRateEnum | Mf1NaturaType | null;
+  /** Set to true if this item is subject to 'Ventilazione IVA'. If true, 'vat_rate_code' must not be set. */
+  simplified_vat_allocation?: boolean;
+  /** Discount amount in EUR as a string with 2 to 8 decimal digits. It is a gross price, i.e. it includes VAT amount */
+  discount?: string;
+  /** True if the total amount had already been collected as an advance before delivery of the goods or services, or if the sale occurs through the redemption of a single-purpose voucher. */
+  prepaid_or_voucher?: boolean;
+  /** Set to true if it is a complimentary (free) item. It deducts the gift amount from the amount of the document but does not deduct it from the VAT and taxable amount */
+  complimentary?: boolean;
+}
+
+export interface Mf1ReceiptOutput {
+  uuid: string;
+  type: Mf1ReceiptType;
+  /** Total amount of the sale receipt as a string with up to 8 decimal digits. For void and return receipts this value is null. */
+  total_amount?: string | null;
+  /** The document number assigned to the document by the Italian Tax Authority. This is the official ID of the document valid for fiscal purposes. */
+  document_number: string;
+  /** The date and time the document was issued in ISO 8601 date-time format (YYYY-MM-DDTHH:mm:ss). */
+  document_datetime: string;
+  /** The UUID of the parent receipt in case of a voiding or return receipt. It is present only for return and void receipts associated to the same Point of Sale that issued the sale receipt. */
+  parent_receipt_uuid?: string | null;
+  /** Return and Void receipts are not voidable. Sale receipts are voidable only if they haven't already been voided and have no associated return receipts. */
+  is_voidable: boolean;
+  /** A receipt is returnable if it is a sale receipt, it hasn't been voided and has returnable items. */
+  is_returnable: boolean;
+  /** Public URL to download the PDF of the receipt */
+  pdf_url?: string | null;
+}
+
+export type Mf1ReceiptProofType = 'POS' | 'VR' | 'ND';
+
+export type Mf1ReceiptStatus = 'ready' | 'sent';
+
+export type Mf1ReceiptType = 'sale' | 'return' | 'void';
+
+export interface Mf1ReturnItem {
+  /** The ID of the item to be returned */
+  id: number;
+  /** The quantity to be returned. Can't be greater than the original quantity. */
+  quantity: string;
+}
+
+export interface Mf1ReturnViaDifferentDeviceInput {
+  /** Identifier of the device that issued the original receipt. This may be a POS, a RT (Registratore Telematico), or an RT Server. For receipts issued via the "Documento commerciale online" procedure, provide only the characters before the "/" (e.g., use DCW2024 for DCW2024/0000-3173). */
+  device_id: string;
+  items: Mf1ReceiptItem[];
+  /** The document number of the original receipt. */
+  document_number: string;
+  /** The date and time of the original receipt in ISO format. */
+  document_datetime: string;
+  /** The lottery code of the original receipt, if available. */
+  lottery_code?: string | null;
+}
+
+export interface Mf1ReturnViaProofInput {
+  items: Mf1ReceiptItem[];
+  /** The type of proof of purchase: "POS" for POS receipts, "VR" for "Vuoti a rendere", "ND" for other residual cases. Used in place of device serial number/unique PEM identifier. */
+  proof: Mf1ReceiptProofType;
+  /** The date and time of the proof of purchase in ISO format. */
+  document_datetime: string;
+}
+
+export interface Mf1ReturnViaSamePosInput {
+  items: Mf1ReturnItem[];
+  /** The document number of the original receipt. */
+  document_number: string;
+}
+
+/** Model representing an item in a commercial document. */
+export interface Mf1ReturnableReceiptItem {
+  id: number;
+  /** Type of the item. */
+  type?: Mf1ItemType;
+  /** Returnable quantity expressed as a string with exactly 2 decimal digits. E.g. '1.00', '1.50', '2.00' */
+  quantity: string;
+  /** Returned quantity expressed as a string with exactly 2 decimal digits. E.g. '1.00', '1.50', '2.00' */
+  returned_quantity: string;
+  /** Description of the item (max 1000 chars) */
+  description: string;
+  /** Unit price expressed as a string with 2 to 8 decimal digits. It is a gross price, i.e. it includes VAT amount */
+  unit_price: string;
+  /** VAT rate code as a string */
+  vat_rate_code: Mf1VatRateEnum | Mf1NaturaType | null;
+  /** Set to true if this item is subject to 'Ventilazione IVA'. If true, 'vat_rate_code' must not be set. */
+  simplified_vat_allocation?: boolean;
+  /** Discount amount in EUR as a string with 2 to 8 decimal digits. It is a gross price, i.e. it includes VAT amount */
+  discount?: string;
+  /** True if the total amount had already been collected as an advance before delivery of the goods or services, or if the sale occurs through the redemption of a single-purpose voucher. */
+  prepaid_or_voucher?: boolean;
+  /** Set to true if it is a complimentary (free) item. It deducts the gift amount from the amount of the document but does not deduct it from the VAT and taxable amount */
+  complimentary?: boolean;
+}
+
+export interface Mf1ValidationError {
+  loc: Array<string | number>;
+  msg: string;
+  type: string;
+}
+
+/** VAT rate codes with their corresponding descriptions. */
+export type Mf1VatRateEnum =
+  | '4.00'
+  | '5.00'
+  | '10.00'
+  | '22.00'
+  | '2.00'
+  | '6.40'
+  | '7.00'
+  | '7.30'
+  | '7.50'
+  | '7.65'
+  | '7.95'
+  | '8.30'
+  | '8.50'
+  | '8.80'
+  | '9.50'
+  | '12.30';
+
+export interface Mf1VoidViaDifferentDeviceInput {
+  /** Identifier of the device that issued the original receipt. This may be a POS, a RT (Registratore Telematico), or an RT Server. For receipts issued via the "Documento commerciale online" procedure, provide only the characters before the "/" (e.g., use DCW2024 for DCW2024/0000-3173). */
+  device_id: string;
+  /** The document number of the original receipt. */
+  document_number: string;
+  /** The date and time of the original receipt in ISO format. */
+  document_datetime: string;
+  items: Mf1ReceiptItem[];
+  /** The lottery code of the original receipt, if available. */
+  lottery_code?: string | null;
+}
+
+export interface Mf1VoidViaSamePosInput {
+  /** The document number of the original receipt. */
+  document_number: string;
+}
+
+export interface Mf1VoidWithProofInput {
+  items: Mf1ReceiptItem[];
+  /** The type of proof of purchase: "POS" for POS receipts, "VR" for "Vuoti a rendere", "ND" for other residual cases. Used in place of device serial number/unique PEM identifier. */
+  proof: Mf1ReceiptProofType;
+  /** The date and time of the proof of purchase in ISO format. */
+  document_datetime: string;
+}
+
+export interface Mf2Address {
+  street_address: string;
+  street_number?: string;
+  zip_code: string;
+  city: string;
+  province: string;
+}
+
+/** Unprocessable entity */
+export interface Mf2ConstraintViolation {
+  status?: number;
+  violations?: Array<{
+    /** The property path of the violation */
+    propertyPath?: string;
+    /** The message associated with the violation */
+    message?: string;
+  }>;
+  detail?: string;
+  type?: string;
+  title?: string | null;
+  instance?: string | null;
+}
+
+export interface Mf2DailyReportEntry {
+  vat_rate_code?:
+    | 'N1'
+    | 'N2'
+    | 'N3'
+    | 'N4'
+    | 'N5'
+    | 'N6'
+    | '4.00'
+    | '5.00'
+    | '10.00'
+    | '22.00'
+    | '2.00'
+    | '6.40'
+    | '7.00'
+    | '7.30'
+    | '7.50'
+    | '7.65'
+    | '7.95'
+    | '8.30'
+    | '8.50'
+    | '8.80'
+    | '9.50'
+    | '12.30'
+    | null;
+  vat_amount?: string | null;
+  simplified_vat_allocation?: boolean;
+  partial_amount: string;
+  total_returned_amount?: string | null;
+  total_voided_amount?: string | null;
+  total_prepaid_or_voucher_amount?: string | null;
+  total_uncollected_services?: string | null;
+  total_uncollected_invoiced?: string | null;
+  total_uncollected_dcr_to_ssn?: string | null;
+  total_uncollected_complimentary?: string | null;
+  ateco_code?: string | null;
+}
+
+export interface Mf2EmergencyReportOutput {
+  id?: number;
+  closed_at?: string;
+}
+
+/** A representation of common errors. */
+export interface Mf2Error {
+  /** A short, human-readable summary of the problem. */
+  title?: string;
+  /** A human-readable explanation specific to this occurrence of the problem. */
+  detail?: string;
+  status?: number;
+  /** A URI reference that identifies the specific occurrence of the problem. It may or may not yield further information if dereferenced. */
+  instance?: string | null;
+  /** A URI reference that identifies the problem type */
+  type?: string;
+}
+
+export interface Mf2MerchantCreateInput {
+  /** The VAT number of the merchant (Partita IVA). */
+  vat_number: string;
+  /** The Fiscal Code of the merchant (Codice Fiscale). */
+  fiscal_code?: string;
+  /** The business name of the merchant (Ragione sociale). */
+  business_name?: string | null;
+  /** The first name of the merchant, in case there is no business name. */
+  first_name?: string | null;
+  /** The last name of the merchant, in case there is no business name. */
+  last_name?: string | null;
+  /** The email address. */
+  email: string;
+  /** The password. */
+  password: string;
+  address: Mf2Address;
+}
+
+export interface Mf2MerchantOutput {
+  uuid?: string;
+  vat_number?: string;
+  fiscal_code?: string | null;
+  email?: string;
+  business_name?: string | null;
+  first_name?: string | null;
+  last_name?: string | null;
+  address?: Mf2Address;
+}
+
+export interface Mf2MerchantUpdateInput {
+  /** The business name of the merchant (Ragione sociale). */
+  business_name?: string | null;
+  /** The first name of the merchant, in case there is no business name. */
+  first_name?: string | null;
+  /** The last name of the merchant, in case there is no business name. */
+  last_name?: string | null;
+  address?: Mf2Address | null;
+}
+
+export interface Mf2PemEmergencyReportInput {
+  datetime: string | null;
+  documents_count?: number;
+  cash_payment_amount?: string;
+  electronic_payment_amount?: string;
+  ticket_restaurant_payment_amount?: string;
+  ticket_restaurant_quantity?: number;
+  entries?: Mf2DailyReportEntry[];
+}
+
+export interface Mf2PemEmergencyReportOutput {
+  id?: number;
+  closed_at?: string;
+}
+
+export interface Mf2PemPointOfSaleCreateInput {
+  /** The merchant UUID. */
+  merchant_uuid: string;
+  /** The receipt header. Leave empty to use the merchant name. */
+  receipt_header?: string | null;
+  address?: Mf2Address | null;
+  external_pem_data?: Mf2PemData | null;
+}
+
+export interface Mf2PemPointOfSaleCreateOutput {
+  serial_number?: string;
+  registration_key?: string;
+}
+
+export interface Mf2PemPointOfSaleOutput {
+  serial_number?: string;
+  type?: string;
+  status?: string;
+  address?: Mf2Address;
+}
+
+export interface Mf2PemData {
+  version: string;
+  type: 'AP' | 'SP' | 'TM' | 'PV';
+}
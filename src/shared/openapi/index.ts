@@ -0,0 +1,8 @@
+/**
+ * API types and zod schemas generated from `OpenAPI Specification.json`.
+ *
+ * Names are prefixed with the API that documents them: `Mf1*` for the E-Receipt IT API,
+ * `Mf2*` for the PEL platform. Regenerate with `npm run generate:api`.
+ */
+export * from './api-types.generated';
+export * from './api-schemas.generated';
@@ -1,3 +1,4 @@
+import type { CacheResource, CacheResourceConfig } from '@/application/ports/driven/cache-key.port';
 import type { UserRoles } from '@/domain/value-objects';
 
 export type Environment = 'production' | 'development' | 'sandbox';
@@ -7,9 +8,28 @@ export interface CertificateConfig {
   metadataKey?: string;
 }
 
+export interface SDKCacheConfig {
+  /** Settings of each resource, merged with the defaults */
+  resources?: Partial<Record<CacheResource, Partial<CacheResourceConfig>>>;
+}
+
 export interface SDKConfig {
   environment: Environment;
   debug?: boolean;
+  /**
+   * Syncs the offline queue from the service worker of the app (web only), also while the app is
+   * closed. The service worker has to call `registerBackgroundSyncHandler`.
+   */
+  backgroundSync?: boolean;
+  /**
+   * Encrypts the payloads of the offline queue and the receipt journal at rest, with keys kept in
+   * the secure storage
+   */
+  encryptOfflineQueue?: boolean;
+  /** Removes the offline queue, the receipt journal and their encryption keys on logout */
+  clearOfflineQueueOnLogout?: boolean;
+  /** Caching of GET requests, used when the platform provides a cache */
+  cache?: SDKCacheConfig;
 }
 
 export interface AuthCredentials {
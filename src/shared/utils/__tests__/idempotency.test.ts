@@ -0,0 +1,30 @@
+import { generateIdempotencyKey } from '../idempotency';
+
+const UUID_V4 = /^[0-9a-f]{8}-[0-9a-f]{4}-4[0-9a-f]{3}-[89ab][0-9a-f]{3}-[0-9a-f]{12}$/;
+
+describe('generateIdempotencyKey', () => {
+  it('should generate a UUID v4', () => {
+    expect(generateIdempotencyKey()).toMatch(UUID_V4);
+  });
+
+  it('should generate a different key on every call', () => {
+    expect(generateIdempotencyKey()).not.toBe(generateIdempotencyKey());
+  });
+
+  it('should fall back to random bytes without crypto.randomUUID', () => {
+    const { randomUUID } = globalThis.crypto;
+    Object.defineProperty(globalThis.crypto, 'randomUUID', {
+      value: undefined,
+      configurable: true,
+    });
+
+    try {
+      expect(generateIdempotencyKey()).toMatch(UUID_V4);
+    } finally {
+      Object.defineProperty(globalThis.crypto, 'randomUUID', {
+        value: randomUUID,
+        configurable: true,
+      });
+    }
+  });
+});
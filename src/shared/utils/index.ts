@@ -2,3 +2,4 @@ export * from './object';
 export * from './platform-detector';
 export * from './logger';
 export * from './formatters';
+export * from './idempotency';
@@ -0,0 +1,108 @@
+import {
+  CodiceFiscaleSchema,
+  FiscalIdSchema,
+  PartitaIvaSchema,
+  ProvinceCodeSchema,
+  ZipCodeSchema,
+  isValidCodiceFiscale,
+  isValidFiscalId,
+  isValidPartitaIva,
+  isValidProvinceCode,
+  isValidZipCode,
+} from '../fiscal';
+
+describe('fiscal validators', () => {
+  describe('isValidCodiceFiscale', () => {
+    it('should accept codes with a correct check character', () => {
+      expect(isValidCodiceFiscale('RSSMRA85T10A562S')).toBe(true);
+      expect(isValidCodiceFiscale('RSSMRA80A01H501U')).toBe(true);
+    });
+
+    it('should accept omocodia variants', () => {
+      expect(isValidCodiceFiscale('RSSMRA85T10A56NH')).toBe(true);
+    });
+
+    it('should reject a wrong check character', () => {
+      expect(isValidCodiceFiscale('RSSMRA85T10A562A')).toBe(false);
+    });
+
+    it('should reject an impossible day of birth', () => {
+      expect(isValidCodiceFiscale('RSSMRA85T35A562S')).toBe(false);
+    });
+
+    it('should reject malformed and lowercase codes', () => {
+      expect(isValidCodiceFiscale('RSSMRA85T10A562')).toBe(false);
+      expect(isValidCodiceFiscale('rssmra85t10a562s')).toBe(false);
+    });
+  });
+
+  describe('isValidPartitaIva', () => {
+    it('should accept numbers with a correct check digit', () => {
+      expect(isValidPartitaIva('12345678903')).toBe(true);
+      expect(isValidPartitaIva('01122334459')).toBe(true);
+    });
+
+    it('should reject a wrong check digit', () => {
+      expect(isValidPartitaIva('12345678901')).toBe(false);
+    });
+
+    it('should reject malformed numbers and an all-zero registration number', () => {
+      expect(isValidPartitaIva('1234567890')).toBe(false);
+      expect(isValidPartitaIva('1234567890A')).toBe(false);
+      expect(isValidPartitaIva('00000000000')).toBe(false);
+    });
+  });
+
+  describe('isValidFiscalId', () => {
+    it('should accept either a codice fiscale or a partita IVA', () => {
+      expect(isValidFiscalId('RSSMRA85T10A562S')).toBe(true);
+      expect(isValidFiscalId('12345678903')).toBe(true);
+      expect(isValidFiscalId('12345678901')).toBe(false);
+    });
+  });
+
+  describe('isValidZipCode', () => {
+    it('should accept CAPs in the assigned range', () => {
+      expect(isValidZipCode('00100')).toBe(true);
+      expect(isValidZipCode('98168')).toBe(true);
+    });
+
+    it('should reject CAPs outside the assigned range', () => {
+      expect(isValidZipCode('00000')).toBe(false);
+      expect(isValidZipCode('99999')).toBe(false);
+      expect(isValidZipCode('0010')).toBe(false);
+    });
+  });
+
+  describe('isValidProvinceCode', () => {
+    it('should accept existing provinces regardless of case', () => {
+      expect(isValidProvinceCode('RM')).toBe(true);
+      expect(isValidProvinceCode('mb')).toBe(true);
+    });
+
+    it('should reject unknown codes', () => {
+      expect(isValidProvinceCode('XX')).toBe(false);
+      expect(isValidProvinceCode('ROM')).toBe(false);
+    });
+  });
+
+  describe('zod schemas', () => {
+    it('should report the validation message key', () => {
+      const result = PartitaIvaSchema.safeParse('12345678901');
+
+      expect(result.success).toBe(false);
+      expect(result.error?.issues[0]?.message).toBe('invalidVatNumber');
+    });
+
+    it('should validate with the standalone functions', () => {
+      expect(CodiceFiscaleSchema.safeParse('RSSMRA85T10A562S').success).toBe(true);
+      expect(FiscalIdSchema.safeParse('INVALID123').success).toBe(false);
+      expect(ZipCodeSchema.safeParse('99999').success).toBe(false);
+    });
+
+    it('should uppercase valid province codes', () => {
+      expect(ProvinceCodeSchema.parse('mi')).toBe('MI');
+      expect(ProvinceCodeSchema.safeParse('xx').success).toBe(false);
+    });
+  });
+});
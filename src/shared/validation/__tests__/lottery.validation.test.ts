@@ -0,0 +1,42 @@
+import { LotteryCodeSchema, isValidLotteryCode, normalizeLotteryCode } from '../lottery';
+
+describe('lottery code', () => {
+  describe('isValidLotteryCode', () => {
+    it('should accept 8 uppercase alphanumeric characters', () => {
+      expect(isValidLotteryCode('ABCD1234')).toBe(true);
+      expect(isValidLotteryCode('12345678')).toBe(true);
+    });
+
+    it('should reject other lengths, lowercase and symbols', () => {
+      expect(isValidLotteryCode('ABC1234')).toBe(false);
+      expect(isValidLotteryCode('LOTTERY123')).toBe(false);
+      expect(isValidLotteryCode('abcd1234')).toBe(false);
+      expect(isValidLotteryCode('ABCD-123')).toBe(false);
+    });
+  });
+
+  describe('normalizeLotteryCode', () => {
+    it('should strip whitespace, separators and scanner line endings', () => {
+      expect(normalizeLotteryCode(' abcd 1234\r\n')).toBe('ABCD1234');
+      expect(normalizeLotteryCode('ABCD-1234')).toBe('ABCD1234');
+    });
+
+    it('should strip the symbology identifier added by the scanner', () => {
+      expect(normalizeLotteryCode(']C0ABCD1234')).toBe('ABCD1234');
+    });
+
+    it('should return null when the scan is not a lottery code', () => {
+      expect(normalizeLotteryCode('8001234567890')).toBeNull();
+      expect(normalizeLotteryCode('')).toBeNull();
+    });
+  });
+
+  describe('LotteryCodeSchema', () => {
+    it('should report the validation message key', () => {
+      const result = LotteryCodeSchema.safeParse('ABC');
+
+      expect(result.success).toBe(false);
+      expect(result.error?.issues[0]?.message).toBe('invalidLotteryCode');
+    });
+  });
+});
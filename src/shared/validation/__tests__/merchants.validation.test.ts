@@ -12,7 +12,7 @@ describe('MerchantCreateInputSchema', () => {
   describe('vat_number validation', () => {
     it('should accept valid 11-digit VAT number', () => {
       const input = {
-        vat_number: '12345678901',
+        vat_number: '12345678903',
         email: 'test@example.com',
         password: 'Password1!@#',
         business_name: 'Test Business',
@@ -46,6 +46,18 @@ describe('MerchantCreateInputSchema', () => {
       expect(result.success).toBe(false);
     });
 
+    it('should reject VAT number with a wrong check digit', () => {
+      const input = {
+        vat_number: '12345678901',
+        email: 'test@example.com',
+        password: 'Password1!@#',
+        business_name: 'Test',
+      };
+
+      const result = MerchantCreateInputSchema.safeParse(input);
+      expect(result.success).toBe(false);
+    });
+
     it('should reject empty VAT number', () => {
       const input = {
         vat_number: '',
@@ -62,8 +74,8 @@ describe('MerchantCreateInputSchema', () => {
   describe('fiscal_code validation', () => {
     it('should accept valid 11-digit fiscal code', () => {
       const input = {
-        vat_number: '12345678901',
-        fiscal_code: '98765432101',
+        vat_number: '12345678903',
+        fiscal_code: '98765432103',
         email: 'test@example.com',
         password: 'Password1!@#',
         business_name: 'Test',
@@ -75,7 +87,7 @@ describe('MerchantCreateInputSchema', () => {
 
     it('should accept missing fiscal_code (optional)', () => {
       const input = {
-        vat_number: '12345678901',
+        vat_number: '12345678903',
         email: 'test@example.com',
         password: 'Password1!@#',
         business_name: 'Test',
@@ -89,7 +101,7 @@ describe('MerchantCreateInputSchema', () => {
   describe('email validation', () => {
     it('should accept valid email', () => {
       const input = {
-        vat_number: '12345678901',
+        vat_number: '12345678903',
         email: 'user@domain.com',
         password: 'Password1!@#',
         business_name: 'Test',
@@ -101,7 +113,7 @@ describe('MerchantCreateInputSchema', () => {
 
     it('should reject invalid email', () => {
       const input = {
-        vat_number: '12345678901',
+        vat_number: '12345678903',
         email: 'not-an-email',
         password: 'Password1!@#',
         business_name: 'Test',
@@ -113,7 +125,7 @@ describe('MerchantCreateInputSchema', () => {
 
     it('should reject empty email', () => {
       const input = {
-        vat_number: '12345678901',
+        vat_number: '12345678903',
         email: '',
         password: 'Password1!@#',
         business_name: 'Test',
@@ -127,7 +139,7 @@ describe('MerchantCreateInputSchema', () => {
   describe('password validation', () => {
     it('should accept valid complex password', () => {
       const input = {
-        vat_number: '12345678901',
+        vat_number: '12345678903',
         email: 'test@example.com',
         password: 'MyPassword1!',
         business_name: 'Test',
@@ -139,7 +151,7 @@ describe('MerchantCreateInputSchema', () => {
 
     it('should reject password without uppercase', () => {
       const input = {
-        vat_number: '12345678901',
+        vat_number: '12345678903',
         email: 'test@example.com',
         password: 'mypassword1!',
         business_name: 'Test',
@@ -151,7 +163,7 @@ describe('MerchantCreateInputSchema', () => {
 
     it('should reject password without lowercase', () => {
       const input = {
-        vat_number: '12345678901',
+        vat_number: '12345678903',
         email: 'test@example.com',
         password: 'MYPASSWORD1!',
         business_name: 'Test',
@@ -163,7 +175,7 @@ describe('MerchantCreateInputSchema', () => {
 
     it('should reject password without number', () => {
       const input = {
-        vat_number: '12345678901',
+        vat_number: '12345678903',
         email: 'test@example.com',
         password: 'MyPassword!!',
         business_name: 'Test',
@@ -175,7 +187,7 @@ describe('MerchantCreateInputSchema', () => {
 
     it('should reject password without special character', () => {
       const input = {
-        vat_number: '12345678901',
+        vat_number: '12345678903',
         email: 'test@example.com',
         password: 'MyPassword123',
         business_name: 'Test',
@@ -187,7 +199,7 @@ describe('MerchantCreateInputSchema', () => {
 
     it('should reject password shorter than 10 characters', () => {
       const input = {
-        vat_number: '12345678901',
+        vat_number: '12345678903',
         email: 'test@example.com',
         password: 'Pass1!',
         business_name: 'Test',
@@ -201,7 +213,7 @@ describe('MerchantCreateInputSchema', () => {
   describe('name fields refinement', () => {
     it('should accept business_name only', () => {
       const input = {
-        vat_number: '12345678901',
+        vat_number: '12345678903',
         email: 'test@example.com',
         password: 'Password1!@#',
         business_name: 'My Business',
@@ -213,7 +225,7 @@ describe('MerchantCreateInputSchema', () => {
 
     it('should accept first_name and last_name only', () => {
       const input = {
-        vat_number: '12345678901',
+        vat_number: '12345678903',
         email: 'test@example.com',
         password: 'Password1!@#',
         first_name: 'Mario',
@@ -226,7 +238,7 @@ describe('MerchantCreateInputSchema', () => {
 
     it('should reject both business_name and personal names', () => {
       const input = {
-        vat_number: '12345678901',
+        vat_number: '12345678903',
         email: 'test@example.com',
         password: 'Password1!@#',
         business_name: 'Business',
@@ -239,7 +251,7 @@ describe('MerchantCreateInputSchema', () => {
 
     it('should reject when no name is provided', () => {
       const input = {
-        vat_number: '12345678901',
+        vat_number: '12345678903',
         email: 'test@example.com',
         password: 'Password1!@#',
       };
@@ -250,7 +262,7 @@ describe('MerchantCreateInputSchema', () => {
 
     it('should accept first_name only', () => {
       const input = {
-        vat_number: '12345678901',
+        vat_number: '12345678903',
         email: 'test@example.com',
         password: 'Password1!@#',
         first_name: 'Mario',
@@ -264,7 +276,7 @@ describe('MerchantCreateInputSchema', () => {
   describe('address validation', () => {
     it('should accept valid address', () => {
       const input = {
-        vat_number: '12345678901',
+        vat_number: '12345678903',
         email: 'test@example.com',
         password: 'Password1!@#',
         business_name: 'Test',
@@ -277,7 +289,7 @@ describe('MerchantCreateInputSchema', () => {
 
     it('should accept missing address (optional)', () => {
       const input = {
-        vat_number: '12345678901',
+        vat_number: '12345678903',
         email: 'test@example.com',
         password: 'Password1!@#',
         business_name: 'Test',
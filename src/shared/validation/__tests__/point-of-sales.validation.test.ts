@@ -97,12 +97,18 @@ describe('AddressSchema', () => {
       const result = AddressSchema.safeParse(input);
       expect(result.success).toBe(false);
     });
+
+    it('should reject unknown province codes', () => {
+      const input = { ...validAddress, province: 'XX' };
+      const result = AddressSchema.safeParse(input);
+      expect(result.success).toBe(false);
+    });
   });
 });
 
 describe('PEMStatusSchema', () => {
   it('should accept all valid PEM status options', () => {
-    expect(PEM_STATUS_OPTIONS).toHaveLength(6);
+    expect(PEM_STATUS_OPTIONS).toHaveLength(7);
 
     for (const status of PEM_STATUS_OPTIONS) {
       const result = PEMStatusSchema.safeParse(status);
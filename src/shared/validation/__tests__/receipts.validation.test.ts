@@ -127,7 +127,7 @@ describe('ReceiptItemSchema', () => {
       vat_rate_code: '22.00',
       simplified_vat_allocation: true,
       discount: '5.00',
-      is_down_payment_or_voucher_redemption: false,
+      prepaid_or_voucher: false,
       complimentary: false,
     };
 
@@ -264,9 +264,9 @@ describe('ReceiptInputSchema', () => {
   it('should reject when both customer_tax_code and customer_lottery_code are provided (refinement 2)', () => {
     const input = {
       items: [validItem],
-      cash_payment_amount: '100.00',
+      electronic_payment_amount: '100.00',
       customer_tax_code: 'RSSMRA80A01H501U',
-      customer_lottery_code: 'LOTTERY123',
+      customer_lottery_code: 'ABCD1234',
     };
 
     const result = ReceiptInputSchema.safeParse(input);
@@ -286,11 +286,23 @@ describe('ReceiptInputSchema', () => {
     expect(result.success).toBe(true);
   });
 
-  it('should accept receipt with only customer_lottery_code', () => {
+  it('should reject customer_tax_code with a wrong check character', () => {
     const input = {
       items: [validItem],
       cash_payment_amount: '100.00',
-      customer_lottery_code: 'LOTTERY123',
+      customer_tax_code: 'RSSMRA80A01H501A',
+    };
+
+    const result = ReceiptInputSchema.safeParse(input);
+
+    expect(result.success).toBe(false);
+  });
+
+  it('should accept receipt with only customer_lottery_code', () => {
+    const input = {
+      items: [validItem],
+      electronic_payment_amount: '100.00',
+      customer_lottery_code: 'ABCD1234',
     };
 
     const result = ReceiptInputSchema.safeParse(input);
@@ -298,6 +310,34 @@ describe('ReceiptInputSchema', () => {
     expect(result.success).toBe(true);
   });
 
+  it('should reject customer_lottery_code with an invalid format', () => {
+    const input = {
+      items: [validItem],
+      electronic_payment_amount: '100.00',
+      customer_lottery_code: 'LOTTERY123',
+    };
+
+    const result = ReceiptInputSchema.safeParse(input);
+
+    expect(result.success).toBe(false);
+  });
+
+  it('should reject customer_lottery_code on receipts not paid entirely by electronic payment', () => {
+    const cashOnly = {
+      items: [validItem],
+      cash_payment_amount: '100.00',
+      customer_lottery_code: 'ABCD1234',
+    };
+    const mixed = { ...cashOnly, cash_payment_amount: '50.00', electronic_payment_amount: '50.00' };
+
+    const cashResult = ReceiptInputSchema.safeParse(cashOnly);
+    const mixedResult = ReceiptInputSchema.safeParse(mixed);
+
+    expect(cashResult.success).toBe(false);
+    expect(cashResult.error?.issues[0]?.message).toBe('lotteryCodeRequiresElectronicPayment');
+    expect(mixedResult.success).toBe(false);
+  });
+
   it('should reject receipt with empty items array', () => {
     const input = {
       items: [],
@@ -330,7 +370,7 @@ describe('ReceiptInputSchema', () => {
       electronic_payment_amount: '50.00',
       discount: '10.00',
       invoice_issuing: true,
-      uncollected_dcr_to_ssn: false,
+      uncollected_dcn_to_ssn: false,
       services_uncollected_amount: '0.00',
       goods_uncollected_amount: '0.00',
       ticket_restaurant_payment_amount: null,
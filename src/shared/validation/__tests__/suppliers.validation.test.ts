@@ -12,7 +12,7 @@ describe('SupplierCreateInputSchema', () => {
   describe('fiscal_id validation', () => {
     it('should accept valid 11-digit Partita IVA', () => {
       const input = {
-        fiscal_id: '12345678901',
+        fiscal_id: '12345678903',
         name: 'Supplier Company',
       };
 
@@ -75,7 +75,7 @@ describe('SupplierCreateInputSchema', () => {
   describe('name validation', () => {
     it('should accept valid name', () => {
       const input = {
-        fiscal_id: '12345678901',
+        fiscal_id: '12345678903',
         name: 'Test Supplier Company',
       };
 
@@ -85,7 +85,7 @@ describe('SupplierCreateInputSchema', () => {
 
     it('should reject empty name', () => {
       const input = {
-        fiscal_id: '12345678901',
+        fiscal_id: '12345678903',
         name: '',
       };
 
@@ -95,7 +95,7 @@ describe('SupplierCreateInputSchema', () => {
 
     it('should reject name over 200 characters', () => {
       const input = {
-        fiscal_id: '12345678901',
+        fiscal_id: '12345678903',
         name: 'a'.repeat(201),
       };
 
@@ -105,7 +105,7 @@ describe('SupplierCreateInputSchema', () => {
 
     it('should accept name with exactly 200 characters', () => {
       const input = {
-        fiscal_id: '12345678901',
+        fiscal_id: '12345678903',
         name: 'a'.repeat(200),
       };
 
@@ -117,7 +117,7 @@ describe('SupplierCreateInputSchema', () => {
   describe('address validation', () => {
     it('should accept valid address', () => {
       const input = {
-        fiscal_id: '12345678901',
+        fiscal_id: '12345678903',
         name: 'Test',
         address: validAddress,
       };
@@ -128,7 +128,7 @@ describe('SupplierCreateInputSchema', () => {
 
     it('should accept missing address (optional)', () => {
       const input = {
-        fiscal_id: '12345678901',
+        fiscal_id: '12345678903',
         name: 'Test',
       };
 
@@ -138,7 +138,7 @@ describe('SupplierCreateInputSchema', () => {
 
     it('should reject invalid address', () => {
       const input = {
-        fiscal_id: '12345678901',
+        fiscal_id: '12345678903',
         name: 'Test',
         address: {
           street_address: '',
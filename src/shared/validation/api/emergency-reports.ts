@@ -0,0 +1,46 @@
+import * as z from 'zod';
+
+import { VatRateCodeSchema } from './receipts';
+
+// Emergency Report Entry Schema (one entry per VAT rate)
+export const EmergencyReportEntrySchema = z.object({
+  vat_rate_code: VatRateCodeSchema.nullable().optional(),
+  vat_amount: z.string().nullable().optional(),
+  simplified_vat_allocation: z.boolean().optional(),
+  partial_amount: z.string().min(1, { error: 'fieldIsRequired' }),
+  total_returned_amount: z.string().nullable().optional(),
+  total_voided_amount: z.string().nullable().optional(),
+  total_prepaid_or_voucher_amount: z.string().nullable().optional(),
+  total_uncollected_services: z.string().nullable().optional(),
+  total_uncollected_invoiced: z.string().nullable().optional(),
+  total_uncollected_dcr_to_ssn: z.string().nullable().optional(),
+  total_uncollected_complimentary: z.string().nullable().optional(),
+  ateco_code: z.string().nullable().optional(),
+});
+
+// Emergency Report Input Schema
+export const EmergencyReportInputSchema = z.object({
+  datetime: z
+    .string()
+    .min(1, { error: 'fieldIsRequired' })
+    .refine((val) => !isNaN(Date.parse(val)), {
+      error: 'invalidDateFormat',
+    }),
+  documents_count: z.number().int().min(1, { error: 'documentsCountMinValue' }).optional(),
+  cash_payment_amount: z.string().optional(),
+  electronic_payment_amount: z.string().optional(),
+  ticket_restaurant_payment_amount: z.string().optional(),
+  ticket_restaurant_quantity: z.number().int().optional(),
+  entries: z.array(EmergencyReportEntrySchema).optional(),
+});
+
+// Emergency Reports List Parameters Schema
+export const EmergencyReportsParamsSchema = z.object({
+  page: z.number().min(1, { error: 'pageMinValue' }).optional(),
+  itemsPerPage: z.number().min(0).optional(),
+});
+
+// Type exports
+export type EmergencyReportEntryType = z.infer<typeof EmergencyReportEntrySchema>;
+export type EmergencyReportInputType = z.infer<typeof EmergencyReportInputSchema>;
+export type EmergencyReportsParamsType = z.infer<typeof EmergencyReportsParamsSchema>;
@@ -103,6 +103,16 @@ export {
   type DailyReportsParamsType,
 } from './daily-reports';
 
+// Emergency Reports schemas and types
+export {
+  EmergencyReportEntrySchema,
+  EmergencyReportInputSchema,
+  EmergencyReportsParamsSchema,
+  type EmergencyReportEntryType,
+  type EmergencyReportInputType,
+  type EmergencyReportsParamsType,
+} from './emergency-reports';
+
 // Notification schemas and types
 export {
   NotificationSchema,
@@ -148,8 +158,9 @@ export const ValidationMessages = {
   invalidDateFormat: 'Please enter a valid date',
   nameMaxLength: 'Name is too long',
   invalidFiscalId: 'Please enter a valid Italian fiscal ID (Codice Fiscale or Partita IVA)',
-  invalidVatNumber: 'Please enter a valid VAT number (11 digits)',
-  invalidFiscalCode: 'Please enter a valid fiscal code (11 digits)',
+  invalidVatNumber: 'Please enter a valid VAT number (11 digits with check digit)',
+  invalidFiscalCode: 'Please enter a valid fiscal code',
+  invalidProvince: 'Please enter a valid Italian province code',
   businessNameMaxLength: 'Business name is too long (max 200 characters)',
   businessNameOrPersonalNamesRequired:
     'Please provide either a business name or first/last name, but not both',
@@ -161,6 +172,10 @@ export const ValidationMessages = {
   pageMinValue: 'Page number must be at least 1',
   invalidDailyReportStatus: 'Daily report status must be one of: pending, sent, error',
   displayNameMaxLength: 'Display name is too long (max 255 characters)',
+  documentsCountMinValue: 'Documents count must be at least 1',
+  invalidLotteryCode: 'Lottery code must be 8 uppercase letters or digits',
+  lotteryCodeRequiresElectronicPayment:
+    'The lottery code can only be used with receipts paid entirely by electronic payment',
 } as const;
 
 // Validation helper functions
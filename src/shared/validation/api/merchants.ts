@@ -1,24 +1,17 @@
 import * as z from 'zod';
 
+import { PartitaIvaSchema, isValidPartitaIva } from '../fiscal';
 import { AddressSchema } from './point-of-sales';
 
-// VAT number validation regex (Partita IVA - 11 digits)
-const VAT_NUMBER_REGEX = /^\d{11}$/;
-
-// Fiscal code validation regex (Codice Fiscale - 11 digits only for merchants)
-const FISCAL_CODE_REGEX = /^\d{11}$/;
-
 // Password validation regex (from OpenAPI spec)
 const PASSWORD_REGEX = /^((?=.*[A-Z])(?=.*[a-z])(?=.*[0-9])(?=.*[!@#$%^&*])(?=.{10,}).*)$/;
 
 // Merchant Create Input Schema
 export const MerchantCreateInputSchema = z
   .object({
-    vat_number: z
-      .string()
-      .min(1, { error: 'fieldIsRequired' })
-      .regex(VAT_NUMBER_REGEX, { error: 'invalidVatNumber' }),
-    fiscal_code: z.string().regex(FISCAL_CODE_REGEX, { error: 'invalidFiscalCode' }).optional(),
+    vat_number: PartitaIvaSchema,
+    // Merchants are companies, so their codice fiscale is numeric and checked like a partita IVA
+    fiscal_code: z.string().refine(isValidPartitaIva, { error: 'invalidFiscalCode' }).optional(),
     business_name: z.string().max(200, { error: 'businessNameMaxLength' }).optional().nullable(),
     first_name: z.string().max(100, { error: 'firstNameMaxLength' }).optional().nullable(),
     last_name: z.string().max(100, { error: 'lastNameMaxLength' }).optional().nullable(),
@@ -1,5 +1,7 @@
 import * as z from 'zod';
 
+import { ProvinceCodeSchema, ZipCodeSchema } from '../fiscal';
+
 // Enum options arrays
 export const PEM_STATUS_OPTIONS = [
   'NEW',
@@ -8,22 +10,16 @@ export const PEM_STATUS_OPTIONS = [
   'ONLINE',
   'OFFLINE',
   'DISCARDED',
+  'ERROR',
 ] as const;
 
 // Address Schema (reusable)
 export const AddressSchema = z.object({
   street_address: z.string().min(1, { error: 'fieldIsRequired' }),
   street_number: z.string().min(1, { error: 'fieldIsRequired' }),
-  zip_code: z
-    .string()
-    .min(1, { error: 'fieldIsRequired' })
-    .regex(/^\d{5}$/, { error: 'invalidZipCode' }),
+  zip_code: ZipCodeSchema,
   city: z.string().min(1, { error: 'fieldIsRequired' }),
-  province: z
-    .string()
-    .min(2, { error: 'provinceMinLength' })
-    .max(2, { error: 'provinceMaxLength' })
-    .toUpperCase(),
+  province: ProvinceCodeSchema,
 });
 
 // PEM Status Schema
@@ -1,5 +1,8 @@
 import * as z from 'zod';
 
+import { FiscalIdSchema } from '../fiscal';
+import { LotteryCodeSchema } from '../lottery';
+
 // Enum options arrays
 export const VAT_RATE_CODE_OPTIONS = [
   '4.00',
@@ -43,10 +46,10 @@ export const ReceiptItemSchema = z.object({
   quantity: z.string().min(1, { error: 'fieldIsRequired' }),
   description: z.string().min(1, { error: 'fieldIsRequired' }),
   unit_price: z.string().min(1, { error: 'fieldIsRequired' }),
-  vat_rate_code: VatRateCodeSchema.optional(),
+  vat_rate_code: VatRateCodeSchema.nullable().optional(),
   simplified_vat_allocation: z.boolean().optional(),
   discount: z.string().nullable().optional(),
-  is_down_payment_or_voucher_redemption: z.boolean().optional(),
+  prepaid_or_voucher: z.boolean().optional(),
   complimentary: z.boolean().optional(),
 });
 
@@ -54,11 +57,11 @@ export const ReceiptItemSchema = z.object({
 export const ReceiptInputSchema = z
   .object({
     items: z.array(ReceiptItemSchema).min(1, { error: 'arrayMin1' }),
-    customer_tax_code: z.string().optional(),
-    customer_lottery_code: z.string().optional(),
+    customer_tax_code: FiscalIdSchema.optional(),
+    customer_lottery_code: LotteryCodeSchema.optional(),
     discount: z.string().nullable().optional(),
     invoice_issuing: z.boolean().optional(),
-    uncollected_dcr_to_ssn: z.boolean().optional(),
+    uncollected_dcn_to_ssn: z.boolean().optional(),
     services_uncollected_amount: z.string().nullable().optional(),
     goods_uncollected_amount: z.string().nullable().optional(),
     cash_payment_amount: z.string().nullable().optional(),
@@ -92,6 +95,20 @@ export const ReceiptInputSchema = z
       error: 'Only one between customer_tax_code and customer_lottery_code can be provided',
       path: ['customer_tax_code', 'customer_lottery_code'],
     }
+  )
+  .refine(
+    (data) => {
+      // the lottery only applies to receipts paid entirely by electronic payment
+      if (!data.customer_lottery_code) return true;
+      const hasElectronicPayment =
+        !!data.electronic_payment_amount && parseFloat(data.electronic_payment_amount) > 0;
+      const hasCashPayment = !!data.cash_payment_amount && parseFloat(data.cash_payment_amount) > 0;
+      return hasElectronicPayment && !hasCashPayment;
+    },
+    {
+      error: 'lotteryCodeRequiresElectronicPayment',
+      path: ['customer_lottery_code'],
+    }
   );
 
 // Receipt Return or Void via PEM Schema
@@ -100,7 +117,7 @@ export const ReceiptReturnOrVoidViaPEMInputSchema = z.object({
   items: z.array(ReceiptItemSchema).min(1, { error: 'arrayMin1' }),
   document_number: z.string().min(1, { error: 'fieldIsRequired' }),
   document_datetime: z.string().optional(),
-  lottery_code: z.string().optional(),
+  lottery_code: LotteryCodeSchema.optional(),
 });
 
 // Receipt Return or Void with Proof Schema
@@ -126,7 +143,7 @@ export const ReceiptReturnItemSchema = z
 
 // Receipt Return Schema
 export const ReceiptReturnInputSchema = z.object({
-  items: z.array(ReceiptReturnItemSchema).min(1, { error: 'arrayMin1' }),
+  items: ReceiptReturnItemSchema,
   document_number: z.string().min(1, { error: 'fieldIsRequired' }),
 });
 
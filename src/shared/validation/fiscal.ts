@@ -0,0 +1,125 @@
+import * as z from 'zod';
+
+// Omocodia replaces digits with these letters when two people share the same code
+const OMOCODIA_LETTERS = 'LMNPQRSTUV';
+
+const CODICE_FISCALE_REGEX =
+  /^[A-Z]{6}[0-9LMNPQRSTUV]{2}[ABCDEHLMPRST][0-9LMNPQRSTUV]{2}[A-Z][0-9LMNPQRSTUV]{3}[A-Z]$/;
+
+const PARTITA_IVA_REGEX = /^\d{11}$/;
+
+const ZIP_CODE_REGEX = /^\d{5}$/;
+
+// Values of the characters in odd positions (1st, 3rd, ...) for the codice fiscale check character
+const ODD_POSITION_VALUES = [
+  1, 0, 5, 7, 9, 13, 15, 17, 19, 21, 2, 4, 18, 20, 11, 3, 6, 8, 12, 14, 16, 10, 22, 25, 24, 23,
+];
+
+// Lowest and highest CAP assigned by Poste Italiane
+const MIN_ZIP_CODE = 10;
+const MAX_ZIP_CODE = 98168;
+
+// prettier-ignore
+export const ITALIAN_PROVINCE_CODES = [
+  'AG', 'AL', 'AN', 'AO', 'AP', 'AQ', 'AR', 'AT', 'AV', 'BA', 'BG', 'BI', 'BL', 'BN', 'BO',
+  'BR', 'BS', 'BT', 'BZ', 'CA', 'CB', 'CE', 'CH', 'CL', 'CN', 'CO', 'CR', 'CS', 'CT', 'CZ',
+  'EN', 'FC', 'FE', 'FG', 'FI', 'FM', 'FR', 'GE', 'GO', 'GR', 'IM', 'IS', 'KR', 'LC', 'LE',
+  'LI', 'LO', 'LT', 'LU', 'MB', 'MC', 'ME', 'MI', 'MN', 'MO', 'MS', 'MT', 'NA', 'NO', 'NU',
+  'OR', 'PA', 'PC', 'PD', 'PE', 'PG', 'PI', 'PN', 'PO', 'PR', 'PT', 'PU', 'PV', 'PZ', 'RA',
+  'RC', 'RE', 'RG', 'RI', 'RM', 'RN', 'RO', 'SA', 'SI', 'SO', 'SP', 'SR', 'SS', 'SU', 'SV',
+  'TA', 'TE', 'TN', 'TO', 'TP', 'TR', 'TS', 'TV', 'UD', 'VA', 'VB', 'VC', 'VE', 'VI', 'VR',
+  'VT', 'VV',
+] as const;
+
+export type ItalianProvinceCode = (typeof ITALIAN_PROVINCE_CODES)[number];
+
+function characterValue(char: string): number {
+  return char >= '0' && char <= '9' ? Number(char) : char.charCodeAt(0) - 65;
+}
+
+function decodeOmocodia(char: string): string {
+  const index = OMOCODIA_LETTERS.indexOf(char);
+  return index === -1 ? char : String(index);
+}
+
+/**
+ * Validates a 16-character codice fiscale (persone fisiche), including omocodia variants,
+ * the day of birth (41-71 for women) and the check character. Expects uppercase input.
+ */
+export function isValidCodiceFiscale(value: string): boolean {
+  if (!CODICE_FISCALE_REGEX.test(value)) return false;
+
+  const day = Number(decodeOmocodia(value[9]!) + decodeOmocodia(value[10]!));
+  if (!((day >= 1 && day <= 31) || (day >= 41 && day <= 71))) return false;
+
+  let sum = 0;
+  for (let i = 0; i < 15; i++) {
+    const charValue = characterValue(value[i]!);
+    sum += i % 2 === 0 ? ODD_POSITION_VALUES[charValue]! : charValue;
+  }
+  return String.fromCharCode(65 + (sum % 26)) === value[15];
+}
+
+/**
+ * Validates an 11-digit partita IVA (also used as codice fiscale by companies) with the
+ * Luhn-style check digit defined by the Agenzia delle Entrate.
+ */
+export function isValidPartitaIva(value: string): boolean {
+  if (!PARTITA_IVA_REGEX.test(value) || /^0{7}/.test(value)) return false;
+
+  let sum = 0;
+  for (let i = 0; i < 10; i++) {
+    let digit = Number(value[i]);
+    if (i % 2 === 1) {
+      digit *= 2;
+      if (digit > 9) digit -= 9;
+    }
+    sum += digit;
+  }
+  return (10 - (sum % 10)) % 10 === Number(value[10]);
+}
+
+/** Accepts either a codice fiscale of a natural person or an 11-digit partita IVA */
+export function isValidFiscalId(value: string): boolean {
+  return value.length === 11 ? isValidPartitaIva(value) : isValidCodiceFiscale(value);
+}
+
+/** Validates an Italian CAP: 5 digits in the range assigned by Poste Italiane */
+export function isValidZipCode(value: string): boolean {
+  if (!ZIP_CODE_REGEX.test(value)) return false;
+  const zipCode = Number(value);
+  return zipCode >= MIN_ZIP_CODE && zipCode <= MAX_ZIP_CODE;
+}
+
+/** Validates a province code (sigla automobilistica), case insensitive */
+export function isValidProvinceCode(value: string): value is ItalianProvinceCode {
+  return (ITALIAN_PROVINCE_CODES as readonly string[]).includes(value.toUpperCase());
+}
+
+// Zod refinements, reusable in the API schemas
+export const CodiceFiscaleSchema = z
+  .string()
+  .min(1, { error: 'fieldIsRequired' })
+  .refine(isValidCodiceFiscale, { error: 'invalidFiscalCode' });
+
+export const PartitaIvaSchema = z
+  .string()
+  .min(1, { error: 'fieldIsRequired' })
+  .refine(isValidPartitaIva, { error: 'invalidVatNumber' });
+
+export const FiscalIdSchema = z
+  .string()
+  .min(1, { error: 'fieldIsRequired' })
+  .refine(isValidFiscalId, { error: 'invalidFiscalId' });
+
+export const ZipCodeSchema = z
+  .string()
+  .min(1, { error: 'fieldIsRequired' })
+  .refine(isValidZipCode, { error: 'invalidZipCode' });
+
+export const ProvinceCodeSchema = z
+  .string()
+  .min(2, { error: 'provinceMinLength' })
+  .max(2, { error: 'provinceMaxLength' })
+  .refine((value) => isValidProvinceCode(value), { error: 'invalidProvince' })
+  .toUpperCase();
@@ -1 +1,3 @@
 export * from './schemas';
+export * from './fiscal';
+export * from './lottery';
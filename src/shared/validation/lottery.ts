@@ -0,0 +1,36 @@
+import * as z from 'zod';
+
+// Codice lotteria: 8 uppercase letters or digits, as printed on the customer's barcode
+const LOTTERY_CODE_REGEX = /^[A-Z0-9]{8}$/;
+
+// Symbology identifier some scanners prepend to the barcode content (e.g. "]C0" for Code 128)
+const AIM_IDENTIFIER_REGEX = /^\][A-Za-z][0-9A-Za-z]/;
+
+/** Checks the Lotteria degli Scontrini code format: 8 uppercase alphanumeric characters */
+export function isValidLotteryCode(value: string): boolean {
+  return LOTTERY_CODE_REGEX.test(value);
+}
+
+/**
+ * Turns the raw output of a barcode scanner into a lottery code: strips the symbology
+ * identifier, whitespace and separators and uppercases the rest.
+ * Returns `null` when the result is not a valid lottery code.
+ *
+ * @example
+ * ```typescript
+ * normalizeLotteryCode(']C0abcd 1234\r\n'); // 'ABCD1234'
+ * ```
+ */
+export function normalizeLotteryCode(scanned: string): string | null {
+  const code = scanned
+    .trim()
+    .replace(AIM_IDENTIFIER_REGEX, '')
+    .replace(/[^0-9A-Za-z]/g, '')
+    .toUpperCase();
+  return isValidLotteryCode(code) ? code : null;
+}
+
+export const LotteryCodeSchema = z
+  .string()
+  .min(1, { error: 'fieldIsRequired' })
+  .refine(isValidLotteryCode, { error: 'invalidLotteryCode' });